@@ -18,8 +18,14 @@ import { SmsControlsTab }         from '@/components/admin/tabs/SmsControlsTab';
 import { AdPerformanceTab }       from '@/components/admin/tabs/AdPerformanceTab';
 import { ClientManagementTab }    from '@/components/admin/tabs/ClientManagementTab';
 import { AttorneyInquiriesTab }   from '@/components/admin/tabs/AttorneyInquiriesTab';
+import { ValuationTab }           from '@/components/admin/tabs/ValuationTab';
+import { ScoringTab }             from '@/components/admin/tabs/ScoringTab';
+import { RetargetingTab }         from '@/components/admin/tabs/RetargetingTab';
+import { FunnelTab }              from '@/components/admin/tabs/FunnelTab';
+import { DuplicatesTab }          from '@/components/admin/tabs/DuplicatesTab';
+import { ExitRoutesTab }          from '@/components/admin/tabs/ExitRoutesTab';
 
-type Tab = 'pipeline' | 'leads' | 'sms' | 'ads' | 'clients' | 'attorneys';
+type Tab = 'pipeline' | 'leads' | 'sms' | 'ads' | 'clients' | 'attorneys' | 'valuation' | 'scoring' | 'retargeting' | 'funnel' | 'duplicates' | 'exits';
 
 const NAV_ITEMS: { id: Tab; icon: string; label: string }[] = [
   { id: 'pipeline',  icon: '📊', label: 'Pipeline'          },
@@ -28,6 +34,12 @@ const NAV_ITEMS: { id: Tab; icon: string; label: string }[] = [
   { id: 'ads',       icon: '📈', label: 'Ad Performance'    },
   { id: 'clients',   icon: '🏢', label: 'Clients'           },
   { id: 'attorneys', icon: '⚖️', label: 'Attorney Inquiries' },
+  { id: 'valuation', icon: '🧮', label: 'Valuation'         },
+  { id: 'scoring',   icon: '🎯', label: 'Lead Scoring'      },
+  { id: 'retargeting', icon: '🔁', label: 'Retargeting'     },
+  { id: 'funnel',    icon: '🪜', label: 'Funnel'            },
+  { id: 'duplicates', icon: '👥', label: 'Duplicates'       },
+  { id: 'exits',     icon: '🚪', label: 'Exit Routes'       },
 ];
 
 export default function AdminPage() {
@@ -124,6 +136,12 @@ export default function AdminPage() {
             {tab === 'ads'       && <AdPerformanceTab />}
             {tab === 'clients'   && <ClientManagementTab />}
             {tab === 'attorneys' && <AttorneyInquiriesTab />}
+            {tab === 'valuation' && <ValuationTab />}
+            {tab === 'scoring'   && <ScoringTab />}
+            {tab === 'retargeting' && <RetargetingTab onViewLead={viewLead} />}
+            {tab === 'funnel'    && <FunnelTab />}
+            {tab === 'duplicates' && <DuplicatesTab onViewLead={viewLead} />}
+            {tab === 'exits'     && <ExitRoutesTab />}
           </motion.div>
         </AnimatePresence>
       </main>
@@ -0,0 +1,99 @@
+/**
+ * GET  /api/admin/duplicates — open duplicate groups (2+ unmerged records),
+ *                              newest activity first, with the record the
+ *                              merge would keep.
+ * POST /api/admin/duplicates — merge a group.
+ *
+ * POST Body:  { groupId: string, keepId?: string }   (keepId defaults to the best record)
+ *
+ * Response 200 (GET):  { groups: DuplicateGroupRow[] }
+ * Response 200 (POST): { primaryId: string, merged: string[] }
+ * Response 400: { error: 'invalid_input' | 'merge_failed', message: string }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { pickPrimary } from '@/lib/leads/duplicates';
+import { mergeDuplicateGroup } from '@/lib/leads/duplicateStore';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+
+function verifyAdmin(req: NextRequest): boolean {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string };
+    return p.role === 'admin';
+  } catch { return false; }
+}
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const snap  = await adminDb.collection('leads').where('duplicate_group', '!=', null).get();
+  const open  = snap.docs
+    .map(d => ({ id: d.id, ...d.data() } as FsLead & { id: string }))
+    .filter(l => !l.merged_into);
+
+  const byGroup = new Map<string, (FsLead & { id: string })[]>();
+  for (const l of open) {
+    const key = l.duplicate_group as string;
+    byGroup.set(key, [...(byGroup.get(key) ?? []), l]);
+  }
+
+  const groups = [...byGroup.entries()]
+    .filter(([, leads]) => leads.length >= 2)
+    .map(([groupId, leads]) => ({
+      groupId,
+      primaryId: pickPrimary(leads).id,
+      latest:    Math.max(...leads.map(l => l.timestamp)),
+      leads:     leads
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(l => ({
+          id:                l.id,
+          name:              l.name,
+          phone:             l.phone,
+          email:             l.email,
+          state:             l.state,
+          source:            l.source,
+          score:             l.score,
+          tier:              l.tier,
+          verified:          l.verified,
+          delivered:         l.delivered,
+          timestamp:         l.timestamp,
+          duplicate_reasons: l.duplicate_reasons ?? [],
+        })),
+    }))
+    .sort((a, b) => b.latest - a.latest);
+
+  return NextResponse.json({ groups });
+}
+
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try { body = await req.json(); }
+  catch { return NextResponse.json({ error: 'invalid_input', message: 'Invalid JSON.' }, { status: 400 }); }
+
+  const { groupId, keepId } = body;
+  if (typeof groupId !== 'string' || !groupId) {
+    return NextResponse.json({ error: 'invalid_input', message: 'groupId is required.' }, { status: 400 });
+  }
+
+  try {
+    const result = await mergeDuplicateGroup(groupId, typeof keepId === 'string' && keepId ? keepId : undefined);
+    return NextResponse.json(result);
+  } catch (err: unknown) {
+    return NextResponse.json(
+      { error: 'merge_failed', message: err instanceof Error ? err.message : 'Merge failed.' },
+      { status: 400 },
+    );
+  }
+}
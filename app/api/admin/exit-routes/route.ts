@@ -0,0 +1,78 @@
+/**
+ * GET  /api/admin/exit-routes  — the active exit routes and the last 30 days
+ *                                of exits and offer clicks
+ * POST /api/admin/exit-routes  — replace the exit routes
+ *
+ * POST body: { routes: ExitRoutes }   (see lib/quiz/exitRoutes.ts)
+ *
+ * Response 200 (GET):  { routes: ExitRoutes, report: ExitReasonReport[], updatedAt: number | null, updatedBy: string | null }
+ * Response 200 (POST): { routes: ExitRoutes }
+ * Response 400: { error: 'invalid_input', message: string }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsExitRoutes } from '@/lib/firebase/types';
+import { exitReport, exitRoutesError, toExitRoutes } from '@/lib/quiz/exitRoutes';
+import type { ExitReason, ExitRoutes } from '@/lib/quiz/exitRoutes';
+import { getActiveExitRoutes, listExitEvents, saveExitRoutes } from '@/lib/quiz/exitRoutesStore';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+const REPORT_MS  = 30 * 24 * 60 * 60 * 1_000;
+
+/** Admin username from the bearer token, or null when not an admin. */
+function verifyAdmin(req: NextRequest): string | null {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string; username?: string };
+    return p.role === 'admin' ? (p.username ?? 'admin') : null;
+  } catch { return null; }
+}
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const [routes, saved, events] = await Promise.all([
+    getActiveExitRoutes(),
+    adminDb.collection('exit_routes').doc('current').get(),
+    listExitEvents(Date.now() - REPORT_MS),
+  ]);
+  const meta = saved.exists ? (saved.data() as FsExitRoutes) : null;
+
+  const report = exitReport(events.map(e => ({
+    sessionId: e.session_id,
+    reason:    e.reason as ExitReason,
+    action:    e.action as 'shown' | 'clicked',
+    offerId:   e.offer_id,
+    offerIds:  e.offer_ids ?? [],
+  })));
+
+  return NextResponse.json({
+    routes,
+    report,
+    updatedAt: meta?.updated_at ?? null,
+    updatedBy: meta?.updated_by ?? null,
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const admin = verifyAdmin(req);
+  if (!admin) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try { body = await req.json(); }
+  catch { return NextResponse.json({ error: 'invalid_json', message: 'Invalid JSON.' }, { status: 400 }); }
+
+  const error = exitRoutesError(body.routes);
+  if (error) return NextResponse.json({ error: 'invalid_input', message: error }, { status: 400 });
+
+  const routes = toExitRoutes(body.routes as ExitRoutes);
+  await saveExitRoutes(routes, admin);
+  return NextResponse.json({ routes });
+}
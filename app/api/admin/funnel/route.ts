@@ -0,0 +1,71 @@
+/**
+ * GET /api/admin/funnel
+ *
+ * Funnel report — completion and per-step drop-off for one source.
+ * Query params:
+ *   source – quiz | widget (default quiz)
+ *   from   – YYYY-MM-DD, inclusive (default 30 days ago)
+ *   to     – YYYY-MM-DD, inclusive (default today)
+ *
+ * Response 200: { report: FunnelReport, from, to }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsFunnelEvent } from '@/lib/firebase/types';
+import { funnelReport } from '@/lib/analytics/funnel';
+import type { FunnelEvent, FunnelSource } from '@/lib/analytics/funnel';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+const DAY_MS     = 24 * 60 * 60 * 1_000;
+
+function verifyAdmin(req: NextRequest): boolean {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string };
+    return p.role === 'admin';
+  } catch { return false; }
+}
+
+const isoDay = (ms: number) => new Date(ms).toISOString().split('T')[0];
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const { searchParams } = new URL(req.url);
+  const source: FunnelSource = searchParams.get('source') === 'widget' ? 'widget' : 'quiz';
+  const from   = searchParams.get('from') || isoDay(Date.now() - 29 * DAY_MS);
+  const to     = searchParams.get('to')   || isoDay(Date.now());
+  const fromMs = Date.parse(`${from}T00:00:00Z`);
+  const toMs   = Date.parse(`${to}T00:00:00Z`) + DAY_MS;
+
+  if (Number.isNaN(fromMs) || Number.isNaN(toMs) || fromMs >= toMs) {
+    return NextResponse.json({ error: 'invalid_input', message: 'Invalid date range.' }, { status: 400 });
+  }
+
+  const snap = await adminDb.collection('funnel_events')
+    .where('timestamp', '>=', fromMs)
+    .where('timestamp', '<', toMs)
+    .get();
+
+  const events: FunnelEvent[] = snap.docs.map(d => {
+    const e = d.data() as FsFunnelEvent;
+    return {
+      sessionId: e.session_id,
+      source:    e.source as FunnelSource,
+      type:      e.type as FunnelEvent['type'],
+      step:      e.step,
+      value:     e.value,
+      detail:    e.detail,
+      timestamp: e.timestamp,
+    };
+  });
+
+  return NextResponse.json({ report: funnelReport(events, source), from, to });
+}
@@ -12,6 +12,16 @@ import PDFDocument from 'pdfkit';
 import { adminDb } from '@/lib/firebase/admin';
 import type { FsLead } from '@/lib/firebase/types';
 import { formatCurrency } from '@/lib/estimator/logic';
+import { coverageTierLabel } from '@/lib/estimator/coverage';
+import { formatInjuryTypes } from '@/lib/estimator/injuries';
+import { valuationVersionLabel } from '@/lib/estimator/valuation';
+import { SCORE_FACTOR_LABELS } from '@/lib/quiz/scoring';
+import { scoreVersionLabel } from '@/lib/quiz/scoringRules';
+import { incidentDetails } from '@/lib/quiz/modules';
+import type { ScoreFactorId } from '@/lib/quiz/types';
+import { faultLabel } from '@/lib/legal/negligence';
+import { formatStatuteDeadline, statuteBasisLabel } from '@/lib/legal/statute';
+import { languageName } from '@/lib/i18n';
 
 const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
 
@@ -35,7 +45,7 @@ function urgencyLabel(u: string) {
   return map[u] ?? u;
 }
 
-function injuryLabel(t: string) {
+function injuryLabel(t: string | string[]) {
   const map: Record<string, string> = {
     soft_tissue: 'Soft Tissue (Sprains / Whiplash)',
     fracture:    'Broken Bone / Fracture',
@@ -43,7 +53,7 @@ function injuryLabel(t: string) {
     spinal:      'Spinal Cord Injury',
     other:       'Other / Multiple',
   };
-  return map[t] ?? t;
+  return formatInjuryTypes(t, map);
 }
 
 export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
@@ -91,7 +101,7 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
   // ── Lead tier + score summary ─────────────────────────────────────────────
   pdf.y = 134;
   pdf.font('Helvetica-Bold').fontSize(13).fillColor('#1A1A1A')
-    .text(`${lead.tier} — Score ${lead.score} / 150`, LEFT);
+    .text(`${lead.tier} — Score ${lead.score}`, LEFT);
   pdf.font('Helvetica').fontSize(11).fillColor('#444444')
     .text(
       `Estimated Value: ${formatCurrency(lead.estimate_low)} – ${formatCurrency(lead.estimate_high)}`,
@@ -123,15 +133,24 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
   row('Phone',           lead.phone);
   row('Email',           lead.email ?? 'Not provided');
   row('Source',          lead.source === 'quiz' ? 'Online Quiz' : 'Widget');
+  row('Language',        languageName(lead.preferred_language));
   row('Date Submitted',  new Date(lead.timestamp).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' }));
   row('Phone Verified',  bool(lead.verified));
 
   // ── Incident Details ──────────────────────────────────────────────────────
   sectionHeader('Incident Details');
-  row('Injury Type',         injuryLabel(lead.injury_type));
+  for (const d of incidentDetails(lead)) row(d.label, d.value);
+  row('Injuries',            injuryLabel(lead.injury_type));
   row('State',               lead.state ?? 'Not specified');
   row('Incident Timeframe',  lead.incident_timeframe ?? 'Not specified');
-  row('At Fault',            bool(lead.at_fault));
+  row('At Fault',            faultLabel(lead.fault_level, lead.state, lead.at_fault));
+
+  // ── Statute of Limitations ────────────────────────────────────────────────
+  sectionHeader('Statute of Limitations');
+  row('Government Defendant', bool(!!lead.government_defendant));
+  row('Filing Deadline (est.)', formatStatuteDeadline(lead.statute_deadline, lead.statute_days_remaining));
+  row('Rule Applied',         statuteBasisLabel(lead.statute_basis));
+  row('Statute Warning',      lead.statute_warning ? 'YES — time-sensitive' : 'No');
 
   // ── Medical & Treatment ───────────────────────────────────────────────────
   sectionHeader('Medical and Treatment');
@@ -150,8 +169,19 @@ export async function GET(req: NextRequest, { params }: { params: { id: string }
   // ── Settlement Estimate ───────────────────────────────────────────────────
   sectionHeader('Settlement Estimate');
   row('Estimated Range',  `${formatCurrency(lead.estimate_low)} – ${formatCurrency(lead.estimate_high)}`);
-  row('Lead Score',       `${lead.score} / 150`);
+  row('Valuation Table',  valuationVersionLabel(lead.valuation_version));
+  if (lead.collectible_low != null && lead.collectible_high != null) {
+    row('Collectible Range', `${formatCurrency(lead.collectible_low)} – ${formatCurrency(lead.collectible_high)}${lead.coverage_capped ? '  (capped by coverage)' : ''}`);
+  }
+  row('Coverage Limit',   lead.coverage_limit != null ? formatCurrency(lead.coverage_limit) : 'No known cap');
+  row('At-Fault Coverage', coverageTierLabel(lead.at_fault_coverage));
+  row('UM/UIM Coverage',  coverageTierLabel(lead.um_coverage));
+  row('Lead Score',       `${lead.score} pts`);
   row('Tier',             lead.tier);
+  row('Scoring Rules',    scoreVersionLabel(lead.score_version));
+  for (const [id, points] of Object.entries(lead.score_contributions ?? {})) {
+    row(`  ${SCORE_FACTOR_LABELS[id as ScoreFactorId] ?? id}`, `+${points}`);
+  }
 
   // ── Lead Status ───────────────────────────────────────────────────────────
   sectionHeader('Lead Status');
@@ -1,6 +1,7 @@
 /**
  * GET  /api/admin/leads/[id]  — Full lead detail
- * POST /api/admin/leads/[id]  — Update lead fields (tier, disputed, replaced, delivered, client_id, score)
+ * POST /api/admin/leads/[id]  — Update lead fields (tier, disputed, replaced, delivered, client_id, score,
+ *                                quality_hold — false releases a lead held by lib/leads/quality.ts)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -35,7 +36,7 @@ export async function POST(req: NextRequest, { params }: { params: { id: string
     return NextResponse.json({ error: 'invalid_json' }, { status: 400 });
   }
 
-  const ALLOWED = ['tier', 'disputed', 'replaced', 'delivered', 'client_id', 'score'];
+  const ALLOWED = ['tier', 'disputed', 'replaced', 'delivered', 'client_id', 'score', 'quality_hold'];
   const updates: Record<string, unknown> = {};
 
   for (const key of ALLOWED) {
@@ -72,6 +72,7 @@ export async function GET(req: NextRequest) {
     tier:                l.tier,
     verified:            l.verified,
     source:              l.source,
+    touchpoints:         l.touchpoints ?? [l.source],
     timestamp:           l.timestamp,
     delivered:           l.delivered,
     disputed:            l.disputed,
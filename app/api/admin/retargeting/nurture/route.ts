@@ -0,0 +1,41 @@
+/**
+ * POST /api/admin/retargeting/nurture
+ *
+ * Runs the nurture job — emails every partial lead whose next reminder is
+ * due. Safe to call repeatedly (e.g. hourly from a scheduler); leads only
+ * get each reminder once.
+ *
+ * Response 200: { nurture: { scanned, sent, failed } }
+ * Response 503: { error: 'unavailable', message } when Gmail is not configured
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { sendDueReminders } from '@/lib/leads/nurture';
+import { siteUrl } from '@/lib/siteUrl';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+
+function verifyAdmin(req: NextRequest): boolean {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string };
+    return p.role === 'admin';
+  } catch { return false; }
+}
+
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  if (!process.env.GMAIL_USER || !process.env.GMAIL_APP_PASSWORD) {
+    return NextResponse.json({ error: 'unavailable', message: 'Gmail is not configured.' }, { status: 503 });
+  }
+
+  const nurture = await sendDueReminders(siteUrl());
+  return NextResponse.json({ nurture });
+}
@@ -0,0 +1,62 @@
+/**
+ * GET /api/admin/retargeting
+ *
+ * The retargeting queue: partial leads (verified: false), newest first,
+ * plus counts of reachable, nurtured and recovered leads.
+ *
+ * Response 200: { leads: PartialLeadRow[], summary: RetargetingSummary }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { nextNurtureAt, retargetingSummary } from '@/lib/leads/partial';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+
+function verifyAdmin(req: NextRequest): boolean {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string };
+    return p.role === 'admin';
+  } catch { return false; }
+}
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const [partialSnap, nurturedSnap] = await Promise.all([
+    adminDb.collection('leads').where('verified', '==', false).get(),
+    adminDb.collection('leads').where('nurture_count', '>', 0).get(),
+  ]);
+
+  const partial   = partialSnap.docs.map(d => ({ id: d.id, ...d.data() } as FsLead & { id: string }));
+  const recovered = nurturedSnap.docs.map(d => d.data() as FsLead).filter(l => l.verified);
+
+  const leads = partial
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(l => ({
+      id:              l.id,
+      name:            l.name,
+      phone:           l.phone,
+      email:           l.email,
+      source:          l.source,
+      state:           l.state,
+      score:           l.score,
+      tier:            l.tier,
+      estimate_low:    l.estimate_low,
+      estimate_high:   l.estimate_high,
+      timestamp:       l.timestamp,
+      nurture_count:   l.nurture_count ?? 0,
+      last_nurture_at: l.last_nurture_at ?? null,
+      next_nurture_at: nextNurtureAt(l),
+    }));
+
+  return NextResponse.json({ leads, summary: retargetingSummary([...partial, ...recovered]) });
+}
@@ -0,0 +1,36 @@
+/**
+ * POST /api/admin/scoring/rescore
+ *
+ * Re-runs the rescoring job with the active rules — recomputes score, tier
+ * and contributions for every undelivered quiz lead. Publishing new rules
+ * already runs it; this is for retries and one-off corrections.
+ *
+ * Response 200: { rescore: { version, scanned, updated } }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { getActiveScoringRules, rescoreUndeliveredLeads } from '@/lib/quiz/scoringRulesStore';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+
+function verifyAdmin(req: NextRequest): boolean {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string };
+    return p.role === 'admin';
+  } catch { return false; }
+}
+
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const rules   = await getActiveScoringRules();
+  const rescore = await rescoreUndeliveredLeads(rules);
+  return NextResponse.json({ rescore });
+}
@@ -0,0 +1,77 @@
+/**
+ * GET  /api/admin/scoring  — active rules + every published version
+ * POST /api/admin/scoring  — publish new rules, make them active, and
+ *                            rescore undelivered quiz leads
+ *
+ * POST body: { weights: Record<ScoreFactorId, number>, lostWagesThreshold,
+ *              hotThreshold, warmThreshold, note }
+ *
+ * Response 201: { version: FsScoringRules, rescore: RescoreResult }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import {
+  getActiveScoringRules,
+  listScoringRules,
+  publishScoringRules,
+  rescoreUndeliveredLeads,
+  toScoringRules,
+} from '@/lib/quiz/scoringRulesStore';
+import { scoringRulesError, toScoringRulesDraft } from '@/lib/quiz/scoringRules';
+import type { ScoringRulesDraft } from '@/lib/quiz/scoringRules';
+import { DEFAULT_SCORING_RULES, SCORE_FACTOR_LABELS } from '@/lib/quiz/scoring';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+
+/** Admin username from the bearer token, or null when not an admin. */
+function verifyAdmin(req: NextRequest): string | null {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string; username?: string };
+    return p.role === 'admin' ? (p.username ?? 'admin') : null;
+  } catch { return null; }
+}
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const [active, versions] = await Promise.all([getActiveScoringRules(), listScoringRules()]);
+  return NextResponse.json({ active, versions, builtIn: DEFAULT_SCORING_RULES, labels: SCORE_FACTOR_LABELS });
+}
+
+export async function POST(req: NextRequest) {
+  const username = verifyAdmin(req);
+  if (!username) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'invalid_json' }, { status: 400 });
+  }
+
+  const problem = scoringRulesError(body);
+  if (problem) {
+    return NextResponse.json({ error: 'invalid_input', message: problem }, { status: 400 });
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim() : '';
+  if (!note) {
+    return NextResponse.json(
+      { error: 'invalid_input', message: 'Add a short note explaining the change.' },
+      { status: 400 },
+    );
+  }
+
+  const published = await publishScoringRules(
+    toScoringRulesDraft(body as unknown as ScoringRulesDraft),
+    note.slice(0, 500),
+    username,
+  );
+  const rescore = await rescoreUndeliveredLeads(toScoringRules(published));
+  return NextResponse.json({ version: published, rescore }, { status: 201 });
+}
@@ -1,14 +1,23 @@
 /**
  * GET /api/admin/sms-stats
- * Returns SMS verification stats for the SMS Controls tab.
+ * Returns SMS verification stats for the SMS Controls tab, plus the active
+ * SMS provider, per-provider send results for the last 24 hours, and
+ * per-carrier delivery and verification rates for the last 7 days
+ * (lib/sms/carrierCodes.ts).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { adminDb } from '@/lib/firebase/admin';
+import type { FsVerificationCode } from '@/lib/firebase/types';
 import { CARRIERS } from '@/lib/sms';
+import { carrierRates } from '@/lib/sms/carrierCodes';
+import { smsProviderName, summarizeSmsSends } from '@/lib/sms/provider';
+import { listSmsSends } from '@/lib/sms/sendStore';
 
 const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+const DAY_MS     = 24 * 60 * 60 * 1_000;
+const RATES_DAYS = 7;
 
 function verifyAdmin(req: NextRequest): boolean {
   try {
@@ -24,12 +33,16 @@ export async function GET(req: NextRequest) {
 
   const vcodes = adminDb.collection('verification_codes');
 
-  const [totalSnap, verifiedSnap, allCodesSnap, carrierSnap, failedSnap] = await Promise.all([
+  const ratesSince = Date.now() - RATES_DAYS * DAY_MS;
+
+  const [totalSnap, verifiedSnap, allCodesSnap, carrierSnap, failedSnap, sends, recentCodesSnap] = await Promise.all([
     vcodes.count().get(),
     vcodes.where('used', '==', true).count().get(),
     vcodes.where('used', '==', false).select('expires_at').get(),
     adminDb.collection('leads').select('carrier').get(),
-    vcodes.where('attempts', '>', 2).orderBy('attempts', 'desc').limit(20).get(),
+    vcodes.where('attempts', '>', 2).orderBy('attempts', 'desc').limit(20).select('phone', 'attempts', 'timestamp', 'used').get(),
+    listSmsSends(ratesSince),
+    vcodes.where('timestamp', '>=', ratesSince).select('gateway_codes', 'carrier').get(),
   ]);
 
   const total    = totalSnap.data().count;
@@ -51,16 +64,24 @@ export async function GET(req: NextRequest) {
     .sort((a, b) => b[1] - a[1])
     .map(([gateway, count]) => ({
       gateway,
-      label: CARRIERS[gateway] ?? gateway,
+      label: CARRIERS[gateway] ?? (gateway === 'gateway_sms' ? 'Unknown' : gateway),
       count,
     }));
 
-  const recentFailed = failedSnap.docs.map(d => ({ id: d.id, ...d.data() }));
+  // Only the fields the tab shows — never the code hashes
+  const recentFailed = failedSnap.docs.map(d => {
+    const { phone, attempts, timestamp, used } = d.data() as FsVerificationCode;
+    return { id: d.id, phone, attempts, created_at: timestamp, used };
+  });
 
   return NextResponse.json({
     total, verified, expired, pending,
     conversionRate: total > 0 ? Math.round((verified / total) * 100) : 0,
     carrierBreakdown,
     recentFailed,
+    provider:      smsProviderName(),
+    providerSends: summarizeSmsSends(sends.filter(s => s.timestamp >= now - DAY_MS)),
+    carrierRates:  carrierRates(sends, recentCodesSnap.docs.map(d => d.data() as FsVerificationCode)),
+    ratesDays:     RATES_DAYS,
   });
 }
@@ -0,0 +1,82 @@
+/**
+ * POST /api/admin/valuation/preview
+ *
+ * Re-estimates the most recent leads under a draft valuation table and
+ * compares them with the active table. Nothing is written.
+ *
+ * Body: ValuationTableDraft   -- same shape as publish, without the note
+ *
+ * Response 200: { activeVersion, rows: PreviewRow[],
+ *                 summary: { leads, changed, avgHighChangePct } }
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { getActiveValuationTable } from '@/lib/estimator/valuationStore';
+import { valuationTableError, toValuationDraft, estimateLead } from '@/lib/estimator/valuation';
+import type { ValuationTableDraft } from '@/lib/estimator/valuation';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET    = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+const PREVIEW_LEADS = 50;
+
+function verifyAdmin(req: NextRequest): boolean {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string };
+    return p.role === 'admin';
+  } catch { return false; }
+}
+
+export async function POST(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'invalid_json' }, { status: 400 });
+  }
+
+  const problem = valuationTableError(body);
+  if (problem) {
+    return NextResponse.json({ error: 'invalid_input', message: problem }, { status: 400 });
+  }
+
+  const active = await getActiveValuationTable();
+  const draft  = { version: active.version + 1, ...toValuationDraft(body as unknown as ValuationTableDraft) };
+
+  const snap  = await adminDb.collection('leads').orderBy('timestamp', 'desc').limit(PREVIEW_LEADS).get();
+  const leads = snap.docs.map(d => ({ id: d.id, ...d.data() } as FsLead & { id: string }));
+
+  const rows = leads.flatMap(lead => {
+    const current  = estimateLead(lead, active);
+    const proposed = estimateLead(lead, draft);
+    if (!current || !proposed) return [];
+    return [{
+      id:                lead.id,
+      name:              lead.name,
+      injury_type:       lead.injury_type,
+      timestamp:         lead.timestamp,
+      valuation_version: lead.valuation_version ?? 0,
+      current,
+      proposed,
+    }];
+  });
+
+  const changed = rows.filter(r => r.current.low !== r.proposed.low || r.current.high !== r.proposed.high);
+  const avgHighChangePct = rows.length === 0 ? 0 : Math.round(
+    rows.reduce((sum, r) => sum + (r.proposed.high - r.current.high) / Math.max(1, r.current.high), 0)
+      / rows.length * 1_000,
+  ) / 10;
+
+  return NextResponse.json({
+    activeVersion: active.version,
+    rows,
+    summary: { leads: rows.length, changed: changed.length, avgHighChangePct },
+  });
+}
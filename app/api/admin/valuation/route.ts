@@ -0,0 +1,80 @@
+/**
+ * GET  /api/admin/valuation  — active table + every published version
+ * POST /api/admin/valuation  — publish a new version and make it active
+ *
+ * POST body: { injuryBaseValues: Record<InjuryType, {low, high}>,
+ *              surgeryMultiplier: number,
+ *              secondaryInjuryFactor: number,
+ *              stateMultipliers: Record<state, number>,
+ *              stateOverrides: Record<state, Partial<Record<InjuryType, {low, high}>>>,
+ *              specialsMultipliers: Record<InjuryType, {low, high}>,
+ *              specialsSurgeryBonus: number,
+ *              note: string }
+ *
+ * Published versions are immutable; leads record the valuation_version
+ * their estimate was calculated with.
+ *
+ * Requires Authorization: Bearer <admin-jwt>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import {
+  getActiveValuationTable,
+  listValuationTables,
+  publishValuationTable,
+} from '@/lib/estimator/valuationStore';
+import { valuationTableError, toValuationDraft } from '@/lib/estimator/valuation';
+import type { ValuationTableDraft } from '@/lib/estimator/valuation';
+import { DEFAULT_VALUATION_TABLE } from '@/lib/estimator/logic';
+
+export const dynamic = 'force-dynamic';
+
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+
+/** Admin username from the bearer token, or null when not an admin. */
+function verifyAdmin(req: NextRequest): string | null {
+  try {
+    const auth = req.headers.get('authorization') ?? '';
+    const tok  = auth.replace(/^Bearer\s+/i, '');
+    const p    = jwt.verify(tok, JWT_SECRET) as { role?: string; username?: string };
+    return p.role === 'admin' ? (p.username ?? 'admin') : null;
+  } catch { return null; }
+}
+
+export async function GET(req: NextRequest) {
+  if (!verifyAdmin(req)) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  const [active, versions] = await Promise.all([getActiveValuationTable(), listValuationTables()]);
+  return NextResponse.json({ active, versions, builtIn: DEFAULT_VALUATION_TABLE });
+}
+
+export async function POST(req: NextRequest) {
+  const username = verifyAdmin(req);
+  if (!username) return NextResponse.json({ error: 'unauthorized' }, { status: 401 });
+
+  let body: Record<string, unknown>;
+  try { body = await req.json(); } catch {
+    return NextResponse.json({ error: 'invalid_json' }, { status: 400 });
+  }
+
+  const problem = valuationTableError(body);
+  if (problem) {
+    return NextResponse.json({ error: 'invalid_input', message: problem }, { status: 400 });
+  }
+
+  const note = typeof body.note === 'string' ? body.note.trim() : '';
+  if (!note) {
+    return NextResponse.json(
+      { error: 'invalid_input', message: 'Add a short note explaining the change.' },
+      { status: 400 },
+    );
+  }
+
+  const published = await publishValuationTable(
+    toValuationDraft(body as unknown as ValuationTableDraft),
+    note.slice(0, 500),
+    username,
+  );
+  return NextResponse.json({ version: published }, { status: 201 });
+}
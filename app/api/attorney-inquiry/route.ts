@@ -4,13 +4,17 @@
  * Saves an attorney inquiry to Firestore (attorney_inquiries collection)
  * and triggers the pricing reveal on the /attorneys page.
  *
- * Body: { name, firm, email, phone, state, case_volume }
+ * Body: { name, firm, email, phone, state, case_volume, deviceId? }
  * Response 200: { success: true, id: string }
  * Response 400: { error: string, message: string }
+ * Response 429: { error: 'rate_limited', message, retryAfter }  (+ Retry-After header)
+ * Response 503: { error: 'rate_limit_unavailable', message, retryAfter }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
+import { normalizePhone } from '@/lib/sms';
 import { validateEmailServer } from '@/lib/validate-email-server';
 
 export const dynamic = 'force-dynamic';
@@ -27,7 +31,7 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const { name, firm, email, phone, state, case_volume, bar_number, source } = body;
+  const { name, firm, email, phone, state, case_volume, bar_number, source, deviceId } = body;
 
   // ── Basic validation ──────────────────────────────────────────────────────────
   if (!name || typeof name !== 'string' || !name.trim()) {
@@ -49,6 +53,13 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'invalid_input', message: 'Case volume is required.' }, { status: 400 });
   }
 
+  // ── Rate limit (IP / device / phone) ──────────────────────────────────────────
+  const limited = await limitRequest(req, 'attorney_inquiry', {
+    device: typeof deviceId === 'string' ? deviceId : null,
+    phone:  normalizePhone(phone) || null,
+  });
+  if (limited) return limited;
+
   // ── Email validation (format + MX) ───────────────────────────────────────────
   const emailError = await validateEmailServer(email);
   if (emailError) {
@@ -5,13 +5,17 @@
  * POST: Save a new attorney booking to Firestore and send confirmation email.
  *       Also checks for reminders on upcoming bookings (24hr before).
  *
- * Body: { name, firm, email, phone, state, case_volume, date, time }
+ * Body: { name, firm, email, phone, state, case_volume, date, time, deviceId? }
+ *       Limited per IP, device and phone (lib/rateLimit): 429 rate_limited or
+ *       503 rate_limit_unavailable, with a Retry-After header.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import nodemailer from 'nodemailer';
 import { adminDb } from '@/lib/firebase/admin';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
+import { normalizePhone } from '@/lib/sms';
 
 export const dynamic = 'force-dynamic';
 
@@ -88,12 +92,18 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'invalid_json', message: 'Invalid JSON.' }, { status: 400 });
   }
 
-  const { name, firm, email, phone, state, case_volume, date, time } = body;
+  const { name, firm, email, phone, state, case_volume, date, time, deviceId } = body;
 
   if (!name || !firm || !email || !phone || !state || !date || !time) {
     return NextResponse.json({ error: 'invalid_input', message: 'All fields are required.' }, { status: 400 });
   }
 
+  const limited = await limitRequest(req, 'bookings', {
+    device: typeof deviceId === 'string' ? deviceId : null,
+    phone:  normalizePhone(String(phone)) || null,
+  });
+  if (limited) return limited;
+
   // Slot collision check
   const existing = await adminDb
     .collection('bookings')
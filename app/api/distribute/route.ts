@@ -4,6 +4,10 @@
  * Distributes a verified case to its assigned client via email (and optionally
  * Google Sheets). Enforces:
  *   - Duplicate-delivery prevention
+ *   - Unverified (partial) leads are refused
+ *   - Known duplicates are refused (lib/leads/duplicates.ts) — merged records,
+ *     leads whose duplicate was already delivered, and unmerged groups
+ *   - Leads on quality hold are refused (lib/leads/quality.ts)
  *   - Daily throttle limit from delivery_schedules
  *   - 90-day exclusivity tagging on delivery
  *
@@ -11,7 +15,7 @@
  *
  * Response 200: { success: true, method: string, deliveryId: string }
  * Response 400: { error: string, message: string }
- * Response 409: { error: 'already_delivered' | 'throttle_exceeded', message: string }
+ * Response 409: { error: 'already_delivered' | 'not_verified' | 'quality_hold' | 'duplicate' | 'throttle_exceeded', message: string }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -22,11 +26,20 @@ import type { FsLead, FsClient, FsDeliverySchedule } from '@/lib/firebase/types'
 import { sendLeadEmail }     from '@/lib/distribution/email';
 import { appendLeadToSheet } from '@/lib/distribution/sheets';
 import { throttleExceeded, isoDate } from '@/lib/deliverySchedule';
+import { duplicateDeliveryBlock } from '@/lib/leads/duplicates';
+import type { DuplicateBlock } from '@/lib/leads/duplicates';
+import { loadDuplicateGroup } from '@/lib/leads/duplicateStore';
 
 const JWT_SECRET           = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
 const EXCLUSIVITY_DAYS     = 90;
 const EXCLUSIVITY_MS       = EXCLUSIVITY_DAYS * 24 * 60 * 60 * 1_000;
 
+const DUPLICATE_MESSAGES: Record<DuplicateBlock, (lead: FsLead & { id: string }) => string> = {
+  merged:               l => `Case ${l.id} was merged into ${l.merged_into}. Deliver that case instead.`,
+  duplicate_delivered:  l => `Case ${l.id} is a duplicate of a case that was already delivered.`,
+  unresolved_duplicate: l => `Case ${l.id} has possible duplicates. Merge them in the Duplicates tab first.`,
+};
+
 function verifyAdmin(req: NextRequest): boolean {
   try {
     const auth = req.headers.get('authorization') ?? '';
@@ -64,6 +77,32 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  // ── Partial leads (see lib/leads/partial.ts) are never delivered ────────────
+  if (!lead.verified) {
+    return NextResponse.json(
+      { error: 'not_verified', message: `Case ${lead.id} has not completed SMS verification.` },
+      { status: 409 },
+    );
+  }
+
+  // ── Quality hold (see lib/leads/quality.ts) — released from the lead profile ──
+  if (lead.quality_hold) {
+    return NextResponse.json(
+      { error: 'quality_hold', message: `Case ${lead.id} is held for review (risk ${lead.quality_risk ?? 0}). Release it from the lead profile first.` },
+      { status: 409 },
+    );
+  }
+
+  // ── Known duplicates are never sold twice ─────────────────────────────────────
+  const group = lead.duplicate_group ? await loadDuplicateGroup(lead.duplicate_group) : [];
+  const block = duplicateDeliveryBlock(lead, group);
+  if (block) {
+    return NextResponse.json(
+      { error: 'duplicate', reason: block, message: DUPLICATE_MESSAGES[block](lead) },
+      { status: 409 },
+    );
+  }
+
   // ── Resolve client ────────────────────────────────────────────────────────────
   const resolvedClientId = String(clientId ?? lead.client_id ?? '');
   if (!resolvedClientId) {
@@ -1,7 +1,9 @@
 /**
  * POST /api/distribute/sheets
  *
- * Pushes all verified leads for a given client to their Google Sheet.
+ * Pushes all verified leads for a given client to their Google Sheet,
+ * skipping known duplicates (lib/leads/duplicates.ts) and leads on quality
+ * hold (lib/leads/quality.ts).
  *
  * Body: { clientId: string }
  * Response 200: { success: true, pushed: number }
@@ -12,6 +14,7 @@ import jwt from 'jsonwebtoken';
 import { adminDb } from '@/lib/firebase/admin';
 import type { FsLead, FsClient } from '@/lib/firebase/types';
 import { pushUndeliveredLeadsToSheet } from '@/lib/distribution/sheets';
+import { duplicateDeliveryBlock } from '@/lib/leads/duplicates';
 
 const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
 
@@ -52,7 +55,12 @@ export async function POST(req: NextRequest) {
     .orderBy('timestamp', 'desc')
     .get();
 
-  const leads = leadsSnap.docs.map(d => ({ id: d.id, ...d.data() })) as (FsLead & { id: string })[];
+  const verified = leadsSnap.docs.map(d => ({ id: d.id, ...d.data() })) as (FsLead & { id: string })[];
+  const leads    = verified.filter(l => {
+    if (l.quality_hold) return false;
+    const group = l.duplicate_group ? verified.filter(g => g.duplicate_group === l.duplicate_group) : [];
+    return !duplicateDeliveryBlock(l, group);
+  });
 
   try {
     const pushed = await pushUndeliveredLeadsToSheet(client.sheets_id, leads);
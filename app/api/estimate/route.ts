@@ -0,0 +1,118 @@
+/**
+ * POST /api/estimate
+ *
+ * Public, stateless estimate calculator. Returns the itemized breakdown
+ * behind a settlement range — base injury value, each multiplier applied,
+ * and the economic damages added on top. Nothing is stored.
+ *
+ * Body (widget inputs):
+ *   { injuryTypes, hasSurgery?, lostWages?, state?, medicalBills?, futureCare? }
+ * Body (quiz answers):
+ *   { source: 'quiz', injuryTypes, state?, faultLevel?, hasSurgery?, hospitalized?,
+ *     lostWages?, medicalBills?, futureCare? }
+ * Both require at least one injury type; a single legacy `injuryType` string
+ * is also accepted.
+ *
+ * Response 200: { success: true, breakdown: EstimateBreakdown,
+ *                 specials: EstimateBreakdown | null,    -- null without medical costs
+ *                 valuationVersion: number }             -- valuation table used
+ * Response 400: { error: string, message: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateEstimateBreakdown, calculateSpecialsBreakdown, INJURY_BASE_VALUES } from '@/lib/estimator/logic';
+import { isInjuryType, parseInjuryTypes } from '@/lib/estimator/injuries';
+import { getActiveValuationTable } from '@/lib/estimator/valuationStore';
+import { calculateQuizBreakdown, calculateQuizSpecialsBreakdown } from '@/lib/quiz/scoring';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+import { US_STATES } from '@/lib/quiz/questions';
+import { isFaultLevel } from '@/lib/legal/negligence';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  let body: Record<string, unknown>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'invalid_json', message: 'Request body must be valid JSON.' },
+      { status: 400 },
+    );
+  }
+
+  const {
+    source, injuryTypes: rawInjuryTypes, injuryType, hasSurgery, hospitalized, lostWages, state, faultLevel, medicalBills, futureCare,
+  } = body;
+
+  // ── Shared validation ───────────────────────────────────────────────────────
+  if (state != null && (typeof state !== 'string' || !US_STATES.includes(state))) {
+    return NextResponse.json(
+      { error: 'invalid_input', message: 'State must be a full US state name.' },
+      { status: 400 },
+    );
+  }
+  const supplied = Array.isArray(rawInjuryTypes) ? rawInjuryTypes : [injuryType];
+  if (supplied.length === 0 || !supplied.every(isInjuryType)) {
+    return NextResponse.json(
+      { error: 'invalid_input', message: `Injury types must be one or more of: ${Object.keys(INJURY_BASE_VALUES).join(', ')}.` },
+      { status: 400 },
+    );
+  }
+  const injuryTypes = parseInjuryTypes(supplied);
+
+  const wages  = Number(lostWages    ?? 0);
+  const bills  = Number(medicalBills ?? 0);
+  const future = Number(futureCare   ?? 0);
+  if ([wages, bills, future].some(n => !Number.isFinite(n) || n < 0)) {
+    return NextResponse.json(
+      { error: 'invalid_input', message: 'Dollar amounts must be non-negative numbers.' },
+      { status: 400 },
+    );
+  }
+
+  const valuation = await getActiveValuationTable();
+
+  // ── Quiz answers ────────────────────────────────────────────────────────────
+  if (source === 'quiz') {
+    if (faultLevel != null && !isFaultLevel(faultLevel)) {
+      return NextResponse.json(
+        { error: 'invalid_input', message: 'Unknown fault level.' },
+        { status: 400 },
+      );
+    }
+    const answers = {
+      ...INITIAL_ANSWERS,
+      injuryTypes,
+      state:        (state as string | undefined) ?? null,
+      faultLevel:   (faultLevel as typeof INITIAL_ANSWERS.faultLevel) ?? null,
+      hasSurgery:   hasSurgery   != null ? Boolean(hasSurgery)   : null,
+      hospitalized: hospitalized != null ? Boolean(hospitalized) : null,
+      lostWages:    wages,
+      medicalBills: bills,
+      futureCare:   future,
+    };
+    return NextResponse.json({
+      success:   true,
+      breakdown: calculateQuizBreakdown(answers, valuation),
+      specials:  calculateQuizSpecialsBreakdown(answers, valuation),
+      valuationVersion: valuation.version,
+    });
+  }
+
+  // ── Widget inputs ───────────────────────────────────────────────────────────
+  const inputs = {
+    injuryTypes,
+    hasSurgery:   Boolean(hasSurgery),
+    lostWages:    wages,
+    state:        (state as string | undefined) ?? null,
+    medicalBills: bills,
+    futureCare:   future,
+  };
+  return NextResponse.json({
+    success:   true,
+    breakdown: calculateEstimateBreakdown(inputs, valuation),
+    specials:  calculateSpecialsBreakdown(inputs, valuation),
+    valuationVersion: valuation.version,
+  });
+}
@@ -0,0 +1,48 @@
+/**
+ * POST /api/events
+ *
+ * Records one quiz or widget funnel event (see lib/analytics/funnel.ts).
+ * Sent with navigator.sendBeacon, so the response is never read; invalid
+ * events are dropped with a 400. Limited per IP (lib/rateLimit).
+ *
+ * Body:     { sessionId, source, type, step, value?, detail? }
+ * Response: 204 | 400 { error: 'invalid_input' }
+ *         | 429 rate_limited | 503 rate_limit_unavailable, with Retry-After
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsFunnelEvent } from '@/lib/firebase/types';
+import { parseFunnelEvent } from '@/lib/analytics/funnel';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try { body = await req.json(); }
+  catch { return NextResponse.json({ error: 'invalid_json' }, { status: 400 }); }
+
+  const event = parseFunnelEvent(body);
+  if (!event) return NextResponse.json({ error: 'invalid_input' }, { status: 400 });
+
+  const limited = await limitRequest(req, 'funnel_events');
+  if (limited) return limited;
+
+  const doc: FsFunnelEvent = {
+    session_id: event.sessionId,
+    source:     event.source,
+    type:       event.type,
+    step:       event.step,
+    value:      event.value,
+    detail:     event.detail,
+    timestamp:  event.timestamp,
+  };
+
+  try {
+    await adminDb.collection('funnel_events').add(doc);
+  } catch (err) {
+    console.error('[events] Save error:', err instanceof Error ? err.message : err);
+  }
+  return new NextResponse(null, { status: 204 });
+}
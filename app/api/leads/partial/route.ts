@@ -0,0 +1,108 @@
+/**
+ * POST /api/leads/partial
+ *
+ * Captures an unverified lead once the visitor has entered a name and phone,
+ * before SMS verification. Stored in `leads` with verified: false; the same
+ * doc becomes the verified lead if /api/verify-code later succeeds for the
+ * phone. One partial lead per phone — repeat captures from the same device or
+ * IP update it; captures from anyone else leave it untouched (and still get
+ * 200, without a leadId, so the response doesn't reveal the phone has one).
+ * Names are stripped of markup and capped (they go into nurture emails).
+ *
+ * Body: the /api/verify-code body without phoneToken, with phone required.
+ * The IP hash and device ID are stored so verify-code's velocity check
+ * counts unverified attempts too.
+ * Quiz partials with an email also get a saved draft the nurture reminders
+ * link back to (see lib/quiz/draft.ts).
+ *
+ * Response 200: { success: true, leadId: string | null }
+ * Response 400: { error: 'invalid_input', message: string }
+ * Response 429: { error: 'rate_limited', message, retryAfter }  (+ Retry-After header)
+ * Response 503: { error: 'rate_limit_unavailable', message, retryAfter }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { buildLead } from '@/lib/leads/submission';
+import type { NewLead } from '@/lib/leads/submission';
+import { normalizePhone } from '@/lib/sms';
+import { validateEmailFormat } from '@/lib/validate-email';
+import { parseDraft } from '@/lib/quiz/draft';
+import { saveDraft } from '@/lib/quiz/draftStore';
+import { intakeFields } from '@/lib/leads/qualityStore';
+import { cleanPartialName, sameSubmitter } from '@/lib/leads/partial';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  let body: Record<string, unknown>;
+  try { body = await req.json(); }
+  catch {
+    return NextResponse.json({ error: 'invalid_json', message: 'Invalid JSON.' }, { status: 400 });
+  }
+
+  const name  = cleanPartialName(body.name);
+  const phone = normalizePhone(String(body.phone ?? ''));
+  if (!name || phone.length !== 10) {
+    return NextResponse.json(
+      { error: 'invalid_input', message: 'A name and 10-digit phone number are required.' },
+      { status: 400 },
+    );
+  }
+
+  const limited = await limitRequest(req, 'lead_partial', {
+    device: typeof body.deviceId === 'string' ? body.deviceId : null,
+    phone,
+  });
+  if (limited) return limited;
+
+  // A mistyped email only costs the reminders — keep the lead without it.
+  const rawEmail = String(body.email ?? '').trim();
+  const email    = rawEmail && !validateEmailFormat(rawEmail) ? rawEmail.toLowerCase() : null;
+
+  const built = await buildLead({ ...body, name, email }, phone, false);
+  if (!built.ok) {
+    return NextResponse.json({ error: 'invalid_input', message: built.message }, { status: 400 });
+  }
+
+  try {
+    const existing = await adminDb.collection('leads')
+      .where('phone', '==', phone)
+      .where('verified', '==', false)
+      .limit(1)
+      .get();
+    const prev   = existing.empty ? null : (existing.docs[0].data() as FsLead);
+    const intake = intakeFields(req, body);
+    if (prev && !sameSubmitter(prev, intake)) {
+      console.warn(`[leads/partial] Capture for ${phone} from another device/IP — existing partial kept`);
+      return NextResponse.json({ success: true, leadId: null });
+    }
+
+    const draft         = built.lead.source === 'quiz' ? parseDraft({ answers: body, history: [], touchpoints: body.touchpoints, savedAt: Date.now() }) : null;
+    const resumeDraftId = draft && email ? await saveDraft(draft, email) : prev?.resume_draft_id ?? null;
+
+    const doc: NewLead = {
+      ...built.lead,
+      ...intake,
+      nurture_count:   prev?.nurture_count   ?? 0,
+      last_nurture_at: prev?.last_nurture_at ?? null,
+      resume_draft_id: resumeDraftId,
+    };
+
+    let leadId: string;
+    if (existing.empty) {
+      leadId = (await adminDb.collection('leads').add(doc)).id;
+    } else {
+      await existing.docs[0].ref.set(doc);
+      leadId = existing.docs[0].id;
+    }
+
+    console.log(`[leads/partial] ${built.lead.source.toUpperCase()} partial lead: ${name} (${phone})`);
+    return NextResponse.json({ success: true, leadId });
+  } catch (err: unknown) {
+    console.error('[leads/partial] Save error:', err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: 'db_error', message: 'Could not save.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * POST /api/quiz/draft   — save an unfinished quiz and email a resume link
+ * GET  /api/quiz/draft?token=…   — load the draft a resume link points to
+ *
+ * POST body: { email, answers, history, touchpoints?, deviceId? }
+ * The link opens /quiz?resume=<token> on the configured site URL and expires
+ * with the draft (7 days). Limited per IP, device and recipient email
+ * (lib/rateLimit): 429 rate_limited | 503 rate_limit_unavailable, with Retry-After.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import nodemailer from 'nodemailer';
+import { validateEmailFormat } from '@/lib/validate-email';
+import { isDraftEmpty, parseDraft } from '@/lib/quiz/draft';
+import { saveDraft, loadDraft, signResumeToken, verifyResumeToken } from '@/lib/quiz/draftStore';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
+import { siteUrl } from '@/lib/siteUrl';
+
+export const dynamic = 'force-dynamic';
+
+const GMAIL_USER = process.env.GMAIL_USER;
+const GMAIL_PASS = process.env.GMAIL_APP_PASSWORD;
+
+function createMailer() {
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: { user: GMAIL_USER, pass: GMAIL_PASS },
+  });
+}
+
+// ── POST — save draft and send link ───────────────────────────────────────────
+
+export async function POST(req: NextRequest) {
+  let body: Record<string, unknown>;
+  try { body = await req.json(); }
+  catch {
+    return NextResponse.json({ error: 'invalid_json', message: 'Invalid JSON.' }, { status: 400 });
+  }
+
+  const email      = String(body.email ?? '').trim().toLowerCase();
+  const emailError = validateEmailFormat(email);
+  if (emailError) {
+    return NextResponse.json({ error: 'invalid_input', message: emailError }, { status: 400 });
+  }
+
+  const draft = parseDraft({ answers: body.answers, history: body.history, touchpoints: body.touchpoints, savedAt: Date.now() });
+  if (!draft || isDraftEmpty(draft.answers)) {
+    return NextResponse.json({ error: 'invalid_input', message: 'Answer at least one question first.' }, { status: 400 });
+  }
+
+  const limited = await limitRequest(req, 'quiz_draft', {
+    device: typeof body.deviceId === 'string' ? body.deviceId : null,
+    email,
+  });
+  if (limited) return limited;
+
+  if (!GMAIL_USER || !GMAIL_PASS) {
+    return NextResponse.json(
+      { error: 'unavailable', message: 'Resume links are unavailable right now.' },
+      { status: 503 },
+    );
+  }
+
+  const draftId = await saveDraft(draft, email);
+  const link    = `${siteUrl()}/quiz?resume=${encodeURIComponent(signResumeToken(draftId))}`;
+
+  try {
+    await createMailer().sendMail({
+      from:    `"Settlement Sam" <${GMAIL_USER}>`,
+      to:      email,
+      subject: 'Pick up your Settlement Sam case review where you left off',
+      html: `
+        <div style="font-family:sans-serif;max-width:560px;margin:0 auto;color:#2C3E35">
+          <h2 style="color:#E8A838">Your answers are saved.</h2>
+          <p>Open this link on any device to finish your free case review — you'll start right where you stopped.</p>
+          <p style="text-align:center;margin:28px 0">
+            <a href="${link}" style="background:#4A7C59;color:#fff;padding:14px 28px;border-radius:10px;text-decoration:none;font-weight:700">
+              Continue My Case Review
+            </a>
+          </p>
+          <p style="font-size:13px;color:#6B7C74">The link expires in 7 days. Didn't ask for this? You can ignore this email.</p>
+        </div>
+      `,
+    });
+  } catch (err) {
+    console.error('[quiz-draft] Resume email error:', err instanceof Error ? err.message : err);
+    return NextResponse.json({ error: 'send_failed', message: 'Could not send the email. Please try again.' }, { status: 502 });
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+// ── GET — load draft from a resume link ───────────────────────────────────────
+
+export async function GET(req: NextRequest) {
+  const draftId = verifyResumeToken(req.nextUrl.searchParams.get('token') ?? '');
+  const draft   = draftId ? await loadDraft(draftId) : null;
+
+  if (!draft) {
+    return NextResponse.json(
+      { error: 'draft_expired', message: 'This link has expired. Please start a new review.' },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json(draft);
+}
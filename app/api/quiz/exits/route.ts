@@ -0,0 +1,50 @@
+/**
+ * GET  /api/quiz/exits — public. The enabled exit offers per reason, for the
+ *                        quiz's attorney and disqualified screens.
+ * POST /api/quiz/exits — records an exit shown or an offer clicked, with the
+ *                        answers so far (see lib/quiz/exitRoutes.ts). Sent
+ *                        with navigator.sendBeacon, so the response is never read.
+ *                        Limited per IP (lib/rateLimit).
+ *
+ * POST Body: { sessionId, reason, action: 'shown' | 'clicked', offerId?, offerIds?, answers, locale? }
+ *
+ * Response 200 (GET):  { routes: ExitRoutes }   -- partner names removed
+ * Response 204 (POST) | 400 { error: 'invalid_input' }
+ *                      | 429 rate_limited | 503 rate_limit_unavailable, with Retry-After
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { EXIT_REASONS, parseExitEvent } from '@/lib/quiz/exitRoutes';
+import type { ExitRoutes } from '@/lib/quiz/exitRoutes';
+import { getActiveExitRoutes, recordExitEvent } from '@/lib/quiz/exitRoutesStore';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const active = await getActiveExitRoutes();
+  const routes = {} as ExitRoutes;
+  for (const reason of EXIT_REASONS) {
+    routes[reason] = active[reason].filter(o => o.enabled).map(o => ({ ...o, partner: '' }));
+  }
+  return NextResponse.json({ routes });
+}
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try { body = await req.json(); }
+  catch { return NextResponse.json({ error: 'invalid_json' }, { status: 400 }); }
+
+  const event = parseExitEvent(body);
+  if (!event) return NextResponse.json({ error: 'invalid_input' }, { status: 400 });
+
+  const limited = await limitRequest(req, 'quiz_exits');
+  if (limited) return limited;
+
+  try {
+    await recordExitEvent(event);
+  } catch (err) {
+    console.error('[quiz/exits] Save error:', err instanceof Error ? err.message : err);
+  }
+  return new NextResponse(null, { status: 204 });
+}
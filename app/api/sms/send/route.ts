@@ -1,40 +1,38 @@
 /**
  * POST /api/sms/send
  *
- * Generates a 6-digit code, stores it in Firestore `verification_codes`,
- * verifies the Gmail SMTP connection, then blasts all carrier gateways.
+ * Generates a code (lib/sms/otpPolicy.ts), stores its salted HMAC in Firestore
+ * `verification_codes` (lib/sms/codeHash.ts), then texts it through the configured SMS provider
+ * (lib/sms/provider.ts). The resend cooldown and hourly cap are enforced here,
+ * after the IP / device / phone limits (lib/rateLimit).
+ * With the gateway provider each gateway gets its own code, and a phone whose
+ * carrier is already known gets only that gateway on its first send.
  *
- * Body:     { phone: string }
+ * Body:     { phone: string, locale?: 'en' | 'es', deviceId?: string }
+ *           — locale picks the text's language
  * Response: { success: true, message: string }
- * Errors:   400 invalid_phone | 429 rate_limited | 500 various
+ * Errors:   400 invalid_phone | 429 cooldown | 429 rate_limited
+ *           | 503 rate_limit_unavailable (all with retryAfter seconds and a Retry-After header)
+ *           | 500 misconfigured | 500 send_failed | 500 various
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import nodemailer from 'nodemailer';
+import { DEFAULT_LOCALE, isLocale, messages } from '@/lib/i18n';
+import { CODE_TTL_MS, MULTI_BLAST_GATEWAYS, generateCode, normalizePhone } from '@/lib/sms';
+import { assignGatewayCodes, gatewaysFor } from '@/lib/sms/carrierCodes';
+import { cachedCarrier } from '@/lib/sms/carrierStore';
+import { hashCode } from '@/lib/sms/codeHash';
+import { OTP_POLICY, otpSendBlock } from '@/lib/sms/otpPolicy';
+import type { SmsMessage } from '@/lib/sms/provider';
+import type { FsVerificationCode } from '@/lib/firebase/types';
+import { FAIL_CLOSED_RETRY_S } from '@/lib/rateLimit';
+import { limitRequest, retryAfterHeaders } from '@/lib/rateLimit/rateLimitStore';
+import { getSmsProvider, sendSms } from '@/lib/sms/sendStore';
 
 export const dynamic = 'force-dynamic';
 
-const GATEWAYS = [
-  'txt.att.net',
-  'vtext.com',
-  'tmomail.net',
-  'sms.cricketwireless.net',
-  'sms.myboostmobile.com',
-  'mymetropcs.com',
-  'messaging.sprintpcs.com',
-  'email.uscc.net',
-  'vmobl.com',
-];
-
-const CODE_TTL_MS    = 10 * 60 * 1_000;
-const RATE_WINDOW_MS = 60 * 60 * 1_000;
-const MAX_SENDS      = 3;
-
-function normalizePhone(raw: string): string {
-  const digits = String(raw ?? '').replace(/\D/g, '');
-  if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1);
-  return digits;
+function codeTimes(now: number) {
+  return { timestamp: now, expires_at: now + CODE_TTL_MS, attempts: 0, used: false };
 }
 
 export async function POST(req: NextRequest) {
@@ -52,6 +50,7 @@ export async function POST(req: NextRequest) {
     }
 
     const digits = normalizePhone(String(body.phone ?? ''));
+    const locale = isLocale(body.locale) ? body.locale : DEFAULT_LOCALE;
     console.log('[SMS/SEND] Phone digits:', digits.length, 'digits');
 
     if (digits.length !== 10) {
@@ -61,13 +60,17 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const gmailUser = process.env.GMAIL_USER;
-    const gmailPass = process.env.GMAIL_APP_PASSWORD;
-    console.log('[SMS/SEND] GMAIL_USER:', gmailUser ? `SET (${gmailUser})` : 'MISSING');
-    console.log('[SMS/SEND] GMAIL_PASS:', gmailPass ? 'SET' : 'MISSING');
+    const limited = await limitRequest(req, 'sms_send', {
+      device: typeof body.deviceId === 'string' ? body.deviceId : null,
+      phone:  digits,
+    });
+    if (limited) return limited;
+
+    const provider = getSmsProvider();
+    console.log('[SMS/SEND] Provider:', provider.name);
 
-    if (!gmailUser || !gmailPass) {
-      console.error('[SMS/SEND] FATAL: Gmail credentials missing');
+    if (!provider.isConfigured()) {
+      console.error(`[SMS/SEND] FATAL: ${provider.name} provider is not configured`);
       return NextResponse.json(
         { error: 'misconfigured', message: 'SMS service is not configured. Please contact support.' },
         { status: 500 },
@@ -77,44 +80,59 @@ export async function POST(req: NextRequest) {
     // ── Rate limit ───────────────────────────────────────────────────────────
 
     const now = Date.now();
-    let recentCount = 0;
+    let sentAt: number[] = [];
     try {
       const { adminDb } = await import('@/lib/firebase/admin');
       const allSnap = await adminDb.collection('verification_codes')
         .where('phone', '==', digits)
         .get();
-      recentCount = allSnap.docs.filter(
-        d => (d.data().timestamp as number) >= now - RATE_WINDOW_MS,
-      ).length;
+      sentAt = allSnap.docs.map(d => d.data().timestamp as number);
     } catch (dbErr: unknown) {
       console.error('[SMS/SEND] Rate-limit query failed:', dbErr instanceof Error ? dbErr.message : dbErr);
-      // Non-fatal — continue without rate-limiting
+      // Fail closed — without the history the cooldown and cap can't be enforced
+      return NextResponse.json(
+        { error: 'rate_limit_unavailable', message: 'Please try again in a minute.', retryAfter: FAIL_CLOSED_RETRY_S },
+        { status: 503, headers: retryAfterHeaders(FAIL_CLOSED_RETRY_S) },
+      );
     }
 
-    if (recentCount >= MAX_SENDS) {
+    const block = otpSendBlock(sentAt, now);
+    if (block) {
+      const message = block.reason === 'cooldown'
+        ? `Please wait ${block.retryAfterS} seconds before requesting another code.`
+        : 'Too many codes sent. Please wait before requesting another.';
       return NextResponse.json(
-        { error: 'rate_limited', message: 'Too many codes sent. Please wait before requesting another.' },
-        { status: 429 },
+        { error: block.reason === 'cooldown' ? 'cooldown' : 'rate_limited', message, retryAfter: block.retryAfterS },
+        { status: 429, headers: retryAfterHeaders(block.retryAfterS) },
       );
     }
 
-    // ── Generate code ────────────────────────────────────────────────────────
-
-    const code = crypto.randomInt(100_000, 1_000_000).toString();
+    // ── Generate code(s) ─────────────────────────────────────────────────────
+    // The gateway provider texts each gateway its own code, so the code the
+    // visitor enters tells us which carrier delivered (lib/sms/carrierCodes.ts).
+
+    const text = messages(locale).sms.codeText;
+    let stored: FsVerificationCode;
+    let message: SmsMessage;
+
+    if (provider.name === 'gateway') {
+      const isResend = sentAt.some(t => t > now - OTP_POLICY.rateWindowMs);
+      const gateways = gatewaysFor(await cachedCarrier(digits), isResend, MULTI_BLAST_GATEWAYS);
+      const codes    = assignGatewayCodes(gateways, generateCode);
+      stored  = { phone: digits, gateway_codes: gateways.map(carrier => ({ carrier, ...hashCode(digits, codes[carrier]) })), ...codeTimes(now) };
+      message = { to: digits, text: '', variants: gateways.map(carrier => ({ carrier, text: text(codes[carrier]) })) };
+    } else {
+      const code = generateCode();
+      stored  = { phone: digits, ...hashCode(digits, code), ...codeTimes(now) };
+      message = { to: digits, text: text(code) };
+    }
     console.log('[SMS/SEND] Code generated');
 
     // ── Save to Firestore ────────────────────────────────────────────────────
 
     try {
       const { adminDb } = await import('@/lib/firebase/admin');
-      await adminDb.collection('verification_codes').add({
-        phone:      digits,
-        code,
-        timestamp:  now,
-        expires_at: now + CODE_TTL_MS,
-        attempts:   0,
-        used:       false,
-      });
+      await adminDb.collection('verification_codes').add(stored);
       console.log('[SMS/SEND] Code saved to Firestore');
     } catch (dbErr: unknown) {
       console.error('[SMS/SEND] Firestore error:', dbErr instanceof Error ? dbErr.message : dbErr);
@@ -124,48 +142,16 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // ── Gmail transporter ────────────────────────────────────────────────────
-
-    const transporter = nodemailer.createTransport({
-      host:   'smtp.gmail.com',
-      port:   465,
-      secure: true,
-      auth:   { user: gmailUser, pass: gmailPass },
-    });
+    // ── Send ─────────────────────────────────────────────────────────────────
 
-    try {
-      await transporter.verify();
-      console.log('[SMS/SEND] Gmail transporter verified OK');
-    } catch (verifyErr: unknown) {
-      console.error('[SMS/SEND] Gmail verify failed:', verifyErr instanceof Error ? verifyErr.message : verifyErr);
+    const result = await sendSms(message, 'verification', provider);
+    if (!result.ok) {
       return NextResponse.json(
-        { error: 'smtp_error', message: 'Failed to send SMS. Please try again.' },
+        { error: 'send_failed', message: 'Failed to send SMS. Please try again.' },
         { status: 500 },
       );
     }
 
-    // ── Blast all gateways ───────────────────────────────────────────────────
-
-    const results = await Promise.allSettled(
-      GATEWAYS.map(gw =>
-        transporter.sendMail({
-          from:    `"Settlement Sam" <${gmailUser}>`,
-          to:      `${digits}@${gw}`,
-          subject: '',
-          text:    `Your Settlement Sam verification code: ${code}\n\nValid for 10 minutes. Do not share this code.`,
-        }),
-      ),
-    );
-
-    const sent   = results.filter(r => r.status === 'fulfilled').length;
-    const failed = results.filter(r => r.status === 'rejected').length;
-    console.log(`[SMS/SEND] Results: ${sent} sent, ${failed} failed`);
-
-    if (sent === 0) {
-      const sample = (results.find(r => r.status === 'rejected') as PromiseRejectedResult | undefined)?.reason;
-      console.error('[SMS/SEND] All gateways failed. Sample error:', sample instanceof Error ? sample.message : sample);
-    }
-
     return NextResponse.json({ success: true, message: 'Code sent successfully.' });
 
   } catch (err: unknown) {
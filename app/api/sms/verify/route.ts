@@ -1,19 +1,32 @@
 /**
  * POST /api/sms/verify
  *
- * Validates a 6-digit code against Firestore `verification_codes`,
+ * Validates a code against Firestore `verification_codes` under the OTP
+ * policy (lib/sms/otpPolicy.ts — length, wrong guesses allowed), comparing
+ * against the stored hash in constant time (lib/sms/codeHash.ts),
  * marks the record used, and returns a short-lived phoneToken JWT
- * that proves phone ownership to /api/verify-code.
+ * that proves phone ownership to /api/verify-code. For a gateway blast the
+ * matching code names the carrier that delivered; it is cached for the
+ * phone and carried in the token. Guesses are also limited per IP, device
+ * and phone (lib/rateLimit).
  *
- * Body:     { phone: string, code: string }
- * Response: { success: true, phoneToken: string }
+ * Body:     { phone: string, code: string, deviceId?: string }
+ * Response: { success: true, phoneToken: string }   — claims: { phone, verified, carrier }
  * Errors:   400 invalid_phone | 400 invalid_code | 400 no_code | 400 incorrect_code
+ *           | 429 too_many_attempts | 429 rate_limited | 503 rate_limit_unavailable
+ *           (the last two with retryAfter seconds and a Retry-After header)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { adminDb } from '@/lib/firebase/admin';
 import { normalizePhone } from '@/lib/sms';
+import { matchGatewayCode } from '@/lib/sms/carrierCodes';
+import { rememberCarrier } from '@/lib/sms/carrierStore';
+import { codeMatches } from '@/lib/sms/codeHash';
+import { OTP_POLICY, attemptsRemaining, isOtpCode } from '@/lib/sms/otpPolicy';
+import type { FsVerificationCode } from '@/lib/firebase/types';
+import { limitRequest } from '@/lib/rateLimit/rateLimitStore';
 
 export const dynamic = 'force-dynamic';
 
@@ -40,13 +53,19 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  if (!/^\d{6}$/.test(code)) {
+  if (!isOtpCode(code)) {
     return NextResponse.json(
-      { error: 'invalid_code', message: 'Please enter the 6-digit code.' },
+      { error: 'invalid_code', message: `Please enter the ${OTP_POLICY.length}-digit code.` },
       { status: 400 },
     );
   }
 
+  const limited = await limitRequest(req, 'sms_verify', {
+    device: typeof body.deviceId === 'string' ? body.deviceId : null,
+    phone,
+  });
+  if (limited) return limited;
+
   const now = Date.now();
 
   // Fetch all unused codes for this phone, filter expired in code
@@ -67,13 +86,25 @@ export async function POST(req: NextRequest) {
   }
 
   const doc      = valid[0];
-  const stored   = doc.data();
-  const attempts = (Number(stored.attempts) || 0) + 1;
+  const stored   = doc.data() as FsVerificationCode;
 
+  if ((Number(stored.attempts) || 0) >= OTP_POLICY.maxAttempts) {
+    await doc.ref.update({ used: true });
+    return NextResponse.json(
+      { error: 'too_many_attempts', message: 'Too many incorrect attempts. Please request a new code.' },
+      { status: 429 },
+    );
+  }
+
+  const attempts = (Number(stored.attempts) || 0) + 1;
   await doc.ref.update({ attempts });
 
-  if (stored.code !== code) {
-    const remaining = Math.max(0, 5 - attempts);
+  // Gateway sends hold one code per gateway; the match is the carrier that delivered
+  const carrier = stored.gateway_codes ? matchGatewayCode(stored, code) : null;
+  const matched = stored.gateway_codes ? carrier !== null : codeMatches(stored, code);
+
+  if (!matched) {
+    const remaining = attemptsRemaining(attempts);
     if (remaining === 0) await doc.ref.update({ used: true });
     const msg = remaining > 0
       ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`
@@ -81,11 +112,18 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'incorrect_code', message: msg }, { status: 400 });
   }
 
-  await doc.ref.update({ used: true });
+  await doc.ref.update({ used: true, carrier });
+  if (carrier) {
+    try {
+      await rememberCarrier(phone, carrier);
+    } catch (err) {
+      console.error('[sms/verify] Carrier cache error:', err instanceof Error ? err.message : err);
+    }
+  }
 
-  // Short-lived phone verification token (5 minutes)
-  const phoneToken = jwt.sign({ phone, verified: true }, JWT_SECRET, { expiresIn: 300 });
+  // Short-lived phone verification token (5 minutes); carrier becomes FsLead.carrier
+  const phoneToken = jwt.sign({ phone, verified: true, carrier }, JWT_SECRET, { expiresIn: 300 });
 
-  console.log(`[sms/verify] ✓ phone ${phone} verified`);
+  console.log(`[sms/verify] ✓ phone ${phone} verified${carrier ? ` via ${carrier}` : ''}`);
   return NextResponse.json({ success: true, phoneToken });
 }
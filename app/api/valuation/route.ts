@@ -0,0 +1,18 @@
+/**
+ * GET /api/valuation
+ *
+ * Public. Returns the active valuation table so the widget and quiz show
+ * the same numbers the server stores on the lead.
+ *
+ * Response 200: { table: ValuationTable }   -- version 0 = built-in defaults
+ */
+
+import { NextResponse } from 'next/server';
+import { getActiveValuationTable } from '@/lib/estimator/valuationStore';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const table = await getActiveValuationTable();
+  return NextResponse.json({ table });
+}
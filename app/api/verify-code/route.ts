@@ -2,13 +2,30 @@
  * POST /api/verify-code
  *
  * Accepts a phoneToken (issued by /api/sms/verify) plus lead data,
- * creates a verified lead in Firestore, and returns a session JWT.
+ * creates a verified lead in Firestore, links it to any earlier lead from the
+ * same person (lib/leads/duplicates.ts), and returns a session JWT.
+ * The lead's carrier is the gateway that delivered the code, when the
+ * phoneToken carries one (lib/sms/carrierCodes.ts).
+ *
+ * The lead is scored for fraud signals (lib/leads/quality.ts) and stored
+ * with quality_flags / quality_risk; a high-risk lead is held from
+ * distribution until an admin releases it.
  *
  * Body: { phoneToken, name, email?, phone?,
- *         injuryType?, surgery?, lostWages?, estimateLow?, estimateHigh?,
+ *         injuryTypes,          -- InjuryType[] (at least one); legacy injuryType string also accepted.
+ *                                  Anything else (e.g. an incident type) is dropped.
+ *         surgery?, lostWages?, medicalBills?, futureCare?,
+ *         atFaultCoverage?, umCoverage?,   -- CoverageTier (lib/estimator/coverage.ts)
+ *         estimateLow?, estimateHigh?,   -- ignored when the server can recompute the range
  *         source?,              -- 'widget' | 'quiz'
+ *         touchpoints?,         -- funnels used before this one, e.g. ['widget'] (lib/quiz/prefill.ts)
+ *         locale?,              -- 'en' | 'es', stored as preferred_language
+ *         deviceId?,            -- lib/leads/device.ts, for submission velocity
+ *         durationMs?,          -- quiz only: first question to submission (omitted when resumed or prefilled)
  *         // Quiz-only extras:
- *         incidentType?, state?, incidentTimeframe?, atFault?,
+ *         incidentType?, state?, governmentDefendant?, incidentTimeframe?, faultLevel?,
+ *         medMalType?, vehicleType?, …,   -- incident-module follow-ups (lib/quiz/modules)
+ *         atFault?,             -- legacy boolean, mapped to faultLevel
  *         receivedTreatment?, hospitalized?, hasSurgery?, stillInTreatment?,
  *         missedWork?, insuranceContact?, hasAttorney? }
  *
@@ -20,8 +37,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import jwt from 'jsonwebtoken';
 import { adminDb } from '@/lib/firebase/admin';
-import { calculateScore, scoreTier, calculateQuizEstimate } from '@/lib/quiz/scoring';
-import type { QuizAnswers } from '@/lib/quiz/types';
+import type { FsLead } from '@/lib/firebase/types';
+import { buildLead } from '@/lib/leads/submission';
+import { findDuplicates, linkDuplicates } from '@/lib/leads/duplicateStore';
+import { assessLeadQuality, intakeFields } from '@/lib/leads/qualityStore';
 import { validateEmailServer } from '@/lib/validate-email-server';
 
 export const dynamic = 'force-dynamic';
@@ -40,29 +59,7 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const {
-    phoneToken,
-    name,
-    email,
-    phone: bodyPhone,
-    injuryType,
-    surgery,
-    lostWages,
-    estimateLow,
-    estimateHigh,
-    source = 'widget',
-    incidentType,
-    incidentTimeframe,
-    atFault,
-    receivedTreatment,
-    hospitalized,
-    hasSurgery,
-    stillInTreatment,
-    missedWork,
-    insuranceContact,
-    hasAttorney,
-    state: leadState,
-  } = body;
+  const { phoneToken, name, email, phone: bodyPhone, source = 'widget' } = body;
 
   if (!phoneToken || typeof phoneToken !== 'string') {
     return NextResponse.json(
@@ -73,10 +70,12 @@ export async function POST(req: NextRequest) {
 
   // Verify the short-lived JWT issued by /api/sms/verify
   let phone: string;
+  let carrier: string | null;
   try {
-    const decoded = jwt.verify(phoneToken, JWT_SECRET) as { phone: string; verified: boolean };
+    const decoded = jwt.verify(phoneToken, JWT_SECRET) as { phone: string; verified: boolean; carrier?: string | null };
     if (!decoded.phone || !decoded.verified) throw new Error('Invalid token claims');
-    phone = decoded.phone;
+    phone   = decoded.phone;
+    carrier = decoded.carrier ?? null;
   } catch {
     return NextResponse.json(
       { error: 'unauthorized', message: 'Phone verification expired or invalid. Please verify your number again.' },
@@ -107,83 +106,52 @@ export async function POST(req: NextRequest) {
     }
   }
 
-  const now    = Date.now();
-  const isQuiz = String(source) === 'quiz';
-
-  let score     = 0;
-  let tier      = 'COLD';
-  let finalLow  = Number(estimateLow  ?? 0);
-  let finalHigh = Number(estimateHigh ?? 0);
-
-  if (isQuiz) {
-    const qa: QuizAnswers = {
-      incidentType:      (incidentType      as QuizAnswers['incidentType'])      ?? null,
-      state:             (leadState         as string)                           ?? null,
-      incidentTimeframe: (incidentTimeframe as QuizAnswers['incidentTimeframe']) ?? null,
-      atFault:           atFault            != null ? Boolean(atFault)           : null,
-      receivedTreatment: (receivedTreatment as QuizAnswers['receivedTreatment']) ?? null,
-      hospitalized:      hospitalized       != null ? Boolean(hospitalized)      : null,
-      hasSurgery:        hasSurgery         != null ? Boolean(hasSurgery)        : null,
-      stillInTreatment:  (stillInTreatment  as QuizAnswers['stillInTreatment'])  ?? null,
-      missedWork:        (missedWork        as QuizAnswers['missedWork'])         ?? null,
-      lostWages:         Number(lostWages   ?? 0),
-      insuranceContact:  (insuranceContact  as QuizAnswers['insuranceContact'])  ?? null,
-      hasAttorney:       (hasAttorney       as QuizAnswers['hasAttorney'])        ?? null,
-    };
-
-    score = calculateScore(qa);
-    tier  = scoreTier(score);
-    const est = calculateQuizEstimate(qa);
-    finalLow  = est.low;
-    finalHigh = est.high;
+  const built = await buildLead(body, phone, true);
+  if (!built.ok) {
+    return NextResponse.json({ error: 'invalid_input', message: built.message }, { status: 400 });
   }
+  const intake = intakeFields(req, body);
+  let quality = {};
+  try {
+    quality = await assessLeadQuality({ ...built.lead, ...intake }, body.receivedTreatment);
+  } catch (err: unknown) {
+    console.error('[verify-code] Quality check error:', err instanceof Error ? err.message : err);
+  }
+  // The gateway that delivered the code, when /api/sms/verify learned it
+  const lead = { ...built.lead, ...(carrier ? { carrier } : {}), ...intake, ...quality };
 
-  const hasSurgeryBool         = hasSurgery  != null ? Boolean(hasSurgery)  : Boolean(surgery);
-  const hospitalizedBool       = hospitalized != null ? Boolean(hospitalized) : false;
-  const stillTreatingBool      = stillInTreatment === 'yes';
-  const missedWorkBool         = missedWork === 'yes_missed' || missedWork === 'yes_cant_work';
-  const hasAttorneyBool        = hasAttorney === 'yes';
-  const insuranceContactedBool = insuranceContact === 'they_contacted' || insuranceContact === 'got_letter';
-  const atFaultBool            = Boolean(atFault);
-
+  // A partial lead captured for this phone before verification becomes the
+  // verified lead, so retargeting can count it as recovered.
   let leadId: string | null = null;
   try {
-    const leadRef = await adminDb.collection('leads').add({
-      name:                String(name  ?? '').trim(),
-      phone,
-      email:               email ? String(email).trim() : null,
-      carrier:             'gateway_sms',
-      state:               String(leadState ?? '') || null,
-      injury_type:         String(injuryType ?? 'soft_tissue'),
-      surgery:             hasSurgeryBool,
-      hospitalized:        hospitalizedBool,
-      still_treating:      stillTreatingBool,
-      missed_work:         missedWorkBool,
-      lost_wages_estimate: Number(lostWages ?? 0),
-      has_attorney:        hasAttorneyBool,
-      insurance_contacted: insuranceContactedBool,
-      at_fault:            atFaultBool,
-      estimate_low:        finalLow,
-      estimate_high:       finalHigh,
-      score,
-      tier,
-      verified:            true,
-      source:              String(source ?? 'widget'),
-      timestamp:           now,
-      delivered:           false,
-      replaced:            false,
-      disputed:            false,
-      client_id:           null,
-      incident_timeframe:  String(incidentTimeframe ?? '') || null,
-      statute_warning:     false,
-      disqualified:        false,
-      disqualify_reason:   null,
-    });
-    leadId = leadRef.id;
+    const partial = await adminDb.collection('leads')
+      .where('phone', '==', phone)
+      .where('verified', '==', false)
+      .limit(1)
+      .get();
+    if (partial.empty) {
+      leadId = (await adminDb.collection('leads').add(lead)).id;
+    } else {
+      const doc = partial.docs[0];
+      await doc.ref.set({ ...lead, nurture_count: (doc.data() as FsLead).nurture_count ?? 0 });
+      leadId = doc.id;
+    }
   } catch (err: unknown) {
     console.error('[verify-code] Lead insert error:', err instanceof Error ? err.message : err);
   }
 
+  // Someone who already verified (same phone, email, or name + state) is
+  // linked as a duplicate so the lead is not sold twice — see lib/leads/duplicates.ts.
+  if (leadId) {
+    try {
+      const matches = await findDuplicates(lead, leadId);
+      const group   = await linkDuplicates(leadId, matches);
+      if (group) console.log(`[verify-code] Lead ${leadId} matches ${matches.map(m => m.id).join(', ')} (group ${group})`);
+    } catch (err: unknown) {
+      console.error('[verify-code] Duplicate check error:', err instanceof Error ? err.message : err);
+    }
+  }
+
   const token = jwt.sign(
     { phone, leadId, role: 'lead', source },
     JWT_SECRET,
@@ -192,7 +160,7 @@ export async function POST(req: NextRequest) {
 
   console.log(
     `[verify-code] ✓ ${String(source).toUpperCase()} lead verified: ` +
-    `${String(name ?? '').trim()} (${phone}) score=${score} tier=${tier}`,
+    `${String(name ?? '').trim()} (${phone}) score=${lead.score} tier=${lead.tier}`,
   );
 
   return NextResponse.json({ success: true, token, leadId });
@@ -13,6 +13,7 @@ import dynamic from 'next/dynamic';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
 import { validateEmailFormat } from '@/lib/validate-email';
+import { intakeDeviceId } from '@/lib/leads/device';
 import { US_STATES } from '@/lib/quiz/questions';
 import { FullPitch } from '@/remotion/videos/FullPitch';
 import BookingCalendar from '@/components/BookingCalendar';
@@ -222,6 +223,7 @@ function PricingGate({ onUnlock }: { onUnlock: (name: string, state: string, ema
           case_volume: caseVolume,
           bar_number:  barNumber,
           source:      'pricing_gate',
+          deviceId:    intakeDeviceId(),
         }),
       });
       const data = await res.json();
@@ -1,6 +1,7 @@
 /**
  * /widget — Standalone widget page (also embeddable via iframe).
  * Minimal chrome, widget centered, transparent background option.
+ * Optional ?state=Texas enables state-adjusted ranges (unknown names are ignored).
  */
 import { CaseEstimatorWidget } from '@/components/widget/CaseEstimatorWidget';
 
@@ -8,7 +9,7 @@ export const metadata = {
   title: 'Case Value Estimator — Settlement Sam',
 };
 
-export default function WidgetPage() {
+export default function WidgetPage({ searchParams }: { searchParams: { state?: string } }) {
   return (
     <main
       style={{
@@ -20,7 +21,7 @@ export default function WidgetPage() {
         background:     'var(--ss-bg)',
       }}
     >
-      <CaseEstimatorWidget funnelHref="/quiz" apiBase="/api" />
+      <CaseEstimatorWidget funnelHref="/quiz" apiBase="/api" state={searchParams.state} />
     </main>
   );
 }
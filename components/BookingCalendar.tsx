@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { intakeDeviceId } from '@/lib/leads/device';
 
 interface Props {
   attorneyName:  string;
@@ -91,6 +92,7 @@ export default function BookingCalendar({ attorneyName, attorneyEmail, firmName,
           case_volume:  '',
           date:         selectedDate,
           time:         selectedTime,
+          deviceId:     intakeDeviceId(),
         }),
       });
 
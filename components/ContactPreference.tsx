@@ -1,10 +1,13 @@
 'use client';
 
 import { useState } from 'react';
+import { DEFAULT_LOCALE, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 interface Props {
   onComplete: (prefs: ContactPrefs) => void;
   leadName?: string;
+  locale?: Locale;
 }
 
 export interface ContactPrefs {
@@ -13,17 +16,9 @@ export interface ContactPrefs {
   timezone: string;
 }
 
-const URGENCY_OPTIONS = [
-  { value: 'asap',      label: 'As soon as possible', sub: 'I need help right away' },
-  { value: 'today',     label: 'Today',               sub: 'Sometime in the next few hours' },
-  { value: 'this_week', label: 'This week',            sub: 'No rush, within a few days' },
-];
-
-const HOUR_SLOTS = [
-  { value: 'morning',   label: 'Morning',   sub: '8am – 12pm' },
-  { value: 'afternoon', label: 'Afternoon', sub: '12pm – 5pm' },
-  { value: 'evening',   label: 'Evening',   sub: '5pm – 8pm' },
-];
+// Labels come from messages(locale).preference
+const URGENCY_OPTIONS = ['asap', 'today', 'this_week'];
+const HOUR_SLOTS      = ['morning', 'afternoon', 'evening'];
 
 const BRAND = {
   amber:  '#E8A838',
@@ -34,7 +29,8 @@ const BRAND = {
   bg:     '#FDF6E9',
 };
 
-export default function ContactPreference({ onComplete, leadName }: Props) {
+export default function ContactPreference({ onComplete, leadName, locale = DEFAULT_LOCALE }: Props) {
+  const t = messages(locale).preference;
   const [urgency, setUrgency] = useState('');
   const [hours,   setHours]   = useState<string[]>([]);
 
@@ -67,44 +63,44 @@ export default function ContactPreference({ onComplete, leadName }: Props) {
   return (
     <div style={{ fontFamily: 'Inter, sans-serif' }}>
       <p style={{ color: BRAND.text, fontWeight: 700, fontSize: 18, marginBottom: 4, textAlign: 'center' }}>
-        {leadName ? `Almost done, ${leadName}!` : 'Almost done!'}
+        {t.almostDone(leadName ?? '')}
       </p>
       <p style={{ color: BRAND.light, fontSize: 14, marginBottom: 24, textAlign: 'center' }}>
-        When is the best time for an attorney to reach you?
+        {t.bestTime}
       </p>
 
       {/* Urgency */}
       <p style={{ color: BRAND.text, fontWeight: 600, fontSize: 13, marginBottom: 8, textTransform: 'uppercase', letterSpacing: 1 }}>
-        How soon do you need help?
+        {t.howSoon}
       </p>
-      {URGENCY_OPTIONS.map(opt => (
-        <button key={opt.value} onClick={() => setUrgency(opt.value)} style={cardStyle(urgency === opt.value)}>
-          <div style={{ fontWeight: 600, color: BRAND.text, fontSize: 15 }}>{opt.label}</div>
-          <div style={{ fontSize: 12, color: BRAND.light, marginTop: 2 }}>{opt.sub}</div>
+      {URGENCY_OPTIONS.map(value => (
+        <button key={value} onClick={() => setUrgency(value)} style={cardStyle(urgency === value)}>
+          <div style={{ fontWeight: 600, color: BRAND.text, fontSize: 15 }}>{t.urgency[value].label}</div>
+          <div style={{ fontSize: 12, color: BRAND.light, marginTop: 2 }}>{t.urgency[value].sub}</div>
         </button>
       ))}
 
       {/* Time of day */}
       <p style={{ color: BRAND.text, fontWeight: 600, fontSize: 13, marginBottom: 8, marginTop: 20, textTransform: 'uppercase', letterSpacing: 1 }}>
-        Best time of day? <span style={{ fontWeight: 400, textTransform: 'none' }}>(select all that apply)</span>
+        {t.timeOfDay} <span style={{ fontWeight: 400, textTransform: 'none' }}>{t.selectAll}</span>
       </p>
       <div style={{ display: 'flex', gap: 8 }}>
         {HOUR_SLOTS.map(slot => (
           <button
-            key={slot.value}
-            onClick={() => toggleHour(slot.value)}
+            key={slot}
+            onClick={() => toggleHour(slot)}
             style={{
               flex:        1,
               padding:     '12px 8px',
               borderRadius: 12,
-              border:      `2px solid ${hours.includes(slot.value) ? BRAND.amber : BRAND.border}`,
-              background:  hours.includes(slot.value) ? '#FFF8EC' : '#FFFFFF',
+              border:      `2px solid ${hours.includes(slot) ? BRAND.amber : BRAND.border}`,
+              background:  hours.includes(slot) ? '#FFF8EC' : '#FFFFFF',
               cursor:      'pointer',
               textAlign:   'center',
             }}
           >
-            <div style={{ fontWeight: 600, color: BRAND.text, fontSize: 13 }}>{slot.label}</div>
-            <div style={{ fontSize: 11, color: BRAND.light, marginTop: 2 }}>{slot.sub}</div>
+            <div style={{ fontWeight: 600, color: BRAND.text, fontSize: 13 }}>{t.hours[slot].label}</div>
+            <div style={{ fontSize: 11, color: BRAND.light, marginTop: 2 }}>{t.hours[slot].sub}</div>
           </button>
         ))}
       </div>
@@ -126,7 +122,7 @@ export default function ContactPreference({ onComplete, leadName }: Props) {
           transition:   'background 0.15s',
         }}
       >
-        Get My Results →
+        {t.submit}
       </button>
     </div>
   );
@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { formatCurrency } from '@/lib/estimator/logic';
+import type { EstimateBreakdown, EstimateLineItem } from '@/lib/estimator/types';
+import { DEFAULT_LOCALE, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+interface Props {
+  breakdown: EstimateBreakdown;
+  /** Start expanded (defaults to collapsed behind a toggle). */
+  defaultOpen?: boolean;
+  locale?: Locale;
+}
+
+// Inherits text colour so it reads on both the dark widget and the light quiz card.
+const BRAND = {
+  amber:  '#E8A838',
+  border: 'rgba(127,127,127,0.30)',
+};
+
+function range(item: { low: number; high: number }, locale: Locale): string {
+  return item.low === item.high
+    ? formatCurrency(item.low, locale)
+    : `${formatCurrency(item.low, locale)} – ${formatCurrency(item.high, locale)}`;
+}
+
+function formatFactor(factor: number, factorHigh?: number): string {
+  const fmt = (n: number) => String(Number(n.toFixed(2)));
+  return factorHigh != null ? `×${fmt(factor)}–${fmt(factorHigh)}` : `×${fmt(factor)}`;
+}
+
+function Row({ label, value, strong, muted }: { label: string; value: string; strong?: boolean; muted?: boolean }) {
+  return (
+    <div style={{
+      display: 'flex', justifyContent: 'space-between', gap: 12,
+      fontSize: 13, padding: '6px 0',
+      opacity: muted ? 0.7 : 1,
+      fontWeight: strong ? 700 : 500,
+    }}>
+      <span>{label}</span>
+      <span style={{ whiteSpace: 'nowrap' }}>{value}</span>
+    </div>
+  );
+}
+
+/**
+ * "How we got this number" — itemizes an estimate into its base value,
+ * each multiplier applied, and the economic damages added on top.
+ * Shared by the widget result step and the quiz success screen.
+ */
+export default function EstimateBreakdownPanel({ breakdown, defaultOpen = false, locale = DEFAULT_LOCALE }: Props) {
+  const [open, setOpen] = useState(defaultOpen);
+  const t     = messages(locale).breakdown;
+  const label = (item: { id: string; label: string }) => t.items[item.id] ?? item.label;
+
+  // The state factor scales the primary base; secondary injuries arrive state-adjusted.
+  const stateMultipliers   = breakdown.multipliers.filter(m => m.appliesTo === 'general' && m.id === 'state');
+  const generalMultipliers = breakdown.multipliers.filter(m => m.appliesTo === 'general' && m.id !== 'state');
+  const totalMultipliers   = breakdown.multipliers.filter(m => m.appliesTo === 'total');
+
+  return (
+    <div style={{ width: '100%', border: `1px solid ${BRAND.border}`, borderRadius: 12, padding: '10px 14px', textAlign: 'left' }}>
+      <button
+        type="button"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+        style={{
+          width: '100%', display: 'flex', justifyContent: 'space-between', alignItems: 'center',
+          background: 'none', border: 'none', padding: 0, cursor: 'pointer',
+          fontSize: 12, fontWeight: 700, color: BRAND.amber, textTransform: 'uppercase', letterSpacing: 0.5,
+        }}
+      >
+        {t.title}
+        <span aria-hidden="true">{open ? '−' : '+'}</span>
+      </button>
+
+      {open && (
+        <div style={{ marginTop: 8 }}>
+          <Row label={label(breakdown.baseRange)} value={range(breakdown.baseRange, locale)} />
+          {stateMultipliers.map(m => (
+            <Row key={m.id} label={label(m)} value={formatFactor(m.factor, m.factorHigh)} muted />
+          ))}
+          {breakdown.secondaryInjuries.map((item: EstimateLineItem) => (
+            <Row key={item.id} label={`+ ${label(item)}`} value={range(item, locale)} />
+          ))}
+          {generalMultipliers.map(m => (
+            <Row key={m.id} label={label(m)} value={formatFactor(m.factor, m.factorHigh)} muted />
+          ))}
+          <Row label={label(breakdown.generalDamages)} value={range(breakdown.generalDamages, locale)} strong />
+
+          {breakdown.economicDamages.map((item: EstimateLineItem) => (
+            <Row key={item.id} label={`+ ${label(item)}`} value={range(item, locale)} />
+          ))}
+          {totalMultipliers.map(m => (
+            <Row key={m.id} label={label(m)} value={formatFactor(m.factor, m.factorHigh)} muted />
+          ))}
+
+          <div style={{ borderTop: `1px solid ${BRAND.border}`, marginTop: 6 }}>
+            <Row label={t.estimatedRange} value={range(breakdown.total, locale)} strong />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { LOCALES, LOCALE_LABELS, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+interface Props {
+  locale:    Locale;
+  onChange:  (locale: Locale) => void;
+  /** Class prefix — 'sq' inside the quiz, 'ss' inside the widget. */
+  variant?:  'sq' | 'ss';
+}
+
+export default function LanguageSwitcher({ locale, onChange, variant = 'sq' }: Props) {
+  return (
+    <div className={`${variant}-lang`} role="group" aria-label={messages(locale).common.language}>
+      {LOCALES.map(l => (
+        <button
+          key={l}
+          type="button"
+          lang={l}
+          className={`${variant}-lang__btn${l === locale ? ` ${variant}-lang__btn--active` : ''}`}
+          aria-pressed={l === locale}
+          onClick={() => onChange(l)}
+        >
+          {LOCALE_LABELS[l]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -5,13 +5,21 @@
  * Phone verification using the /api/sms/send + /api/sms/verify routes.
  * Codes are sent via carrier email gateways; /api/sms/verify returns a
  * short-lived phoneToken JWT that proves phone ownership to /api/verify-code.
+ * Code length, resend cooldown and resend count follow lib/sms/otpPolicy.ts,
+ * which the server enforces too.
  *
  * Props:
  *   onVerified(phone, phoneToken) — called after code confirmed.
+ *   onCodeSent?(phone)            — called when the first code is sent (partial-lead capture).
  *   leadName?                     — personalised greeting.
+ *   locale?                       — language of the screen and the text message.
  */
 
 import React, { useState } from 'react';
+import { DEFAULT_LOCALE, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import { intakeDeviceId } from '@/lib/leads/device';
+import { OTP_MAX_RESENDS, OTP_POLICY, formatCountdown, isOtpCode, otpDigits } from '@/lib/sms/otpPolicy';
 
 // ── Phone formatter ────────────────────────────────────────────────────────────
 
@@ -29,13 +37,16 @@ function rawDigits(formatted: string): string {
 // ── Props ──────────────────────────────────────────────────────────────────────
 
 interface Props {
-  onVerified: (phone: string, phoneToken: string) => void;
-  leadName?:  string;
+  onVerified:  (phone: string, phoneToken: string) => void;
+  onCodeSent?: (phone: string) => void;
+  leadName?:   string;
+  locale?:     Locale;
 }
 
 // ── Component ──────────────────────────────────────────────────────────────────
 
-export default function SMSVerification({ onVerified, leadName }: Props) {
+export default function SMSVerification({ onVerified, onCodeSent, leadName, locale = DEFAULT_LOCALE }: Props) {
+  const { sms: t, common } = messages(locale);
   const [phone,     setPhone]     = useState('');
   const [codeSent,  setCodeSent]  = useState(false);
   const [code,      setCode]      = useState('');
@@ -47,8 +58,8 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
 
   const cooldownRef = React.useRef<ReturnType<typeof setInterval> | null>(null);
 
-  function startCooldown() {
-    setCooldown(60);
+  function startCooldown(seconds: number) {
+    setCooldown(seconds);
     if (cooldownRef.current) clearInterval(cooldownRef.current);
     cooldownRef.current = setInterval(() => {
       setCooldown(prev => {
@@ -58,75 +69,81 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
     }, 1_000);
   }
 
-  async function sendCode(digits: string) {
+  /**
+   * Resolves with the cooldown to show. A send refused for cooldown means the
+   * previous code is still on its way, so it counts as sent.
+   */
+  async function sendCode(digits: string): Promise<number> {
     const res  = await fetch('/api/sms/send', {
       method:  'POST',
       headers: { 'Content-Type': 'application/json' },
-      body:    JSON.stringify({ phone: digits }),
+      body:    JSON.stringify({ phone: digits, locale, deviceId: intakeDeviceId() }),
     });
     const data = await res.json();
-    if (!res.ok) throw new Error(data.message ?? 'Failed to send code.');
+    if (res.status === 429 && data.error === 'cooldown') return Number(data.retryAfter) || OTP_POLICY.resendCooldownS;
+    if (!res.ok) throw new Error(data.message ?? t.sendFailed);
+    return OTP_POLICY.resendCooldownS;
   }
 
   async function handleSend() {
     const digits = rawDigits(phone);
     if (digits.length !== 10) {
-      setError('Please enter a valid 10-digit phone number.');
+      setError(t.invalidPhone);
       return;
     }
     setError('');
     setSending(true);
     try {
-      await sendCode(digits);
+      const wait = await sendCode(digits);
       setCodeSent(true);
-      startCooldown();
+      startCooldown(wait);
+      onCodeSent?.(digits);
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setError(err instanceof Error ? err.message : common.genericError);
     } finally {
       setSending(false);
     }
   }
 
   async function handleResend() {
-    if (cooldown > 0 || resends >= 3) return;
+    if (cooldown > 0 || resends >= OTP_MAX_RESENDS) return;
     setResends(r => r + 1);
     setCode('');
     setError('');
     setSending(true);
     try {
-      await sendCode(rawDigits(phone));
-      startCooldown();
+      startCooldown(await sendCode(rawDigits(phone)));
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setError(err instanceof Error ? err.message : common.genericError);
     } finally {
       setSending(false);
     }
   }
 
   async function handleVerify(codeToVerify: string) {
-    if (codeToVerify.length !== 6) return;
+    if (!isOtpCode(codeToVerify)) return;
     setError('');
     setVerifying(true);
     try {
       const res  = await fetch('/api/sms/verify', {
         method:  'POST',
         headers: { 'Content-Type': 'application/json' },
-        body:    JSON.stringify({ phone: rawDigits(phone), code: codeToVerify }),
+        body:    JSON.stringify({ phone: rawDigits(phone), code: codeToVerify, deviceId: intakeDeviceId() }),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.message ?? 'Verification failed.');
+      if (!res.ok) throw new Error(data.message ?? t.verifyFailed);
       onVerified(rawDigits(phone), data.phoneToken);
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setError(err instanceof Error ? err.message : common.genericError);
       setVerifying(false);
     }
   }
 
   function handleCodeChange(e: React.ChangeEvent<HTMLInputElement>) {
-    const val = e.target.value.replace(/\D/g, '').slice(0, 6);
+    const val = otpDigits(e.target.value);
     setCode(val);
     setError('');
-    if (val.length === 6) handleVerify(val);
+    if (isOtpCode(val)) handleVerify(val);
   }
 
   // ── Render ─────────────────────────────────────────────────────────────────
@@ -138,10 +155,10 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
         <div className="sms-gate">
           <div style={{ marginBottom: 16, textAlign: 'center' }}>
             <p style={{ fontSize: 14, color: '#6B7280', marginBottom: 4 }}>
-              {leadName ? `One last step, ${leadName}!` : 'One last step!'}
+              {t.oneLastStep(leadName ?? '')}
             </p>
             <p style={{ fontSize: 13, color: '#9CA3AF' }}>
-              We&apos;ll text you a 6-digit code to verify it&apos;s you.
+              {t.willText}
             </p>
           </div>
 
@@ -182,11 +199,11 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
               marginBottom: 12,
             }}
           >
-            {sending ? 'Sending…' : 'Text Me My Code 📱'}
+            {sending ? common.sending : t.sendCode}
           </button>
 
           <p style={{ fontSize: 11, color: '#9CA3AF', textAlign: 'center' }}>
-            Standard message rates may apply. We never share your number.
+            {t.rates}
           </p>
         </div>
       )}
@@ -196,10 +213,10 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
         <div className="sms-verify">
           <div style={{ textAlign: 'center', marginBottom: 16 }}>
             <p style={{ fontSize: 15, color: '#2C3E35', fontWeight: 500 }}>
-              Code sent to {formatPhone(phone)}
+              {t.codeSentTo(formatPhone(phone))}
             </p>
             <p style={{ fontSize: 13, color: '#6B7280' }}>
-              Enter the 6-digit code from your text message.
+              {t.enterCode}
             </p>
           </div>
 
@@ -207,8 +224,8 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
             type="tel"
             value={code}
             onChange={handleCodeChange}
-            placeholder="000000"
-            maxLength={6}
+            placeholder={'0'.repeat(OTP_POLICY.length)}
+            maxLength={OTP_POLICY.length}
             inputMode="numeric"
             autoComplete="one-time-code"
             autoFocus
@@ -224,7 +241,7 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
 
           {verifying && (
             <p style={{ color: '#E8A838', fontSize: 14, textAlign: 'center', marginBottom: 8 }}>
-              Verifying…
+              {t.verifying}
             </p>
           )}
 
@@ -237,11 +254,11 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
           <div style={{ textAlign: 'center', marginTop: 12 }}>
             {cooldown > 0 ? (
               <p style={{ fontSize: 13, color: '#9CA3AF' }}>
-                Resend code in 0:{String(cooldown).padStart(2, '0')}
+                {t.resendIn(formatCountdown(cooldown))}
               </p>
-            ) : resends >= 3 ? (
+            ) : resends >= OTP_MAX_RESENDS ? (
               <p style={{ fontSize: 13, color: '#EF4444' }}>
-                Max resends reached. Please refresh and try again.
+                {t.maxResends}
               </p>
             ) : (
               <button
@@ -252,7 +269,7 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
                   fontSize: 14, cursor: 'pointer', textDecoration: 'underline',
                 }}
               >
-                Didn&apos;t get it? Resend Code
+                {t.resend}
               </button>
             )}
 
@@ -266,7 +283,7 @@ export default function SMSVerification({ onVerified, leadName }: Props) {
                 color: '#9CA3AF', fontSize: 12, cursor: 'pointer',
               }}
             >
-              Wrong number? Go back
+              {t.wrongNumber}
             </button>
           </div>
         </div>
@@ -0,0 +1,188 @@
+'use client';
+/**
+ * components/admin/tabs/DuplicatesTab.tsx
+ * Tab 11 — Leads that look like the same person (lib/leads/duplicates.ts).
+ *   One table per open group: Name | Phone | Email | State | Source | Score | Status | Captured | Actions
+ *   Actions: Keep this (merge the rest into it), Merge (keep best), View lead
+ *   Distribution refuses every lead in a group until it is merged.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminFetch } from '@/lib/admin/auth';
+import { DUPLICATE_REASON_LABELS } from '@/lib/leads/duplicates';
+import type { DuplicateReason } from '@/lib/leads/duplicates';
+
+interface GroupLead {
+  id:                string;
+  name:              string;
+  phone:             string;
+  email:             string | null;
+  state:             string | null;
+  source:            string;
+  score:             number;
+  tier:              string;
+  verified:          boolean;
+  delivered:         boolean;
+  timestamp:         number;
+  duplicate_reasons: DuplicateReason[];
+}
+
+interface DuplicateGroup {
+  groupId:   string;
+  primaryId: string;
+  latest:    number;
+  leads:     GroupLead[];
+}
+
+function fmtDateTime(ts: number) {
+  return new Date(ts).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export function DuplicatesTab({ onViewLead }: { onViewLead: (id: string) => void }) {
+  const [groups,  setGroups]  = useState<DuplicateGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [merging, setMerging] = useState<string | null>(null);
+  const [msg,     setMsg]     = useState('');
+
+  const fetchGroups = useCallback(async () => {
+    setLoading(true);
+    const res  = await adminFetch('/api/admin/duplicates');
+    const data = await res.json();
+    if (res.ok) setGroups(data.groups);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { fetchGroups(); }, [fetchGroups]);
+
+  const handleMerge = async (groupId: string, keepId?: string) => {
+    setMsg('');
+    setMerging(groupId);
+    try {
+      const res  = await adminFetch('/api/admin/duplicates', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ groupId, keepId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message ?? 'Merge failed.');
+      const n = (data.merged as string[]).length;
+      setMsg(`✅ Merged ${n} record${n === 1 ? '' : 's'} into ${data.primaryId}.`);
+      await fetchGroups();
+    } catch (err: unknown) {
+      setMsg(err instanceof Error ? err.message : 'Merge failed.');
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  const records = groups.reduce((n, g) => n + g.leads.length, 0);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <h1 className="sa-page-title">Duplicates</h1>
+
+      <div className="sa-stats">
+        <div className="sa-stat-card">
+          <div className="sa-stat-label">Open Groups</div>
+          <div className="sa-stat-value">{groups.length}</div>
+          <div className="sa-stat-sub">Waiting to be merged</div>
+        </div>
+        <div className="sa-stat-card">
+          <div className="sa-stat-label">Records</div>
+          <div className="sa-stat-value">{records}</div>
+          <div className="sa-stat-sub">Held from delivery</div>
+        </div>
+      </div>
+
+      <div className="sa-table-wrap">
+        <div className="sa-table-header">
+          <span className="sa-table-title">Possible Duplicates</span>
+          <div className="sa-actions">
+            <button className="sa-btn sa-btn--primary" onClick={fetchGroups}>↺ Refresh</button>
+          </div>
+        </div>
+        {msg && (
+          <p style={{ fontSize: 12, color: msg.startsWith('✅') ? 'var(--ss-gold)' : '#f87171', margin: '0 20px 12px' }}>{msg}</p>
+        )}
+        {loading ? (
+          <p style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: 32 }}>Loading…</p>
+        ) : groups.length === 0 ? (
+          <p style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: 32 }}>No open duplicates.</p>
+        ) : null}
+      </div>
+
+      {!loading && groups.map(group => {
+        const reasons = [...new Set(group.leads.flatMap(l => l.duplicate_reasons))];
+        return (
+          <div key={group.groupId} className="sa-table-wrap">
+            <div className="sa-table-header">
+              <span className="sa-table-title">
+                {group.leads.length} records · {reasons.map(r => DUPLICATE_REASON_LABELS[r]).join(', ') || 'Linked'}
+              </span>
+              <div className="sa-actions">
+                <button
+                  className="sa-btn sa-btn--success"
+                  onClick={() => handleMerge(group.groupId)}
+                  disabled={merging === group.groupId}
+                >
+                  {merging === group.groupId ? 'Merging…' : '🔗 Merge (keep best)'}
+                </button>
+              </div>
+            </div>
+            <div style={{ overflowX: 'auto' }}>
+              <table className="sa-table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Phone</th>
+                    <th>Email</th>
+                    <th>State</th>
+                    <th>Source</th>
+                    <th>Score</th>
+                    <th>Status</th>
+                    <th>Captured</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.leads.map(lead => (
+                    <tr key={lead.id}>
+                      <td style={{ fontWeight: 600 }}>
+                        {lead.name}
+                        {lead.id === group.primaryId && (
+                          <div style={{ fontSize: 11, color: 'var(--ss-gold)' }}>Best record</div>
+                        )}
+                      </td>
+                      <td><a href={`tel:${lead.phone}`}>{lead.phone}</a></td>
+                      <td>{lead.email ?? <span style={{ color: 'var(--ss-muted)' }}>—</span>}</td>
+                      <td>{lead.state ?? <span style={{ color: 'var(--ss-muted)' }}>—</span>}</td>
+                      <td style={{ textTransform: 'capitalize' }}>{lead.source}</td>
+                      <td>
+                        {lead.score}{' '}
+                        <span className={`sq-tier sq-tier--${lead.tier}`} style={{ fontSize: 10 }}>{lead.tier}</span>
+                      </td>
+                      <td style={{ fontSize: 12 }}>{lead.delivered ? 'Delivered' : lead.verified ? 'Verified' : 'Partial'}</td>
+                      <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{fmtDateTime(lead.timestamp)}</td>
+                      <td>
+                        <div className="sa-actions">
+                          <button
+                            className="sa-btn sa-btn--primary"
+                            onClick={() => handleMerge(group.groupId, lead.id)}
+                            disabled={merging === group.groupId}
+                          >
+                            Keep this
+                          </button>
+                          <button className="sa-btn sa-btn--primary" onClick={() => onViewLead(lead.id)}>View</button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
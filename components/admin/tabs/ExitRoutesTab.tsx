@@ -0,0 +1,258 @@
+'use client';
+/**
+ * components/admin/tabs/ExitRoutesTab.tsx
+ * Tab 12 — Partner offers for visitors the quiz can't take (already has an
+ * attorney, or barred by fault), and how that traffic performs.
+ *   Report: exits, sessions that clicked, shown / clicks / CTR per offer (30 days)
+ *   Editor: offers per reason — partner, link, incident targeting, English and Spanish text
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminFetch } from '@/lib/admin/auth';
+import {
+  EXIT_OFFER_TYPES, EXIT_OFFER_TYPE_LABELS, EXIT_REASONS, EXIT_REASON_LABELS,
+  MAX_OFFERS_PER_REASON, newExitOffer,
+} from '@/lib/quiz/exitRoutes';
+import type { ExitOffer, ExitOfferText, ExitOfferType, ExitReason, ExitReasonReport, ExitRoutes } from '@/lib/quiz/exitRoutes';
+import { INCIDENT_TYPE_LABELS } from '@/lib/quiz/modules';
+import type { IncidentType } from '@/lib/quiz/types';
+
+const INCIDENT_TYPES = Object.keys(INCIDENT_TYPE_LABELS) as IncidentType[];
+const TEXT_FIELDS: { key: keyof ExitOfferText; label: string }[] = [
+  { key: 'headline', label: 'Headline' },
+  { key: 'body',     label: 'Body' },
+  { key: 'cta',      label: 'Button' },
+];
+
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
+export function ExitRoutesTab() {
+  const [routes,    setRoutes]    = useState<ExitRoutes | null>(null);
+  const [report,    setReport]    = useState<ExitReasonReport[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<number | null>(null);
+  const [updatedBy, setUpdatedBy] = useState<string | null>(null);
+  const [loading,   setLoading]   = useState(true);
+  const [saving,    setSaving]    = useState(false);
+  const [msg,       setMsg]       = useState('');
+
+  const fetchRoutes = useCallback(async () => {
+    setLoading(true);
+    const res  = await adminFetch('/api/admin/exit-routes');
+    const data = await res.json();
+    if (res.ok) {
+      setRoutes(data.routes);
+      setReport(data.report);
+      setUpdatedAt(data.updatedAt);
+      setUpdatedBy(data.updatedBy);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { fetchRoutes(); }, [fetchRoutes]);
+
+  const updateOffer = (reason: ExitReason, index: number, patch: Partial<ExitOffer>) => {
+    if (!routes) return;
+    setRoutes({ ...routes, [reason]: routes[reason].map((o, i) => (i === index ? { ...o, ...patch } : o)) });
+  };
+
+  const updateText = (reason: ExitReason, index: number, locale: 'en' | 'es', key: keyof ExitOfferText, value: string) => {
+    if (!routes) return;
+    const offer = routes[reason][index];
+    const text  = offer.text[locale] ?? { headline: '', body: '', cta: '' };
+    updateOffer(reason, index, { text: { ...offer.text, [locale]: { ...text, [key]: value } } });
+  };
+
+  const addOffer = (reason: ExitReason, type: ExitOfferType) => {
+    if (!routes) return;
+    setRoutes({ ...routes, [reason]: [...routes[reason], newExitOffer(type, routes[reason])] });
+  };
+
+  const removeOffer = (reason: ExitReason, index: number) => {
+    if (!routes) return;
+    setRoutes({ ...routes, [reason]: routes[reason].filter((_, i) => i !== index) });
+  };
+
+  const toggleIncident = (reason: ExitReason, index: number, type: IncidentType) => {
+    if (!routes) return;
+    const current = routes[reason][index].incidentTypes;
+    updateOffer(reason, index, {
+      incidentTypes: current.includes(type) ? current.filter(t => t !== type) : [...current, type],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!routes) return;
+    setMsg('');
+    setSaving(true);
+    try {
+      // Spanish text is optional — drop it when left blank so English shows instead
+      const cleaned = Object.fromEntries(EXIT_REASONS.map(reason => [reason, routes[reason].map(o => {
+        const es = o.text.es;
+        const blank = !es || (!es.headline.trim() && !es.body.trim() && !es.cta.trim());
+        return blank ? { ...o, text: { en: o.text.en } } : o;
+      })]));
+      const res  = await adminFetch('/api/admin/exit-routes', {
+        method: 'POST',
+        body:   JSON.stringify({ routes: cleaned }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMsg('✅ Exit routes saved.');
+        fetchRoutes();
+      } else {
+        setMsg(`❌ ${data.message ?? 'Save failed.'}`);
+      }
+    } catch {
+      setMsg('❌ Network error.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && !routes) return <p style={{ color: 'var(--ss-muted)' }}>Loading…</p>;
+  if (!routes) return <p style={{ color: 'var(--ss-muted)' }}>Could not load exit routes.</p>;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <h1 className="sa-page-title">Exit Routes</h1>
+
+      {/* Report */}
+      <div className="sa-stats">
+        {report.map(r => (
+          <div key={r.reason} className="sa-stat-card">
+            <div className="sa-stat-label">{EXIT_REASON_LABELS[r.reason]}</div>
+            <div className="sa-stat-value">{r.sessions}</div>
+            <div className="sa-stat-sub">
+              exits · {r.clicked} clicked an offer{r.sessions ? ` (${pct(r.clicked / r.sessions)})` : ''}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="sa-table-wrap">
+        <div className="sa-table-header">
+          <span className="sa-table-title">Offer Performance — last 30 days</span>
+          <div className="sa-actions">
+            <button className="sa-btn sa-btn--primary" onClick={fetchRoutes}>↺ Refresh</button>
+          </div>
+        </div>
+        {report.every(r => r.offers.length === 0) ? (
+          <p className="sa-empty">No offers shown yet.</p>
+        ) : (
+          <table className="sa-table">
+            <thead>
+              <tr>
+                <th>Exit</th>
+                <th>Offer</th>
+                <th>Shown</th>
+                <th>Clicks</th>
+                <th>CTR</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.flatMap(r => r.offers.map(o => (
+                <tr key={`${r.reason}-${o.offerId}`}>
+                  <td>{EXIT_REASON_LABELS[r.reason]}</td>
+                  <td style={{ fontWeight: 600 }}>{o.offerId}</td>
+                  <td>{o.shown}</td>
+                  <td>{o.clicks}</td>
+                  <td>{o.shown ? pct(o.clickRate) : '—'}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Editor */}
+      {EXIT_REASONS.map(reason => (
+        <div key={reason} className="sa-panel">
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12, flexWrap: 'wrap' }}>
+            <p className="sa-panel-title">{EXIT_REASON_LABELS[reason]}</p>
+            {routes[reason].length < MAX_OFFERS_PER_REASON && (
+              <select
+                className="sa-filter-select" value=""
+                onChange={e => { if (e.target.value) addOffer(reason, e.target.value as ExitOfferType); }}
+              >
+                <option value="">+ Add offer…</option>
+                {EXIT_OFFER_TYPES.map(type => <option key={type} value={type}>{EXIT_OFFER_TYPE_LABELS[type]}</option>)}
+              </select>
+            )}
+          </div>
+
+          {routes[reason].length === 0 && (
+            <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: 0 }}>No offers — visitors see the standard exit screen.</p>
+          )}
+
+          {routes[reason].map((offer, i) => (
+            <div key={`${offer.id}-${i}`} style={{ borderTop: '1px solid var(--ss-border)', paddingTop: 16, display: 'flex', flexDirection: 'column', gap: 12 }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12 }}>
+                <strong>{offer.id} <span style={{ color: 'var(--ss-muted)', fontWeight: 400 }}>· {EXIT_OFFER_TYPE_LABELS[offer.type]}</span></strong>
+                <div className="sa-actions">
+                  <label style={{ fontSize: 12, display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <input type="checkbox" checked={offer.enabled} onChange={e => updateOffer(reason, i, { enabled: e.target.checked })} />
+                    Enabled
+                  </label>
+                  <button className="sa-btn sa-btn--xs sa-btn--danger" onClick={() => removeOffer(reason, i)}>Remove</button>
+                </div>
+              </div>
+
+              <div className="sa-field-row">
+                <div>
+                  <label className="sa-label">Partner</label>
+                  <input className="sa-input" value={offer.partner} onChange={e => updateOffer(reason, i, { partner: e.target.value })} />
+                </div>
+                <div>
+                  <label className="sa-label">Link (https:// or /path)</label>
+                  <input className="sa-input" value={offer.url} onChange={e => updateOffer(reason, i, { url: e.target.value.trim() })} />
+                </div>
+              </div>
+
+              <div>
+                <label className="sa-label">Incident types (none checked = all)</label>
+                <div style={{ display: 'flex', gap: 14, flexWrap: 'wrap', fontSize: 12 }}>
+                  {INCIDENT_TYPES.map(type => (
+                    <label key={type} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                      <input type="checkbox" checked={offer.incidentTypes.includes(type)} onChange={() => toggleIncident(reason, i, type)} />
+                      {INCIDENT_TYPE_LABELS[type]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {(['en', 'es'] as const).map(locale => (
+                <div key={locale} className="sa-field-row">
+                  {TEXT_FIELDS.map(f => (
+                    <div key={f.key}>
+                      <label className="sa-label">{f.label} ({locale === 'en' ? 'English' : 'Spanish, optional'})</label>
+                      <input
+                        className="sa-input"
+                        value={offer.text[locale]?.[f.key] ?? ''}
+                        onChange={e => updateText(reason, i, locale, f.key, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {msg && (
+        <p style={{ fontSize: 12, color: msg.startsWith('✅') ? 'var(--ss-gold)' : '#f87171', margin: 0 }}>{msg}</p>
+      )}
+      <div className="sa-actions">
+        <button className="sa-btn" onClick={fetchRoutes}>↺ Discard Changes</button>
+        <button className="sa-btn sa-btn--success" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving…' : '💾 Save Exit Routes'}
+        </button>
+      </div>
+      {updatedAt && (
+        <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: 0 }}>
+          Last saved {new Date(updatedAt).toLocaleString()}{updatedBy ? ` by ${updatedBy}` : ''}.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+/**
+ * components/admin/tabs/FunnelTab.tsx
+ * Tab 10 — Quiz and widget funnel: completion and drop-off by step.
+ *   Filters: source, date range
+ *   Table: Step | Views | Answered | Drop-offs | Drop-off % | Exits | Alerts | Disqualified | Soft Exits
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminFetch } from '@/lib/admin/auth';
+import { QUIZ_QUESTIONS } from '@/lib/quiz/questions';
+import type { FunnelReport, FunnelSource } from '@/lib/analytics/funnel';
+
+const DAY_MS = 24 * 60 * 60 * 1_000;
+const isoDay = (ms: number) => new Date(ms).toISOString().split('T')[0];
+
+const STEP_LABELS: Record<string, string> = {
+  ...Object.fromEntries(QUIZ_QUESTIONS.map(q => [q.id, q.headline])),
+  contact:    'Contact form',
+  sms:        'SMS verification',
+  preference: 'Contact preference',
+  injuries:   'Injuries',
+  surgery:    'Surgery',
+  wages:      'Lost wages & costs',
+  verify:     'Verification gate',
+  result:     'Result',
+};
+
+export function FunnelTab() {
+  const [source,  setSource]  = useState<FunnelSource>('quiz');
+  const [from,    setFrom]    = useState(() => isoDay(Date.now() - 29 * DAY_MS));
+  const [to,      setTo]      = useState(() => isoDay(Date.now()));
+  const [report,  setReport]  = useState<FunnelReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error,   setError]   = useState('');
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    const res  = await adminFetch(`/api/admin/funnel?${new URLSearchParams({ source, from, to })}`);
+    const data = await res.json();
+    if (res.ok) setReport(data.report);
+    else        setError(data.message ?? 'Could not load the funnel.');
+    setLoading(false);
+  }, [source, from, to]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <h1 className="sa-page-title">Funnel</h1>
+
+      {report && (
+        <div className="sa-stats">
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Sessions</div>
+            <div className="sa-stat-value">{report.sessions}</div>
+          </div>
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Completed</div>
+            <div className="sa-stat-value">{report.completed}</div>
+            <div className="sa-stat-sub">{report.completionRate}% completion</div>
+          </div>
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Disqualified</div>
+            <div className="sa-stat-value">{report.disqualified}</div>
+          </div>
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Soft Exits</div>
+            <div className="sa-stat-value">{report.softExits}</div>
+            <div className="sa-stat-sub">Already has an attorney</div>
+          </div>
+        </div>
+      )}
+
+      <div className="sa-table-wrap">
+        <div className="sa-table-header">
+          <span className="sa-table-title">Drop-off by Step</span>
+          <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+            <select className="sa-filter-select" value={source} onChange={e => setSource(e.target.value as FunnelSource)}>
+              <option value="quiz">Quiz</option>
+              <option value="widget">Widget</option>
+            </select>
+            <input className="sa-search" type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} />
+            <input className="sa-search" type="date" value={to} min={from} onChange={e => setTo(e.target.value)} />
+            <button className="sa-btn sa-btn--primary" onClick={fetchReport}>↺ Refresh</button>
+          </div>
+        </div>
+
+        {error && <p style={{ fontSize: 12, color: '#f87171', margin: '0 20px 12px' }}>{error}</p>}
+
+        <div style={{ overflowX: 'auto' }}>
+          <table className="sa-table">
+            <thead>
+              <tr>
+                <th>Step</th>
+                <th>Views</th>
+                <th>Answered</th>
+                <th>Drop-offs</th>
+                <th>Drop-off %</th>
+                <th>Exits</th>
+                <th>Alerts</th>
+                <th>Disqualified</th>
+                <th>Soft Exits</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr><td colSpan={9} style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: 32 }}>Loading…</td></tr>
+              ) : !report || report.sessions === 0 ? (
+                <tr><td colSpan={9} style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: 32 }}>No events in this range.</td></tr>
+              ) : report.steps.map(row => (
+                <tr key={row.step}>
+                  <td>
+                    <div style={{ fontWeight: 600 }}>{row.step}</div>
+                    <div style={{ fontSize: 11, color: 'var(--ss-muted)' }}>{STEP_LABELS[row.step] ?? ''}</div>
+                  </td>
+                  <td>{row.views}</td>
+                  <td>{row.answers}</td>
+                  <td>{row.dropOffs}</td>
+                  <td style={{ color: row.dropOffRate >= 25 ? '#f87171' : undefined, fontWeight: row.dropOffRate >= 25 ? 700 : undefined }}>
+                    {row.dropOffRate}%
+                  </td>
+                  <td>{row.exits}</td>
+                  <td style={{ fontSize: 12 }}>
+                    {Object.keys(row.alerts).length === 0 ? '—'
+                      : Object.entries(row.alerts).map(([type, n]) => `${type} ${n}`).join(' · ')}
+                  </td>
+                  <td>{row.disqualified || '—'}</td>
+                  <td>{row.softExits || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,18 @@ import React, { useCallback, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { adminFetch } from '@/lib/admin/auth';
 import { formatCurrency } from '@/lib/estimator/logic';
+import { coverageTierLabel } from '@/lib/estimator/coverage';
+import { formatInjuryTypes } from '@/lib/estimator/injuries';
+import { valuationVersionLabel } from '@/lib/estimator/valuation';
+import { SCORE_FACTOR_LABELS } from '@/lib/quiz/scoring';
+import { scoreVersionLabel } from '@/lib/quiz/scoringRules';
+import type { ScoreFactorId } from '@/lib/quiz/types';
+import { languageName } from '@/lib/i18n';
+import { QUALITY_FLAG_LABELS } from '@/lib/leads/quality';
+import type { QualityFlag } from '@/lib/leads/quality';
+import { incidentDetails } from '@/lib/quiz/modules';
+import { faultLabel } from '@/lib/legal/negligence';
+import { formatStatuteDeadline, statuteBasisLabel } from '@/lib/legal/statute';
 import type { FsLead as DbLead } from '@/lib/firebase/types';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
@@ -99,6 +111,15 @@ export function LeadProfileTab({ leadId, onBack }: { leadId: string | null; onBa
     if (res.ok) fetchLead(lead.id);
   };
 
+  const handleToggleHold = async () => {
+    if (!lead) return;
+    const res = await adminFetch(`/api/admin/leads/${lead.id}`, {
+      method: 'POST',
+      body: JSON.stringify({ quality_hold: !lead.quality_hold }),
+    });
+    if (res.ok) fetchLead(lead.id);
+  };
+
   // ── No lead selected ────────────────────────────────────────────────────────
   if (leadId == null) {
     return (
@@ -183,7 +204,7 @@ export function LeadProfileTab({ leadId, onBack }: { leadId: string | null; onBa
           </span>
           <div>
             <div className="sa-field-key">Lead Score</div>
-            <div className="sa-field-value" style={{ fontSize: 20, fontWeight: 800 }}>{lead.score} / 150</div>
+            <div className="sa-field-value" style={{ fontSize: 20, fontWeight: 800 }}>{lead.score} pts</div>
           </div>
         </div>
         <div style={{ textAlign: 'right' }}>
@@ -194,6 +215,66 @@ export function LeadProfileTab({ leadId, onBack }: { leadId: string | null; onBa
         </div>
       </div>
 
+      {/* Per-factor score contributions */}
+      <div className="sa-panel">
+        <p className="sa-panel-title">Score Breakdown</p>
+        <div className="sa-field-row">
+          <FieldPair label="Scoring Rules" value={scoreVersionLabel(lead.score_version)} />
+          {Object.entries(lead.score_contributions ?? {}).map(([id, points]) => (
+            <FieldPair key={id} label={SCORE_FACTOR_LABELS[id as ScoreFactorId] ?? id} value={`+${points}`} />
+          ))}
+        </div>
+        {lead.score_contributions && Object.keys(lead.score_contributions).length === 0 && (
+          <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '8px 0 0' }}>No scoring factors matched.</p>
+        )}
+      </div>
+
+      {/* Intake fraud and quality signals */}
+      <div className="sa-panel">
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 12 }}>
+          <p className="sa-panel-title" style={{ margin: 0 }}>Lead Quality</p>
+          <button className={`sa-btn${lead.quality_hold ? ' sa-btn--success' : ''}`} onClick={handleToggleHold}>
+            {lead.quality_hold ? '✅ Release Hold' : '⏸ Hold From Delivery'}
+          </button>
+        </div>
+        <div className="sa-field-row">
+          <FieldPair label="Risk Score" value={lead.quality_risk != null ? `${lead.quality_risk} / 100` : 'Not checked'} />
+          <FieldPair label="Delivery"   value={lead.quality_hold ? 'Held for review' : 'Not held'} />
+          {(lead.quality_flags ?? []).map(flag => (
+            <FieldPair key={flag} label="Flag" value={QUALITY_FLAG_LABELS[flag as QualityFlag] ?? flag} />
+          ))}
+        </div>
+        {lead.quality_flags && lead.quality_flags.length === 0 && (
+          <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '8px 0 0' }}>No quality flags raised.</p>
+        )}
+      </div>
+
+      {/* Valuation methods, side by side */}
+      <div className="sa-panel">
+        <p className="sa-panel-title">Valuation</p>
+        <div className="sa-field-row">
+          <FieldPair label="Raw Estimate"       value={`${formatCurrency(lead.estimate_low)} – ${formatCurrency(lead.estimate_high)}`} />
+          <FieldPair label="Valuation Table"    value={valuationVersionLabel(lead.valuation_version)} />
+          <FieldPair
+            label="Specials Method"
+            value={lead.specials_estimate_low != null && lead.specials_estimate_high != null
+              ? `${formatCurrency(lead.specials_estimate_low)} – ${formatCurrency(lead.specials_estimate_high)}`
+              : '— (no medical costs)'}
+          />
+          <FieldPair label="Medical Bills"      value={lead.medical_bills ? formatCurrency(lead.medical_bills) : '—'} />
+          <FieldPair label="Future Care"        value={lead.future_care ? formatCurrency(lead.future_care) : '—'} />
+          <FieldPair
+            label={`Collectible Range${lead.coverage_capped ? ' ⚠️' : ''}`}
+            value={lead.collectible_low != null && lead.collectible_high != null
+              ? `${formatCurrency(lead.collectible_low)} – ${formatCurrency(lead.collectible_high)}`
+              : '—'}
+          />
+          <FieldPair label="Coverage Limit"     value={lead.coverage_limit != null ? formatCurrency(lead.coverage_limit) : 'No known cap'} />
+          <FieldPair label="At-Fault Coverage"  value={coverageTierLabel(lead.at_fault_coverage)} />
+          <FieldPair label="UM/UIM Coverage"    value={coverageTierLabel(lead.um_coverage)} />
+        </div>
+      </div>
+
       {/* Contact */}
       <div className="sa-panel">
         <p className="sa-panel-title">Contact Information</p>
@@ -201,9 +282,17 @@ export function LeadProfileTab({ leadId, onBack }: { leadId: string | null; onBa
           <FieldPair label="Name"      value={lead.name} />
           <FieldPair label="Phone"     value={lead.phone} />
           <FieldPair label="Carrier"   value={lead.carrier || '—'} />
-          <FieldPair label="Source"    value={lead.source.toUpperCase()} />
+          <FieldPair label="Source"    value={(lead.touchpoints?.length ? lead.touchpoints.join(' → ') : lead.source).toUpperCase()} />
+          <FieldPair label="Language"  value={languageName(lead.preferred_language)} />
           <FieldPair label="Submitted" value={new Date(lead.timestamp).toLocaleString()} />
           <FieldPair label="Verified"  value={bool(lead.verified)} />
+          {lead.merged_into && <FieldPair label="Merged Into" value={lead.merged_into} />}
+          {!lead.merged_into && lead.duplicate_group && (
+            <FieldPair
+              label="Duplicates"
+              value={lead.merged_from?.length ? `Merged from ${lead.merged_from.join(', ')}` : 'Possible duplicate — see Duplicates tab'}
+            />
+          )}
         </div>
       </div>
 
@@ -211,17 +300,33 @@ export function LeadProfileTab({ leadId, onBack }: { leadId: string | null; onBa
       <div className="sa-panel">
         <p className="sa-panel-title">Injury Details</p>
         <div className="sa-field-row">
-          <FieldPair label="Injury Type"       value={INJURY_LABELS[lead.injury_type] ?? lead.injury_type} />
+          <FieldPair label="Injuries"          value={formatInjuryTypes(lead.injury_type, INJURY_LABELS)} />
+          {incidentDetails(lead).map(d => (
+            <FieldPair key={d.label} label={d.label} value={d.value} />
+          ))}
           <FieldPair label="Surgery"           value={bool(lead.surgery)} />
           <FieldPair label="Hospitalized"      value={bool(lead.hospitalized)} />
           <FieldPair label="Still in Treatment" value={bool(lead.still_treating)} />
           <FieldPair label="Missed Work"       value={bool(lead.missed_work)} />
           <FieldPair label="Lost Wages"        value={lead.lost_wages_estimate > 0 ? formatCurrency(lead.lost_wages_estimate) : '$0'} />
+          <FieldPair label="At Fault"          value={faultLabel(lead.fault_level, lead.state, lead.at_fault)} />
           <FieldPair label="Has Attorney"      value={bool(lead.has_attorney)} />
           <FieldPair label="Insurance Contacted" value={bool(lead.insurance_contacted)} />
         </div>
       </div>
 
+      {/* Statute of limitations */}
+      <div className="sa-panel">
+        <p className="sa-panel-title">Statute of Limitations{lead.statute_warning ? ' ⚠️' : ''}</p>
+        <div className="sa-field-row">
+          <FieldPair label="Incident Timeframe"  value={lead.incident_timeframe ?? '—'} />
+          <FieldPair label="Government Defendant" value={bool(!!lead.government_defendant)} />
+          <FieldPair label="Deadline (est.)"     value={formatStatuteDeadline(lead.statute_deadline, lead.statute_days_remaining)} />
+          <FieldPair label="Rule Applied"        value={statuteBasisLabel(lead.statute_basis)} />
+          <FieldPair label="Warning"             value={bool(lead.statute_warning)} />
+        </div>
+      </div>
+
       {/* Contact Preference */}
       <div className="sa-panel">
         <p className="sa-panel-title">Contact Preference</p>
@@ -11,6 +11,7 @@ import React, { useCallback, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { adminFetch } from '@/lib/admin/auth';
 import { formatCurrency } from '@/lib/estimator/logic';
+import { formatInjuryTypes } from '@/lib/estimator/injuries';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -27,9 +28,9 @@ interface Stats {
 }
 
 interface LeadRow {
-  id: string; name: string; phone: string; injury_type: string;
+  id: string; name: string; phone: string; injury_type: string | string[];
   surgery: boolean; lost_wages_estimate: number; estimate_low: number; estimate_high: number;
-  score: number; tier: string; verified: boolean; source: string;
+  score: number; tier: string; verified: boolean; source: string; touchpoints: string[];
   timestamp: number; delivered: boolean; disputed: boolean;
 }
 
@@ -37,12 +38,12 @@ interface LeadRow {
 
 const TIER_ICON: Record<string, string> = { HOT: '🔥', WARM: '⭐', COLD: '🧊' };
 
-function injuryShort(t: string) {
+function injuryShort(t: string | string[]) {
   const m: Record<string, string> = {
     soft_tissue: 'Soft Tissue', fracture: 'Fracture',
     tbi: 'TBI', spinal: 'Spinal', other: 'Other',
   };
-  return m[t] ?? t;
+  return formatInjuryTypes(t, m);
 }
 
 function elapsed(ts: number) {
@@ -219,7 +220,7 @@ export function PipelineTab({ onViewLead }: { onViewLead: (id: string) => void }
           <StatCard label="Delivered"     value={stats.delivered}      sub={`${stats.disputed} disputed`} />
           <StatCard label="Last 7 Days"   value={stats.recent7d}       sub="New leads" />
           <StatCard label="SMS Sent"      value={stats.smsSent}        sub={`${stats.conversionRate}% conversion`} />
-          <StatCard label="Avg Score"     value={`${stats.avgScore}/150`} sub="Verified leads" />
+          <StatCard label="Avg Score"     value={`${stats.avgScore} pts`} sub="Verified leads" />
         </div>
       )}
 
@@ -291,13 +292,15 @@ export function PipelineTab({ onViewLead }: { onViewLead: (id: string) => void }
                       {TIER_ICON[lead.tier]} {lead.tier}
                     </span>
                   </td>
-                  <td style={{ textTransform: 'capitalize' }}>{lead.source}</td>
+                  <td style={{ textTransform: 'capitalize' }}>{lead.touchpoints.join(' → ')}</td>
                   <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{elapsed(lead.timestamp)}</td>
                   <td>
                     {lead.delivered ? (
                       <span style={{ fontSize: 11, color: 'var(--ss-gold)' }}>Sent</span>
                     ) : lead.disputed ? (
                       <span style={{ fontSize: 11, color: '#f87171' }}>Disputed</span>
+                    ) : !lead.verified ? (
+                      <span style={{ fontSize: 11, color: 'var(--ss-muted)' }}>Unverified</span>
                     ) : (
                       <span style={{ fontSize: 11, color: 'var(--ss-muted)' }}>Pending</span>
                     )}
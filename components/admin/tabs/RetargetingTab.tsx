@@ -0,0 +1,170 @@
+'use client';
+/**
+ * components/admin/tabs/RetargetingTab.tsx
+ * Tab 9 — Partial leads who entered a name and phone but never verified.
+ *   Stats: in queue, reachable by email, nurtured, recovered
+ *   Table: Name | Phone | Email | Source | Estimate | Tier | Captured | Reminders | Actions
+ *   Actions: Send Due Reminders (nurture job), View lead
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminFetch } from '@/lib/admin/auth';
+import { formatCurrency } from '@/lib/estimator/logic';
+import { NURTURE_DELAYS_MS } from '@/lib/leads/partial';
+import type { RetargetingSummary } from '@/lib/leads/partial';
+
+interface PartialLead {
+  id:              string;
+  name:            string;
+  phone:           string;
+  email:           string | null;
+  source:          string;
+  score:           number;
+  tier:            string;
+  estimate_low:    number;
+  estimate_high:   number;
+  timestamp:       number;
+  nurture_count:   number;
+  last_nurture_at: number | null;
+  next_nurture_at: number | null;
+}
+
+interface NurtureResult { scanned: number; sent: number; failed: number }
+
+function fmtDateTime(ts: number) {
+  return new Date(ts).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export function RetargetingTab({ onViewLead }: { onViewLead: (id: string) => void }) {
+  const [leads,     setLeads]     = useState<PartialLead[]>([]);
+  const [summary,   setSummary]   = useState<RetargetingSummary | null>(null);
+  const [loading,   setLoading]   = useState(true);
+  const [nurturing, setNurturing] = useState(false);
+  const [msg,       setMsg]       = useState('');
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    const res  = await adminFetch('/api/admin/retargeting');
+    const data = await res.json();
+    if (res.ok) {
+      setLeads(data.leads);
+      setSummary(data.summary);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { fetchQueue(); }, [fetchQueue]);
+
+  const handleNurture = async () => {
+    setMsg('');
+    setNurturing(true);
+    try {
+      const res  = await adminFetch('/api/admin/retargeting/nurture', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message ?? 'Nurture run failed.');
+      const r = data.nurture as NurtureResult;
+      setMsg(`✅ ${r.sent} reminder${r.sent === 1 ? '' : 's'} sent${r.failed ? `, ${r.failed} failed` : ''}.`);
+      await fetchQueue();
+    } catch (err: unknown) {
+      setMsg(err instanceof Error ? err.message : 'Nurture run failed.');
+    } finally {
+      setNurturing(false);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <h1 className="sa-page-title">Retargeting</h1>
+
+      {summary && (
+        <div className="sa-stats">
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">In Queue</div>
+            <div className="sa-stat-value">{summary.partial}</div>
+            <div className="sa-stat-sub">Unverified leads</div>
+          </div>
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Reachable</div>
+            <div className="sa-stat-value">{summary.reachable}</div>
+            <div className="sa-stat-sub">Have an email</div>
+          </div>
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Nurtured</div>
+            <div className="sa-stat-value">{summary.nurtured}</div>
+            <div className="sa-stat-sub">Sent a reminder</div>
+          </div>
+          <div className="sa-stat-card">
+            <div className="sa-stat-label">Recovered</div>
+            <div className="sa-stat-value">{summary.recovered}</div>
+            <div className="sa-stat-sub">Verified after a reminder</div>
+          </div>
+        </div>
+      )}
+
+      <div className="sa-table-wrap">
+        <div className="sa-table-header">
+          <span className="sa-table-title">Partial Leads ({leads.length})</span>
+          <div className="sa-actions">
+            <button className="sa-btn sa-btn--success" onClick={handleNurture} disabled={nurturing}>
+              {nurturing ? 'Sending…' : '✉️ Send Due Reminders'}
+            </button>
+            <button className="sa-btn sa-btn--primary" onClick={fetchQueue}>↺ Refresh</button>
+          </div>
+        </div>
+        {msg && (
+          <p style={{ fontSize: 12, color: msg.startsWith('✅') ? 'var(--ss-gold)' : '#f87171', margin: '0 20px 12px' }}>{msg}</p>
+        )}
+
+        <div style={{ overflowX: 'auto' }}>
+          <table className="sa-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Phone</th>
+                <th>Email</th>
+                <th>Source</th>
+                <th>Estimate</th>
+                <th>Tier</th>
+                <th>Captured</th>
+                <th>Reminders</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr><td colSpan={9} style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: 32 }}>Loading…</td></tr>
+              ) : leads.length === 0 ? (
+                <tr><td colSpan={9} style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: 32 }}>No partial leads — everyone who started verified.</td></tr>
+              ) : leads.map(lead => (
+                <tr key={lead.id}>
+                  <td style={{ fontWeight: 600 }}>{lead.name}</td>
+                  <td><a href={`tel:${lead.phone}`}>{lead.phone}</a></td>
+                  <td>{lead.email ?? <span style={{ color: 'var(--ss-muted)' }}>—</span>}</td>
+                  <td style={{ textTransform: 'capitalize' }}>{lead.source}</td>
+                  <td style={{ whiteSpace: 'nowrap' }}>
+                    {formatCurrency(lead.estimate_low)} – {formatCurrency(lead.estimate_high)}
+                  </td>
+                  <td>
+                    <span className={`sq-tier sq-tier--${lead.tier}`} style={{ fontSize: 10 }}>{lead.tier}</span>
+                  </td>
+                  <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{fmtDateTime(lead.timestamp)}</td>
+                  <td style={{ fontSize: 12 }}>
+                    {lead.nurture_count} / {NURTURE_DELAYS_MS.length}
+                    <div style={{ color: 'var(--ss-muted)' }}>
+                      {!lead.email ? 'No email — call or text'
+                        : lead.next_nurture_at ? `Next ${fmtDateTime(lead.next_nurture_at)}`
+                        : 'Done'}
+                    </div>
+                  </td>
+                  <td>
+                    <button className="sa-btn sa-btn--primary" onClick={() => onViewLead(lead.id)}>View</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+/**
+ * components/admin/tabs/ScoringTab.tsx
+ * Tab 8 — Edit lead-scoring weights and tier thresholds, publish a new
+ * version, and rescore undelivered leads.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminFetch } from '@/lib/admin/auth';
+import type { ScoringRules, ScoreFactorId } from '@/lib/quiz/types';
+import type { ScoringRulesDraft } from '@/lib/quiz/scoringRules';
+import type { FsScoringRules } from '@/lib/firebase/types';
+
+interface RescoreResult { version: number; scanned: number; updated: number }
+
+function toDraft(rules: ScoringRules): ScoringRulesDraft {
+  return {
+    weights:            rules.weights,
+    lostWagesThreshold: rules.lostWagesThreshold,
+    hotThreshold:       rules.hotThreshold,
+    warmThreshold:      rules.warmThreshold,
+  };
+}
+
+const toInt = (raw: string) => Number(raw.replace(/[^\d]/g, '')) || 0;
+
+export function ScoringTab() {
+  const [active,     setActive]     = useState<ScoringRules | null>(null);
+  const [versions,   setVersions]   = useState<FsScoringRules[]>([]);
+  const [labels,     setLabels]     = useState<Record<ScoreFactorId, string> | null>(null);
+  const [draft,      setDraft]      = useState<ScoringRulesDraft | null>(null);
+  const [note,       setNote]       = useState('');
+  const [loading,    setLoading]    = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [rescoring,  setRescoring]  = useState(false);
+  const [msg,        setMsg]        = useState('');
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    const res  = await adminFetch('/api/admin/scoring');
+    const data = await res.json();
+    if (res.ok) {
+      setActive(data.active);
+      setVersions(data.versions);
+      setLabels(data.labels);
+      setDraft(toDraft(data.active));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { fetchRules(); }, [fetchRules]);
+
+  const rescoreMsg = (r: RescoreResult) =>
+    `${r.updated} of ${r.scanned} undelivered quiz leads rescored under v${r.version}.`;
+
+  const handlePublish = async () => {
+    if (!draft || !active) return;
+    if (!confirm(`Publish scoring rules v${active.version + 1} and rescore all undelivered quiz leads?`)) return;
+    setMsg('');
+    setPublishing(true);
+    try {
+      const res  = await adminFetch('/api/admin/scoring', {
+        method: 'POST',
+        body:   JSON.stringify({ ...draft, note }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMsg(`✅ Published v${data.version.version}. ${rescoreMsg(data.rescore)}`);
+        setNote('');
+        fetchRules();
+      } else {
+        setMsg(`❌ ${data.message ?? 'Publish failed.'}`);
+      }
+    } catch {
+      setMsg('❌ Network error.');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  const handleRescore = async () => {
+    setMsg('');
+    setRescoring(true);
+    try {
+      const res  = await adminFetch('/api/admin/scoring/rescore', { method: 'POST' });
+      const data = await res.json();
+      setMsg(res.ok ? `✅ ${rescoreMsg(data.rescore)}` : `❌ ${data.message ?? 'Rescore failed.'}`);
+    } catch {
+      setMsg('❌ Network error.');
+    } finally {
+      setRescoring(false);
+    }
+  };
+
+  if (loading && !draft) return <p style={{ color: 'var(--ss-muted)' }}>Loading…</p>;
+  if (!draft || !active || !labels) return <p style={{ color: 'var(--ss-muted)' }}>Could not load scoring rules.</p>;
+
+  const factorIds = Object.keys(labels) as ScoreFactorId[];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <h1 className="sa-page-title">Lead Scoring</h1>
+
+      {/* Editor */}
+      <div className="sa-panel">
+        <p className="sa-panel-title">
+          Draft — based on {active.version === 0 ? 'built-in rules (v0)' : `v${active.version}`}
+        </p>
+        <table className="sa-table">
+          <thead>
+            <tr>
+              <th>Factor</th>
+              <th>Points</th>
+              <th>Active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {factorIds.map(id => (
+              <tr key={id}>
+                <td>{labels[id]}</td>
+                <td>
+                  <input
+                    className="sa-input" inputMode="numeric" value={draft.weights[id]}
+                    onChange={e => setDraft({ ...draft, weights: { ...draft.weights, [id]: toInt(e.target.value) } })}
+                  />
+                </td>
+                <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>+{active.weights[id]}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="sa-field-row" style={{ marginTop: 16 }}>
+          <div>
+            <label className="sa-label">Lost Wages Above ($)</label>
+            <input className="sa-input" inputMode="numeric" value={draft.lostWagesThreshold}
+              onChange={e => setDraft({ ...draft, lostWagesThreshold: toInt(e.target.value) })} />
+          </div>
+          <div>
+            <label className="sa-label">HOT at ≥ (active {active.hotThreshold})</label>
+            <input className="sa-input" inputMode="numeric" value={draft.hotThreshold}
+              onChange={e => setDraft({ ...draft, hotThreshold: toInt(e.target.value) })} />
+          </div>
+          <div>
+            <label className="sa-label">WARM at ≥ (active {active.warmThreshold})</label>
+            <input className="sa-input" inputMode="numeric" value={draft.warmThreshold}
+              onChange={e => setDraft({ ...draft, warmThreshold: toInt(e.target.value) })} />
+          </div>
+        </div>
+
+        <div style={{ marginTop: 12 }}>
+          <label className="sa-label">Change Note</label>
+          <input className="sa-input" placeholder="Why are these weights changing?" value={note} onChange={e => setNote(e.target.value)} />
+        </div>
+
+        {msg && (
+          <p style={{ fontSize: 12, color: msg.startsWith('✅') ? 'var(--ss-gold)' : '#f87171', margin: '12px 0 0' }}>{msg}</p>
+        )}
+
+        <div className="sa-actions" style={{ marginTop: 16 }}>
+          <button className="sa-btn" onClick={() => setDraft(toDraft(active))}>↺ Reset Draft</button>
+          <button className="sa-btn sa-btn--success" onClick={handlePublish} disabled={publishing || !note.trim()}>
+            {publishing ? 'Publishing…' : `🚀 Publish v${active.version + 1} & Rescore`}
+          </button>
+          <button className="sa-btn" onClick={handleRescore} disabled={rescoring}>
+            {rescoring ? 'Rescoring…' : '↻ Re-run Rescoring'}
+          </button>
+        </div>
+        <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '8px 0 0' }}>
+          Rescoring updates score and tier on undelivered quiz leads only — delivered leads keep the score they were sold with.
+        </p>
+      </div>
+
+      {/* History */}
+      <div className="sa-table-wrap">
+        <div className="sa-table-header">
+          <span className="sa-table-title">Published Versions</span>
+        </div>
+        {versions.length === 0 ? (
+          <p className="sa-empty">Nothing published yet — leads are scored with the built-in rules (v0).</p>
+        ) : (
+          <table className="sa-table">
+            <thead>
+              <tr>
+                <th>Version</th>
+                <th>Published</th>
+                <th>By</th>
+                <th>HOT / WARM</th>
+                <th>Note</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map(v => (
+                <tr key={v.version}>
+                  <td style={{ fontWeight: 700 }}>v{v.version}{v.version === active.version ? ' (active)' : ''}</td>
+                  <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{new Date(v.published_at).toLocaleString()}</td>
+                  <td>{v.published_by}</td>
+                  <td>{v.hot_threshold} / {v.warm_threshold}</td>
+                  <td style={{ fontSize: 12 }}>{v.note}</td>
+                  <td>
+                    <button
+                      className="sa-btn sa-btn--xs"
+                      onClick={() => setDraft({
+                        weights:            v.weights as Record<ScoreFactorId, number>,
+                        lostWagesThreshold: v.lost_wages_threshold,
+                        hotThreshold:       v.hot_threshold,
+                        warmThreshold:      v.warm_threshold,
+                      })}
+                    >
+                      Load into draft
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,29 @@
 'use client';
 /**
  * components/admin/tabs/SmsControlsTab.tsx
- * Tab 3 — SMS verification stats, carrier breakdown, and manual resend.
+ * Tab 3 — SMS verification stats, carrier breakdown, per-carrier delivery and
+ * verification rates, provider send results (last 24h), and manual resend.
  */
 
 import React, { useCallback, useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { adminFetch } from '@/lib/admin/auth';
+import type { CarrierRate } from '@/lib/sms/carrierCodes';
+import type { SmsProviderSummary } from '@/lib/sms/provider';
 
 interface SmsStats {
   total: number; verified: number; expired: number; pending: number;
   conversionRate: number;
   carrierBreakdown: { gateway: string; label: string; count: number }[];
-  recentFailed: { phone: string; attempts: number; created_at: number; used: number }[];
+  recentFailed: { phone: string; attempts: number; created_at: number; used: boolean }[];
+  provider: string;
+  providerSends: SmsProviderSummary[];
+  carrierRates: CarrierRate[];
+  ratesDays: number;
 }
 
+const pct = (n: number) => `${Math.round(n * 100)}%`;
+
 function StatPill({ label, value, color }: { label: string; value: number | string; color?: string }) {
   return (
     <div className="sa-stat-card" style={{ flexDirection: 'row', alignItems: 'center', gap: 14 }}>
@@ -115,6 +124,76 @@ export function SmsControlsTab() {
             )}
           </div>
 
+          {/* Per-carrier delivery and verification */}
+          <div className="sa-table-wrap">
+            <div className="sa-table-header">
+              <span className="sa-table-title">Carrier Delivery — last {stats.ratesDays} days</span>
+            </div>
+            {stats.carrierRates.length === 0 ? (
+              <p className="sa-empty">No gateway sends yet.</p>
+            ) : (
+              <table className="sa-table">
+                <thead>
+                  <tr>
+                    <th>Carrier</th>
+                    <th>Gateway Sends</th>
+                    <th>Accepted</th>
+                    <th>Codes Sent</th>
+                    <th>Verified</th>
+                    <th>Verify Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.carrierRates.map(c => (
+                    <tr key={c.carrier}>
+                      <td style={{ fontWeight: 600 }}>{c.label}</td>
+                      <td>{c.attempted}</td>
+                      <td>{c.attempted ? pct(c.deliveryRate) : '—'}</td>
+                      <td>{c.codes}</td>
+                      <td style={{ color: c.verified ? 'var(--ss-gold)' : undefined }}>{c.verified}</td>
+                      <td>{c.codes ? pct(c.verifyRate) : '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Provider send results */}
+          <div className="sa-table-wrap">
+            <div className="sa-table-header">
+              <span className="sa-table-title">Provider Sends — last 24h (active: {stats.provider})</span>
+            </div>
+            {stats.providerSends.length === 0 ? (
+              <p className="sa-empty">No texts sent in the last 24 hours.</p>
+            ) : (
+              <table className="sa-table">
+                <thead>
+                  <tr>
+                    <th>Provider</th>
+                    <th>Sends</th>
+                    <th>Failed</th>
+                    <th>Accepted</th>
+                    <th>Avg Time</th>
+                    <th>Last Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.providerSends.map(p => (
+                    <tr key={p.provider}>
+                      <td style={{ fontWeight: 600 }}>{p.provider}</td>
+                      <td>{p.sends}</td>
+                      <td style={{ color: p.failed ? 'var(--ss-coral)' : undefined }}>{p.failed}</td>
+                      <td>{pct(p.acceptRate)}</td>
+                      <td>{p.avgMs} ms</td>
+                      <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{p.lastError ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
           {/* Recent high-attempt codes */}
           {stats.recentFailed.length > 0 && (
             <div className="sa-table-wrap">
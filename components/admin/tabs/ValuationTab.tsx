@@ -0,0 +1,498 @@
+'use client';
+/**
+ * components/admin/tabs/ValuationTab.tsx
+ * Tab 7 — Edit the valuation tables (base ranges, multipliers, per-state
+ * multipliers and override ranges, and the specials-method ranges), preview
+ * the effect on recent leads, and publish a new version.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { adminFetch } from '@/lib/admin/auth';
+import { formatCurrency, INJURY_BASE_VALUES } from '@/lib/estimator/logic';
+import { formatInjuryTypes } from '@/lib/estimator/injuries';
+import { toValuationTable } from '@/lib/estimator/valuation';
+import { US_STATES } from '@/lib/quiz/questions';
+import type { EstimateRange, InjuryType, StateOverrides, ValuationTable } from '@/lib/estimator/types';
+import type { ValuationTableDraft } from '@/lib/estimator/valuation';
+import type { FsValuationTable } from '@/lib/firebase/types';
+
+const INJURY_TYPES = Object.keys(INJURY_BASE_VALUES) as InjuryType[];
+
+const INJURY_SHORT: Record<string, string> = {
+  soft_tissue: 'Soft Tissue', fracture: 'Fracture', tbi: 'TBI', spinal: 'Spinal',
+};
+
+interface PreviewRow {
+  id: string; name: string; injury_type: string | string[]; timestamp: number;
+  valuation_version: number;
+  current: EstimateRange; proposed: EstimateRange;
+}
+
+interface Preview {
+  activeVersion: number;
+  rows: PreviewRow[];
+  summary: { leads: number; changed: number; avgHighChangePct: number };
+}
+
+const range = (r: EstimateRange) => `${formatCurrency(r.low)} – ${formatCurrency(r.high)}`;
+
+function toDraft(table: ValuationTable): ValuationTableDraft {
+  return {
+    injuryBaseValues:      table.injuryBaseValues,
+    surgeryMultiplier:     table.surgeryMultiplier,
+    secondaryInjuryFactor: table.secondaryInjuryFactor,
+    stateMultipliers:      table.stateMultipliers,
+    stateOverrides:        table.stateOverrides,
+    specialsMultipliers:   table.specialsMultipliers,
+    specialsSurgeryBonus:  table.specialsSurgeryBonus,
+  };
+}
+
+/** Override ranges as rows, by state then injury. */
+function overrideRows(overrides: StateOverrides): { state: string; type: InjuryType; range: EstimateRange }[] {
+  return Object.keys(overrides).sort().flatMap(state =>
+    INJURY_TYPES.flatMap(type => {
+      const r = overrides[state][type];
+      return r ? [{ state, type, range: r }] : [];
+    }),
+  );
+}
+
+export function ValuationTab() {
+  const [active,     setActive]     = useState<ValuationTable | null>(null);
+  const [versions,   setVersions]   = useState<FsValuationTable[]>([]);
+  const [draft,      setDraft]      = useState<ValuationTableDraft | null>(null);
+  const [note,       setNote]       = useState('');
+  const [preview,    setPreview]    = useState<Preview | null>(null);
+  const [loading,    setLoading]    = useState(true);
+  const [previewing, setPreviewing] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [msg,        setMsg]        = useState('');
+  const [newState,   setNewState]   = useState('');
+  const [newType,    setNewType]    = useState<InjuryType>('soft_tissue');
+  const [newMulState, setNewMulState] = useState('');
+
+  const fetchTables = useCallback(async () => {
+    setLoading(true);
+    const res  = await adminFetch('/api/admin/valuation');
+    const data = await res.json();
+    if (res.ok) {
+      setActive(data.active);
+      setVersions(data.versions);
+      setDraft(toDraft(data.active));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => { fetchTables(); }, [fetchTables]);
+
+  // Any edit invalidates the last preview
+  const updateDraft = (next: ValuationTableDraft) => {
+    setDraft(next);
+    setPreview(null);
+  };
+
+  const setBase = (type: InjuryType, end: 'low' | 'high', raw: string) => {
+    if (!draft) return;
+    const value = Number(raw.replace(/[^\d]/g, '')) || 0;
+    updateDraft({
+      ...draft,
+      injuryBaseValues: { ...draft.injuryBaseValues, [type]: { ...draft.injuryBaseValues[type], [end]: value } },
+    });
+  };
+
+  const setSpecials = (type: InjuryType, end: 'low' | 'high', raw: string) => {
+    if (!draft) return;
+    updateDraft({
+      ...draft,
+      specialsMultipliers: { ...draft.specialsMultipliers, [type]: { ...draft.specialsMultipliers[type], [end]: Number(raw) } },
+    });
+  };
+
+  const setStateMultiplier = (state: string, value: number | null) => {
+    if (!draft) return;
+    const stateMultipliers = { ...draft.stateMultipliers };
+    if (value === null) delete stateMultipliers[state];
+    else                stateMultipliers[state] = value;
+    updateDraft({ ...draft, stateMultipliers });
+  };
+
+  const setOverride = (state: string, type: InjuryType, r: EstimateRange | null) => {
+    if (!draft) return;
+    const ranges = { ...draft.stateOverrides[state] };
+    if (r) ranges[type] = r;
+    else   delete ranges[type];
+
+    const stateOverrides = { ...draft.stateOverrides, [state]: ranges };
+    if (Object.keys(ranges).length === 0) delete stateOverrides[state];
+    updateDraft({ ...draft, stateOverrides });
+  };
+
+  const setOverrideEnd = (state: string, type: InjuryType, end: 'low' | 'high', raw: string) => {
+    const current = draft?.stateOverrides[state]?.[type];
+    if (!current) return;
+    setOverride(state, type, { ...current, [end]: Number(raw.replace(/[^\d]/g, '')) || 0 });
+  };
+
+  // A new override starts from the draft's national range
+  const addOverride = () => {
+    if (!draft || !newState || draft.stateOverrides[newState]?.[newType]) return;
+    setOverride(newState, newType, { ...draft.injuryBaseValues[newType] });
+  };
+
+  const handlePreview = async () => {
+    if (!draft) return;
+    setMsg('');
+    setPreviewing(true);
+    try {
+      const res  = await adminFetch('/api/admin/valuation/preview', {
+        method: 'POST',
+        body:   JSON.stringify(draft),
+      });
+      const data = await res.json();
+      if (res.ok) setPreview(data);
+      else        setMsg(`❌ ${data.message ?? 'Preview failed.'}`);
+    } catch {
+      setMsg('❌ Network error.');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!draft || !active) return;
+    if (!confirm(`Publish valuation table v${active.version + 1}? New estimates will use it immediately.`)) return;
+    setMsg('');
+    setPublishing(true);
+    try {
+      const res  = await adminFetch('/api/admin/valuation', {
+        method: 'POST',
+        body:   JSON.stringify({ ...draft, note }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMsg(`✅ Published v${data.version.version}.`);
+        setNote('');
+        setPreview(null);
+        fetchTables();
+      } else {
+        setMsg(`❌ ${data.message ?? 'Publish failed.'}`);
+      }
+    } catch {
+      setMsg('❌ Network error.');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (loading && !draft) return <p style={{ color: 'var(--ss-muted)' }}>Loading…</p>;
+  if (!draft || !active)  return <p style={{ color: 'var(--ss-muted)' }}>Could not load valuation tables.</p>;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <h1 className="sa-page-title">Valuation Tables</h1>
+
+      {/* Editor */}
+      <div className="sa-panel">
+        <p className="sa-panel-title">
+          Draft — based on {active.version === 0 ? 'built-in defaults (v0)' : `v${active.version}`}
+        </p>
+        <table className="sa-table">
+          <thead>
+            <tr>
+              <th>Injury</th>
+              <th>Base Low ($)</th>
+              <th>Base High ($)</th>
+              <th>Active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {INJURY_TYPES.map(type => (
+              <tr key={type}>
+                <td>{INJURY_SHORT[type]}</td>
+                <td>
+                  <input className="sa-input" inputMode="numeric" value={draft.injuryBaseValues[type].low}
+                    onChange={e => setBase(type, 'low', e.target.value)} />
+                </td>
+                <td>
+                  <input className="sa-input" inputMode="numeric" value={draft.injuryBaseValues[type].high}
+                    onChange={e => setBase(type, 'high', e.target.value)} />
+                </td>
+                <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{range(active.injuryBaseValues[type])}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="sa-panel-title" style={{ marginTop: 20 }}>Specials Multipliers</p>
+        <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '0 0 8px' }}>
+          Medical specials × this range, by the most severe injury. Surgery adds the bonus below to both ends.
+        </p>
+        <table className="sa-table">
+          <thead>
+            <tr>
+              <th>Injury</th>
+              <th>Low (×)</th>
+              <th>High (×)</th>
+              <th>Active</th>
+            </tr>
+          </thead>
+          <tbody>
+            {INJURY_TYPES.map(type => (
+              <tr key={type}>
+                <td>{INJURY_SHORT[type]}</td>
+                <td>
+                  <input className="sa-input" type="number" step="0.1" min={0} value={draft.specialsMultipliers[type].low}
+                    onChange={e => setSpecials(type, 'low', e.target.value)} />
+                </td>
+                <td>
+                  <input className="sa-input" type="number" step="0.1" min={0} value={draft.specialsMultipliers[type].high}
+                    onChange={e => setSpecials(type, 'high', e.target.value)} />
+                </td>
+                <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>
+                  ×{active.specialsMultipliers[type].low} – ×{active.specialsMultipliers[type].high}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <p className="sa-panel-title" style={{ marginTop: 20 }}>State Multipliers</p>
+        <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '0 0 8px' }}>
+          Scale general damages in one state. States not listed use ×1.
+        </p>
+        <table className="sa-table">
+          <thead>
+            <tr>
+              <th>State</th>
+              <th>Multiplier (×)</th>
+              <th>Active</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {Object.keys(draft.stateMultipliers).sort().map(state => (
+              <tr key={state}>
+                <td>{state}</td>
+                <td>
+                  <input className="sa-input" type="number" step="0.05" min={0} value={draft.stateMultipliers[state]}
+                    onChange={e => setStateMultiplier(state, Number(e.target.value))} />
+                </td>
+                <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>
+                  {Object.hasOwn(active.stateMultipliers, state) ? `×${active.stateMultipliers[state]}` : '—'}
+                </td>
+                <td>
+                  <button className="sa-btn sa-btn--xs" onClick={() => setStateMultiplier(state, null)}>Remove</button>
+                </td>
+              </tr>
+            ))}
+            <tr>
+              <td>
+                <select className="sa-input" value={newMulState} onChange={e => setNewMulState(e.target.value)}>
+                  <option value="">State…</option>
+                  {US_STATES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </td>
+              <td colSpan={3}>
+                <button className="sa-btn sa-btn--xs" onClick={() => setStateMultiplier(newMulState, 1)}
+                  disabled={!newMulState || Object.hasOwn(draft.stateMultipliers, newMulState)}>
+                  + Add Multiplier
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <p className="sa-panel-title" style={{ marginTop: 20 }}>State Overrides</p>
+        <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '0 0 8px' }}>
+          Replace the national base range for one injury in one state. The state multiplier is not applied on top.
+        </p>
+        <table className="sa-table">
+          <thead>
+            <tr>
+              <th>State</th>
+              <th>Injury</th>
+              <th>Low ($)</th>
+              <th>High ($)</th>
+              <th>Active</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {overrideRows(draft.stateOverrides).map(({ state, type, range: r }) => {
+              const activeRange = active.stateOverrides[state]?.[type];
+              return (
+                <tr key={`${state}:${type}`}>
+                  <td>{state}</td>
+                  <td>{INJURY_SHORT[type]}</td>
+                  <td>
+                    <input className="sa-input" inputMode="numeric" value={r.low}
+                      onChange={e => setOverrideEnd(state, type, 'low', e.target.value)} />
+                  </td>
+                  <td>
+                    <input className="sa-input" inputMode="numeric" value={r.high}
+                      onChange={e => setOverrideEnd(state, type, 'high', e.target.value)} />
+                  </td>
+                  <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{activeRange ? range(activeRange) : '—'}</td>
+                  <td>
+                    <button className="sa-btn sa-btn--xs" onClick={() => setOverride(state, type, null)}>Remove</button>
+                  </td>
+                </tr>
+              );
+            })}
+            <tr>
+              <td>
+                <select className="sa-input" value={newState} onChange={e => setNewState(e.target.value)}>
+                  <option value="">State…</option>
+                  {US_STATES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </td>
+              <td>
+                <select className="sa-input" value={newType} onChange={e => setNewType(e.target.value as InjuryType)}>
+                  {INJURY_TYPES.map(t => <option key={t} value={t}>{INJURY_SHORT[t]}</option>)}
+                </select>
+              </td>
+              <td colSpan={4}>
+                <button className="sa-btn sa-btn--xs" onClick={addOverride}
+                  disabled={!newState || Boolean(draft.stateOverrides[newState]?.[newType])}>
+                  + Add Override
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+
+        <div className="sa-field-row" style={{ marginTop: 16 }}>
+          <div>
+            <label className="sa-label">Surgery Multiplier (active ×{active.surgeryMultiplier})</label>
+            <input
+              className="sa-input" type="number" step="0.1" min={1}
+              value={draft.surgeryMultiplier}
+              onChange={e => updateDraft({ ...draft, surgeryMultiplier: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="sa-label">Secondary Injury Factor (active ×{active.secondaryInjuryFactor})</label>
+            <input
+              className="sa-input" type="number" step="0.05" min={0} max={1}
+              value={draft.secondaryInjuryFactor}
+              onChange={e => updateDraft({ ...draft, secondaryInjuryFactor: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="sa-label">Specials Surgery Bonus (active +{active.specialsSurgeryBonus})</label>
+            <input
+              className="sa-input" type="number" step="0.1" min={0}
+              value={draft.specialsSurgeryBonus}
+              onChange={e => updateDraft({ ...draft, specialsSurgeryBonus: Number(e.target.value) })}
+            />
+          </div>
+          <div>
+            <label className="sa-label">Change Note</label>
+            <input className="sa-input" placeholder="Why are these numbers changing?" value={note} onChange={e => setNote(e.target.value)} />
+          </div>
+        </div>
+
+        {msg && (
+          <p style={{ fontSize: 12, color: msg.startsWith('✅') ? 'var(--ss-gold)' : '#f87171', margin: '12px 0 0' }}>{msg}</p>
+        )}
+
+        <div className="sa-actions" style={{ marginTop: 16 }}>
+          <button className="sa-btn" onClick={() => updateDraft(toDraft(active))}>↺ Reset Draft</button>
+          <button className="sa-btn sa-btn--primary" onClick={handlePreview} disabled={previewing}>
+            {previewing ? 'Previewing…' : '🔍 Preview on Recent Leads'}
+          </button>
+          <button className="sa-btn sa-btn--success" onClick={handlePublish} disabled={publishing || !preview || !note.trim()}>
+            {publishing ? 'Publishing…' : `🚀 Publish v${active.version + 1}`}
+          </button>
+        </div>
+        {!preview && (
+          <p style={{ fontSize: 12, color: 'var(--ss-muted)', margin: '8px 0 0' }}>Preview the draft before publishing.</p>
+        )}
+      </div>
+
+      {/* Preview */}
+      {preview && (
+        <div className="sa-table-wrap">
+          <div className="sa-table-header">
+            <span className="sa-table-title">
+              Preview — {preview.summary.changed} of {preview.summary.leads} recent leads change,
+              avg high end {preview.summary.avgHighChangePct >= 0 ? '+' : ''}{preview.summary.avgHighChangePct}%
+            </span>
+          </div>
+          <div className="sa-table-scroll">
+            <table className="sa-table">
+              <thead>
+                <tr>
+                  <th>Lead</th>
+                  <th>Injuries</th>
+                  <th>Stored With</th>
+                  <th>Active (v{preview.activeVersion})</th>
+                  <th>Draft</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map(r => {
+                  const changed = r.current.low !== r.proposed.low || r.current.high !== r.proposed.high;
+                  return (
+                    <tr key={r.id} className={changed ? undefined : 'sa-row--muted'}>
+                      <td>{r.name}</td>
+                      <td>{formatInjuryTypes(r.injury_type, INJURY_SHORT)}</td>
+                      <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>v{r.valuation_version}</td>
+                      <td>{range(r.current)}</td>
+                      <td style={{ fontWeight: changed ? 700 : 400 }}>{range(r.proposed)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* History */}
+      <div className="sa-table-wrap">
+        <div className="sa-table-header">
+          <span className="sa-table-title">Published Versions</span>
+        </div>
+        {versions.length === 0 ? (
+          <p className="sa-empty">Nothing published yet — estimates use the built-in table (v0).</p>
+        ) : (
+          <table className="sa-table">
+            <thead>
+              <tr>
+                <th>Version</th>
+                <th>Published</th>
+                <th>By</th>
+                <th>Surgery</th>
+                <th>Overrides</th>
+                <th>Note</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map(v => (
+                <tr key={v.version}>
+                  <td style={{ fontWeight: 700 }}>v{v.version}{v.version === active.version ? ' (active)' : ''}</td>
+                  <td style={{ color: 'var(--ss-muted)', fontSize: 12 }}>{new Date(v.published_at).toLocaleString()}</td>
+                  <td>{v.published_by}</td>
+                  <td>×{v.surgery_multiplier}</td>
+                  <td style={{ fontSize: 12 }}>{overrideRows(toValuationTable(v).stateOverrides).length}</td>
+                  <td style={{ fontSize: 12 }}>{v.note}</td>
+                  <td>
+                    <button
+                      className="sa-btn sa-btn--xs"
+                      onClick={() => updateDraft(toDraft(toValuationTable(v)))}
+                    >
+                      Load into draft
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+/**
+ * components/quiz/ExitOffers.tsx
+ * Partner offers on the quiz's attorney and disqualified screens. Records the
+ * exit once the offers load, and each click, with the answers so far
+ * (lib/quiz/exitRoutes.ts). Renders nothing when no offer applies.
+ */
+
+import { useEffect, useRef } from 'react';
+import { exitOfferText, exitOffersFor } from '@/lib/quiz/exitRoutes';
+import type { ExitReason, ExitRoutes } from '@/lib/quiz/exitRoutes';
+import type { QuizAnswers } from '@/lib/quiz/types';
+import { trackExit } from '@/lib/analytics/track';
+import type { Locale } from '@/lib/i18n';
+
+interface Props {
+  reason:  ExitReason;
+  answers: QuizAnswers;
+  /** Null while loading. */
+  routes:  ExitRoutes | null;
+  locale:  Locale;
+}
+
+export function ExitOffers({ reason, answers, routes, locale }: Props) {
+  const offers   = routes ? exitOffersFor(routes, reason, answers) : [];
+  const offerIds = offers.map(o => o.id);
+  const recorded = useRef(false);
+
+  useEffect(() => {
+    if (!routes || recorded.current) return;
+    recorded.current = true;
+    trackExit({ reason, action: 'shown', offerIds, answers, locale });
+  }, [routes, reason, offerIds, answers, locale]);
+
+  if (offers.length === 0) return null;
+
+  return (
+    <div className="sq-exit-offers">
+      {offers.map(offer => {
+        const text     = exitOfferText(offer, locale);
+        const external = offer.url.startsWith('https://');
+        return (
+          <a
+            key={offer.id}
+            href={offer.url}
+            className="sq-exit-offer"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer sponsored' } : {})}
+            onClick={() => trackExit({ reason, action: 'clicked', offerId: offer.id, offerIds, answers, locale })}
+          >
+            <span className="sq-exit-offer__headline">{text.headline}</span>
+            <span className="sq-exit-offer__body">{text.body}</span>
+            <span className="sq-exit-offer__cta">{text.cta}</span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,35 +2,61 @@
 /**
  * components/quiz/QuizFlow.tsx
  *
- * 11 questions → contact form → Firebase SMS verify → results
+ * 15 questions (plus branch follow-ups) → contact form → Firebase SMS verify → results
+ * The question path branches on earlier answers — see lib/quiz/flow.ts.
  *
  * Screens:
- *   'quiz'          — questions 1–11
+ *   'quiz'          — questions 1–15
  *   'contact'       — first name, last name, phone, email
- *   'verify'        — 6-digit Firebase OTP
+ *   'verify'        — SMS code (lib/sms/otpPolicy.ts)
  *   'success'       — personalized results with estimate, key factors
  *   'attorney_exit' — soft exit when hasAttorney = 'yes'
- *   'disqualified'  — hard exit when atFault = true
+ *   'disqualified'  — hard exit when the lead's fault share bars recovery in their state
+ *   Both exits show the partner offers configured for their reason (ExitOffers).
+ *
+ * Text comes from lib/i18n in the visitor's language (see useLocale).
  */
 
-import React, { useCallback, useReducer, useState, useMemo, useEffect } from 'react';
+import React, { useCallback, useReducer, useRef, useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { QUIZ_QUESTIONS, US_STATES } from '@/lib/quiz/questions';
-import type { QuizQuestion, QuizOption } from '@/lib/quiz/questions';
+import type { QuizQuestion, QuizOption, QuestionId } from '@/lib/quiz/questions';
+import { firstQuestionId, nextUnskippedId, questionById, quizProgress, pruneAnswers } from '@/lib/quiz/flow';
+import { DRAFT_STORAGE_KEY, isDraftEmpty, parseDraft, resumeHistory } from '@/lib/quiz/draft';
+import type { QuizDraft } from '@/lib/quiz/draft';
+import { parsePrefill, skippedQuestions } from '@/lib/quiz/prefill';
+import type { Touchpoint } from '@/lib/quiz/prefill';
+import { createTracker } from '@/lib/analytics/track';
+import { intakeDeviceId } from '@/lib/leads/device';
+import { useExitRoutes } from '@/lib/quiz/useExitRoutes';
+import { ExitOffers } from '@/components/quiz/ExitOffers';
 import {
   calculateScore,
   scoreTier,
   calculateQuizEstimate,
+  calculateQuizBreakdown,
+  calculateQuizCollectible,
+  checkDisqualifier,
   getKeyFactors,
-  DISQUALIFIER_MESSAGES,
 } from '@/lib/quiz/scoring';
 import type { QuizAnswers, DisqualReason } from '@/lib/quiz/types';
 import { INITIAL_ANSWERS } from '@/lib/quiz/types';
-import { formatCurrency, LOST_WAGES_MAX } from '@/lib/estimator/logic';
+import type { InjuryType } from '@/lib/estimator/types';
+import { isInjuryType } from '@/lib/estimator/injuries';
+import { formatCurrency, formatLostWages, LOST_WAGES_MAX } from '@/lib/estimator/logic';
+import { useValuationTable } from '@/lib/estimator/useValuationTable';
+import { statuteAlert } from '@/lib/legal/statute';
+import { COVERAGE_TIER_LABELS, isCoverageTier } from '@/lib/estimator/coverage';
+import type { CoverageTier } from '@/lib/estimator/coverage';
+import { intlLocale, messages } from '@/lib/i18n';
+import { localizeQuestion } from '@/lib/i18n/questions';
+import { useLocale } from '@/lib/i18n/useLocale';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
 import { validateEmailFormat } from '@/lib/validate-email';
 import SMSVerification from '@/components/SMSVerification';
+import EstimateBreakdownPanel from '@/components/EstimateBreakdownPanel';
 import ContactPreference from '@/components/ContactPreference';
 import type { ContactPrefs } from '@/components/ContactPreference';
 
@@ -38,11 +64,13 @@ import type { ContactPrefs } from '@/components/ContactPreference';
 
 type QuizAction =
   | { type: 'SET_ANSWER'; key: keyof QuizAnswers; value: unknown }
+  | { type: 'RESTORE'; answers: QuizAnswers }
   | { type: 'RESET' };
 
 function quizReducer(state: QuizAnswers, action: QuizAction): QuizAnswers {
   switch (action.type) {
     case 'SET_ANSWER': return { ...state, [action.key]: action.value };
+    case 'RESTORE':    return action.answers;
     case 'RESET':      return INITIAL_ANSWERS;
     default:           return state;
   }
@@ -57,7 +85,21 @@ const slideVariants = {
 };
 const springTransition = { type: 'spring' as const, stiffness: 320, damping: 30 };
 
+// ── Funnel analytics ──────────────────────────────────────────────────────────
+
+const track = createTracker('quiz');
+const TRACKED_SCREENS: Screen[] = ['quiz', 'contact', 'sms', 'preference'];
+
+// ── Local draft ───────────────────────────────────────────────────────────────
+
+function readLocalDraft(): QuizDraft | null {
+  try { return parseDraft(JSON.parse(localStorage.getItem(DRAFT_STORAGE_KEY) ?? 'null')); }
+  catch { return null; }
+}
 
+function clearLocalDraft() {
+  try { localStorage.removeItem(DRAFT_STORAGE_KEY); } catch { /* storage unavailable */ }
+}
 
 // ── Alert box ─────────────────────────────────────────────────────────────────
 
@@ -85,8 +127,10 @@ type Screen = 'quiz' | 'contact' | 'sms' | 'preference' | 'success' | 'attorney_
 
 export function QuizFlow() {
   const router = useRouter();
+  const [locale,     setLocale]   = useLocale();
+  const t = messages(locale);
   const [answers,    dispatch]    = useReducer(quizReducer, INITIAL_ANSWERS);
-  const [stepPos,    setStepPos]  = useState(0);
+  const [history,    setHistory]  = useState<QuestionId[]>(() => [firstQuestionId()]);
   const [direction,  setDirection] = useState(1);
   const [stepKey,    setStepKey]  = useState(0);
   const [screen,     setScreen]   = useState<Screen>('quiz');
@@ -108,37 +152,155 @@ export function QuizFlow() {
   const [loading,    setLoading]    = useState(false);
   const [smsError,   setSmsError]   = useState('');
 
-  const totalQuestions = QUIZ_QUESTIONS.length;
-  const currentQ = QUIZ_QUESTIONS[stepPos] ?? QUIZ_QUESTIONS[0];
-  const progressPct = (stepPos / totalQuestions) * 100;
-
-  const estimate = useMemo(() => calculateQuizEstimate(answers as QuizAnswers), [answers]);
+  // Funnels used before the quiz — set when the widget hands its answers over
+  const [touchpoints, setTouchpoints] = useState<Touchpoint[]>([]);
+
+  // Resume: welcome-back notice and the "continue on another device" form
+  const [welcome,      setWelcome]      = useState<'resumed' | 'prefilled' | null>(null);
+  const [linkOpen,     setLinkOpen]     = useState(false);
+  const [linkEmail,    setLinkEmail]    = useState('');
+  const [linkStatus,   setLinkStatus]   = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [linkError,    setLinkError]    = useState('');
+
+  // When this quiz was started — sent as durationMs unless it was resumed or prefilled
+  const startedAt = useRef(Date.now());
+
+  const currentQ = localizeQuestion(questionById(history[history.length - 1]), locale);
+  const skipped  = skippedQuestions(touchpoints, answers);
+  const progress = quizProgress(history, answers, QUIZ_QUESTIONS, skipped);
+  const progressPct = ((progress.step - 1) / progress.total) * 100;
+
+  const valuation = useValuationTable();
+  const exitRoutes = useExitRoutes();
+
+  // Funnel step: the question on the quiz screen, otherwise the screen itself.
+  // Exits are sent on pagehide from whichever tracked step is showing.
+  const funnelStep = screen === 'quiz' ? currentQ.id : screen;
+  const exitStep   = useRef<string | null>(null);
+  exitStep.current = TRACKED_SCREENS.includes(screen) && !loading ? funnelStep : null;
+
+  useEffect(() => {
+    if (TRACKED_SCREENS.includes(screen)) track('step_view', funnelStep);
+  }, [screen, funnelStep, stepKey]);
+
+  useEffect(() => {
+    const onHide = () => { if (exitStep.current) track('exit', exitStep.current); };
+    window.addEventListener('pagehide', onHide);
+    return () => window.removeEventListener('pagehide', onHide);
+  }, []);
 
   const setAnswer = useCallback((key: keyof QuizAnswers, value: unknown) => {
     dispatch({ type: 'SET_ANSWER', key, value });
   }, []);
 
-  const advanceStep = useCallback(() => {
-    if (stepPos >= totalQuestions - 1) {
+  /** Moves along the branching path. Pass the answers just set — state updates are async. */
+  const advanceStep = useCallback((latest: QuizAnswers = answers) => {
+    if (currentQ.type !== 'options') track('answer', currentQ.id);   // options are tracked on click
+    const nextId = nextUnskippedId(currentQ.id, latest, skippedQuestions(touchpoints, latest));
+    if (!nextId) {
       setScreen('contact');
     } else {
       setDirection(1);
-      setStepPos(p => p + 1);
+      setHistory(h => [...h, nextId]);
       setStepKey(k => k + 1);
     }
-  }, [stepPos, totalQuestions]);
+  }, [answers, currentQ.id, currentQ.type, touchpoints]);
 
   const goBack = useCallback(() => {
-    if (stepPos === 0) return;
+    if (history.length <= 1) return;
     setAlert(null);
     setDirection(-1);
-    setStepPos(p => p - 1);
+    setHistory(h => h.slice(0, -1));
     setStepKey(k => k + 1);
-  }, [stepPos]);
+  }, [history.length]);
+
+  // ── Drafts ─────────────────────────────────────────────────────────────────
+  // Start from the widget's answers when it sent the visitor here, else
+  // restore from a ?resume= link or this device and skip to the first
+  // unanswered question. Save on every change while the quiz is in progress.
+
+  const restoreDraft = useCallback((draft: QuizDraft) => {
+    if (isDraftEmpty(draft.answers)) return;
+    const skip = skippedQuestions(draft.touchpoints ?? [], draft.answers);
+    dispatch({ type: 'RESTORE', answers: draft.answers });
+    setHistory(resumeHistory(draft.answers, draft.history).filter(id => !skip.includes(id)));
+    setTouchpoints(draft.touchpoints ?? []);
+    setStepKey(k => k + 1);
+    setWelcome('resumed');
+  }, []);
+
+  useEffect(() => {
+    const params  = new URLSearchParams(window.location.search);
+    const prefill = parsePrefill(params);
+    const token   = params.get('resume');
+
+    if (prefill && !token) {
+      // Drop the widget's answers from the URL so a reload resumes this draft
+      window.history.replaceState(null, '', window.location.pathname);
+      const start = { ...INITIAL_ANSWERS, ...prefill };
+      dispatch({ type: 'RESTORE', answers: start });
+      setHistory([firstQuestionId(start)]);
+      setTouchpoints(['widget']);
+      setStepKey(k => k + 1);
+      if (!isDraftEmpty(start)) setWelcome('prefilled');
+      return;
+    }
+
+    if (!token) {
+      const local = readLocalDraft();
+      if (local) restoreDraft(local); else clearLocalDraft();
+      return;
+    }
+
+    // Drop the token so a reload picks up newer progress saved on this device
+    window.history.replaceState(null, '', window.location.pathname);
+    fetch(`/api/quiz/draft?token=${encodeURIComponent(token)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.message ?? 'This link has expired.');
+        const draft = parseDraft(data);
+        if (draft) restoreDraft(draft);
+      })
+      .catch((err: unknown) => {
+        const local = readLocalDraft();
+        if (local) restoreDraft(local);
+        setAlert({ type: 'warning', msg: err instanceof Error ? err.message : 'This link has expired.' });
+      });
+  }, [restoreDraft]);
+
+  useEffect(() => {
+    if ((screen !== 'quiz' && screen !== 'contact') || isDraftEmpty(answers)) return;
+    try {
+      const draft: QuizDraft = { answers, history, touchpoints, savedAt: Date.now() };
+      localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+    } catch { /* storage full or unavailable — nothing to save to */ }
+  }, [answers, history, touchpoints, screen]);
+
+  const sendResumeLink = async () => {
+    const emailErr = validateEmailFormat(linkEmail);
+    if (emailErr) return setLinkError(emailErr);
+    setLinkError('');
+    setLinkStatus('sending');
+
+    try {
+      const res  = await fetch('/api/quiz/draft', {
+        method:  'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body:    JSON.stringify({ email: linkEmail.trim(), answers, history, touchpoints, deviceId: intakeDeviceId() }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.message ?? t.quiz.linkFailed);
+      setLinkStatus('sent');
+    } catch (err: unknown) {
+      setLinkError(err instanceof Error ? err.message : t.quiz.linkFailed);
+      setLinkStatus('idle');
+    }
+  };
 
   const handleReset = useCallback(() => {
+    clearLocalDraft();
     dispatch({ type: 'RESET' });
-    setStepPos(0);
+    setHistory([firstQuestionId()]);
     setDirection(1);
     setStepKey(k => k + 1);
     setScreen('quiz');
@@ -147,8 +309,17 @@ export function QuizFlow() {
     setFirstName(''); setLastName('');
     setEmail(''); setFormError(''); setEmailError('');
     setSmsError('');
+    setTouchpoints([]);
+    setWelcome(null);
+    setLinkOpen(false); setLinkStatus('idle'); setLinkError('');
+    startedAt.current = Date.now();
   }, []);
 
+  /** Parses a free-typed dollar amount ("$12,500" → 12500). Empty → 0. */
+  function parseDollars(raw: string): number {
+    return Number(raw.replace(/[^\d]/g, '')) || 0;
+  }
+
   /** Parse string option value to typed value */
   function parseValue(raw: string): unknown {
     if (raw === 'true')  return true;
@@ -159,15 +330,20 @@ export function QuizFlow() {
   /** Handle option selection for auto-advance questions */
   const handleOptionClick = (q: QuizQuestion, opt: QuizOption) => {
     const parsed = parseValue(opt.value);
+    track('answer', q.id, { value: opt.value });
 
-    if (opt.isDisq) {
+    const next   = { ...answers, [q.id]: parsed };
+    const reason = checkDisqualifier(next);
+    if (reason) {
+      track('disqualified', q.id, { detail: reason });
       setAnswer(q.id, parsed);
-      setDisqReason('at_fault');
+      setDisqReason(reason);
       setScreen('disqualified');
       return;
     }
 
     if (opt.isSoftExit) {
+      track('soft_exit', q.id);
       setAnswer(q.id, parsed);
       setScreen('attorney_exit');
       return;
@@ -175,34 +351,69 @@ export function QuizFlow() {
 
     setAnswer(q.id, parsed);
 
-    const alertMsg  = opt.reaction || opt.warning || opt.tip || null;
-    const alertType = opt.reaction ? 'success' : opt.warning ? 'warning' : 'tip';
+    const statuteMsg = q.id === 'incidentTimeframe' ? statuteAlert(next, Date.now(), locale) : null;
+    const warningMsg = statuteMsg || opt.warning;
+    const alertMsg   = opt.reaction || warningMsg || opt.tip || null;
+    const alertType  = opt.reaction ? 'success' : warningMsg ? 'warning' : 'tip';
 
     if (alertMsg) {
+      track('alert', q.id, { detail: alertType });
       setAlert({ type: alertType, msg: alertMsg });
-      setTimeout(() => { setAlert(null); advanceStep(); }, 2500);
+      setTimeout(() => { setAlert(null); advanceStep(next); }, 2500);
     } else {
-      setTimeout(() => advanceStep(), 200);
+      setTimeout(() => advanceStep(next), 200);
     }
   };
 
   // ── Validate contact form and proceed to SMS ───────────────────────────────
 
   const handleContactNext = () => {
-    if (!firstName.trim()) return setFormError('Please enter your first name.');
-    if (!lastName.trim())  return setFormError('Please enter your last name.');
+    if (!firstName.trim()) return setFormError(t.quiz.firstNameRequired);
+    if (!lastName.trim())  return setFormError(t.quiz.lastNameRequired);
     const emailErr = validateEmailFormat(email);
     if (emailErr)          return setFormError(emailErr);
     setFormError('');
+    track('answer', 'contact');
     setScreen('sms');
   };
 
+  /** Lead fields sent both when capturing a partial lead and on final submission. */
+  const leadBody = (): Record<string, unknown> => {
+    const submitted = pruneAnswers(answers);
+    const est       = calculateQuizEstimate(submitted, valuation);
+    return {
+      ...submitted,
+      name:         `${firstName.trim()} ${lastName.trim()}`,
+      email:        email.trim(),
+      surgery:      submitted.hasSurgery,
+      estimateLow:  est.low,
+      estimateHigh: est.high,
+      source: 'quiz',
+      touchpoints,
+      locale,
+      deviceId:     intakeDeviceId(),
+      durationMs:   welcome ? null : Date.now() - startedAt.current,
+    };
+  };
+
+  // ── Called by SMSVerification once a code is sent ──────────────────────────
+  // Saves an unverified lead so visitors who never enter the code can be retargeted.
+
+  const handleCodeSent = (phoneNumber: string) => {
+    fetch('/api/leads/partial', {
+      method:  'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body:    JSON.stringify({ ...leadBody(), phone: phoneNumber }),
+    }).catch(() => {/* non-critical */});
+  };
+
   // ── Called by SMSVerification after phone is verified ──────────────────────
   // Store credentials and show the contact preference screen.
 
   const handleSmsVerified = (phoneNumber: string, idToken: string) => {
     setPendingPhone(phoneNumber);
     setPendingIdToken(idToken);
+    track('answer', 'sms');
     setScreen('preference');
   };
 
@@ -214,27 +425,15 @@ export function QuizFlow() {
     setSmsError('');
 
     try {
-      const score = calculateScore(answers as QuizAnswers);
+      const score = calculateScore(pruneAnswers(answers));
       const tier  = scoreTier(score);
-      const est   = estimate;
-
-      let injuryType = 'soft_tissue';
-      if (answers.hasSurgery)        injuryType = 'spinal';
-      else if (answers.hospitalized) injuryType = 'fracture';
 
       const body: Record<string, unknown> = {
-        ...answers,
-        idToken:      pendingIdToken,
-        name:         `${firstName.trim()} ${lastName.trim()}`,
-        email:        email.trim(),
-        phone:        pendingPhone,
-        injuryType,
-        surgery:      answers.hasSurgery,
-        estimateLow:  est.low,
-        estimateHigh: est.high,
+        ...leadBody(),
+        idToken: pendingIdToken,
+        phone:   pendingPhone,
         score,
         tier,
-        source: 'quiz',
       };
 
       const res  = await fetch('/api/verify-code', {
@@ -243,9 +442,10 @@ export function QuizFlow() {
         body:    JSON.stringify(body),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.message ?? 'Verification failed.');
+      if (!res.ok) throw new Error(data.message ?? t.sms.verifyFailed);
 
       const leadId = String(data.leadId ?? '');
+      track('complete', 'preference');
 
       // Save contact preference (fire-and-forget — don't block redirect on failure)
       if (leadId) {
@@ -268,9 +468,10 @@ export function QuizFlow() {
         urgency: prefs.urgency,
         hours:   prefs.preferredHours.join(','),
       });
+      clearLocalDraft();
       router.push(`/thank-you/lead?${params.toString()}`);
     } catch (err: unknown) {
-      setSmsError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setSmsError(err instanceof Error ? err.message : t.common.genericError);
       setLoading(false);
     }
   };
@@ -290,7 +491,7 @@ export function QuizFlow() {
               value={(currentVal as string) ?? ''}
               onChange={e => setAnswer(q.id, e.target.value || null)}
             >
-              <option value="">Select your state…</option>
+              <option value="">{t.quiz.selectState}</option>
               {US_STATES.map(s => (
                 <option key={s} value={s}>{s}</option>
               ))}
@@ -298,20 +499,138 @@ export function QuizFlow() {
             <span className="sq-select-arrow" aria-hidden="true">▾</span>
           </div>
           <div className="sq-nav">
-            <button className="sq-btn-back" onClick={goBack}>← Back</button>
+            <button className="sq-btn-back" onClick={goBack}>{t.common.back}</button>
             <button
               className="sq-btn-next"
-              onClick={advanceStep}
+              onClick={() => advanceStep()}
               disabled={!currentVal}
             >
-              Next →
+              {t.common.next}
             </button>
           </div>
         </>
       );
     }
 
-    // Wages-with-slider (Q9)
+    // Injuries (Q2) — multi-select, at least one
+    if (q.type === 'injury-select' && q.options) {
+      const toggle = (type: InjuryType) => setAnswer(
+        'injuryTypes',
+        answers.injuryTypes.includes(type)
+          ? answers.injuryTypes.filter(t => t !== type)
+          : [...answers.injuryTypes, type],
+      );
+      return (
+        <>
+          <div className={`sq-options${q.layout === 'grid' ? ' sq-options--grid' : ''}`}>
+            {q.options.filter(opt => isInjuryType(opt.value)).map(opt => {
+              const type     = opt.value as InjuryType;
+              const selected = answers.injuryTypes.includes(type);
+              return (
+                <button
+                  key={opt.value}
+                  className={`sq-option${selected ? ' sq-option--selected' : ''}`}
+                  aria-pressed={selected}
+                  onClick={() => toggle(type)}
+                >
+                  {opt.icon && <span className="sq-option__icon">{opt.icon}</span>}
+                  <span className="sq-option__text">
+                    <span className="sq-option__label">{opt.label}</span>
+                    {opt.sub && <span className="sq-option__sub">{opt.sub}</span>}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+          <div className="sq-nav">
+            <button className="sq-btn-back" onClick={goBack}>{t.common.back}</button>
+            <button
+              className="sq-btn-next"
+              onClick={() => advanceStep()}
+              disabled={answers.injuryTypes.length === 0}
+            >
+              {t.common.next}
+            </button>
+          </div>
+        </>
+      );
+    }
+
+    // Medical costs (Q11) — both optional
+    if (q.type === 'medical-costs') {
+      const dollars = (v: number) => (v ? v.toLocaleString(intlLocale(locale)) : '');
+      return (
+        <>
+          <div className="sq-field-row">
+            <div className="sq-field">
+              <label className="sq-field-label" htmlFor="sq-medical-bills">{t.wages.medicalBills}</label>
+              <input
+                id="sq-medical-bills"
+                className="sq-text-input"
+                type="text"
+                inputMode="numeric"
+                placeholder="$0"
+                value={dollars(answers.medicalBills)}
+                onChange={e => setAnswer('medicalBills', parseDollars(e.target.value))}
+              />
+            </div>
+            <div className="sq-field">
+              <label className="sq-field-label" htmlFor="sq-future-care">{t.wages.futureCare}</label>
+              <input
+                id="sq-future-care"
+                className="sq-text-input"
+                type="text"
+                inputMode="numeric"
+                placeholder="$0"
+                value={dollars(answers.futureCare)}
+                onChange={e => setAnswer('futureCare', parseDollars(e.target.value))}
+              />
+            </div>
+          </div>
+          <div className="sq-nav">
+            <button className="sq-btn-back" onClick={goBack}>{t.common.back}</button>
+            <button className="sq-btn-next" onClick={() => advanceStep()}>
+              {answers.medicalBills || answers.futureCare ? t.common.next : t.common.skip}
+            </button>
+          </div>
+        </>
+      );
+    }
+
+    // Insurance limits (Q14) — both optional
+    if (q.type === 'coverage') {
+      const tiers = Object.keys(COVERAGE_TIER_LABELS) as CoverageTier[];
+      const select = (key: 'atFaultCoverage' | 'umCoverage', label: string, noneLabel: string) => (
+        <div className="sq-field">
+          <label className="sq-field-label" htmlFor={`sq-${key}`}>{label}</label>
+          <div className="sq-select-wrap">
+            <select
+              id={`sq-${key}`}
+              className="sq-select"
+              value={answers[key] ?? 'unknown'}
+              onChange={e => setAnswer(key, isCoverageTier(e.target.value) ? e.target.value : null)}
+            >
+              {tiers.map(tier => (
+                <option key={tier} value={tier}>{tier === 'none' ? noneLabel : t.coverage.tiers[tier]}</option>
+              ))}
+            </select>
+            <span className="sq-select-arrow" aria-hidden="true">▾</span>
+          </div>
+        </div>
+      );
+      return (
+        <>
+          {select('atFaultCoverage', t.coverage.atFault, t.coverage.atFaultNone)}
+          {select('umCoverage',      t.coverage.um,      t.coverage.umNone)}
+          <div className="sq-nav">
+            <button className="sq-btn-back" onClick={goBack}>{t.common.back}</button>
+            <button className="sq-btn-next" onClick={() => advanceStep()}>{t.common.next}</button>
+          </div>
+        </>
+      );
+    }
+
+    // Wages-with-slider (Q12)
     if (q.type === 'wages-with-slider') {
       const workVal  = currentVal as string | null;
       const showSlider = workVal === 'yes_missed' || workVal === 'yes_cant_work';
@@ -349,7 +668,7 @@ export function QuizFlow() {
                 exit={{ opacity: 0, height: 0 }}
                 transition={{ duration: 0.25 }}
               >
-                <p className="sq-wages-label-text">How much income have you lost so far?</p>
+                <p className="sq-wages-label-text">{t.wages.howMuch}</p>
                 <div className="sq-wages-display">
                   <motion.div
                     className="sq-wages-amount"
@@ -358,9 +677,9 @@ export function QuizFlow() {
                     animate={{ scale: 1 }}
                     transition={{ type: 'spring', stiffness: 400, damping: 20 }}
                   >
-                    {wages >= LOST_WAGES_MAX ? '$50k+' : formatCurrency(wages)}
+                    {formatLostWages(wages, locale)}
                   </motion.div>
-                  <div className="sq-wages-label">estimated lost income</div>
+                  <div className="sq-wages-label">{t.wages.lostIncome}</div>
                 </div>
                 <div className="sq-slider-wrap">
                   <input
@@ -374,7 +693,9 @@ export function QuizFlow() {
                     onChange={e => setAnswer('lostWages', Number(e.target.value))}
                   />
                   <div className="sq-slider-ticks">
-                    {['$0', '$10k', '$25k', '$50k+'].map(t => <span key={t}>{t}</span>)}
+                    {[0, 10_000, 25_000, LOST_WAGES_MAX].map(n => (
+                      <span key={n}>{n === LOST_WAGES_MAX ? formatLostWages(n, locale) : formatCurrency(n, locale)}</span>
+                    ))}
                   </div>
                 </div>
               </motion.div>
@@ -382,13 +703,13 @@ export function QuizFlow() {
           </AnimatePresence>
 
           <div className="sq-nav">
-            <button className="sq-btn-back" onClick={goBack}>← Back</button>
+            <button className="sq-btn-back" onClick={goBack}>{t.common.back}</button>
             <button
               className="sq-btn-next"
-              onClick={advanceStep}
+              onClick={() => advanceStep()}
               disabled={!workVal}
             >
-              Next →
+              {t.common.next}
             </button>
           </div>
         </>
@@ -418,8 +739,8 @@ export function QuizFlow() {
               );
             })}
           </div>
-          {stepPos > 0 && (
-            <button className="sq-btn-back-plain" onClick={goBack}>← Back</button>
+          {history.length > 1 && (
+            <button className="sq-btn-back-plain" onClick={goBack}>{t.common.back}</button>
           )}
         </>
       );
@@ -435,6 +756,7 @@ export function QuizFlow() {
     return (
       <div className="sq-page">
         <div className="sq-header">
+          <LanguageSwitcher locale={locale} onChange={setLocale} />
           <img src="/images/sam-icons/sam-logo.png" className="sq-header-icon" alt="" aria-hidden="true" />
           <div className="sq-progress-bar">
             <div className="sq-progress-fill" style={{ width: `${progressPct}%` }} />
@@ -452,7 +774,15 @@ export function QuizFlow() {
             exit="exit"
             transition={springTransition}
           >
-            <div className="sq-card-step">{stepPos + 1} / {totalQuestions}</div>
+            <div className="sq-card-step">{progress.step} / {progress.total}</div>
+            {welcome && (
+              <div className="sq-resume-notice">
+                <span>
+                  {welcome === 'resumed' ? t.quiz.welcomeBack : t.quiz.prefilled}
+                </span>
+                <button className="sq-resume-restart" onClick={handleReset}>{t.quiz.startOverShort}</button>
+              </div>
+            )}
             <h2 className="sq-headline">{currentQ.headline}</h2>
             {currentQ.sub && <p className="sq-sub">{currentQ.sub}</p>}
 
@@ -463,6 +793,41 @@ export function QuizFlow() {
             {renderQuestion(currentQ)}
           </motion.div>
         </AnimatePresence>
+
+        {!isDraftEmpty(answers) && (
+          <div className="sq-resume-link">
+            {linkStatus === 'sent' ? (
+              <p className="sq-privacy-note">{t.quiz.linkSent(linkEmail.trim())}</p>
+            ) : !linkOpen ? (
+              <button className="sq-btn-back-plain" onClick={() => setLinkOpen(true)}>
+                {t.quiz.otherDevice}
+              </button>
+            ) : (
+              <>
+                <div className="sq-field">
+                  <label className="sq-field-label" htmlFor="sq-resume-email">{t.quiz.emailLinkLabel}</label>
+                  <input
+                    id="sq-resume-email"
+                    className="sq-text-input"
+                    type="email"
+                    placeholder="you@example.com"
+                    value={linkEmail}
+                    onChange={e => { setLinkEmail(e.target.value); setLinkError(''); }}
+                    autoComplete="email"
+                  />
+                </div>
+                {linkError && <p className="sq-field-error">{linkError}</p>}
+                <button
+                  className="sq-btn-next"
+                  onClick={sendResumeLink}
+                  disabled={linkStatus === 'sending' || !linkEmail.trim()}
+                >
+                  {linkStatus === 'sending' ? t.common.sending : t.quiz.sendLink}
+                </button>
+              </>
+            )}
+          </div>
+        )}
       </div>
     );
   }
@@ -474,6 +839,7 @@ export function QuizFlow() {
     return (
       <div className="sq-page">
         <div className="sq-header">
+          <LanguageSwitcher locale={locale} onChange={setLocale} />
           <img src="/images/sam-icons/sam-logo.png" className="sq-header-icon" alt="" aria-hidden="true" />
           <div className="sq-progress-bar">
             <div className="sq-progress-fill" style={{ width: '90%' }} />
@@ -487,16 +853,16 @@ export function QuizFlow() {
           transition={{ duration: 0.3 }}
         >
           <div style={{ textAlign: 'center' }}>
-            <h2 className="sq-headline" style={{ marginBottom: 4 }}>Almost there…</h2>
+            <h2 className="sq-headline" style={{ marginBottom: 4 }}>{t.quiz.almostThere}</h2>
             <p className="sq-sub" style={{ marginBottom: 0 }}>
-              Tell us who to send your results to.
+              {t.quiz.tellUs}
             </p>
           </div>
 
           <div className="sq-contact-form">
             <div className="sq-field-row">
               <div className="sq-field">
-                <label className="sq-field-label" htmlFor="sq-first">First Name</label>
+                <label className="sq-field-label" htmlFor="sq-first">{t.quiz.firstName}</label>
                 <input
                   id="sq-first"
                   className="sq-text-input"
@@ -508,7 +874,7 @@ export function QuizFlow() {
                 />
               </div>
               <div className="sq-field">
-                <label className="sq-field-label" htmlFor="sq-last">Last Name</label>
+                <label className="sq-field-label" htmlFor="sq-last">{t.quiz.lastName}</label>
                 <input
                   id="sq-last"
                   className="sq-text-input"
@@ -522,7 +888,7 @@ export function QuizFlow() {
             </div>
 
             <div className="sq-field">
-              <label className="sq-field-label" htmlFor="sq-email">Email Address</label>
+              <label className="sq-field-label" htmlFor="sq-email">{t.quiz.email}</label>
               <input
                 id="sq-email"
                 className={`sq-text-input${emailError ? ' sq-input--error' : ''}`}
@@ -549,12 +915,12 @@ export function QuizFlow() {
               className="sq-btn-submit"
               onClick={handleContactNext}
             >
-              Continue →
+              {t.quiz.continue}
             </button>
           </div>
 
-          <button className="sq-btn-back-plain" onClick={() => { setDirection(-1); setScreen('quiz'); setStepPos(totalQuestions - 1); }}>
-            ← Back to quiz
+          <button className="sq-btn-back-plain" onClick={() => { setDirection(-1); setScreen('quiz'); }}>
+            {t.quiz.backToQuiz}
           </button>
         </motion.div>
       </div>
@@ -582,22 +948,24 @@ export function QuizFlow() {
         >
           {loading ? (
             <div style={{ textAlign: 'center', padding: '32px 0', color: 'var(--ss-muted)' }}>
-              Saving your results…
+              {t.common.saving}
             </div>
           ) : smsError ? (
             <div style={{ textAlign: 'center', padding: '16px 0' }}>
               <p style={{ color: '#EF4444', marginBottom: 16 }}>{smsError}</p>
-              <button className="sq-btn-back-plain" onClick={() => setSmsError('')}>Try again</button>
+              <button className="sq-btn-back-plain" onClick={() => setSmsError('')}>{t.common.tryAgain}</button>
             </div>
           ) : (
             <SMSVerification
               leadName={firstName}
+              locale={locale}
               onVerified={handleSmsVerified}
+              onCodeSent={handleCodeSent}
             />
           )}
           {!loading && !smsError && (
             <button className="sq-btn-back-plain" onClick={() => setScreen('contact')}>
-              ← Back
+              {t.common.back}
             </button>
           )}
         </motion.div>
@@ -626,15 +994,15 @@ export function QuizFlow() {
         >
           {loading ? (
             <div style={{ textAlign: 'center', padding: '32px 0', color: 'var(--ss-muted)' }}>
-              Saving your results…
+              {t.common.saving}
             </div>
           ) : smsError ? (
             <div style={{ textAlign: 'center', padding: '16px 0' }}>
               <p style={{ color: '#EF4444', marginBottom: 16 }}>{smsError}</p>
-              <button className="sq-btn-back-plain" onClick={() => setSmsError('')}>Try again</button>
+              <button className="sq-btn-back-plain" onClick={() => setSmsError('')}>{t.common.tryAgain}</button>
             </div>
           ) : (
-            <ContactPreference leadName={firstName} onComplete={handlePreferenceComplete} />
+            <ContactPreference leadName={firstName} locale={locale} onComplete={handlePreferenceComplete} />
           )}
         </motion.div>
       </div>
@@ -645,8 +1013,11 @@ export function QuizFlow() {
   // SCREEN: SUCCESS
   // ══════════════════════════════════════════════════════════════════════════
   if (screen === 'success') {
-    const est     = calculateQuizEstimate(answers as QuizAnswers);
-    const factors = getKeyFactors(answers as QuizAnswers);
+    const submitted   = pruneAnswers(answers);
+    const breakdown   = calculateQuizBreakdown(submitted, valuation);
+    const est         = breakdown.total;
+    const collectible = calculateQuizCollectible(submitted, valuation);
+    const factors   = getKeyFactors(submitted, undefined, locale);
 
     return (
       <div className="sq-page">
@@ -680,7 +1051,7 @@ export function QuizFlow() {
             </motion.div>
 
             <h2 className="sq-success-headline">
-              {firstName ? `You're in, ${firstName}!` : "You're in!"}
+              {t.quiz.youreIn(firstName)}
             </h2>
 
             <motion.div
@@ -689,10 +1060,26 @@ export function QuizFlow() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.2 }}
             >
-              <div className="sq-range-label">Your case may be worth</div>
+              <div className="sq-range-label">{t.common.caseWorth}</div>
               <div className="sq-range-value">
-                {formatCurrency(est.low)} – {formatCurrency(est.high)}
+                {formatCurrency(est.low, locale)} – {formatCurrency(est.high, locale)}
               </div>
+              {collectible.capped && (
+                <p className="sq-sub" style={{ margin: '8px 0 0' }}>
+                  {t.common.collectible}{' '}
+                  <strong>{formatCurrency(collectible.collectible.low, locale)} – {formatCurrency(collectible.collectible.high, locale)}</strong>
+                  {collectible.assumed && t.common.assumedMinimum}
+                </p>
+              )}
+            </motion.div>
+
+            <motion.div
+              className="sq-factors"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.25 }}
+            >
+              <EstimateBreakdownPanel breakdown={breakdown} locale={locale} />
             </motion.div>
 
             {factors.length > 0 && (
@@ -702,7 +1089,7 @@ export function QuizFlow() {
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 0.3 }}
               >
-                <p className="sq-factors-title">Factors working in your favor</p>
+                <p className="sq-factors-title">{t.quiz.factorsTitle}</p>
                 <ul className="sq-factors-list">
                   {factors.map(f => (
                     <li key={f.label} className="sq-factor-check">
@@ -720,11 +1107,9 @@ export function QuizFlow() {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.4 }}
             >
-              <p className="sq-factors-title">What happens next</p>
+              <p className="sq-factors-title">{t.quiz.nextStepsTitle}</p>
               <ol>
-                <li>A licensed attorney reviews your case details{answers.state ? ` in ${answers.state}` : ''}.</li>
-                <li>They will contact you within 1 business day.</li>
-                <li>Your free consultation is 100% free, no obligation.</li>
+                {t.quiz.nextSteps(answers.state).map(step => <li key={step}>{step}</li>)}
               </ol>
             </motion.div>
 
@@ -735,21 +1120,19 @@ export function QuizFlow() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: 0.5 }}
             >
-              Chat With an Attorney Now →
+              {t.quiz.chatCta}
             </motion.a>
 
             <p className="sq-urgency">
-              🗓 Your case details have been submitted. An attorney will reach out within 1 business day.
+              {t.quiz.submitted}
             </p>
 
             <p style={{ fontSize: 11, color: 'var(--ss-muted)', margin: '4px 0 0', textAlign: 'center', lineHeight: 1.6 }}>
-              This estimate is based on general settlement data and is not legal advice.
-              Every case is different. Results depend on the specific facts, applicable law,
-              and many other factors.
+              {t.quiz.disclaimer}
             </p>
 
             <button className="sq-disq-restart" onClick={handleReset} style={{ marginTop: 4 }}>
-              ↺ Start a new evaluation
+              {t.quiz.newEvaluation}
             </button>
           </div>
         </motion.div>
@@ -784,30 +1167,27 @@ export function QuizFlow() {
             />
 
             <h2 className="sq-success-headline" style={{ fontSize: 20 }}>
-              Sounds like you're in good hands.
+              {t.quiz.goodHands}
             </h2>
             <p className="sq-disq-sub">
-              You already have an attorney fighting for you. Keep working with them —
-              they're your best resource.
+              {t.quiz.goodHandsSub}
             </p>
 
             <div className="sq-attorney-questions">
-              <h4>Questions to ask your attorney</h4>
+              <h4>{t.quiz.askTitle}</h4>
               <ul>
-                <li>What's the realistic settlement range for my case?</li>
-                <li>How much are your fees, and when do I pay?</li>
-                <li>What's your strategy for dealing with the insurance adjuster?</li>
-                <li>How long do you expect this case to take?</li>
-                <li>What are my chances of going to trial?</li>
+                {t.quiz.askList.map(q => <li key={q}>{q}</li>)}
               </ul>
             </div>
 
+            <ExitOffers reason="has_attorney" answers={pruneAnswers(answers)} routes={exitRoutes} locale={locale} />
+
             <Link href="/" className="sq-disq-cta" style={{ display: 'inline-block', textDecoration: 'none', borderRadius: '10px', padding: '12px 24px', background: 'var(--ss-amber)', color: '#fff', fontWeight: 700, fontSize: 14 }}>
-              ← Back to Homepage
+              {t.quiz.backHome}
             </Link>
 
             <button className="sq-disq-restart" onClick={handleReset}>
-              ↺ Start over
+              {t.common.startOver}
             </button>
           </div>
         </motion.div>
@@ -819,7 +1199,7 @@ export function QuizFlow() {
   // SCREEN: DISQUALIFIED
   // ══════════════════════════════════════════════════════════════════════════
   if (screen === 'disqualified' && disqReason) {
-    const msg = DISQUALIFIER_MESSAGES[disqReason];
+    const msg = t.disqualifier[disqReason];
     return (
       <div className="sq-page">
         <div className="sq-topbar">
@@ -849,12 +1229,14 @@ export function QuizFlow() {
               <h2 className="sq-disq-headline">{msg.headline}</h2>
               <p className="sq-disq-sub">{msg.body}</p>
 
+              <ExitOffers reason={disqReason} answers={pruneAnswers(answers)} routes={exitRoutes} locale={locale} />
+
               <Link href="/attorneys" className="sq-disq-cta" style={{ textDecoration: 'none', borderRadius: '10px', padding: '12px 24px', background: 'var(--ss-coral)', color: '#fff', fontWeight: 700, fontSize: 14, display: 'inline-block' }}>
-                Get a Free Attorney Consultation →
+                {t.quiz.freeConsult}
               </Link>
 
               <button className="sq-disq-restart" onClick={handleReset}>
-                ← Start Over
+                {t.quiz.startOverCaps}
               </button>
             </div>
           </motion.div>
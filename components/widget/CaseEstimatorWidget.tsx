@@ -3,9 +3,9 @@
  * components/widget/CaseEstimatorWidget.tsx
  *
  * The full 4-step widget:
- *   Step 0 — Injury type (pill buttons)
+ *   Step 0 — Injuries (multi-select cards)
  *   Step 1 — Surgery toggle (oversized satisfying cards)
- *   Step 2 — Lost wages (styled slider)
+ *   Step 2 — Lost wages (styled slider) + optional medical costs and coverage
  *   Step 3 — Verification gate (SMS OTP)
  *   Step 4 — Unlocked result (Gauge + confetti + CTA bridge)
  *
@@ -13,28 +13,54 @@
  * Framer Motion spring physics throughout.
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useEstimator } from '@/lib/estimator/useEstimator';
-import { formatCurrency, LOST_WAGES_MAX } from '@/lib/estimator/logic';
+import { useValuationTable } from '@/lib/estimator/useValuationTable';
+import { formatCurrency, formatLostWages, LOST_WAGES_MAX } from '@/lib/estimator/logic';
 import type { InjuryType } from '@/lib/estimator/types';
+import { COVERAGE_TIER_LABELS, isCoverageTier } from '@/lib/estimator/coverage';
+import type { CoverageTier } from '@/lib/estimator/coverage';
 import { Gauge } from './Gauge';
 import { VerificationGate } from './VerificationGate';
+import EstimateBreakdownPanel from '@/components/EstimateBreakdownPanel';
+import { createTracker } from '@/lib/analytics/track';
+import { FUNNEL_STEPS } from '@/lib/analytics/funnel';
+import { prefillHref } from '@/lib/quiz/prefill';
+import { isUsState } from '@/lib/quiz/questions';
+import { intlLocale, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import { useLocale } from '@/lib/i18n/useLocale';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
 
 // ── Step index ─────────────────────────────────────────────────────────────────
 // 0 = injury  |  1 = surgery  |  2 = wages  |  3 = verify  |  4 = result
 type Step = 0 | 1 | 2 | 3 | 4;
 
+/** Funnel step names, by Step index (see lib/analytics/funnel.ts). */
+const STEP_NAMES = FUNNEL_STEPS.widget;
+
 // ── Injury options ─────────────────────────────────────────────────────────────
-const INJURY_OPTIONS: { type: InjuryType; emoji: string; label: string; sub: string }[] = [
-  { type: 'soft_tissue', emoji: '🩹', label: 'Soft Tissue',  sub: 'Sprains & whiplash'     },
-  { type: 'fracture',    emoji: '🦴', label: 'Fracture',     sub: 'Broken bone'             },
-  { type: 'tbi',         emoji: '🧠', label: 'Head / TBI',   sub: 'Concussion, TBI'         },
-  { type: 'spinal',      emoji: '⚡', label: 'Spinal Cord',  sub: 'Spinal cord injury'      },
+// Labels come from messages(locale).widget.injuries
+const INJURY_OPTIONS: { type: InjuryType; emoji: string }[] = [
+  { type: 'soft_tissue', emoji: '🩹' },
+  { type: 'fracture',    emoji: '🦴' },
+  { type: 'tbi',         emoji: '🧠' },
+  { type: 'spinal',      emoji: '⚡' },
 ];
 
 // ── Wage slider ticks ─────────────────────────────────────────────────────────
-const WAGE_TICKS = ['$0', '$10k', '$25k', '$50k+'];
+function wageTicks(locale: Locale): string[] {
+  return [...[0, 10_000, 25_000].map(n => formatCurrency(n, locale)), formatLostWages(LOST_WAGES_MAX, locale)];
+}
+
+/** Parses a free-typed dollar amount ("$12,500" → 12500). Empty → 0. */
+function parseDollars(raw: string): number {
+  return Number(raw.replace(/[^\d]/g, '')) || 0;
+}
+
+// ── Coverage dropdowns ────────────────────────────────────────────────────────
+const COVERAGE_TIERS = Object.keys(COVERAGE_TIER_LABELS) as CoverageTier[];
 
 // ── Confetti (computed once, SSR-safe) ────────────────────────────────────────
 const PARTICLES = Array.from({ length: 22 }, (_, i) => {
@@ -86,18 +112,20 @@ function Confetti() {
 function Nav({
   onBack,
   onNext,
-  nextLabel    = 'Next →',
+  locale,
+  nextLabel    = messages(locale).common.next,
   nextDisabled = false,
 }: {
   onBack?:       () => void;
   onNext:        () => void;
+  locale:        Locale;
   nextLabel?:    string;
   nextDisabled?: boolean;
 }) {
   return (
     <div className="ss-nav">
       {onBack
-        ? <button className="ss-btn-back" onClick={onBack}>← Back</button>
+        ? <button className="ss-btn-back" onClick={onBack}>{messages(locale).common.back}</button>
         : <span />
       }
       <button className="ss-btn-next" onClick={onNext} disabled={nextDisabled}>
@@ -109,17 +137,26 @@ function Nav({
 
 // ── Widget props ──────────────────────────────────────────────────────────────
 export interface CaseEstimatorWidgetProps {
-  /** URL for "Get My Full Case Review with Sam →" CTA. Defaults to /quiz. */
+  /** URL for "Get My Full Case Review with Sam →" CTA. Defaults to /quiz; the widget's answers are appended (lib/quiz/prefill.ts). */
   funnelHref?: string;
   /** Base URL for verification API. Defaults to /api. */
   apiBase?: string;
+  /** Visitor's state (full name, e.g. "Texas"). Enables state-adjusted ranges; ignored unless in US_STATES. */
+  state?: string;
+  /** Fixes the language and hides the switcher. Otherwise detected from ?lang=, a saved choice or the browser. */
+  locale?: Locale;
 }
 
 // ── Widget ────────────────────────────────────────────────────────────────────
 export function CaseEstimatorWidget({
   funnelHref = '/quiz',
   apiBase    = '/api',
+  state,
+  locale: fixedLocale,
 }: CaseEstimatorWidgetProps) {
+  const [locale, setLocale] = useLocale(fixedLocale);
+  const t = messages(locale);
+
   const [step,           setStep]           = useState<Step>(0);
   const [stepKey,        setStepKey]        = useState(0);
   const [isDragging,     setIsDragging]     = useState(false);
@@ -127,14 +164,30 @@ export function CaseEstimatorWidget({
   const [_token,         setToken]          = useState('');
 
   const {
-    inputs, estimate, summaryText,
-    setInjuryType, setSurgery, setLostWages, reset,
-  } = useEstimator();
+    inputs, estimate, breakdown, collectible, summaryText,
+    toggleInjury, setSurgery, setLostWages, setMedicalBills, setFutureCare,
+    setAtFaultCoverage, setUmCoverage, reset,
+  } = useEstimator(isUsState(state) ? state : null, useValuationTable(apiBase), locale);
+
+  const track = useMemo(() => createTracker('widget', apiBase), [apiBase]);
 
   const goTo = useCallback((next: Step) => {
+    if (next > step && step < 3) track('answer', STEP_NAMES[step]);
+    if (next === 4)              track('complete', STEP_NAMES[3]);
     setStep(next);
     setStepKey(k => k + 1);
-  }, []);
+  }, [step, track]);
+
+  useEffect(() => { track('step_view', STEP_NAMES[step]); }, [step, stepKey, track]);
+
+  // Closing the page before the result counts as an exit from the current step
+  const exitStep = useRef<string | null>(null);
+  exitStep.current = step < 4 ? STEP_NAMES[step] : null;
+  useEffect(() => {
+    const onHide = () => { if (exitStep.current) track('exit', exitStep.current); };
+    window.addEventListener('pagehide', onHide);
+    return () => window.removeEventListener('pagehide', onHide);
+  }, [track]);
 
   const handleReset = useCallback(() => {
     reset();
@@ -154,7 +207,9 @@ export function CaseEstimatorWidget({
   };
 
   return (
-    <div className="ss-widget">
+    <div className="ss-widget" lang={locale}>
+
+      {!fixedLocale && <LanguageSwitcher locale={locale} onChange={setLocale} variant="ss" />}
 
       {/* ── Sam icon ────────────────────────────────────────────────────── */}
       <img
@@ -185,24 +240,25 @@ export function CaseEstimatorWidget({
               initial="initial" animate="animate" exit="exit"
               transition={{ duration: 0.18 }}
             >
-              <p className="ss-question">What's the main injury?</p>
-              <p className="ss-sub">Pick the one that best describes your situation.</p>
+              <p className="ss-question">{t.widget.injuriesQuestion}</p>
+              <p className="ss-sub">{t.widget.injuriesSub}</p>
 
               <div className="ss-injury-grid">
                 {INJURY_OPTIONS.map(opt => (
                   <button
                     key={opt.type}
-                    className={`ss-card${inputs.injuryType === opt.type ? ' ss-card--selected' : ''}`}
-                    onClick={() => setInjuryType(opt.type)}
+                    className={`ss-card${inputs.injuryTypes.includes(opt.type) ? ' ss-card--selected' : ''}`}
+                    aria-pressed={inputs.injuryTypes.includes(opt.type)}
+                    onClick={() => toggleInjury(opt.type)}
                   >
                     <span className="ss-card__emoji">{opt.emoji}</span>
-                    <span className="ss-card__label">{opt.label}</span>
-                    <span className="ss-card__sub">{opt.sub}</span>
+                    <span className="ss-card__label">{t.widget.injuries[opt.type].label}</span>
+                    <span className="ss-card__sub">{t.widget.injuries[opt.type].sub}</span>
                   </button>
                 ))}
               </div>
 
-              <Nav onNext={() => goTo(1)} nextDisabled={!inputs.injuryType} />
+              <Nav locale={locale} onNext={() => goTo(1)} nextDisabled={inputs.injuryTypes.length === 0} />
             </motion.div>
           )}
 
@@ -215,15 +271,13 @@ export function CaseEstimatorWidget({
               initial="initial" animate="animate" exit="exit"
               transition={{ duration: 0.18 }}
             >
-              <p className="ss-question">Did you have surgery?</p>
-              <p className="ss-sub">Surgery is the single biggest driver of case value.</p>
+              <p className="ss-question">{t.widget.surgeryQuestion}</p>
+              <p className="ss-sub">{t.widget.surgerySub}</p>
 
               <div className="ss-surgery-grid">
                 {([
-                  { val: true,  cls: 'ss-surgery-card--yes', icon: '🏥',
-                    label: 'Yes, I had surgery',      sub: 'Or surgery has been recommended' },
-                  { val: false, cls: 'ss-surgery-card--no',  icon: '💊',
-                    label: 'No surgery',              sub: 'Treated with medication or therapy' },
+                  { val: true,  cls: 'ss-surgery-card--yes', icon: '🏥', ...t.widget.surgeryYes },
+                  { val: false, cls: 'ss-surgery-card--no',  icon: '💊', ...t.widget.surgeryNo  },
                 ] as const).map(opt => (
                   <button
                     key={String(opt.val)}
@@ -245,7 +299,7 @@ export function CaseEstimatorWidget({
                 ))}
               </div>
 
-              <Nav onBack={() => goTo(0)} onNext={() => goTo(2)} />
+              <Nav locale={locale} onBack={() => goTo(0)} onNext={() => goTo(2)} />
             </motion.div>
           )}
 
@@ -258,8 +312,8 @@ export function CaseEstimatorWidget({
               initial="initial" animate="animate" exit="exit"
               transition={{ duration: 0.18 }}
             >
-              <p className="ss-question">How much income did you lose?</p>
-              <p className="ss-sub">Include wages, salary, or self-employment. Set $0 if none.</p>
+              <p className="ss-question">{t.widget.wagesQuestion}</p>
+              <p className="ss-sub">{t.widget.wagesSub}</p>
 
               <div className="ss-wages-display">
                 <motion.div
@@ -269,11 +323,9 @@ export function CaseEstimatorWidget({
                   animate={{ scale: 1 }}
                   transition={{ type: 'spring', stiffness: 400, damping: 20 }}
                 >
-                  {inputs.lostWages >= LOST_WAGES_MAX
-                    ? '$50k+'
-                    : formatCurrency(inputs.lostWages)}
+                  {formatLostWages(inputs.lostWages, locale)}
                 </motion.div>
-                <div className="ss-wages-label">estimated lost income</div>
+                <div className="ss-wages-label">{t.wages.lostIncome}</div>
               </div>
 
               <div className="ss-slider-wrap">
@@ -292,14 +344,68 @@ export function CaseEstimatorWidget({
                   onTouchEnd={()   => setIsDragging(false)}
                 />
                 <div className="ss-slider-ticks">
-                  {WAGE_TICKS.map(t => <span key={t}>{t}</span>)}
+                  {wageTicks(locale).map(tick => <span key={tick}>{tick}</span>)}
+                </div>
+              </div>
+
+              <div className="ss-fields">
+                <div className="ss-field">
+                  <label className="ss-field-label" htmlFor="ss-medical-bills">{t.wages.medicalBills} {t.wages.optional}</label>
+                  <input
+                    id="ss-medical-bills"
+                    className="ss-field-input"
+                    type="text"
+                    inputMode="numeric"
+                    placeholder="$0"
+                    value={inputs.medicalBills ? inputs.medicalBills.toLocaleString(intlLocale(locale)) : ''}
+                    onChange={e => setMedicalBills(parseDollars(e.target.value))}
+                  />
+                </div>
+                <div className="ss-field">
+                  <label className="ss-field-label" htmlFor="ss-future-care">{t.wages.futureCare} {t.wages.optional}</label>
+                  <input
+                    id="ss-future-care"
+                    className="ss-field-input"
+                    type="text"
+                    inputMode="numeric"
+                    placeholder="$0"
+                    value={inputs.futureCare ? inputs.futureCare.toLocaleString(intlLocale(locale)) : ''}
+                    onChange={e => setFutureCare(parseDollars(e.target.value))}
+                  />
+                </div>
+                <div className="ss-field">
+                  <label className="ss-field-label" htmlFor="ss-at-fault-coverage">{t.coverage.atFault}</label>
+                  <select
+                    id="ss-at-fault-coverage"
+                    className="ss-field-select"
+                    value={inputs.atFaultCoverage ?? 'unknown'}
+                    onChange={e => setAtFaultCoverage(isCoverageTier(e.target.value) ? e.target.value : null)}
+                  >
+                    {COVERAGE_TIERS.map(tier => (
+                      <option key={tier} value={tier}>{tier === 'none' ? t.coverage.atFaultNone : t.coverage.tiers[tier]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="ss-field">
+                  <label className="ss-field-label" htmlFor="ss-um-coverage">{t.coverage.umShort}</label>
+                  <select
+                    id="ss-um-coverage"
+                    className="ss-field-select"
+                    value={inputs.umCoverage ?? 'unknown'}
+                    onChange={e => setUmCoverage(isCoverageTier(e.target.value) ? e.target.value : null)}
+                  >
+                    {COVERAGE_TIERS.map(tier => (
+                      <option key={tier} value={tier}>{tier === 'none' ? t.coverage.umNoneShort : t.coverage.tiers[tier]}</option>
+                    ))}
+                  </select>
                 </div>
               </div>
 
               <Nav
+                locale={locale}
                 onBack={() => goTo(1)}
                 onNext={() => goTo(3)}
-                nextLabel="See My Estimate →"
+                nextLabel={t.widget.seeEstimate}
               />
             </motion.div>
           )}
@@ -313,6 +419,7 @@ export function CaseEstimatorWidget({
               apiBase={apiBase}
               onSuccess={(token, _name) => { setToken(token); goTo(4); }}
               onBack={() => goTo(2)}
+              locale={locale}
             />
           )}
 
@@ -328,7 +435,7 @@ export function CaseEstimatorWidget({
               {/* Gauge + confetti */}
               <div className="ss-gauge-outer">
                 <div className="ss-gauge-wrap">
-                  <Gauge estimate={estimate} isDragging={isDragging} />
+                  <Gauge estimate={estimate} isDragging={isDragging} locale={locale} />
                 </div>
                 <Confetti />
               </div>
@@ -336,14 +443,14 @@ export function CaseEstimatorWidget({
               {/* Dollar range */}
               <div className="ss-range-glow-wrap">
                 <div className="ss-range-glow" aria-hidden="true" />
-                <div className="ss-result-label">Your case may be worth</div>
+                <div className="ss-result-label">{t.common.caseWorth}</div>
                 <motion.div
                   className="ss-range-main"
                   initial={{ scale: 0.85, opacity: 0 }}
                   animate={{ scale: 1,    opacity: 1 }}
                   transition={{ type: 'spring', stiffness: 180, damping: 16, delay: 0.12 }}
                 >
-                  {formatCurrency(estimate.low)}&nbsp;–&nbsp;{formatCurrency(estimate.high)}
+                  {formatCurrency(estimate.low, locale)}&nbsp;–&nbsp;{formatCurrency(estimate.high, locale)}
                 </motion.div>
               </div>
 
@@ -351,43 +458,42 @@ export function CaseEstimatorWidget({
                 <p className="ss-summary-text">{summaryText}</p>
               )}
 
+              {collectible?.capped && (
+                <p className="ss-summary-text">
+                  {t.common.collectible}{' '}
+                  <strong>{formatCurrency(collectible.collectible.low, locale)}&nbsp;–&nbsp;{formatCurrency(collectible.collectible.high, locale)}</strong>
+                </p>
+              )}
+
+              {breakdown && <EstimateBreakdownPanel breakdown={breakdown} locale={locale} />}
+
               <div className="ss-divider" />
 
               {/* Bridge CTA */}
               <div className="ss-bridge">
                 <img src="/images/sam-icons/sam-logo.png" width={56} height={56} alt="" aria-hidden="true" style={{ display: 'block', margin: '0 auto 10px', borderRadius: '50%', objectFit: 'contain' }} />
-                <h3 className="ss-bridge-headline">Here's what I found for you.</h3>
-                <p className="ss-bridge-sub">
-                  This is just the starting point — a 3-minute full review with Sam
-                  could be the difference between $18k and $180k.
-                </p>
+                <h3 className="ss-bridge-headline">{t.widget.bridgeHeadline}</h3>
+                <p className="ss-bridge-sub">{t.widget.bridgeSub}</p>
 
                 <motion.a
                   className="ss-bridge-cta ss-bridge-cta--pulse"
-                  href={funnelHref}
+                  href={prefillHref(funnelHref, inputs, locale)}
                   whileHover={{ scale: 1.03 }}
                   whileTap={{ scale: 0.97 }}
                 >
-                  Get My Full Case Review with Sam →
+                  {t.widget.bridgeCta}
                 </motion.a>
 
-                <p className="ss-bridge-urgency">
-                  🗓 Sam reviews cases Monday–Friday. Spots fill by noon most days.
-                </p>
+                <p className="ss-bridge-urgency">{t.widget.bridgeUrgency}</p>
               </div>
 
               <div className="ss-divider" />
 
               <button className="ss-restart" onClick={handleReset}>
-                ↺ Start over
+                {t.common.startOver}
               </button>
 
-              <p className="ss-disclaimer">
-                This estimate is based on general settlement data and is not legal
-                advice. Every case is different. Actual results depend on the
-                specific facts, applicable law, and many other factors. Talk to a
-                licensed attorney for a real evaluation.
-              </p>
+              <p className="ss-disclaimer">{t.widget.disclaimer}</p>
             </motion.div>
           )}
 
@@ -10,6 +10,8 @@ import { motion, useSpring, useTransform } from 'framer-motion';
 import { useEffect, useRef } from 'react';
 import { formatCurrency } from '@/lib/estimator/logic';
 import type { EstimateRange } from '@/lib/estimator/types';
+import { DEFAULT_LOCALE, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 // ── Gauge geometry ─────────────────────────────────────────────────────────────
 const SIZE        = 280;
@@ -43,9 +45,11 @@ interface GaugeProps {
   estimate:   EstimateRange | null;
   /** True while user is dragging the wage slider — suppresses overshoot. */
   isDragging: boolean;
+  locale?:    Locale;
 }
 
-export function Gauge({ estimate, isDragging }: GaugeProps) {
+export function Gauge({ estimate, isDragging, locale = DEFAULT_LOCALE }: GaugeProps) {
+  const t = messages(locale);
   // Fraction of arc to fill: 0 → 1
   // We anchor the fraction to the midpoint of the estimate range so the needle
   // reflects the centre value rather than always pinning to one end.
@@ -95,8 +99,8 @@ export function Gauge({ estimate, isDragging }: GaugeProps) {
       viewBox={`0 0 ${SIZE} ${SIZE * 0.72}`}
       aria-label={
         estimate
-          ? `Estimated case value: ${formatCurrency(estimate.low)} to ${formatCurrency(estimate.high)}`
-          : 'Waiting for inputs'
+          ? t.widget.gaugeLabel(formatCurrency(estimate.low, locale), formatCurrency(estimate.high, locale))
+          : t.widget.gaugeWaiting
       }
       role="img"
     >
@@ -173,7 +177,7 @@ export function Gauge({ estimate, isDragging }: GaugeProps) {
             fontSize={12}
             fontFamily="Inter, system-ui, sans-serif"
           >
-            Your case may be worth
+            {t.common.caseWorth}
           </text>
           <text
             x={CX}
@@ -184,7 +188,7 @@ export function Gauge({ estimate, isDragging }: GaugeProps) {
             fontFamily="Inter, system-ui, sans-serif"
             opacity={0.5}
           >
-            estimated range
+            {t.breakdown.estimatedRange.toLowerCase()}
           </text>
         </>
       )}
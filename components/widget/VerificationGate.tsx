@@ -2,8 +2,9 @@
 /**
  * components/widget/VerificationGate.tsx
  *
- * Firebase Phone Auth gate for the case estimator widget.
- * Step 1: collect name. Step 2: SMSVerification component.
+ * Phone verification gate for the case estimator widget.
+ * Step 1: collect name. Step 2: SMSVerification component — the same OTP
+ * policy as the quiz (lib/sms/otpPolicy.ts).
  * On success calls onSuccess(token, firstName).
  */
 
@@ -12,6 +13,9 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { formatCurrency } from '@/lib/estimator/logic';
 import type { EstimateRange, EstimatorInputs } from '@/lib/estimator/types';
 import SMSVerification from '@/components/SMSVerification';
+import { intakeDeviceId } from '@/lib/leads/device';
+import { DEFAULT_LOCALE, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 export interface VerificationGateProps {
   estimate:    EstimateRange;
@@ -21,12 +25,14 @@ export interface VerificationGateProps {
   onBack:      () => void;
   isQuizMode?: boolean;
   quizAnswers?: Record<string, unknown>;
+  locale?:     Locale;
 }
 
 export function VerificationGate({
   estimate, inputs, apiBase, onSuccess, onBack,
-  isQuizMode = false, quizAnswers,
+  isQuizMode = false, quizAnswers, locale = DEFAULT_LOCALE,
 }: VerificationGateProps) {
+  const { gate: t, common } = messages(locale);
   const [subStep,  setSubStep]  = useState<'name' | 'verify'>('name');
   const [name,     setName]     = useState('');
   const [loading,  setLoading]  = useState(false);
@@ -36,45 +42,64 @@ export function VerificationGate({
   const BlurredPreview = (
     <div className="ss-gate-preview">
       <div className="ss-gate-preview__blur" aria-hidden="true">
-        <div className="ss-result-label">Your case may be worth</div>
+        <div className="ss-result-label">{common.caseWorth}</div>
         <div className="ss-range-main">
-          {formatCurrency(estimate.low)}&nbsp;–&nbsp;{formatCurrency(estimate.high)}
+          {formatCurrency(estimate.low, locale)}&nbsp;–&nbsp;{formatCurrency(estimate.high, locale)}
         </div>
       </div>
       <div className="ss-gate-preview__overlay">
         <span className="ss-gate-lock-icon">🔒</span>
-        <span>Verify to unlock your estimate</span>
+        <span>{t.locked}</span>
       </div>
     </div>
   );
 
+  // Lead fields sent both when capturing a partial lead and on verification
+  const leadBody = (phoneNumber: string): Record<string, unknown> => ({
+    name:         name.trim(),
+    phone:        phoneNumber,
+    injuryTypes:  inputs.injuryTypes,
+    surgery:      inputs.hasSurgery,
+    lostWages:    inputs.lostWages,
+    state:        inputs.state ?? null,
+    medicalBills: inputs.medicalBills ?? 0,
+    futureCare:   inputs.futureCare   ?? 0,
+    atFaultCoverage: inputs.atFaultCoverage ?? null,
+    umCoverage:      inputs.umCoverage      ?? null,
+    estimateLow:  estimate.low,
+    estimateHigh: estimate.high,
+    source:       isQuizMode ? 'quiz' : 'widget',
+    locale,
+    deviceId:     intakeDeviceId(),
+    ...(isQuizMode && quizAnswers ? quizAnswers : {}),
+  });
+
+  // Called by SMSVerification once a code is sent — saves an unverified lead
+  // so visitors who never enter the code can be retargeted
+  const handleCodeSent = (phoneNumber: string) => {
+    fetch(`${apiBase}/leads/partial`, {
+      method:  'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body:    JSON.stringify(leadBody(phoneNumber)),
+    }).catch(() => {/* non-critical */});
+  };
+
   // Called by SMSVerification after phone is verified
   const handleSmsVerified = async (phoneNumber: string, phoneToken: string) => {
     setLoading(true);
     setError('');
     try {
-      const body: Record<string, unknown> = {
-        phoneToken,
-        name:         name.trim(),
-        phone:        phoneNumber,
-        injuryType:   inputs.injuryType,
-        surgery:      inputs.hasSurgery,
-        lostWages:    inputs.lostWages,
-        estimateLow:  estimate.low,
-        estimateHigh: estimate.high,
-        source:       isQuizMode ? 'quiz' : 'widget',
-        ...(isQuizMode && quizAnswers ? quizAnswers : {}),
-      };
+      const body: Record<string, unknown> = { phoneToken, ...leadBody(phoneNumber) };
       const res  = await fetch(`${apiBase}/verify-code`, {
         method:  'POST',
         headers: { 'Content-Type': 'application/json' },
         body:    JSON.stringify(body),
       });
       const data = await res.json();
-      if (!res.ok) throw new Error(data.message ?? 'Verification failed.');
+      if (!res.ok) throw new Error(data.message ?? messages(locale).sms.verifyFailed);
       onSuccess(data.token ?? '', name.trim());
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setError(err instanceof Error ? err.message : common.genericError);
       setLoading(false);
     }
   };
@@ -98,12 +123,12 @@ export function VerificationGate({
                 <img src="/images/sam-icons/sam-logo.png" width={72} height={72} alt="Settlement Sam"
                   style={{ borderRadius: '50%', objectFit: 'cover', display: 'block' }} />
               </div>
-              <h3 className="ss-lock-headline">Almost there!</h3>
-              <p className="ss-lock-sub">Just need to confirm it's really you.&nbsp;👋</p>
+              <h3 className="ss-lock-headline">{t.almostThere}</h3>
+              <p className="ss-lock-sub">{t.confirm}</p>
 
               <div className="ss-fields">
                 <div className="ss-field">
-                  <label className="ss-field-label" htmlFor="ss-name">First Name</label>
+                  <label className="ss-field-label" htmlFor="ss-name">{t.firstName}</label>
                   <input
                     id="ss-name"
                     className="ss-field-input"
@@ -121,16 +146,16 @@ export function VerificationGate({
                 onClick={() => { if (name.trim()) setSubStep('verify'); }}
                 disabled={!name.trim()}
               >
-                Continue 📱
+                {t.continue}
               </button>
 
               <p className="ss-gate-fine">
-                Standard message rates may apply. Sam doesn't sell your info — ever.
+                {t.fine}
               </p>
             </div>
 
             <div className="ss-nav" style={{ marginTop: 16 }}>
-              <button className="ss-btn-back" onClick={onBack}>← Back</button>
+              <button className="ss-btn-back" onClick={onBack}>{common.back}</button>
             </div>
           </motion.div>
 
@@ -148,24 +173,26 @@ export function VerificationGate({
             <div className="ss-lock-card">
               {loading ? (
                 <p style={{ textAlign: 'center', color: 'var(--ss-muted)', padding: '24px 0' }}>
-                  Saving your results…
+                  {common.saving}
                 </p>
               ) : error ? (
                 <div style={{ textAlign: 'center', padding: '16px 0' }}>
                   <p style={{ color: '#EF4444', marginBottom: 12 }}>{error}</p>
-                  <button className="ss-btn-back" onClick={() => setError('')}>Try again</button>
+                  <button className="ss-btn-back" onClick={() => setError('')}>{common.tryAgain}</button>
                 </div>
               ) : (
                 <SMSVerification
                   leadName={name}
+                  locale={locale}
                   onVerified={handleSmsVerified}
+                  onCodeSent={handleCodeSent}
                 />
               )}
             </div>
 
             {!loading && !error && (
               <div className="ss-nav" style={{ marginTop: 8 }}>
-                <button className="ss-btn-back" onClick={() => setSubStep('name')}>← Back</button>
+                <button className="ss-btn-back" onClick={() => setSubStep('name')}>{common.back}</button>
               </div>
             )}
           </motion.div>
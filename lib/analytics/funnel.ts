@@ -0,0 +1,156 @@
+/**
+ * lib/analytics/funnel.ts
+ * Quiz and widget funnel events and the per-step drop-off report.
+ * Pure — no Firestore, no React. Events are recorded by /api/events
+ * (client side: lib/analytics/track.ts) and reported by /api/admin/funnel.
+ */
+
+import { QUIZ_QUESTIONS } from '@/lib/quiz/questions';
+
+// ── Events ────────────────────────────────────────────────────────────────────
+
+export type FunnelSource = 'quiz' | 'widget';
+
+export type FunnelEventType =
+  | 'step_view'      // a question or screen was shown
+  | 'answer'         // the visitor answered and moved on
+  | 'alert'          // a warning/tip/reaction was shown (detail = alert type)
+  | 'disqualified'   // checkDisqualifier hit (detail = DisqualReason)
+  | 'soft_exit'      // checkSoftExit hit — already has an attorney
+  | 'exit'           // the page was closed or hidden mid-funnel
+  | 'complete';      // the lead was submitted
+
+export interface FunnelEvent {
+  sessionId: string;
+  source:    FunnelSource;
+  type:      FunnelEventType;
+  step:      string;          // question ID (quiz) or step name — see FUNNEL_STEPS
+  value:     string | null;   // option chosen, for answers
+  detail:    string | null;   // alert type or disqualify reason
+  timestamp: number;          // Unix ms
+}
+
+/** Every step in funnel order. The quiz branches, so not every session sees every step. */
+export const FUNNEL_STEPS: Record<FunnelSource, string[]> = {
+  quiz:   [...QUIZ_QUESTIONS.map(q => q.id as string), 'contact', 'sms', 'preference'],
+  widget: ['injuries', 'surgery', 'wages', 'verify', 'result'],
+};
+
+const EVENT_TYPES: FunnelEventType[] = ['step_view', 'answer', 'alert', 'disqualified', 'soft_exit', 'exit', 'complete'];
+const MAX_TEXT = 64;
+
+function optionalText(raw: unknown): string | null {
+  return typeof raw === 'string' && raw ? raw.slice(0, MAX_TEXT) : null;
+}
+
+/**
+ * Validates an event posted by a browser. Returns null unless the source,
+ * type and step are known and the session ID is present. The timestamp is
+ * always the server's.
+ */
+export function parseFunnelEvent(raw: unknown, now = Date.now()): FunnelEvent | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { sessionId, source, type, step, value, detail } = raw as Record<string, unknown>;
+
+  if (source !== 'quiz' && source !== 'widget') return null;
+  if (!EVENT_TYPES.includes(type as FunnelEventType)) return null;
+  if (typeof step !== 'string' || !FUNNEL_STEPS[source].includes(step)) return null;
+  if (typeof sessionId !== 'string' || !sessionId || sessionId.length > MAX_TEXT) return null;
+
+  return {
+    sessionId,
+    source,
+    type:   type as FunnelEventType,
+    step,
+    value:  optionalText(value),
+    detail: optionalText(detail),
+    timestamp: now,
+  };
+}
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+export interface FunnelStepReport {
+  step:         string;
+  views:        number;   // sessions that saw the step
+  answers:      number;   // sessions that answered it
+  dropOffs:     number;   // sessions whose last step was this one, without finishing
+  dropOffRate:  number;   // dropOffs / views, 0–100
+  exits:        number;   // sessions that closed the page here
+  alerts:       Record<string, number>;   // alert type → sessions shown it
+  disqualified: number;
+  softExits:    number;
+}
+
+export interface FunnelReport {
+  source:         FunnelSource;
+  sessions:       number;   // sessions with at least one event
+  completed:      number;
+  completionRate: number;   // completed / sessions, 0–100
+  disqualified:   number;
+  softExits:      number;
+  steps:          FunnelStepReport[];
+}
+
+const pct = (n: number, of: number) => (of > 0 ? Math.round((n / of) * 100) : 0);
+
+/**
+ * Per-step views, answers and drop-off for one source. A session that ends
+ * by completing, being disqualified or soft-exiting is not a drop-off;
+ * otherwise it dropped at the last step it viewed.
+ */
+export function funnelReport(events: FunnelEvent[], source: FunnelSource): FunnelReport {
+  const bySession = new Map<string, FunnelEvent[]>();
+  for (const e of events) {
+    if (e.source !== source) continue;
+    const list = bySession.get(e.sessionId) ?? [];
+    list.push(e);
+    bySession.set(e.sessionId, list);
+  }
+
+  const steps = new Map<string, FunnelStepReport>(FUNNEL_STEPS[source].map(step => [step, {
+    step, views: 0, answers: 0, dropOffs: 0, dropOffRate: 0, exits: 0, alerts: {}, disqualified: 0, softExits: 0,
+  }]));
+  let completed = 0, disqualified = 0, softExits = 0;
+
+  for (const sessionEvents of bySession.values()) {
+    sessionEvents.sort((a, b) => a.timestamp - b.timestamp);
+    const seen = new Set<string>();   // `${type}:${step}[:detail]`, once per session
+
+    for (const e of sessionEvents) {
+      const row = steps.get(e.step);
+      const key = `${e.type}:${e.step}:${e.type === 'alert' ? e.detail : ''}`;
+      if (!row || seen.has(key)) continue;
+      seen.add(key);
+
+      if (e.type === 'step_view')    row.views++;
+      if (e.type === 'answer')       row.answers++;
+      if (e.type === 'exit')         row.exits++;
+      if (e.type === 'disqualified') row.disqualified++;
+      if (e.type === 'soft_exit')    row.softExits++;
+      if (e.type === 'alert')        row.alerts[e.detail ?? 'other'] = (row.alerts[e.detail ?? 'other'] ?? 0) + 1;
+    }
+
+    const ended = (t: FunnelEventType) => sessionEvents.some(e => e.type === t);
+    if (ended('complete'))     completed++;
+    if (ended('disqualified')) disqualified++;
+    if (ended('soft_exit'))    softExits++;
+
+    if (!ended('complete') && !ended('disqualified') && !ended('soft_exit')) {
+      const lastView = [...sessionEvents].reverse().find(e => e.type === 'step_view');
+      const row      = lastView && steps.get(lastView.step);
+      if (row) row.dropOffs++;
+    }
+  }
+
+  const rows = [...steps.values()].map(r => ({ ...r, dropOffRate: pct(r.dropOffs, r.views) }));
+  return {
+    source,
+    sessions:       bySession.size,
+    completed,
+    completionRate: pct(completed, bySession.size),
+    disqualified,
+    softExits,
+    steps:          rows,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * lib/analytics/track.ts
+ * Browser-side funnel tracking — posts events to /api/events, and quiz exits
+ * to /api/quiz/exits.
+ * Client only. Tracking never throws and never blocks the funnel.
+ *
+ * The session ID lives in sessionStorage per source, so a reload or a
+ * resumed quiz draft continues the same session in the same tab.
+ */
+
+import type { FunnelEventType, FunnelSource } from './funnel';
+import type { ExitAction, ExitReason } from '@/lib/quiz/exitRoutes';
+
+const SESSION_KEY = 'ss_funnel_session';
+
+export function funnelSessionId(source: FunnelSource): string {
+  const key = `${SESSION_KEY}_${source}`;
+  try {
+    const existing = sessionStorage.getItem(key);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    sessionStorage.setItem(key, id);
+    return id;
+  } catch {
+    return 'no-storage';
+  }
+}
+
+export type TrackFn = (type: FunnelEventType, step: string, extra?: { value?: string | null; detail?: string | null }) => void;
+
+/** Posts with sendBeacon so events sent while the page unloads still arrive. */
+function beacon(url: string, payload: unknown) {
+  try {
+    const body = JSON.stringify(payload);
+    if (navigator.sendBeacon?.(url, new Blob([body], { type: 'application/json' }))) return;
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body, keepalive: true })
+      .catch(() => {/* non-critical */});
+  } catch { /* non-critical */ }
+}
+
+/** Returns a tracker for one funnel. */
+export function createTracker(source: FunnelSource, apiBase = '/api'): TrackFn {
+  return (type, step, extra = {}) => {
+    beacon(`${apiBase}/events`, { sessionId: funnelSessionId(source), source, type, step, ...extra });
+  };
+}
+
+/**
+ * Records a quiz exit shown, or one of its offers clicked, with the answers
+ * so far (see lib/quiz/exitRoutes.ts).
+ */
+export function trackExit(
+  event: { reason: ExitReason; action: ExitAction; offerId?: string; offerIds: string[]; answers: object; locale: string },
+  apiBase = '/api',
+) {
+  beacon(`${apiBase}/quiz/exits`, { sessionId: funnelSessionId('quiz'), ...event });
+}
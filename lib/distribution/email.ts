@@ -6,7 +6,11 @@
 
 import nodemailer from 'nodemailer';
 import { formatCurrency } from '@/lib/estimator/logic';
+import { formatStatuteDeadline } from '@/lib/legal/statute';
 import type { FsLead, FsClient } from '@/lib/firebase/types';
+import { formatInjuryTypes } from '@/lib/estimator/injuries';
+import { incidentDetails } from '@/lib/quiz/modules';
+import { languageName } from '@/lib/i18n';
 
 const INJURY_LABELS: Record<string, string> = {
   soft_tissue: 'Soft Tissue (Sprains / Whiplash)',
@@ -66,7 +70,7 @@ export async function sendLeadEmail(lead: FsLead & { id: string }, client: FsCli
         <div style="display:inline-block;background:${tier === 'HOT' ? '#E8A838' : tier === 'WARM' ? '#4A7C59' : '#E8DCC8'};
           color:${tier === 'COLD' ? '#6B7C74' : '#fff'};font-size:12px;font-weight:700;padding:5px 14px;border-radius:999px;letter-spacing:0.5px;
           text-transform:uppercase;margin-bottom:20px;">
-          ${tierEmoji} ${tier} Lead — Score ${lead.score}/150
+          ${tierEmoji} ${tier} Lead — Score ${lead.score}
         </div>
 
         <h2 style="margin:0 0 20px;font-size:24px;color:#2C3E35;">
@@ -80,22 +84,36 @@ export async function sendLeadEmail(lead: FsLead & { id: string }, client: FsCli
             <p style="margin:0 0 4px;font-size:11px;color:#6B7C74;text-transform:uppercase;letter-spacing:0.5px;">Phone</p>
             <p style="margin:0 0 16px;font-size:18px;font-weight:700;color:#FDF6E9;">${lead.phone}</p>
             <p style="margin:0 0 4px;font-size:11px;color:#6B7C74;text-transform:uppercase;letter-spacing:0.5px;">Source</p>
-            <p style="margin:0 0 0;font-size:14px;color:#E8A838;font-weight:600;text-transform:capitalize;">${lead.source} • Verified ${new Date(lead.timestamp).toLocaleString()}</p>
+            <p style="margin:0 0 16px;font-size:14px;color:#E8A838;font-weight:600;text-transform:capitalize;">${lead.source} • Verified ${new Date(lead.timestamp).toLocaleString()}</p>
+            <p style="margin:0 0 4px;font-size:11px;color:#6B7C74;text-transform:uppercase;letter-spacing:0.5px;">Preferred Language</p>
+            <p style="margin:0 0 0;font-size:14px;color:#FDF6E9;font-weight:600;">${languageName(lead.preferred_language)}</p>
           </td></tr>
         </table>
 
+        ${lead.statute_warning ? `
+        <!-- Statute warning -->
+        <table width="100%" cellpadding="0" cellspacing="0"
+          style="background:#FDECEA;border:1px solid #E5A39B;border-radius:12px;margin-bottom:20px;">
+          <tr><td style="padding:14px 24px;font-size:13px;color:#8A2C22;">
+            <strong>⏳ Time-sensitive:</strong> statute of limitations deadline is near or may have passed.
+            Estimated deadline: ${formatStatuteDeadline(lead.statute_deadline, lead.statute_days_remaining)}.
+          </td></tr>
+        </table>
+        ` : ''}
         <!-- Injury details -->
         <table width="100%" cellpadding="0" cellspacing="0"
           style="background:#fff;border:1px solid #E8DCC8;border-radius:12px;margin-bottom:20px;">
           <tr><td style="padding:20px 24px;">
             <h3 style="margin:0 0 16px;font-size:14px;color:#2C3E35;border-bottom:1px solid #E8DCC8;padding-bottom:10px;">Injury Details</h3>
             <table width="100%" cellpadding="4">
-              <tr><td style="font-size:12px;color:#6B7C74;width:180px;">Injury Type</td><td style="font-size:13px;font-weight:600;color:#2C3E35;">${INJURY_LABELS[lead.injury_type] ?? lead.injury_type}</td></tr>
+              ${incidentDetails(lead).map(d => `<tr><td style="font-size:12px;color:#6B7C74;width:180px;">${d.label}</td><td style="font-size:13px;font-weight:600;color:#2C3E35;">${d.value}</td></tr>`).join('\n              ')}
+              <tr><td style="font-size:12px;color:#6B7C74;width:180px;">Injuries</td><td style="font-size:13px;font-weight:600;color:#2C3E35;">${formatInjuryTypes(lead.injury_type, INJURY_LABELS, '<br>')}</td></tr>
               <tr><td style="font-size:12px;color:#6B7C74;">Surgery</td>      <td style="font-size:13px;font-weight:600;color:#2C3E35;">${bool(lead.surgery)}</td></tr>
               <tr><td style="font-size:12px;color:#6B7C74;">Hospitalized</td> <td style="font-size:13px;font-weight:600;color:#2C3E35;">${bool(lead.hospitalized)}</td></tr>
               <tr><td style="font-size:12px;color:#6B7C74;">In Treatment</td> <td style="font-size:13px;font-weight:600;color:#2C3E35;">${bool(lead.still_treating)}</td></tr>
               <tr><td style="font-size:12px;color:#6B7C74;">Missed Work</td>  <td style="font-size:13px;font-weight:600;color:#2C3E35;">${bool(lead.missed_work)}</td></tr>
               <tr><td style="font-size:12px;color:#6B7C74;">Lost Wages</td>   <td style="font-size:13px;font-weight:600;color:#2C3E35;">${lead.lost_wages_estimate > 0 ? formatCurrency(lead.lost_wages_estimate) : '$0'}</td></tr>
+              <tr><td style="font-size:12px;color:#6B7C74;">Filing Deadline</td><td style="font-size:13px;font-weight:600;color:#2C3E35;">${formatStatuteDeadline(lead.statute_deadline, lead.statute_days_remaining)}</td></tr>
             </table>
           </td></tr>
         </table>
@@ -108,6 +126,12 @@ export async function sendLeadEmail(lead: FsLead & { id: string }, client: FsCli
             <p style="margin:0;font-size:28px;font-weight:800;color:#E8A838;">
               ${formatCurrency(lead.estimate_low)} – ${formatCurrency(lead.estimate_high)}
             </p>
+            ${lead.coverage_capped && lead.collectible_low != null && lead.collectible_high != null ? `
+            <p style="margin:12px 0 0;font-size:12px;color:#FDF6E9;">
+              Likely collectible (coverage limit ${formatCurrency(lead.coverage_limit ?? 0)}):
+              <strong style="color:#E8A838;">${formatCurrency(lead.collectible_low)} – ${formatCurrency(lead.collectible_high)}</strong>
+            </p>
+            ` : ''}
           </td></tr>
         </table>
 
@@ -136,6 +160,6 @@ export async function sendLeadEmail(lead: FsLead & { id: string }, client: FsCli
     to:      client.email,
     subject: `${tierEmoji} New ${tier} Lead — ${lead.name} | Settlement Sam`,
     html,
-    text:    `New ${tier} Lead: ${lead.name} | Phone: ${lead.phone} | Estimate: ${formatCurrency(lead.estimate_low)}–${formatCurrency(lead.estimate_high)} | Score: ${lead.score}/150`,
+    text:    `New ${tier} Lead: ${lead.name} | Phone: ${lead.phone} | Estimate: ${formatCurrency(lead.estimate_low)}–${formatCurrency(lead.estimate_high)} | Score: ${lead.score}${lead.statute_warning ? ' | STATUTE WARNING' : ''}`,
   });
 }
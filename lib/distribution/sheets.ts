@@ -13,8 +13,11 @@
 import { google } from 'googleapis';
 import { formatCurrency } from '@/lib/estimator/logic';
 import type { FsLead } from '@/lib/firebase/types';
+import { formatInjuryTypes } from '@/lib/estimator/injuries';
+import { incidentDetails } from '@/lib/quiz/modules';
+import { languageName } from '@/lib/i18n';
 
-const SHEET_RANGE = 'Sheet1!A:Q';
+const SHEET_RANGE = 'Sheet1!A:S';
 const SCOPES      = ['https://www.googleapis.com/auth/spreadsheets'];
 
 const INJURY_LABELS: Record<string, string> = {
@@ -41,6 +44,8 @@ export const SHEET_HEADERS = [
   'In Treatment', 'Missed Work', 'Lost Wages',
   'Estimate Low', 'Estimate High', 'Score', 'Tier', 'Source',
   'Verified', 'Submitted',
+  'Incident', 'Incident Details',   // appended last so existing sheets keep their columns
+  'Preferred Language',
 ];
 
 /**
@@ -52,7 +57,7 @@ export async function ensureSheetHeaders(sheetsId: string): Promise<void> {
 
   const res = await sheets.spreadsheets.values.get({
     spreadsheetId: sheetsId,
-    range:         'Sheet1!A1:Q1',
+    range:         'Sheet1!A1:T1',
   });
 
   if (!res.data.values || res.data.values.length === 0) {
@@ -75,12 +80,14 @@ export async function appendLeadToSheet(sheetsId: string, lead: FsLead & { id: s
   const auth   = getAuth();
   const sheets = google.sheets({ version: 'v4', auth });
 
+  const [incident, ...details] = incidentDetails(lead);
+
   const row = [
     lead.id,
     lead.name,
     lead.phone,
     lead.carrier,
-    INJURY_LABELS[lead.injury_type] ?? lead.injury_type,
+    formatInjuryTypes(lead.injury_type, INJURY_LABELS),
     bool(lead.surgery),
     bool(lead.hospitalized),
     bool(lead.still_treating),
@@ -93,6 +100,9 @@ export async function appendLeadToSheet(sheetsId: string, lead: FsLead & { id: s
     lead.source,
     bool(lead.verified),
     new Date(lead.timestamp).toISOString(),
+    incident?.value ?? '',
+    details.map(d => `${d.label}: ${d.value}`).join('; '),
+    languageName(lead.preferred_language),
   ];
 
   const res = await sheets.spreadsheets.values.append({
@@ -0,0 +1,144 @@
+/**
+ * lib/estimator/coverage.ts
+ * Insurance policy-limit awareness for estimates.
+ *
+ * A settlement is only as collectible as the coverage behind it. This module
+ * caps (or flags) a raw estimate against the at-fault party's bodily-injury
+ * limit plus the lead's own UM/UIM coverage.
+ *
+ * Keys match the full state names in US_STATES (lib/quiz/questions.ts).
+ * Limits are per-person bodily-injury minimums in dollars.
+ */
+
+import type { EstimateRange } from './types';
+
+// ── Coverage answers ──────────────────────────────────────────────────────────
+
+/** What the lead knows about a policy's per-person limit. */
+export type CoverageTier =
+  | 'unknown'
+  | 'none'            // uninsured at-fault party / no UM-UIM on the lead's policy
+  | 'state_minimum'
+  | '50k'
+  | '100k'
+  | '250k'
+  | '500k_plus';
+
+/** Fixed per-person limits; state_minimum is resolved per state, 500k_plus is uncapped. */
+const TIER_LIMITS: Partial<Record<CoverageTier, number>> = {
+  none:   0,
+  '50k':  50_000,
+  '100k': 100_000,
+  '250k': 250_000,
+};
+
+export const COVERAGE_TIER_LABELS: Record<CoverageTier, string> = {
+  unknown:       "Don't know",
+  none:          'None',
+  state_minimum: 'State minimum',
+  '50k':         '$50k',
+  '100k':        '$100k',
+  '250k':        '$250k',
+  '500k_plus':   '$500k+',
+};
+
+export function isCoverageTier(value: unknown): value is CoverageTier {
+  return typeof value === 'string' && Object.hasOwn(COVERAGE_TIER_LABELS, value);
+}
+
+/** Display label for a stored tier, e.g. on a lead record. */
+export function coverageTierLabel(tier: string | null | undefined): string {
+  return isCoverageTier(tier) ? COVERAGE_TIER_LABELS[tier] : COVERAGE_TIER_LABELS.unknown;
+}
+
+// ── State minimums ────────────────────────────────────────────────────────────
+
+/** Used for any state not listed, and when no state was given. */
+export const DEFAULT_MINIMUM_BI_LIMIT = 25_000;
+
+export const STATE_MINIMUM_BI_LIMITS: Record<string, number> = {
+  'Alaska':          50_000,
+  'California':      30_000,
+  'Florida':         10_000,   // BI not mandatory — PIP limit used instead
+  'Hawaii':          20_000,
+  'Iowa':            20_000,
+  'Louisiana':       15_000,
+  'Maine':           50_000,
+  'Maryland':        30_000,
+  'Michigan':        50_000,
+  'Minnesota':       30_000,
+  'New Jersey':      35_000,
+  'North Carolina':  50_000,
+  'Pennsylvania':    15_000,
+  'Texas':           30_000,
+  'Utah':            30_000,
+  'Virginia':        50_000,
+  // Every other state (and D.C.): DEFAULT_MINIMUM_BI_LIMIT
+};
+
+export function minimumBiLimit(state: string | null | undefined): number {
+  if (!state) return DEFAULT_MINIMUM_BI_LIMIT;
+  return Object.hasOwn(STATE_MINIMUM_BI_LIMITS, state) ? STATE_MINIMUM_BI_LIMITS[state] : DEFAULT_MINIMUM_BI_LIMIT;
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+export interface CoverageInputs {
+  state?:           string | null;
+  atFaultCoverage?: CoverageTier | null;
+  umCoverage?:      CoverageTier | null;
+  /**
+   * Treat an unknown at-fault limit as the state minimum (the most common
+   * policy on the road). Only sensible for motor-vehicle claims.
+   */
+  assumeMinimum?:   boolean;
+}
+
+export interface CollectibleEstimate {
+  raw:         EstimateRange;
+  collectible: EstimateRange;
+  limit:       number | null;   // likely collectible coverage; null = no practical cap
+  capped:      boolean;         // raw high end exceeds the limit
+  assumed:     boolean;         // at-fault limit was assumed to be the state minimum
+}
+
+/** Per-person limit for a tier, or null when there is no practical cap. */
+function tierLimit(tier: CoverageTier, state: string | null | undefined): number | null {
+  if (tier === 'state_minimum') return minimumBiLimit(state);
+  return TIER_LIMITS[tier] ?? null;
+}
+
+/**
+ * Caps a raw estimate at the coverage likely to be collectible:
+ *   at-fault BI limit + the lead's UM/UIM limit (UIM treated as excess coverage).
+ *
+ * An unknown at-fault limit leaves the estimate uncapped unless
+ * `assumeMinimum` is set; an unknown UM/UIM limit counts as none.
+ */
+export function evaluateCoverage(raw: EstimateRange, inputs: CoverageInputs): CollectibleEstimate {
+  const atFaultTier = inputs.atFaultCoverage ?? 'unknown';
+  const umTier      = inputs.umCoverage      ?? 'unknown';
+
+  let assumed = false;
+  let atFault: number | null;
+  if (atFaultTier === 'unknown') {
+    assumed = Boolean(inputs.assumeMinimum);
+    atFault = assumed ? minimumBiLimit(inputs.state) : null;
+  } else {
+    atFault = tierLimit(atFaultTier, inputs.state);
+  }
+
+  const um    = umTier === 'unknown' ? 0 : tierLimit(umTier, inputs.state);
+  const limit = atFault == null || um == null ? null : atFault + um;
+
+  if (limit == null) {
+    return { raw, collectible: { ...raw }, limit: null, capped: false, assumed };
+  }
+  return {
+    raw,
+    collectible: { low: Math.min(raw.low, limit), high: Math.min(raw.high, limit) },
+    limit,
+    capped:      raw.high > limit,
+    assumed,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * lib/estimator/injuries.ts
+ * Helpers for the injury list stored on a lead (FsLead.injury_type).
+ *
+ * Leads created before multi-select injuries store a single string;
+ * newer leads store an array ordered most severe first. Every reader
+ * goes through injuryTypeList() so both shapes render the same way.
+ */
+
+import type { InjuryType } from './types';
+import { INJURY_BASE_VALUES, rankInjuries } from './logic';
+
+export function isInjuryType(value: unknown): value is InjuryType {
+  return typeof value === 'string' && Object.hasOwn(INJURY_BASE_VALUES, value);
+}
+
+/** Normalizes a stored injury_type (legacy string or list) to a list. */
+export function injuryTypeList(value: string | string[] | null | undefined): string[] {
+  if (Array.isArray(value)) return value.filter(Boolean);
+  return value ? [value] : [];
+}
+
+/**
+ * Parses injuries from a request body: an `injuryTypes` array, or the legacy
+ * single `injuryType` string. Unknown values are dropped; the result is ranked
+ * most severe first (see rankInjuries).
+ */
+export function parseInjuryTypes(list: unknown, single?: unknown): InjuryType[] {
+  const raw = Array.isArray(list) ? list : [single];
+  return rankInjuries(raw.filter(isInjuryType));
+}
+
+/** "Fracture, TBI" — labels a stored injury_type with the caller's label map. */
+export function formatInjuryTypes(
+  value: string | string[] | null | undefined,
+  labels: Record<string, string>,
+  separator = ', ',
+): string {
+  return injuryTypeList(value).map(t => labels[t] ?? t).join(separator);
+}
@@ -6,16 +6,47 @@
  * Numbers come from the PRD spec (Phase 1 Ranges, updated).
  */
 
-import type { EstimatorInputs, EstimateRange, InjuryType } from './types';
+import type {
+  EstimatorInputs,
+  EstimateRange,
+  EstimateBreakdown,
+  EstimateLineItem,
+  EstimateMultiplier,
+  InjuryType,
+  ValuationTable,
+} from './types';
+import { DEFAULT_STATE_MULTIPLIERS, DEFAULT_STATE_OVERRIDES } from './stateAdjustments';
+import { DEFAULT_LOCALE, intlLocale, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
-/** Applied to both ends of the base range when hasSurgery is true. */
+/** Applied to both ends of the base range when hasSurgery is true (built-in default). */
 export const SURGERY_MULTIPLIER = 5;
 
 /** Slider ceiling. Values at this number display as "$50k+" in the UI. */
 export const LOST_WAGES_MAX = 50_000;
 
+/**
+ * Specials-multiplier method: medical specials × a severity range.
+ * Surgery adds SPECIALS_SURGERY_BONUS to both ends of the range (built-in defaults).
+ */
+export const SPECIALS_MULTIPLIERS: Record<InjuryType, EstimateRange> = {
+  soft_tissue: { low: 1.5, high: 3 },
+  fracture:    { low: 2,   high: 4 },
+  spinal:      { low: 3,   high: 5 },
+  tbi:         { low: 3,   high: 5 },
+};
+
+export const SPECIALS_SURGERY_BONUS = 1;
+
+/**
+ * Multiple injuries: the most severe injury counts in full, and each further
+ * injury adds its own base range scaled by this factor raised to its rank
+ * (×0.5 for the second injury, ×0.25 for the third, and so on). Built-in default.
+ */
+export const SECONDARY_INJURY_FACTOR = 0.5;
+
 // ── Base settlement ranges by injury type ─────────────────────────────────────
 
 interface InjuryBaseRange {
@@ -28,7 +59,8 @@ interface InjuryBaseRange {
  * Floor/ceiling estimates per injury category — before surgery or wages adjustments.
  * Per PRD spec (Phase 2 / Step 5 ranges).
  *
- * To tune: edit only this map. calculateEstimate() stays unchanged.
+ * These are the built-in defaults. Live tuning happens in the admin Valuation
+ * tab, which publishes versioned tables to Firestore (see valuationStore.ts).
  */
 export const INJURY_BASE_VALUES: Record<InjuryType, InjuryBaseRange> = {
   soft_tissue: { low:   8_000, high:   25_000, label: 'soft tissue (sprains & whiplash)' },
@@ -37,79 +69,324 @@ export const INJURY_BASE_VALUES: Record<InjuryType, InjuryBaseRange> = {
   tbi:         { low:  75_000, high:  500_000, label: 'head injury / concussion / TBI'   },
 };
 
+/** Version 0 — the code defaults, used until a table is published. */
+export const DEFAULT_VALUATION_TABLE: ValuationTable = {
+  version:               0,
+  injuryBaseValues:      Object.fromEntries(
+    Object.entries(INJURY_BASE_VALUES).map(([type, { low, high }]) => [type, { low, high }]),
+  ) as Record<InjuryType, EstimateRange>,
+  surgeryMultiplier:     SURGERY_MULTIPLIER,
+  secondaryInjuryFactor: SECONDARY_INJURY_FACTOR,
+  stateMultipliers:      DEFAULT_STATE_MULTIPLIERS,
+  stateOverrides:        DEFAULT_STATE_OVERRIDES,
+  specialsMultipliers:   SPECIALS_MULTIPLIERS,
+  specialsSurgeryBonus:  SPECIALS_SURGERY_BONUS,
+};
+
+// ── Multiple injuries ─────────────────────────────────────────────────────────
+
+/**
+ * Selected injuries, de-duplicated and ordered most severe first
+ * (by the national high end, then low end). The first entry is the primary injury.
+ */
+export function rankInjuries(
+  injuryTypes: readonly InjuryType[],
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): InjuryType[] {
+  const values = table.injuryBaseValues;
+  return Array.from(new Set(injuryTypes)).sort((a, b) =>
+    values[b].high - values[a].high ||
+    values[b].low  - values[a].low,
+  );
+}
+
+/** Most severe selected injury, or null when none is selected. */
+export function primaryInjury(
+  inputs: EstimatorInputs,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): InjuryType | null {
+  return rankInjuries(inputs.injuryTypes, table)[0] ?? null;
+}
+
+/** Add-on factor for the injury at `rank` in rankInjuries order (0 = primary = 1). */
+export function secondaryInjuryFactor(rank: number, table: ValuationTable = DEFAULT_VALUATION_TABLE): number {
+  return table.secondaryInjuryFactor ** rank;
+}
+
 // ── Core calculation ──────────────────────────────────────────────────────────
 
+/** The table's general-damages multiplier for a state (1 when it has none). */
+export function stateMultiplier(state?: string | null, table: ValuationTable = DEFAULT_VALUATION_TABLE): number {
+  return state && Object.hasOwn(table.stateMultipliers, state) ? table.stateMultipliers[state] : 1;
+}
+
+/** The table's override range for an injury in a state, or null. */
+export function stateOverride(
+  injuryType: InjuryType,
+  state?: string | null,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateRange | null {
+  if (!state || !Object.hasOwn(table.stateOverrides, state)) return null;
+  return table.stateOverrides[state][injuryType] ?? null;
+}
+
+/**
+ * Base range for an injury in a given state, before surgery or wages.
+ * The table's state override replaces the national range outright; otherwise
+ * the table's state multiplier (default 1) scales it.
+ */
+export function stateAdjustedBase(
+  injuryType: InjuryType,
+  state?: string | null,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateRange {
+  const override = stateOverride(injuryType, state, table);
+  if (override) return { low: override.low, high: override.high };
+
+  const base       = table.injuryBaseValues[injuryType];
+  const multiplier = stateMultiplier(state, table);
+  return { low: base.low * multiplier, high: base.high * multiplier };
+}
+
+/**
+ * Itemized estimate, or null when no injury type has been chosen.
+ *
+ * Formula:
+ *   injuries = primaryStateBase + Σ secondaryStateBase × 0.5^rank
+ *   general  = injuries × surgeryMultiplier       (pain & suffering)
+ *   economic = lostWages                          (added, never multiplied)
+ *   total    = general + economic
+ *
+ * A state override replaces the base range (and is labelled as such);
+ * a state multiplier is listed alongside surgery in `multipliers`.
+ * Secondary injuries are listed already state-adjusted in `secondaryInjuries`.
+ * Medical bills and future care are not used here — see calculateSpecialsBreakdown.
+ * Every number — base values, state multipliers and overrides, the secondary
+ * factor and the surgery multiplier — comes from `table` (built-in by default).
+ */
+export function calculateEstimateBreakdown(
+  inputs: EstimatorInputs,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateBreakdown | null {
+  const [primary, ...others] = rankInjuries(inputs.injuryTypes, table);
+  if (!primary) return null;
+
+  const label       = INJURY_BASE_VALUES[primary].label;
+  const national    = table.injuryBaseValues[primary];
+  const stateMul    = stateMultiplier(inputs.state, table);
+  const hasOverride = stateOverride(primary, inputs.state, table) !== null;
+  const base        = stateAdjustedBase(primary, inputs.state, table);
+  const multipliers: EstimateMultiplier[] = [];
+
+  const baseRange: EstimateLineItem = hasOverride
+    ? { id: 'base', label: `Base value — ${label} (${inputs.state} range)`, low: base.low, high: base.high }
+    : { id: 'base', label: `Base value — ${label}`, low: national.low, high: national.high };
+
+  const secondaryInjuries: EstimateLineItem[] = others.map((type, i) => {
+    const factor = secondaryInjuryFactor(i + 1, table);
+    const range  = stateAdjustedBase(type, inputs.state, table);
+    return {
+      id:    `secondary_${type}`,
+      label: `Additional injury — ${INJURY_BASE_VALUES[type].label} (×${factor})`,
+      low:   Math.round(range.low  * factor),
+      high:  Math.round(range.high * factor),
+    };
+  });
+  const injuriesLow  = secondaryInjuries.reduce((sum, item) => sum + item.low,  base.low);
+  const injuriesHigh = secondaryInjuries.reduce((sum, item) => sum + item.high, base.high);
+
+  if (!hasOverride && stateMul !== 1) {
+    multipliers.push({ id: 'state', label: `${inputs.state} adjustment`, factor: stateMul, appliesTo: 'general' });
+  }
+  if (inputs.hasSurgery) {
+    multipliers.push({ id: 'surgery', label: 'Surgery', factor: table.surgeryMultiplier, appliesTo: 'general' });
+  }
+
+  const surgery = inputs.hasSurgery ? table.surgeryMultiplier : 1;
+  const generalDamages: EstimateLineItem = {
+    id:    'general_damages',
+    label: 'General damages (pain & suffering)',
+    low:   Math.round(injuriesLow  * surgery),
+    high:  Math.round(injuriesHigh * surgery),
+  };
+
+  const wages = Math.max(0, Math.round(inputs.lostWages));
+  const economicDamages: EstimateLineItem[] = wages > 0
+    ? [{ id: 'lost_wages', label: 'Lost wages', low: wages, high: wages }]
+    : [];
+
+  return {
+    method: 'base_range',
+    baseRange,
+    multipliers,
+    secondaryInjuries,
+    generalDamages,
+    economicDamages,
+    total: {
+      low:  economicDamages.reduce((sum, item) => sum + item.low,  generalDamages.low),
+      high: economicDamages.reduce((sum, item) => sum + item.high, generalDamages.high),
+    },
+  };
+}
+
 /**
  * Returns { low, high } or null when no injury type has been chosen.
  *
  * Formula:
- *   low  = baseLow  × surgeryMultiplier + lostWages
- *   high = baseHigh × surgeryMultiplier + lostWages
+ *   low  = stateBaseLow  × surgeryMultiplier + lostWages
+ *   high = stateBaseHigh × surgeryMultiplier + lostWages
  *
- * Surgery multiplies the pain-and-suffering component only.
+ * stateBase includes any secondary-injury add-ons.
+ * Surgery and the state adjustment scale the pain-and-suffering component only.
  * Lost wages are economic damages added directly on top.
+ * See calculateEstimateBreakdown for the itemized version.
+ */
+export function calculateEstimate(
+  inputs: EstimatorInputs,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateRange | null {
+  return calculateEstimateBreakdown(inputs, table)?.total ?? null;
+}
+
+// ── Specials-multiplier method ───────────────────────────────────────────────
+
+/** Medical bills to date + expected future care, in whole dollars. */
+export function medicalSpecials(inputs: EstimatorInputs): number {
+  const bills  = Math.max(0, Math.round(inputs.medicalBills ?? 0));
+  const future = Math.max(0, Math.round(inputs.futureCare   ?? 0));
+  return bills + future;
+}
+
+/**
+ * Itemized estimate using the specials-multiplier method, or null when no
+ * injury type is chosen or no medical costs were entered.
+ * Runs beside the base-range method — it never replaces calculateEstimate.
+ *
+ * Formula:
+ *   general  = specials × severityRange × stateMultiplier
+ *   economic = lostWages
+ *   total    = general + economic
+ *
+ * State override tables are base ranges, so only the state multiplier applies here.
+ * Medical bills already cover every injury, so the severity range is taken
+ * from the primary injury alone and there are no secondary add-ons.
  */
-export function calculateEstimate(inputs: EstimatorInputs): EstimateRange | null {
-  if (!inputs.injuryType) return null;
+export function calculateSpecialsBreakdown(
+  inputs: EstimatorInputs,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateBreakdown | null {
+  const primary = primaryInjury(inputs, table);
+  if (!primary) return null;
+  const specials = medicalSpecials(inputs);
+  if (specials === 0) return null;
+
+  const bonus    = inputs.hasSurgery ? table.specialsSurgeryBonus : 0;
+  const severity = table.specialsMultipliers[primary];
+  const low      = severity.low  + bonus;
+  const high     = severity.high + bonus;
+  const stateMul = stateMultiplier(inputs.state, table);
 
-  const base       = INJURY_BASE_VALUES[inputs.injuryType];
-  const multiplier = inputs.hasSurgery ? SURGERY_MULTIPLIER : 1;
-  const wages      = Math.max(0, Math.round(inputs.lostWages));
+  const multipliers: EstimateMultiplier[] = [{
+    id:         'severity',
+    label:      inputs.hasSurgery ? 'Severity multiplier (with surgery)' : 'Severity multiplier',
+    factor:     low,
+    factorHigh: high,
+    appliesTo:  'general',
+  }];
+  if (stateMul !== 1) {
+    multipliers.push({ id: 'state', label: `${inputs.state} adjustment`, factor: stateMul, appliesTo: 'general' });
+  }
+
+  const generalDamages: EstimateLineItem = {
+    id:    'general_damages',
+    label: 'Medical specials + pain & suffering',
+    low:   Math.round(specials * low  * stateMul),
+    high:  Math.round(specials * high * stateMul),
+  };
+
+  const wages = Math.max(0, Math.round(inputs.lostWages));
+  const economicDamages: EstimateLineItem[] = wages > 0
+    ? [{ id: 'lost_wages', label: 'Lost wages', low: wages, high: wages }]
+    : [];
 
   return {
-    low:  Math.round(base.low  * multiplier) + wages,
-    high: Math.round(base.high * multiplier) + wages,
+    method:    'specials_multiplier',
+    baseRange: { id: 'medical_specials', label: 'Medical bills + future care', low: specials, high: specials },
+    multipliers,
+    secondaryInjuries: [],
+    generalDamages,
+    economicDamages,
+    total: {
+      low:  generalDamages.low  + wages,
+      high: generalDamages.high + wages,
+    },
   };
 }
 
+/** { low, high } by the specials-multiplier method, or null (see calculateSpecialsBreakdown). */
+export function calculateSpecialsEstimate(
+  inputs: EstimatorInputs,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateRange | null {
+  return calculateSpecialsBreakdown(inputs, table)?.total ?? null;
+}
+
 // ── Formatting helpers ────────────────────────────────────────────────────────
 
 /**
  * Compact dollar format.
- * 8000  → "$8k"
+ * 8000  → "$8k"      ("$8 mil" in Spanish)
  * 75000 → "$75k"
- * 1500000 → "$1.5M"
+ * 1500000 → "$1.5M"  ("$1.5 M")
  * 500 → "$500"
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, locale: Locale = DEFAULT_LOCALE): string {
+  const { thousand, million } = messages(locale).currency;
   if (amount >= 1_000_000) {
     const m = amount / 1_000_000;
-    return `$${m % 1 === 0 ? m.toFixed(0) : m.toFixed(1)}M`;
+    return `$${(m % 1 === 0 ? m : Number(m.toFixed(1))).toLocaleString(intlLocale(locale))}${million}`;
   }
   if (amount >= 1_000) {
-    return `$${Math.round(amount / 1_000)}k`;
+    return `$${Math.round(amount / 1_000)}${thousand}`;
   }
-  return `$${amount.toLocaleString()}`;
+  return `$${amount.toLocaleString(intlLocale(locale))}`;
+}
+
+/** The lost-wages slider value: "$50k+" at the ceiling, else formatCurrency. */
+export function formatLostWages(amount: number, locale: Locale = DEFAULT_LOCALE): string {
+  return amount >= LOST_WAGES_MAX ? `${formatCurrency(LOST_WAGES_MAX, locale)}+` : formatCurrency(amount, locale);
 }
 
 /**
- * Plain-English one-liner shown beneath the result range.
+ * Plain-language one-liner shown beneath the result range.
  * Returns null if no injury type selected.
  *
  * Example:
- *   "Based on a spinal cord injury with surgery and $12k in lost income,
- *    here's what similar cases have settled for."
+ *   "Based on a spinal cord injury plus a broken bone / fracture with surgery
+ *    and $12k in lost income in Texas, here's what similar cases have settled for."
  */
-export function buildSummaryText(inputs: EstimatorInputs): string | null {
-  if (!inputs.injuryType) return null;
+export function buildSummaryText(
+  inputs: EstimatorInputs,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+  locale: Locale = DEFAULT_LOCALE,
+): string | null {
+  const [primary, ...others] = rankInjuries(inputs.injuryTypes, table);
+  if (!primary) return null;
 
-  const injury = INJURY_BASE_VALUES[inputs.injuryType].label;
-  const parts: string[] = [`Based on a ${injury}`];
+  const t = messages(locale);
+  const parts: string[] = [t.summary.basedOn(t.injuryPhrases[primary])];
+  for (const type of others) parts.push(t.summary.plus(t.injuryPhrases[type]));
 
-  if (inputs.hasSurgery) parts.push('with surgery');
+  if (inputs.hasSurgery) parts.push(t.summary.withSurgery);
 
-  if (inputs.lostWages > 0) {
-    const wagesLabel =
-      inputs.lostWages >= LOST_WAGES_MAX
-        ? '$50k+ in lost income'
-        : `${formatCurrency(inputs.lostWages)} in lost income`;
-    parts.push(`and ${wagesLabel}`);
-  }
+  if (inputs.lostWages > 0) parts.push(t.summary.wages(formatLostWages(inputs.lostWages, locale)));
+
+  if (inputs.state) parts.push(t.summary.inState(inputs.state));
 
-  return `${parts.join(' ')}, here's what similar cases have settled for.`;
+  return `${parts.join(' ')}${t.summary.end}`;
 }
 
-/** True once the minimum required input (injury type) has been selected. */
+/** True once the minimum required input (at least one injury) has been selected. */
 export function isReadyToEstimate(inputs: EstimatorInputs): boolean {
-  return inputs.injuryType !== null;
+  return inputs.injuryTypes.length > 0;
 }
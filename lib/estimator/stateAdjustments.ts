@@ -0,0 +1,63 @@
+/**
+ * lib/estimator/stateAdjustments.ts
+ * Built-in per-state valuation adjustments for the Case Value Estimator —
+ * the state parts of valuation table v0. Published tables carry their own
+ * (ValuationTable.stateMultipliers / stateOverrides), edited in the admin
+ * Valuation tab.
+ *
+ * Keys match the full state names in US_STATES (lib/quiz/questions.ts).
+ * States not listed here use the national INJURY_BASE_VALUES unchanged.
+ *
+ * A multiplier scales the general-damages (pain & suffering) range.
+ * An override replaces the national base range for specific injuries.
+ *
+ * Lost wages are never adjusted — economic damages are what they are.
+ */
+
+import type { StateOverrides } from './types';
+
+export const DEFAULT_STATE_MULTIPLIERS: Record<string, number> = {
+  // ── Above national average (plaintiff-friendly venues, higher verdicts) ──
+  'California':       1.25,
+  'New York':         1.30,
+  'Washington D.C.':  1.20,
+  'Illinois':         1.15,
+  'New Jersey':       1.15,
+  'Massachusetts':    1.15,
+  'Florida':          1.10,
+  'Pennsylvania':     1.10,
+  'Washington':       1.10,
+  'Nevada':           1.10,
+  'Georgia':          1.05,
+
+  // ── Below national average (damage caps, conservative juries) ────────────
+  'Texas':            0.85,
+  'Indiana':          0.85,
+  'North Carolina':   0.85,
+  'Alabama':          0.85,
+  'Mississippi':      0.85,
+  'Utah':             0.85,
+  'Nebraska':         0.85,
+  'Kansas':           0.85,
+  'Oklahoma':         0.85,
+  'Arkansas':         0.85,
+  'Iowa':             0.85,
+  'Montana':          0.85,
+  'Ohio':             0.90,
+  'Virginia':         0.90,
+  'Tennessee':        0.90,
+  'Kentucky':         0.90,
+  'Idaho':            0.80,
+  'Wyoming':          0.80,
+  'South Dakota':     0.80,
+  'North Dakota':     0.80,
+};
+
+/**
+ * An override is already state-specific, so the multiplier is NOT applied
+ * on top of it.
+ */
+export const DEFAULT_STATE_OVERRIDES: StateOverrides = {
+  'California': { soft_tissue: { low: 10_000, high: 35_000 } },
+  'Texas':      { soft_tissue: { low:  5_000, high: 18_000 } },
+};
@@ -4,25 +4,86 @@
  * Used by both lib/estimator/logic.ts and the widget UI components.
  */
 
+import type { CoverageTier } from './coverage';
+
 /** The four injury categories shown in the widget. */
 export type InjuryType = 'soft_tissue' | 'fracture' | 'tbi' | 'spinal';
 
 /** All user-controlled widget inputs. */
 export interface EstimatorInputs {
-  injuryType:  InjuryType | null;
+  injuryTypes: InjuryType[];   // every injury selected; empty until one is chosen
   hasSurgery:  boolean;
   lostWages:   number;   // dollars, integer, 0–50000 (slider max = "$50k+")
+  state?:      string | null;   // full state name (see US_STATES); null = national ranges
+  medicalBills?: number;       // dollars billed to date; 0/undefined = not provided
+  futureCare?:   number;       // dollars of expected future treatment; 0/undefined = not provided
+  atFaultCoverage?: CoverageTier | null;   // at-fault party's BI limit (see coverage.ts)
+  umCoverage?:      CoverageTier | null;   // lead's own UM/UIM limit
 }
 
-/** Calculated {low, high} dollar range. null until injuryType is set. */
+/** State name → injury → base range that replaces the national one. */
+export type StateOverrides = Record<string, Partial<Record<InjuryType, EstimateRange>>>;
+
+/**
+ * The tunable numbers behind both estimate methods. Published versions live in
+ * Firestore (see lib/estimator/valuationStore.ts); version 0 is the built-in table.
+ */
+export interface ValuationTable {
+  version:               number;
+  injuryBaseValues:      Record<InjuryType, EstimateRange>;
+  surgeryMultiplier:     number;
+  secondaryInjuryFactor: number;                             // ×factor^rank per further injury
+  stateMultipliers:      Record<string, number>;             // state → general-damages factor
+  stateOverrides:        StateOverrides;                     // state multiplier is NOT applied on top
+  specialsMultipliers:   Record<InjuryType, EstimateRange>;  // specials method severity ranges
+  specialsSurgeryBonus:  number;                             // added to both ends with surgery
+}
+
+/** How an estimate was derived — see lib/estimator/logic.ts. */
+export type ValuationMethod = 'base_range' | 'specials_multiplier';
+
+/** Calculated {low, high} dollar range. null until an injury is selected. */
 export interface EstimateRange {
   low:  number;
   high: number;
 }
 
+/** A dollar range contributing to the estimate, e.g. general damages or lost wages. */
+export interface EstimateLineItem {
+  id:    string;
+  label: string;
+  low:   number;
+  high:  number;
+}
+
+/** A factor applied during the calculation, in the order it was applied. */
+export interface EstimateMultiplier {
+  id:          'state' | 'surgery' | 'severity' | 'comparative_fault';
+  label:       string;
+  factor:      number;
+  factorHigh?: number;                // set when the factor is a range (low = factor)
+  appliesTo:   'general' | 'total';   // general damages only, or the whole range
+}
+
+/** Itemized "how we got this number" view of an estimate. */
+export interface EstimateBreakdown {
+  method:            ValuationMethod;
+  baseRange:         EstimateLineItem;     // primary injury base, or the state's override table
+  multipliers:       EstimateMultiplier[];
+  secondaryInjuries: EstimateLineItem[];   // state-adjusted add-ons for other injuries (see logic.ts)
+  generalDamages:    EstimateLineItem;     // base + add-ons after 'general' multipliers
+  economicDamages:   EstimateLineItem[];   // added on top, never multiplied
+  total:             EstimateRange;
+}
+
 /** Discriminated union for useEstimator reducer. */
 export type EstimatorAction =
-  | { type: 'SET_INJURY_TYPE'; payload: InjuryType }
+  | { type: 'TOGGLE_INJURY';   payload: InjuryType }
   | { type: 'SET_SURGERY';     payload: boolean     }
   | { type: 'SET_LOST_WAGES';  payload: number      }
+  | { type: 'SET_STATE';       payload: string | null }
+  | { type: 'SET_MEDICAL_BILLS'; payload: number }
+  | { type: 'SET_FUTURE_CARE';   payload: number }
+  | { type: 'SET_AT_FAULT_COVERAGE'; payload: CoverageTier | null }
+  | { type: 'SET_UM_COVERAGE';       payload: CoverageTier | null }
   | { type: 'RESET' };
@@ -6,51 +6,95 @@
  */
 
 import { useReducer, useMemo } from 'react';
-import type { EstimatorInputs, EstimatorAction, EstimateRange, InjuryType } from './types';
-import { calculateEstimate, buildSummaryText, isReadyToEstimate } from './logic';
+import type {
+  EstimatorInputs, EstimatorAction, EstimateRange, EstimateBreakdown, InjuryType, ValuationTable,
+} from './types';
+import { calculateEstimateBreakdown, buildSummaryText, isReadyToEstimate, DEFAULT_VALUATION_TABLE } from './logic';
+import { evaluateCoverage } from './coverage';
+import type { CoverageTier, CollectibleEstimate } from './coverage';
+import { DEFAULT_LOCALE } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
 
 const INITIAL_STATE: EstimatorInputs = {
-  injuryType: null,
-  hasSurgery: false,
-  lostWages:  0,
+  injuryTypes:     [],
+  hasSurgery:      false,
+  lostWages:       0,
+  state:           null,
+  medicalBills:    0,
+  futureCare:      0,
+  atFaultCoverage: null,
+  umCoverage:      null,
 };
 
 function estimatorReducer(state: EstimatorInputs, action: EstimatorAction): EstimatorInputs {
   switch (action.type) {
-    case 'SET_INJURY_TYPE': return { ...state, injuryType: action.payload };
-    case 'SET_SURGERY':     return { ...state, hasSurgery: action.payload };
-    case 'SET_LOST_WAGES':  return { ...state, lostWages: action.payload };
-    case 'RESET':           return INITIAL_STATE;
-    default:                return state;
+    case 'TOGGLE_INJURY':         return {
+      ...state,
+      injuryTypes: state.injuryTypes.includes(action.payload)
+        ? state.injuryTypes.filter(t => t !== action.payload)
+        : [...state.injuryTypes, action.payload],
+    };
+    case 'SET_SURGERY':           return { ...state, hasSurgery: action.payload };
+    case 'SET_LOST_WAGES':        return { ...state, lostWages: action.payload };
+    case 'SET_STATE':             return { ...state, state: action.payload };
+    case 'SET_MEDICAL_BILLS':     return { ...state, medicalBills: action.payload };
+    case 'SET_FUTURE_CARE':       return { ...state, futureCare: action.payload };
+    case 'SET_AT_FAULT_COVERAGE': return { ...state, atFaultCoverage: action.payload };
+    case 'SET_UM_COVERAGE':       return { ...state, umCoverage: action.payload };
+    case 'RESET':                 return { ...INITIAL_STATE, state: state.state };  // state is context, not an answer
+    default:                      return state;
   }
 }
 
 export interface UseEstimatorReturn {
   inputs:      EstimatorInputs;
   estimate:    EstimateRange | null;
+  breakdown:   EstimateBreakdown | null;
+  collectible: CollectibleEstimate | null;
   summaryText: string | null;
   isReady:     boolean;
-  setInjuryType: (type: InjuryType) => void;
-  setSurgery:    (hasSurgery: boolean) => void;
-  setLostWages:  (amount: number) => void;
-  reset:         () => void;
+  toggleInjury:       (type: InjuryType) => void;
+  setSurgery:         (hasSurgery: boolean) => void;
+  setLostWages:       (amount: number) => void;
+  setState:           (state: string | null) => void;
+  setMedicalBills:    (amount: number) => void;
+  setFutureCare:      (amount: number) => void;
+  setAtFaultCoverage: (tier: CoverageTier | null) => void;
+  setUmCoverage:      (tier: CoverageTier | null) => void;
+  reset:              () => void;
 }
 
-export function useEstimator(): UseEstimatorReturn {
-  const [inputs, dispatch] = useReducer(estimatorReducer, INITIAL_STATE);
+export function useEstimator(
+  initialState: string | null = null,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+  locale: Locale = DEFAULT_LOCALE,
+): UseEstimatorReturn {
+  const [inputs, dispatch] = useReducer(estimatorReducer, { ...INITIAL_STATE, state: initialState });
 
-  const estimate    = useMemo(() => calculateEstimate(inputs), [inputs]);
-  const summaryText = useMemo(() => buildSummaryText(inputs),  [inputs]);
+  const breakdown   = useMemo(() => calculateEstimateBreakdown(inputs, table), [inputs, table]);
+  const estimate    = breakdown?.total ?? null;
+  const collectible = useMemo(
+    () => (estimate ? evaluateCoverage(estimate, inputs) : null),
+    [estimate, inputs],
+  );
+  const summaryText = useMemo(() => buildSummaryText(inputs, table, locale), [inputs, table, locale]);
   const isReady     = useMemo(() => isReadyToEstimate(inputs), [inputs]);
 
   return {
     inputs,
     estimate,
+    breakdown,
+    collectible,
     summaryText,
     isReady,
-    setInjuryType: (type)   => dispatch({ type: 'SET_INJURY_TYPE', payload: type }),
-    setSurgery:    (val)    => dispatch({ type: 'SET_SURGERY',     payload: val  }),
-    setLostWages:  (amount) => dispatch({ type: 'SET_LOST_WAGES',  payload: amount }),
-    reset:         ()       => dispatch({ type: 'RESET' }),
+    toggleInjury:       (type)   => dispatch({ type: 'TOGGLE_INJURY',   payload: type }),
+    setSurgery:         (val)    => dispatch({ type: 'SET_SURGERY',     payload: val  }),
+    setLostWages:       (amount) => dispatch({ type: 'SET_LOST_WAGES',  payload: amount }),
+    setState:           (value)  => dispatch({ type: 'SET_STATE',       payload: value }),
+    setMedicalBills:    (amount) => dispatch({ type: 'SET_MEDICAL_BILLS', payload: amount }),
+    setFutureCare:      (amount) => dispatch({ type: 'SET_FUTURE_CARE',   payload: amount }),
+    setAtFaultCoverage: (tier)   => dispatch({ type: 'SET_AT_FAULT_COVERAGE', payload: tier }),
+    setUmCoverage:      (tier)   => dispatch({ type: 'SET_UM_COVERAGE',       payload: tier }),
+    reset:              ()       => dispatch({ type: 'RESET' }),
   };
 }
@@ -0,0 +1,26 @@
+'use client';
+/**
+ * lib/estimator/useValuationTable.ts
+ * Fetches the active valuation table so client-side estimates match the
+ * range the server stores on the lead. Uses the built-in table until the
+ * fetch resolves, and keeps it if the fetch fails.
+ */
+
+import { useEffect, useState } from 'react';
+import type { ValuationTable } from './types';
+import { DEFAULT_VALUATION_TABLE } from './logic';
+
+export function useValuationTable(apiBase = '/api'): ValuationTable {
+  const [table, setTable] = useState<ValuationTable>(DEFAULT_VALUATION_TABLE);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${apiBase}/valuation`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (!cancelled && data?.table) setTable(data.table); })
+      .catch(() => { /* keep the built-in table */ });
+    return () => { cancelled = true; };
+  }, [apiBase]);
+
+  return table;
+}
@@ -0,0 +1,206 @@
+/**
+ * lib/estimator/valuation.ts
+ * Pure helpers for versioned valuation tables — validation of admin edits
+ * and re-estimating a stored lead against any table (for previews).
+ *
+ * Firestore access lives in lib/estimator/valuationStore.ts (server only).
+ */
+
+import type { EstimateRange, InjuryType, StateOverrides, ValuationTable } from './types';
+import type { FsLead, FsValuationTable } from '../firebase/types';
+import { calculateEstimate, DEFAULT_VALUATION_TABLE, INJURY_BASE_VALUES } from './logic';
+import { injuryTypeList, isInjuryType, parseInjuryTypes } from './injuries';
+import { recoveryFactor, isFaultLevel } from '../legal/negligence';
+import { US_STATES } from '../quiz/questions';
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+/** Guards against fat-fingered edits; real tables sit well inside these. */
+export const MAX_BASE_VALUE          = 10_000_000;
+export const MAX_SURGERY_MULTIPLIER  = 20;
+export const MAX_SPECIALS_MULTIPLIER = 20;
+export const MAX_STATE_MULTIPLIER    = 3;
+
+/** The editable part of a table — version is assigned on publish. */
+export type ValuationTableDraft = Omit<ValuationTable, 'version'>;
+
+/** What's wrong with one dollar range, or null. */
+function rangeError(range: EstimateRange | undefined): string | null {
+  if (!range || !Number.isInteger(range.low) || !Number.isInteger(range.high)) {
+    return 'must be a whole-dollar low and high';
+  }
+  if (range.low <= 0 || range.high > MAX_BASE_VALUE) {
+    return `must be between $1 and $${MAX_BASE_VALUE.toLocaleString()}`;
+  }
+  if (range.low > range.high) return 'has low above high';
+  return null;
+}
+
+/** What's wrong with one specials multiplier range, or null. */
+function factorRangeError(range: EstimateRange | undefined): string | null {
+  if (!range || !Number.isFinite(range.low) || !Number.isFinite(range.high)) {
+    return 'must be a numeric low and high';
+  }
+  if (range.low <= 0 || range.high > MAX_SPECIALS_MULTIPLIER) {
+    return `must be between 0 and ${MAX_SPECIALS_MULTIPLIER}`;
+  }
+  if (range.low > range.high) return 'has low above high';
+  return null;
+}
+
+/** True for a finite number in [min, max]. */
+function inRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Returns a human-readable problem with a submitted table, or null when it
+ * is valid. Every injury type needs a whole-dollar range with low ≤ high,
+ * and so does every state override (an empty object means none). Every
+ * injury type also needs a specials multiplier range, and state multipliers
+ * must be for known states and within MAX_STATE_MULTIPLIER.
+ */
+export function valuationTableError(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Valuation table is required.';
+  const {
+    injuryBaseValues, surgeryMultiplier, secondaryInjuryFactor,
+    stateMultipliers, stateOverrides, specialsMultipliers, specialsSurgeryBonus,
+  } = input as Partial<ValuationTableDraft>;
+
+  if (!injuryBaseValues || typeof injuryBaseValues !== 'object') {
+    return 'Base values are required for every injury type.';
+  }
+  for (const type of Object.keys(INJURY_BASE_VALUES) as InjuryType[]) {
+    const problem = rangeError(injuryBaseValues[type]);
+    if (problem) return `Base value for ${type} ${problem}.`;
+  }
+
+  if (!inRange(surgeryMultiplier, 1, MAX_SURGERY_MULTIPLIER)) {
+    return `Surgery multiplier must be between 1 and ${MAX_SURGERY_MULTIPLIER}.`;
+  }
+
+  if (!inRange(secondaryInjuryFactor, 0, 1)) {
+    return 'Secondary injury factor must be between 0 and 1.';
+  }
+
+  if (!specialsMultipliers || typeof specialsMultipliers !== 'object') {
+    return 'Specials multipliers are required for every injury type.';
+  }
+  for (const type of Object.keys(INJURY_BASE_VALUES) as InjuryType[]) {
+    const problem = factorRangeError(specialsMultipliers[type]);
+    if (problem) return `Specials multiplier for ${type} ${problem}.`;
+  }
+
+  if (!inRange(specialsSurgeryBonus, 0, MAX_SPECIALS_MULTIPLIER)) {
+    return `Specials surgery bonus must be between 0 and ${MAX_SPECIALS_MULTIPLIER}.`;
+  }
+
+  if (!stateMultipliers || typeof stateMultipliers !== 'object' || Array.isArray(stateMultipliers)) {
+    return 'State multipliers are required (empty for none).';
+  }
+  for (const [state, multiplier] of Object.entries(stateMultipliers)) {
+    if (!US_STATES.includes(state)) return `Unknown state in multipliers: ${state}.`;
+    if (!inRange(multiplier, 0, MAX_STATE_MULTIPLIER) || multiplier === 0) {
+      return `${state} multiplier must be above 0 and at most ${MAX_STATE_MULTIPLIER}.`;
+    }
+  }
+
+  if (!stateOverrides || typeof stateOverrides !== 'object' || Array.isArray(stateOverrides)) {
+    return 'State overrides are required (empty for none).';
+  }
+  for (const [state, ranges] of Object.entries(stateOverrides)) {
+    if (!US_STATES.includes(state)) return `Unknown state in overrides: ${state}.`;
+    if (!ranges || typeof ranges !== 'object') return `Overrides for ${state} must be injury ranges.`;
+    for (const [type, range] of Object.entries(ranges)) {
+      if (!isInjuryType(type)) return `Unknown injury type in ${state} overrides: ${type}.`;
+      const problem = rangeError(range);
+      if (problem) return `${state} override for ${type} ${problem}.`;
+    }
+  }
+  return null;
+}
+
+/** Copies only the known fields of a validated draft (drops anything extra). */
+export function toValuationDraft(input: ValuationTableDraft): ValuationTableDraft {
+  const injuryBaseValues = {} as Record<InjuryType, EstimateRange>;
+  for (const type of Object.keys(INJURY_BASE_VALUES) as InjuryType[]) {
+    const { low, high } = input.injuryBaseValues[type];
+    injuryBaseValues[type] = { low, high };
+  }
+
+  const stateOverrides: StateOverrides = {};
+  for (const [state, ranges] of Object.entries(input.stateOverrides)) {
+    const copy: Partial<Record<InjuryType, EstimateRange>> = {};
+    for (const [type, { low, high }] of Object.entries(ranges) as [InjuryType, EstimateRange][]) {
+      copy[type] = { low, high };
+    }
+    if (Object.keys(copy).length > 0) stateOverrides[state] = copy;
+  }
+
+  const specialsMultipliers = {} as Record<InjuryType, EstimateRange>;
+  for (const type of Object.keys(INJURY_BASE_VALUES) as InjuryType[]) {
+    const { low, high } = input.specialsMultipliers[type];
+    specialsMultipliers[type] = { low, high };
+  }
+
+  return {
+    injuryBaseValues,
+    surgeryMultiplier:     input.surgeryMultiplier,
+    secondaryInjuryFactor: input.secondaryInjuryFactor,
+    stateMultipliers:      { ...input.stateMultipliers },
+    stateOverrides,
+    specialsMultipliers,
+    specialsSurgeryBonus:  input.specialsSurgeryBonus,
+  };
+}
+
+/**
+ * A published version as a table. Fields added after a version was
+ * published fall back to the built-in values it was estimated with.
+ */
+export function toValuationTable(doc: FsValuationTable): ValuationTable {
+  const defaults = DEFAULT_VALUATION_TABLE;
+  return {
+    version:               doc.version,
+    injuryBaseValues:      doc.injury_base_values as Record<InjuryType, EstimateRange>,
+    surgeryMultiplier:     doc.surgery_multiplier,
+    secondaryInjuryFactor: doc.secondary_injury_factor ?? defaults.secondaryInjuryFactor,
+    stateMultipliers:      doc.state_multipliers ?? defaults.stateMultipliers,
+    stateOverrides:        (doc.state_overrides as StateOverrides | undefined) ?? defaults.stateOverrides,
+    specialsMultipliers:   (doc.specials_multipliers as Record<InjuryType, EstimateRange> | undefined) ?? defaults.specialsMultipliers,
+    specialsSurgeryBonus:  doc.specials_surgery_bonus ?? defaults.specialsSurgeryBonus,
+  };
+}
+
+/** Display label for a lead's valuation_version. */
+export function valuationVersionLabel(version: number | null | undefined): string {
+  if (version == null) return 'Not recorded (pre-versioning)';
+  return version === 0 ? 'v0 (built-in)' : `v${version}`;
+}
+
+// ── Re-estimating stored leads ────────────────────────────────────────────────
+
+export type LeadValuationFields =
+  Pick<FsLead, 'injury_type' | 'surgery' | 'lost_wages_estimate' | 'state' | 'fault_level'>;
+
+/**
+ * The base-range estimate a stored lead would get under `table`, including
+ * the comparative-fault reduction quiz leads receive. null when the lead has
+ * no recognised injury type.
+ */
+export function estimateLead(lead: LeadValuationFields, table: ValuationTable): EstimateRange | null {
+  const estimate = calculateEstimate({
+    injuryTypes: parseInjuryTypes(injuryTypeList(lead.injury_type)),
+    hasSurgery:  Boolean(lead.surgery),
+    lostWages:   lead.lost_wages_estimate ?? 0,
+    state:       lead.state,
+  }, table);
+  if (!estimate) return null;
+
+  const faultLevel = isFaultLevel(lead.fault_level) ? lead.fault_level : null;
+  const recovery   = recoveryFactor(faultLevel, lead.state);
+  return {
+    low:  Math.round(estimate.low  * recovery),
+    high: Math.round(estimate.high * recovery),
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * lib/estimator/valuationStore.ts
+ * Firestore-backed valuation table versions. Server only — never import in
+ * client components (clients fetch the active table from /api/valuation).
+ *
+ * Collection: valuation_tables, one immutable doc per published version.
+ * The active table is the highest version; with none published, the
+ * built-in DEFAULT_VALUATION_TABLE (version 0) is used.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsValuationTable } from '@/lib/firebase/types';
+import type { ValuationTable } from './types';
+import { DEFAULT_VALUATION_TABLE } from './logic';
+import { toValuationTable } from './valuation';
+import type { ValuationTableDraft } from './valuation';
+
+const COLLECTION   = 'valuation_tables';
+const CACHE_TTL_MS = 60 * 1_000;
+
+let cached: { table: ValuationTable; fetchedAt: number } | null = null;
+
+/**
+ * The table new estimates should use. Cached for a minute per server
+ * instance; falls back to the built-in table if Firestore is unavailable
+ * so lead capture never fails on a valuation lookup.
+ */
+export async function getActiveValuationTable(): Promise<ValuationTable> {
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.table;
+
+  try {
+    const snap  = await adminDb.collection(COLLECTION).orderBy('version', 'desc').limit(1).get();
+    const table = snap.empty
+      ? DEFAULT_VALUATION_TABLE
+      : toValuationTable(snap.docs[0].data() as FsValuationTable);
+    cached = { table, fetchedAt: Date.now() };
+    return table;
+  } catch (err) {
+    console.error('[valuation] Failed to load active table:', err);
+    return cached?.table ?? DEFAULT_VALUATION_TABLE;
+  }
+}
+
+/** Every published version, newest first. */
+export async function listValuationTables(): Promise<FsValuationTable[]> {
+  const snap = await adminDb.collection(COLLECTION).orderBy('version', 'desc').get();
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as FsValuationTable));
+}
+
+/**
+ * Publishes a validated draft as the next version and makes it active.
+ * The version number is allocated in a transaction so concurrent publishes
+ * cannot collide.
+ */
+export async function publishValuationTable(
+  draft:       ValuationTableDraft,
+  note:        string,
+  publishedBy: string,
+): Promise<FsValuationTable> {
+  const published = await adminDb.runTransaction(async tx => {
+    const latest  = await tx.get(adminDb.collection(COLLECTION).orderBy('version', 'desc').limit(1));
+    const version = latest.empty ? 1 : (latest.docs[0].data() as FsValuationTable).version + 1;
+
+    const doc: FsValuationTable = {
+      version,
+      injury_base_values:      draft.injuryBaseValues,
+      surgery_multiplier:      draft.surgeryMultiplier,
+      secondary_injury_factor: draft.secondaryInjuryFactor,
+      state_multipliers:       draft.stateMultipliers,
+      state_overrides:         draft.stateOverrides as FsValuationTable['state_overrides'],
+      specials_multipliers:    draft.specialsMultipliers,
+      specials_surgery_bonus:  draft.specialsSurgeryBonus,
+      note,
+      published_by: publishedBy,
+      published_at: Date.now(),
+    };
+    tx.create(adminDb.collection(COLLECTION).doc(String(version)), doc);
+    return { id: String(version), ...doc };
+  });
+
+  cached = { table: toValuationTable(published), fetchedAt: Date.now() };
+  return published;
+}
@@ -11,28 +11,74 @@ export interface FsLead {
   email: string | null;
   carrier: string;
   state: string | null;
-  injury_type: string;       // soft_tissue | fracture | tbi | spinal | motor_vehicle | slip_fall | workplace | med_mal | other
+  injury_type: string[] | string;   // InjuryType list, most severe first; legacy leads hold one string (see lib/estimator/injuries.ts)
   surgery: boolean;
   hospitalized: boolean;
   still_treating: boolean;
   missed_work: boolean;
   lost_wages_estimate: number;
+  medical_bills?: number;           // dollars to date, 0 = not provided
+  future_care?: number;             // dollars of expected future treatment, 0 = not provided
   insurance_contacted: boolean;
   has_attorney: boolean;
-  at_fault: boolean;
+  at_fault: boolean;         // any share of fault (fault_level !== 'none')
+  fault_level?: string | null;      // none | partial | mostly | fully
   score: number;
   tier: string;              // HOT | WARM | COLD
-  verified: boolean;
-  source: string;            // widget | quiz
+  score_version?: number;                  // scoring rules used for score/tier; 0 = built-in
+  score_contributions?: Record<string, number>;   // ScoreFactorId → points, before the fault reduction
+  verified: boolean;         // false = partial lead captured before SMS verification
+  nurture_count?: number;           // reminders sent while partial (kept once verified — see lib/leads/partial.ts)
+  last_nurture_at?: number | null;  // Unix ms
+  resume_draft_id?: string | null;  // quiz_drafts doc the reminders link to (partial quiz leads with an email)
+  source: string;            // widget | quiz — where the lead was submitted
+  touchpoints?: string[];    // every funnel used, in order, e.g. ['widget', 'quiz'] (see lib/quiz/prefill.ts)
+  preferred_language?: string;   // en | es — the funnel language, so firms can assign a Spanish-speaking intake rep
   timestamp: number;         // Unix ms
+  // Duplicates (see lib/leads/duplicates.ts)
+  email_normalized?: string | null;   // normalizeEmail(email) — queried for email matches
+  duplicate_group?: string | null;    // shared by every lead matched as the same person
+  duplicate_reasons?: string[];       // DuplicateReason[] — why this lead joined its group
+  merged_into?: string | null;        // set by the merge tool on records folded into another; never delivered
+  merged_from?: string[];             // lead IDs folded into this one
+  merged_at?: number | null;          // Unix ms
+  // Intake quality (see lib/leads/quality.ts)
+  ip_hash?: string | null;            // SHA-256 of the submitting IP — for velocity, never the raw address
+  device_id?: string | null;          // random ID kept in the browser's localStorage (lib/leads/device.ts)
+  quiz_duration_ms?: number | null;   // first quiz question to submission; null when resumed or prefilled
+  quality_flags?: string[];           // QualityFlag[]
+  quality_risk?: number;              // 0–100
+  quality_hold?: boolean;             // true = held from distribution until an admin releases it
   delivered: boolean;
   replaced: boolean;
   disputed: boolean;
   client_id: string | null;  // Firestore client doc ID
   estimate_low: number;
   estimate_high: number;
+  valuation_version?: number;              // valuation table used for estimate_*; 0 = built-in
+  specials_estimate_low?: number | null;   // specials-multiplier method; null without medical costs
+  specials_estimate_high?: number | null;
+  at_fault_coverage?: string | null;       // CoverageTier — see lib/estimator/coverage.ts
+  um_coverage?: string | null;             // CoverageTier
+  coverage_limit?: number | null;          // likely collectible coverage; null = no practical cap
+  coverage_capped?: boolean;               // estimate_high exceeds coverage_limit
+  collectible_low?: number;                // estimate capped at coverage_limit
+  collectible_high?: number;
   incident_timeframe: string | null;
-  statute_warning: boolean;
+  statute_warning: boolean;         // deadline within STATUTE_WARNING_DAYS, passed, or uncertain
+  statute_deadline?: number | null;        // Unix ms — estimated last day to file
+  statute_days_remaining?: number | null;  // negative once the deadline has likely passed
+  statute_basis?: string | null;           // general | incident_type | med_mal | government
+  government_defendant?: boolean;
+  incident_type?: string | null;           // IncidentType (quiz leads only)
+  // Incident-module follow-ups (lib/quiz/modules) — null unless the lead's incident type asks them
+  med_mal_type?: string | null;            // MedMalType
+  med_mal_provider?: string | null;        // MedMalProvider
+  med_mal_discovered?: string | null;      // IncidentTimeframe — when the error was discovered
+  med_mal_second_opinion?: boolean | null; // another doctor said care fell short
+  workplace_claim?: string | null;         // WorkplaceClaim
+  vehicle_type?: string | null;            // VehicleType
+  police_report?: string | null;           // PoliceReport
   disqualified: boolean;
   disqualify_reason: string | null;
   exclusive_until: number | null;   // Unix ms — exclusivity expiry (now + 90 days on delivery)
@@ -45,16 +91,119 @@ export interface FsLead {
   } | null;
 }
 
+/** One published version of the valuation tables (doc ID = String(version)). */
+export interface FsValuationTable {
+  id?: string;
+  version: number;           // 1, 2, 3… (0 is the built-in table and is never stored)
+  injury_base_values: Record<string, { low: number; high: number }>;   // keyed by InjuryType
+  surgery_multiplier: number;
+  state_overrides?: Record<string, Record<string, { low: number; high: number }>>;   // state → InjuryType → range; absent on versions published before overrides were versioned
+  // The fields below are absent on versions published before they were versioned
+  secondary_injury_factor?: number;
+  state_multipliers?: Record<string, number>;    // state → general-damages multiplier
+  specials_multipliers?: Record<string, { low: number; high: number }>;   // keyed by InjuryType
+  specials_surgery_bonus?: number;
+  note: string;              // admin's reason for the change
+  published_by: string;      // admin username
+  published_at: number;      // Unix ms
+}
+
+/** One published version of the lead-scoring rules (doc ID = String(version)). */
+export interface FsScoringRules {
+  id?: string;
+  version: number;           // 1, 2, 3… (0 is the built-in set and is never stored)
+  weights: Record<string, number>;   // keyed by ScoreFactorId
+  lost_wages_threshold: number;
+  hot_threshold: number;
+  warm_threshold: number;
+  note: string;              // admin's reason for the change
+  published_by: string;      // admin username
+  published_at: number;      // Unix ms
+}
+
+/** An unfinished quiz saved for a resume link (see lib/quiz/draftStore.ts). */
+export interface FsQuizDraft {
+  id?: string;
+  answers: Record<string, unknown>;   // QuizAnswers
+  history: string[];                  // QuestionId[] visited, in order
+  touchpoints?: string[];             // funnels used before the quiz — Touchpoint[]
+  email: string;                      // where the resume link was sent
+  created_at: number;        // Unix ms
+  expires_at: number;        // Unix ms
+}
+
+/** One quiz or widget funnel event (see lib/analytics/funnel.ts). */
+export interface FsFunnelEvent {
+  id?: string;
+  session_id: string;
+  source: string;            // quiz | widget
+  type: string;              // FunnelEventType
+  step: string;              // question ID or widget step
+  value: string | null;      // option chosen, for answers
+  detail: string | null;     // alert type or disqualify reason
+  timestamp: number;         // Unix ms
+}
+
+/** The quiz exit routes an admin configured (doc ID 'current' — see lib/quiz/exitRoutes.ts). */
+export interface FsExitRoutes {
+  id?: string;
+  routes: Record<string, unknown[]>;   // ExitRoutes — ExitReason → ExitOffer[]
+  updated_by: string;        // admin username
+  updated_at: number;        // Unix ms
+}
+
+/** A visitor reaching a quiz exit, or clicking one of its offers (see lib/quiz/exitRoutes.ts). */
+export interface FsExitEvent {
+  id?: string;
+  session_id: string;        // funnel session (lib/analytics/track.ts)
+  reason: string;            // ExitReason
+  action: string;            // shown | clicked
+  offer_id: string | null;   // the offer clicked
+  offer_ids: string[];       // the offers on screen
+  answers: Record<string, unknown>;   // quiz answers so far
+  locale: string;            // en | es
+  timestamp: number;         // Unix ms
+}
+
 export interface FsVerificationCode {
   id?: string;
   phone: string;
-  code: string;
+  code_hash?: string;        // salted HMAC of phone + code (lib/sms/codeHash.ts); single-code sends
+  code_salt?: string;
+  gateway_codes?: { carrier: string; code_hash: string; code_salt: string }[];   // gateway sends: one code per gateway
+  carrier?: string | null;   // gateway whose code was entered (lib/sms/carrierCodes.ts)
+  code?: string;             // legacy plaintext — cleared by scripts/hash-verification-codes.ts
   expires_at: number;        // Unix ms
   used: boolean;
   attempts: number;
   timestamp: number;         // Unix ms (created at)
 }
 
+export interface FsSmsSend {
+  id?: string;
+  provider: string;          // SmsProviderName (lib/sms/provider.ts)
+  purpose: string;           // verification
+  phone: string;             // 10-digit
+  ok: boolean;               // at least one attempt accepted
+  attempted: number;         // gateway addresses or API requests tried
+  accepted: number;
+  error: string | null;      // first failure reason
+  detail: string | null;     // provider reference (API message ID, gateway, outbox file)
+  carriers: { carrier: string; accepted: boolean }[] | null;   // gateway provider: each gateway tried
+  duration_ms: number;
+  timestamp: number;         // Unix ms
+}
+
+export interface FsPhoneCarrier {
+  carrier: string;           // gateway domain (lib/sms CARRIERS)
+  verified_at: number;       // Unix ms, last verification through it
+}
+
+export interface FsRateLimit {
+  hits: number[];            // Unix ms, within the rule's window (lib/rateLimit)
+  expires_at: number;        // Unix ms — safe to delete after (Firestore TTL)
+}
+
 export interface FsClient {
   id?: string;
   name: string;
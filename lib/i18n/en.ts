@@ -0,0 +1,214 @@
+/**
+ * lib/i18n/en.ts
+ * English UI strings for the quiz, widget and SMS. The source of truth for
+ * the Messages shape — every other locale must match it.
+ */
+
+import type { InjuryType } from '@/lib/estimator/types';
+import { COVERAGE_TIER_LABELS } from '@/lib/estimator/coverage';
+import type { CoverageTier } from '@/lib/estimator/coverage';
+import type { DisqualReason, ScoreFactorId } from '@/lib/quiz/types';
+import { OTP_POLICY } from '@/lib/sms/otpPolicy';
+
+const OTP_MINUTES = OTP_POLICY.ttlMs / 60_000;
+
+export const en = {
+  common: {
+    back:       '← Back',
+    next:       'Next →',
+    skip:       'Skip →',
+    startOver:  '↺ Start over',
+    tryAgain:   'Try again',
+    sending:    'Sending…',
+    saving:     'Saving your results…',
+    genericError: 'Something went wrong. Please try again.',
+    caseWorth:  'Your case may be worth',
+    collectible: 'Likely collectible from available insurance:',
+    assumedMinimum: ' (assuming state-minimum coverage)',
+    language:   'Language',
+  },
+
+  currency: {
+    thousand: 'k',
+    million:  'M',
+  },
+
+  /** Injury names as used mid-sentence in the estimate summary. */
+  injuryPhrases: {
+    soft_tissue: 'soft tissue (sprains & whiplash)',
+    fracture:    'broken bone / fracture',
+    spinal:      'spinal cord injury',
+    tbi:         'head injury / concussion / TBI',
+  } as Record<InjuryType, string>,
+
+  summary: {
+    basedOn:     (injury: string) => `Based on a ${injury}`,
+    plus:        (injury: string) => `plus a ${injury}`,
+    withSurgery: 'with surgery',
+    wages:       (amount: string) => `and ${amount} in lost income`,
+    inState:     (state: string) => `in ${state}`,
+    end:         ", here's what similar cases have settled for.",
+  },
+
+  coverage: {
+    tiers:         COVERAGE_TIER_LABELS as Record<CoverageTier, string>,
+    atFault:       "At-fault party's insurance limit",
+    atFaultNone:   'They were uninsured',
+    um:            'Your uninsured/underinsured motorist coverage',
+    umShort:       'Your UM/UIM coverage',
+    umNone:        'I have none',
+    umNoneShort:   'No UM/UIM coverage',
+  },
+
+  wages: {
+    lostIncome:   'estimated lost income',
+    howMuch:      'How much income have you lost so far?',
+    medicalBills: 'Medical bills so far',
+    futureCare:   'Expected future treatment',
+    optional:     '(optional)',
+  },
+
+  disqualifier: {
+    at_fault: {
+      headline: "Sam can't help with this one.",
+      body:     "Under your state's fault rules, someone with your share of the blame usually can't recover damages. If you think the other side was more at fault than it first seemed, consider talking to an attorney — some situations are more nuanced than they first appear.",
+    },
+  } as Record<DisqualReason, { headline: string; body: string }>,
+
+  statute: {
+    inState:      (state: string) => `in ${state}`,
+    inMostStates: 'in most states',
+    passed:       (where: string) => `The filing deadline ${where} may have already passed. Some exceptions apply, so an attorney should still review your case — quickly.`,
+    limited:      (where: string) => `You may have limited time left to file ${where}. Acting soon protects your right to compensation.`,
+  },
+
+  /** Score factor labels on the results screen; missing ones use SCORE_FACTOR_LABELS. */
+  scoreFactors: {} as Partial<Record<ScoreFactorId, string>>,
+
+  breakdown: {
+    title:          'How we got this number',
+    estimatedRange: 'Estimated range',
+    /** Line item and multiplier labels by ID; missing ones keep the computed label. */
+    items:          {} as Record<string, string>,
+  },
+
+  quiz: {
+    selectState:     'Select your state…',
+    welcomeBack:     'Welcome back — we saved your answers.',
+    prefilled:       'We brought over your answers from the estimator.',
+    startOverShort:  'Start over',
+    linkSent:        (email: string) => `✉️ Link sent to ${email} — it works for 7 days.`,
+    otherDevice:     'Continue on another device',
+    emailLinkLabel:  'Email me a link to finish later',
+    sendLink:        'Send Link',
+    linkFailed:      'Could not send the link.',
+    almostThere:     'Almost there…',
+    tellUs:          'Tell us who to send your results to.',
+    firstName:       'First Name',
+    lastName:        'Last Name',
+    email:           'Email Address',
+    firstNameRequired: 'Please enter your first name.',
+    lastNameRequired:  'Please enter your last name.',
+    continue:        'Continue →',
+    backToQuiz:      '← Back to quiz',
+    youreIn:         (name: string) => (name ? `You're in, ${name}!` : "You're in!"),
+    factorsTitle:    'Factors working in your favor',
+    nextStepsTitle:  'What happens next',
+    nextSteps:       (state: string | null) => [
+      `A licensed attorney reviews your case details${state ? ` in ${state}` : ''}.`,
+      'They will contact you within 1 business day.',
+      'Your free consultation is 100% free, no obligation.',
+    ],
+    chatCta:         'Chat With an Attorney Now →',
+    submitted:       '🗓 Your case details have been submitted. An attorney will reach out within 1 business day.',
+    disclaimer:      'This estimate is based on general settlement data and is not legal advice. Every case is different. Results depend on the specific facts, applicable law, and many other factors.',
+    newEvaluation:   '↺ Start a new evaluation',
+    goodHands:       "Sounds like you're in good hands.",
+    goodHandsSub:    "You already have an attorney fighting for you. Keep working with them — they're your best resource.",
+    askTitle:        'Questions to ask your attorney',
+    askList: [
+      "What's the realistic settlement range for my case?",
+      'How much are your fees, and when do I pay?',
+      "What's your strategy for dealing with the insurance adjuster?",
+      'How long do you expect this case to take?',
+      'What are my chances of going to trial?',
+    ],
+    backHome:        '← Back to Homepage',
+    freeConsult:     'Get a Free Attorney Consultation →',
+    startOverCaps:   '← Start Over',
+  },
+
+  preference: {
+    almostDone:   (name: string) => (name ? `Almost done, ${name}!` : 'Almost done!'),
+    bestTime:     'When is the best time for an attorney to reach you?',
+    howSoon:      'How soon do you need help?',
+    timeOfDay:    'Best time of day?',
+    selectAll:    '(select all that apply)',
+    submit:       'Get My Results →',
+    urgency: {
+      asap:      { label: 'As soon as possible', sub: 'I need help right away' },
+      today:     { label: 'Today',               sub: 'Sometime in the next few hours' },
+      this_week: { label: 'This week',           sub: 'No rush, within a few days' },
+    } as Record<string, { label: string; sub: string }>,
+    hours: {
+      morning:   { label: 'Morning',   sub: '8am – 12pm' },
+      afternoon: { label: 'Afternoon', sub: '12pm – 5pm' },
+      evening:   { label: 'Evening',   sub: '5pm – 8pm' },
+    } as Record<string, { label: string; sub: string }>,
+  },
+
+  sms: {
+    /** The text message itself — sent by /api/sms/send. */
+    codeText:      (code: string) => `Your Settlement Sam verification code: ${code}\n\nValid for ${OTP_MINUTES} minutes. Do not share this code.`,
+    oneLastStep:   (name: string) => (name ? `One last step, ${name}!` : 'One last step!'),
+    willText:      `We'll text you a ${OTP_POLICY.length}-digit code to verify it's you.`,
+    sendCode:      'Text Me My Code 📱',
+    rates:         'Standard message rates may apply. We never share your number.',
+    invalidPhone:  'Please enter a valid 10-digit phone number.',
+    codeSentTo:    (phone: string) => `Code sent to ${phone}`,
+    enterCode:     `Enter the ${OTP_POLICY.length}-digit code from your text message.`,
+    verifying:     'Verifying…',
+    resendIn:      (time: string) => `Resend code in ${time}`,
+    maxResends:    'Max resends reached. Please refresh and try again.',
+    resend:        "Didn't get it? Resend Code",
+    wrongNumber:   'Wrong number? Go back',
+    sendFailed:    'Failed to send code.',
+    verifyFailed:  'Verification failed.',
+  },
+
+  widget: {
+    injuriesQuestion: 'What injuries did you have?',
+    injuriesSub:      'Pick all that apply — we value the most serious one first.',
+    injuries: {
+      soft_tissue: { label: 'Soft Tissue', sub: 'Sprains & whiplash' },
+      fracture:    { label: 'Fracture',    sub: 'Broken bone' },
+      tbi:         { label: 'Head / TBI',  sub: 'Concussion, TBI' },
+      spinal:      { label: 'Spinal Cord', sub: 'Spinal cord injury' },
+    } as Record<InjuryType, { label: string; sub: string }>,
+    surgeryQuestion:  'Did you have surgery?',
+    surgerySub:       'Surgery is the single biggest driver of case value.',
+    surgeryYes:       { label: 'Yes, I had surgery', sub: 'Or surgery has been recommended' },
+    surgeryNo:        { label: 'No surgery',         sub: 'Treated with medication or therapy' },
+    wagesQuestion:    'How much income did you lose?',
+    wagesSub:         'Include wages, salary, or self-employment. Set $0 if none.',
+    seeEstimate:      'See My Estimate →',
+    bridgeHeadline:   "Here's what I found for you.",
+    bridgeSub:        'This is just the starting point — a 3-minute full review with Sam could be the difference between $18k and $180k.',
+    bridgeCta:        'Get My Full Case Review with Sam →',
+    bridgeUrgency:    '🗓 Sam reviews cases Monday–Friday. Spots fill by noon most days.',
+    disclaimer:       'This estimate is based on general settlement data and is not legal advice. Every case is different. Actual results depend on the specific facts, applicable law, and many other factors. Talk to a licensed attorney for a real evaluation.',
+    gaugeWaiting:     'Waiting for inputs',
+    gaugeLabel:       (low: string, high: string) => `Estimated case value: ${low} to ${high}`,
+  },
+
+  gate: {
+    locked:        'Verify to unlock your estimate',
+    almostThere:   'Almost there!',
+    confirm:       "Just need to confirm it's really you. 👋",
+    firstName:     'First Name',
+    continue:      'Continue 📱',
+    fine:          "Standard message rates may apply. Sam doesn't sell your info — ever.",
+  },
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,233 @@
+/**
+ * lib/i18n/es.ts
+ * Spanish (US) UI strings for the quiz, widget and SMS.
+ * Same shape as lib/i18n/en.ts.
+ */
+
+import type { Messages } from './en';
+import { OTP_POLICY } from '@/lib/sms/otpPolicy';
+
+const OTP_MINUTES = OTP_POLICY.ttlMs / 60_000;
+
+export const es: Messages = {
+  common: {
+    back:       '← Atrás',
+    next:       'Siguiente →',
+    skip:       'Omitir →',
+    startOver:  '↺ Empezar de nuevo',
+    tryAgain:   'Intentar de nuevo',
+    sending:    'Enviando…',
+    saving:     'Guardando sus resultados…',
+    genericError: 'Algo salió mal. Por favor, inténtelo de nuevo.',
+    caseWorth:  'Su caso podría valer',
+    collectible: 'Probablemente cobrable del seguro disponible:',
+    assumedMinimum: ' (suponiendo la cobertura mínima estatal)',
+    language:   'Idioma',
+  },
+
+  currency: {
+    thousand: ' mil',
+    million:  ' M',
+  },
+
+  // With the article — Spanish articles follow the noun's gender
+  injuryPhrases: {
+    soft_tissue: 'una lesión de tejidos blandos (esguinces y latigazo cervical)',
+    fracture:    'un hueso roto / fractura',
+    spinal:      'una lesión de la médula espinal',
+    tbi:         'una lesión en la cabeza / conmoción cerebral / TCE',
+  },
+
+  summary: {
+    basedOn:     (injury: string) => `Con base en ${injury}`,
+    plus:        (injury: string) => `más ${injury}`,
+    withSurgery: 'con cirugía',
+    wages:       (amount: string) => `y ${amount} en ingresos perdidos`,
+    inState:     (state: string) => `en ${state}`,
+    end:         ', esto es lo que han obtenido casos similares.',
+  },
+
+  coverage: {
+    tiers: {
+      unknown:       'No sé',
+      none:          'Ninguna',
+      state_minimum: 'Mínimo estatal',
+      '50k':         '$50 mil',
+      '100k':        '$100 mil',
+      '250k':        '$250 mil',
+      '500k_plus':   '$500 mil o más',
+    },
+    atFault:       'Límite del seguro de la parte culpable',
+    atFaultNone:   'No tenían seguro',
+    um:            'Su cobertura de motorista sin seguro o con seguro insuficiente (UM/UIM)',
+    umShort:       'Su cobertura UM/UIM',
+    umNone:        'No tengo',
+    umNoneShort:   'Sin cobertura UM/UIM',
+  },
+
+  wages: {
+    lostIncome:   'ingresos perdidos estimados',
+    howMuch:      '¿Cuántos ingresos ha perdido hasta ahora?',
+    medicalBills: 'Facturas médicas hasta ahora',
+    futureCare:   'Tratamiento futuro esperado',
+    optional:     '(opcional)',
+  },
+
+  disqualifier: {
+    at_fault: {
+      headline: 'Sam no puede ayudar con este caso.',
+      body:     'Según las reglas de culpa de su estado, alguien con su parte de culpa normalmente no puede cobrar daños. Si cree que la otra parte tuvo más culpa de lo que parecía, considere hablar con un abogado — algunas situaciones son más complejas de lo que parecen.',
+    },
+  },
+
+  statute: {
+    inState:      (state: string) => `en ${state}`,
+    inMostStates: 'en la mayoría de los estados',
+    passed:       (where: string) => `Es posible que el plazo para presentar su reclamo ${where} ya haya vencido. Hay excepciones, así que un abogado debería revisar su caso — cuanto antes.`,
+    limited:      (where: string) => `Es posible que le quede poco tiempo para presentar su reclamo ${where}. Actuar pronto protege su derecho a una compensación.`,
+  },
+
+  scoreFactors: {
+    surgery:            'Cirugía documentada',
+    hospitalized:       'Hospitalización documentada',
+    lost_wages:         'Salarios perdidos significativos',
+    still_treating:     'Tratamiento en curso',
+    insurance_contact:  'El seguro ya se comunicó con usted',
+    cant_work:          'No puede trabajar',
+    missed_work:        'Ausencia laboral documentada',
+    er_doctor:          'Visita a urgencias o al médico registrada',
+    med_mal_opinion:    'Otro médico dice que la atención fue deficiente',
+    third_party_claim:  'Reclamo contra un tercero además de la compensación laboral',
+    commercial_vehicle: 'Vehículo de transporte compartido o comercial involucrado',
+    police_report:      'Informe policial presentado',
+  },
+
+  breakdown: {
+    title:          'Cómo calculamos esta cifra',
+    estimatedRange: 'Rango estimado',
+    items: {
+      general_damages:  'Daños generales (dolor y sufrimiento)',
+      lost_wages:       'Salarios perdidos',
+      surgery:          'Cirugía',
+      severity:         'Multiplicador de gravedad',
+      medical_specials: 'Facturas médicas + atención futura',
+    },
+  },
+
+  quiz: {
+    selectState:     'Seleccione su estado…',
+    welcomeBack:     'Bienvenido de nuevo — guardamos sus respuestas.',
+    prefilled:       'Trajimos sus respuestas del estimador.',
+    startOverShort:  'Empezar de nuevo',
+    linkSent:        (email: string) => `✉️ Enlace enviado a ${email} — es válido por 7 días.`,
+    otherDevice:     'Continuar en otro dispositivo',
+    emailLinkLabel:  'Envíeme un enlace para terminar más tarde',
+    sendLink:        'Enviar enlace',
+    linkFailed:      'No se pudo enviar el enlace.',
+    almostThere:     'Ya casi…',
+    tellUs:          'Díganos a quién enviar sus resultados.',
+    firstName:       'Nombre',
+    lastName:        'Apellido',
+    email:           'Correo electrónico',
+    firstNameRequired: 'Por favor, escriba su nombre.',
+    lastNameRequired:  'Por favor, escriba su apellido.',
+    continue:        'Continuar →',
+    backToQuiz:      '← Volver al cuestionario',
+    youreIn:         (name: string) => (name ? `¡Listo, ${name}!` : '¡Listo!'),
+    factorsTitle:    'Factores a su favor',
+    nextStepsTitle:  'Qué sigue',
+    nextSteps:       (state: string | null) => [
+      `Un abogado con licencia revisa los detalles de su caso${state ? ` en ${state}` : ''}.`,
+      'Se comunicará con usted en un plazo de 1 día hábil.',
+      'Su consulta es 100% gratuita, sin compromiso.',
+    ],
+    chatCta:         'Hable con un abogado ahora →',
+    submitted:       '🗓 Los detalles de su caso fueron enviados. Un abogado se comunicará con usted en un plazo de 1 día hábil.',
+    disclaimer:      'Esta estimación se basa en datos generales de acuerdos y no es asesoría legal. Cada caso es diferente. Los resultados dependen de los hechos específicos, la ley aplicable y muchos otros factores.',
+    newEvaluation:   '↺ Comenzar una nueva evaluación',
+    goodHands:       'Parece que está en buenas manos.',
+    goodHandsSub:    'Ya tiene un abogado luchando por usted. Siga trabajando con él — es su mejor recurso.',
+    askTitle:        'Preguntas para su abogado',
+    askList: [
+      '¿Cuál es el rango realista de acuerdo para mi caso?',
+      '¿Cuánto cobra y cuándo le pago?',
+      '¿Cuál es su estrategia con el ajustador del seguro?',
+      '¿Cuánto tiempo cree que tomará este caso?',
+      '¿Qué probabilidades hay de ir a juicio?',
+    ],
+    backHome:        '← Volver al inicio',
+    freeConsult:     'Obtenga una consulta gratuita con un abogado →',
+    startOverCaps:   '← Empezar de nuevo',
+  },
+
+  preference: {
+    almostDone:   (name: string) => (name ? `¡Ya casi terminamos, ${name}!` : '¡Ya casi terminamos!'),
+    bestTime:     '¿Cuál es el mejor momento para que un abogado se comunique con usted?',
+    howSoon:      '¿Qué tan pronto necesita ayuda?',
+    timeOfDay:    '¿Mejor hora del día?',
+    selectAll:    '(seleccione todas las que apliquen)',
+    submit:       'Ver mis resultados →',
+    urgency: {
+      asap:      { label: 'Lo antes posible', sub: 'Necesito ayuda de inmediato' },
+      today:     { label: 'Hoy',              sub: 'En las próximas horas' },
+      this_week: { label: 'Esta semana',      sub: 'Sin prisa, en unos días' },
+    },
+    hours: {
+      morning:   { label: 'Mañana', sub: '8am – 12pm' },
+      afternoon: { label: 'Tarde',  sub: '12pm – 5pm' },
+      evening:   { label: 'Noche',  sub: '5pm – 8pm' },
+    },
+  },
+
+  sms: {
+    codeText:      (code: string) => `Su código de verificación de Settlement Sam: ${code}\n\nVálido por ${OTP_MINUTES} minutos. No comparta este código.`,
+    oneLastStep:   (name: string) => (name ? `¡Un último paso, ${name}!` : '¡Un último paso!'),
+    willText:      `Le enviaremos un código de ${OTP_POLICY.length} dígitos por mensaje de texto para verificar que es usted.`,
+    sendCode:      'Envíenme mi código 📱',
+    rates:         'Pueden aplicarse tarifas estándar de mensajes. Nunca compartimos su número.',
+    invalidPhone:  'Por favor, ingrese un número de teléfono válido de 10 dígitos.',
+    codeSentTo:    (phone: string) => `Código enviado a ${phone}`,
+    enterCode:     `Ingrese el código de ${OTP_POLICY.length} dígitos de su mensaje de texto.`,
+    verifying:     'Verificando…',
+    resendIn:      (time: string) => `Reenviar código en ${time}`,
+    maxResends:    'Alcanzó el máximo de reenvíos. Actualice la página e inténtelo de nuevo.',
+    resend:        '¿No lo recibió? Reenviar código',
+    wrongNumber:   '¿Número equivocado? Volver',
+    sendFailed:    'No se pudo enviar el código.',
+    verifyFailed:  'La verificación falló.',
+  },
+
+  widget: {
+    injuriesQuestion: '¿Qué lesiones tuvo?',
+    injuriesSub:      'Elija todas las que apliquen — valoramos primero la más grave.',
+    injuries: {
+      soft_tissue: { label: 'Tejidos blandos', sub: 'Esguinces y latigazo' },
+      fracture:    { label: 'Fractura',        sub: 'Hueso roto' },
+      tbi:         { label: 'Cabeza / TCE',    sub: 'Conmoción, lesión cerebral' },
+      spinal:      { label: 'Médula espinal',  sub: 'Lesión de la médula espinal' },
+    },
+    surgeryQuestion:  '¿Tuvo cirugía?',
+    surgerySub:       'La cirugía es el factor que más aumenta el valor de un caso.',
+    surgeryYes:       { label: 'Sí, tuve cirugía', sub: 'O me han recomendado cirugía' },
+    surgeryNo:        { label: 'Sin cirugía',      sub: 'Tratado con medicamentos o terapia' },
+    wagesQuestion:    '¿Cuántos ingresos perdió?',
+    wagesSub:         'Incluya salario, sueldo o trabajo por cuenta propia. Ponga $0 si no perdió nada.',
+    seeEstimate:      'Ver mi estimación →',
+    bridgeHeadline:   'Esto es lo que encontré para usted.',
+    bridgeSub:        'Esto es solo el punto de partida — una revisión completa de 3 minutos con Sam podría ser la diferencia entre $18 mil y $180 mil.',
+    bridgeCta:        'Obtener mi revisión completa con Sam →',
+    bridgeUrgency:    '🗓 Sam revisa casos de lunes a viernes. Los espacios se llenan antes del mediodía casi todos los días.',
+    disclaimer:       'Esta estimación se basa en datos generales de acuerdos y no es asesoría legal. Cada caso es diferente. Los resultados reales dependen de los hechos específicos, la ley aplicable y muchos otros factores. Hable con un abogado con licencia para una evaluación real.',
+    gaugeWaiting:     'Esperando datos',
+    gaugeLabel:       (low: string, high: string) => `Valor estimado del caso: ${low} a ${high}`,
+  },
+
+  gate: {
+    locked:        'Verifique para ver su estimación',
+    almostThere:   '¡Ya casi!',
+    confirm:       'Solo necesitamos confirmar que es usted. 👋',
+    firstName:     'Nombre',
+    continue:      'Continuar 📱',
+    fine:          'Pueden aplicarse tarifas estándar de mensajes. Sam nunca vende su información.',
+  },
+};
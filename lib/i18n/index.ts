@@ -0,0 +1,66 @@
+/**
+ * lib/i18n/index.ts
+ * Locales for the lead-facing funnels (quiz, widget, SMS). Pure — no React.
+ *
+ * UI strings live in lib/i18n/en.ts and lib/i18n/es.ts (same shape, checked
+ * by the Messages type); quiz question text is translated by
+ * lib/i18n/questions.ts. Admin screens stay in English.
+ */
+
+import { en } from './en';
+import type { Messages } from './en';
+import { es } from './es';
+
+export type { Messages };
+
+export type Locale = 'en' | 'es';
+
+export const LOCALES: Locale[] = ['en', 'es'];
+export const DEFAULT_LOCALE: Locale = 'en';
+export const LOCALE_STORAGE_KEY = 'ss_locale';
+
+/** Each locale's name in its own language — for the language switcher. */
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+/** Lead-facing label for admin screens and firm deliveries. */
+export const LANGUAGE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  es: 'Spanish',
+};
+
+const MESSAGES: Record<Locale, Messages> = { en, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+/** The locale's UI strings. */
+export function messages(locale: Locale): Messages {
+  return MESSAGES[locale];
+}
+
+/** BCP 47 tag for Intl formatting — US English and US Spanish. */
+export function intlLocale(locale: Locale): string {
+  return locale === 'es' ? 'es-US' : 'en-US';
+}
+
+/**
+ * Picks a locale from, in order: an explicit choice (?lang= or a saved
+ * preference), then the browser's languages. Defaults to English.
+ */
+export function detectLocale(chosen: unknown, browserLanguages: readonly string[] = []): Locale {
+  if (isLocale(chosen)) return chosen;
+  for (const tag of browserLanguages) {
+    const base = tag.toLowerCase().split('-')[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/** "English" / "Spanish" for a stored preferred_language, defaulting to English. */
+export function languageName(value: unknown): string {
+  return LANGUAGE_NAMES[isLocale(value) ? value : DEFAULT_LOCALE];
+}
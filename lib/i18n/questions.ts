@@ -0,0 +1,250 @@
+/**
+ * lib/i18n/questions.ts
+ * Translations of the quiz questions (QUIZ_QUESTIONS and the incident
+ * modules). Pure — no React.
+ *
+ * English is the text in lib/quiz/questions.ts itself. Other locales overlay
+ * it by question ID and option value; anything missing falls back to
+ * English, so a new question never renders blank.
+ */
+
+import type { QuestionId, QuizOption, QuizQuestion } from '@/lib/quiz/questions';
+import type { Locale } from './index';
+
+type OptionText   = Partial<Pick<QuizOption, 'label' | 'sub' | 'warning' | 'tip' | 'reaction'>>;
+type QuestionText = { headline: string; sub?: string; options?: Record<string, OptionText> };
+
+const TIMEFRAME_OPTIONS: Record<string, OptionText> = {
+  under_6_months:   { label: 'En los últimos 6 meses' },
+  '6_to_12_months': { label: 'Hace 6 – 12 meses' },
+  '1_to_2_years':   { label: 'Hace 1 – 2 años' },
+  over_2_years:     { label: 'Hace más de 2 años' },
+};
+
+const ES: Partial<Record<QuestionId, QuestionText>> = {
+  incidentType: {
+    headline: '¿Qué tipo de incidente fue?',
+    sub:      'Elija el que mejor describa cómo se lesionó.',
+    options: {
+      motor_vehicle: { label: 'Accidente de auto / vehículo', sub: 'Auto, camión, motocicleta, transporte compartido' },
+      slip_fall:     { label: 'Resbalón y caída',             sub: 'Tropiezo o caída en propiedad ajena' },
+      workplace:     { label: 'Lesión en el trabajo',         sub: 'Accidente o enfermedad laboral' },
+      med_mal:       { label: 'Negligencia médica',           sub: 'Error quirúrgico, diagnóstico equivocado' },
+      other:         { label: 'Otro',                         sub: 'Mordedura de perro, agresión, producto defectuoso, etc.' },
+    },
+  },
+
+  // ── Incident modules ──
+  medMalType: {
+    headline: '¿Qué salió mal con su atención?',
+    sub:      'Los reclamos por negligencia médica se evalúan de forma distinta según el error.',
+    options: {
+      surgical_error:   { label: 'Error quirúrgico',              sub: 'Sitio equivocado, instrumento olvidado, procedimiento mal hecho' },
+      misdiagnosis:     { label: 'Diagnóstico erróneo o tardío',  sub: 'La condición no se detectó o se diagnosticó tarde' },
+      medication_error: { label: 'Error de medicamento',          sub: 'Medicamento, dosis o interacción equivocada' },
+      birth_injury:     { label: 'Lesión de parto',               sub: 'Lesión a la madre o al bebé durante el parto' },
+      other:            { label: 'Otra cosa',                     sub: 'Otro tipo de atención deficiente' },
+    },
+  },
+  medMalProvider: {
+    headline: '¿Quién le dio la atención?',
+    sub:      'Los hospitales, los médicos y los centros tienen seguros distintos.',
+    options: {
+      hospital:     { label: 'Un hospital o clínica' },
+      physician:    { label: 'Un médico o cirujano', sub: 'Incluye dentistas y especialistas' },
+      nursing_home: { label: 'Un hogar de ancianos', sub: 'O centro de vida asistida' },
+      pharmacy:     { label: 'Una farmacia' },
+      other:        { label: 'Otra persona' },
+    },
+  },
+  medMalDiscovered: {
+    headline: '¿Cuándo se dio cuenta de que algo salió mal?',
+    sub:      'En muchos estados el plazo empieza a contar cuando se descubrió el error.',
+    options:  TIMEFRAME_OPTIONS,
+  },
+  medMalSecondOpinion: {
+    headline: '¿Otro médico le ha dicho que su atención fue deficiente?',
+    sub:      'La mayoría de los estados exige que un experto médico respalde el reclamo.',
+    options: {
+      true:  {
+        label:    'Sí',
+        sub:      'Otro proveedor me dijo que algo salió mal',
+        reaction: 'Una opinión médica independiente es justo la base de estos casos.',
+      },
+      false: { label: 'Todavía no', sub: 'No he tenido una segunda opinión' },
+    },
+  },
+  workplaceClaim: {
+    headline: '¿Quién causó su lesión en el trabajo?',
+    sub:      'La compensación laboral cubre a su empleador. Alguien fuera de la empresa podría deberle mucho más.',
+    options: {
+      workers_comp: { label: 'Mi empleador o un compañero', sub: 'Condiciones inseguras, un error de un compañero' },
+      third_party:  {
+        label:    'Alguien fuera de mi empresa',
+        sub:      'Un contratista, fabricante de equipo, conductor o dueño de la propiedad',
+        reaction: 'Un tercero puede ser responsable más allá de la compensación laboral — eso puede cambiar el valor de su caso.',
+      },
+      both:   { label: 'Ambos', sub: 'Mi empleador y un tercero comparten la culpa' },
+      unsure: { label: 'No estoy seguro' },
+    },
+  },
+  vehicleType: {
+    headline: '¿Qué tipo de vehículo lo chocó?',
+    sub:      'Los vehículos de transporte compartido y de empresa suelen tener pólizas de seguro mucho mayores.',
+    options: {
+      personal:   { label: 'Un auto o camioneta personal' },
+      rideshare:  { label: 'Un transporte compartido', sub: 'Uber, Lyft — como pasajero o el otro conductor' },
+      commercial: { label: 'Un vehículo comercial',    sub: 'Tráiler, camioneta de reparto, autobús, auto de empresa' },
+    },
+  },
+  policeReport: {
+    headline: '¿La policía hizo un informe?',
+    sub:      'Un informe es una prueba sólida de quién causó el choque.',
+    options: {
+      yes:    { label: 'Sí' },
+      no:     { label: 'No', tip: 'No tener informe está bien — fotos, testigos y expedientes médicos también pueden demostrar lo que pasó.' },
+      unsure: { label: 'No estoy seguro' },
+    },
+  },
+
+  // ── Core questions ──
+  injuryTypes: {
+    headline: '¿Qué lesiones sufrió?',
+    sub:      'Seleccione todas las que apliquen — su lesión más grave determina el valor inicial.',
+    options: {
+      soft_tissue: { label: 'Tejidos blandos', sub: 'Esguinces, torceduras, latigazo' },
+      fracture:    { label: 'Fractura',        sub: 'Hueso roto o fisurado' },
+      tbi:         { label: 'Cabeza / TCE',    sub: 'Conmoción, traumatismo craneoencefálico' },
+      spinal:      { label: 'Columna',         sub: 'Hernia de disco, lesión de la médula espinal' },
+    },
+  },
+  state: {
+    headline: '¿En qué estado vive?',
+    sub:      'Las leyes y los acuerdos promedio varían mucho de un estado a otro.',
+  },
+  governmentDefendant: {
+    headline: '¿Estuvo involucrada una agencia o empleado del gobierno?',
+    sub:      'Por ejemplo, un autobús de la ciudad, un vehículo de policía, un edificio público o una carretera.',
+    options: {
+      true:  { label: 'Sí', sub: 'Una ciudad, condado, estado o el gobierno federal' },
+      false: { label: 'No', sub: 'Una persona o empresa privada' },
+    },
+  },
+  incidentTimeframe: {
+    headline: '¿Cuándo ocurrió?',
+    sub:      'El tiempo importa por los plazos de prescripción.',
+    options:  TIMEFRAME_OPTIONS,
+  },
+  faultLevel: {
+    headline: '¿Usted tuvo la culpa del incidente?',
+    sub:      'Sea honesto — así Sam le puede dar un panorama realista.',
+    options: {
+      none:    { label: 'No — la otra parte tuvo la culpa', sub: 'Ellos causaron el accidente' },
+      partial: {
+        label: 'En parte — ambos tuvimos algo de culpa',
+        sub:   'Ellos tuvieron más culpa que yo',
+        tip:   'Compartir la culpa no termina su caso. En la mayoría de los estados solo reduce lo que puede recuperar.',
+      },
+      mostly:  { label: 'Casi toda — yo tuve más culpa',  sub: 'Pero la otra parte contribuyó' },
+      fully:   { label: 'Sí — fue totalmente mi culpa',    sub: 'El accidente fue mi culpa' },
+    },
+  },
+  receivedTreatment: {
+    headline: '¿Recibió tratamiento médico?',
+    sub:      'El tratamiento documentado es la base de cualquier reclamo por lesiones.',
+    options: {
+      er_doctor:    { label: 'Sí — médico o sala de emergencias', sub: 'Incluye atención urgente, especialista, quiropráctico' },
+      self_treated: { label: 'Sí — me traté yo mismo',           sub: 'Medicinas sin receta, reposo, sin atención formal' },
+      none: {
+        label: 'Todavía sin tratamiento',
+        sub:   'No he visto a un médico',
+        tip:   'Documentar su tratamiento es lo más importante que puede hacer ahora. Incluso una visita al médico hace una gran diferencia en su caso.',
+      },
+    },
+  },
+  hospitalized: {
+    headline: '¿Estuvo hospitalizado?',
+    sub:      'Pasar la noche en el hospital o ser ingresado desde emergencias aumenta mucho el valor del caso.',
+    options: {
+      true:  { label: 'Sí', sub: 'Ingresado una noche o más' },
+      false: { label: 'No', sub: 'Solo visita a emergencias o atención urgente' },
+    },
+  },
+  hasSurgery: {
+    headline: '¿Tuvo (o necesita) cirugía?',
+    sub:      'La cirugía es el mayor multiplicador del valor de un acuerdo.',
+    options: {
+      true: {
+        label:    'Sí — tuve cirugía',
+        sub:      'O me han recomendado cirugía',
+        reaction: 'La cirugía es lo que más aumenta el valor de un caso. Es un factor importante a su favor.',
+      },
+      false: { label: 'Sin cirugía', sub: 'Tratado con medicamentos o terapia' },
+    },
+  },
+  stillInTreatment: {
+    headline: '¿Sigue recibiendo tratamiento?',
+    sub:      'El tratamiento continuo demuestra que la lesión tiene un impacto duradero.',
+    options: {
+      yes:       { label: 'Sí — sigo en tratamiento', sub: 'Terapia física, visitas al especialista, etc.' },
+      no:        { label: 'Terminé el tratamiento',   sub: 'Me dieron de alta o me recuperé' },
+      sometimes: { label: 'Tratamiento ocasional',    sub: 'Cuando lo necesito, por recaídas' },
+    },
+  },
+  medicalBills: {
+    headline: '¿Aproximadamente cuánto suman sus gastos médicos?',
+    sub:      'Un cálculo aproximado está bien — déjelo en blanco si no está seguro.',
+  },
+  missedWork: {
+    headline: '¿Faltó al trabajo por su lesión?',
+    sub:      'Los ingresos perdidos son daños económicos — se suman directamente a su acuerdo.',
+    options: {
+      yes_missed:    { label: 'Sí — falté al trabajo',   sub: 'He faltado total o parcialmente' },
+      yes_cant_work: { label: 'Sí — no puedo trabajar',  sub: 'Totalmente incapaz de trabajar' },
+      no:            { label: 'No — seguí trabajando',   sub: 'O no tengo empleo' },
+    },
+  },
+  insuranceContact: {
+    headline: '¿Alguien se ha comunicado con usted sobre un reclamo de seguro?',
+    sub:      'Esto ayuda a Sam a entender cómo están las cosas con la otra parte.',
+    options: {
+      they_contacted: {
+        label: 'Ellos se comunicaron conmigo',
+        sub:   'El seguro llamó o escribió primero',
+        tip:   'Tenga cuidado con lo que dice — todo queda registrado. No dé una declaración grabada sin un abogado.',
+      },
+      got_letter: {
+        label: 'Recibí una carta o una oferta',
+        sub:   'Un ajustador ya ofreció algo',
+        tip:   'No firme nada sin conocer el valor completo de su caso. La primera oferta casi siempre es muy baja.',
+      },
+      not_yet: { label: 'Sin contacto todavía', sub: 'Nadie se ha comunicado hasta ahora' },
+    },
+  },
+  atFaultCoverage: {
+    headline: '¿Conoce los límites de los seguros involucrados?',
+    sub:      'Un acuerdo solo se puede pagar con la cobertura disponible. Está bien si no lo sabe.',
+  },
+  hasAttorney: {
+    headline: '¿Tiene un abogado actualmente?',
+    sub:      'Solo queremos asegurarnos de que Sam no interfiera con nadie.',
+    options: {
+      no:  { label: 'No — no tengo abogado',    sub: 'Para eso está Sam' },
+      yes: { label: 'Sí — tengo representación', sub: 'Actualmente trabajo con un abogado' },
+    },
+  },
+};
+
+const TRANSLATIONS: Record<Locale, Partial<Record<QuestionId, QuestionText>>> = { en: {}, es: ES };
+
+/** The question with its text in `locale`; English text is kept where no translation exists. */
+export function localizeQuestion(q: QuizQuestion, locale: Locale): QuizQuestion {
+  const text = TRANSLATIONS[locale][q.id];
+  if (!text) return q;
+  return {
+    ...q,
+    headline: text.headline,
+    sub:      text.sub ?? q.sub,
+    options:  q.options?.map(opt => ({ ...opt, ...text.options?.[opt.value] })),
+  };
+}
@@ -0,0 +1,34 @@
+'use client';
+/**
+ * lib/i18n/useLocale.ts
+ * The visitor's funnel language. Starts in English so server and client
+ * render the same markup, then switches on mount to ?lang=, a saved choice,
+ * or the browser's language. Choices made with setLocale are remembered.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY, detectLocale, isLocale } from './index';
+import type { Locale } from './index';
+
+export function useLocale(fixed?: Locale): [Locale, (locale: Locale) => void] {
+  const [locale, setLocaleState] = useState<Locale>(fixed ?? DEFAULT_LOCALE);
+
+  useEffect(() => {
+    if (fixed) { setLocaleState(fixed); return; }
+    let saved: string | null = null;
+    try { saved = localStorage.getItem(LOCALE_STORAGE_KEY); } catch { /* storage blocked */ }
+    const param = new URLSearchParams(window.location.search).get('lang');
+    setLocaleState(detectLocale(isLocale(param) ? param : saved, navigator.languages ?? []));
+  }, [fixed]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try { localStorage.setItem(LOCALE_STORAGE_KEY, next); } catch { /* storage blocked */ }
+  }, []);
+
+  return [locale, setLocale];
+}
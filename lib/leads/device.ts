@@ -0,0 +1,23 @@
+/**
+ * lib/leads/device.ts
+ * Browser-side device ID sent with lead submissions so intake can spot many
+ * leads from one device (lib/leads/quality.ts), and with SMS and attorney
+ * requests as a rate-limit key (lib/rateLimit). Client only.
+ *
+ * A random ID in localStorage — not a fingerprint, and cleared with the
+ * browser's site data.
+ */
+
+const DEVICE_KEY = 'ss_device_id';
+
+export function intakeDeviceId(): string | null {
+  try {
+    const existing = localStorage.getItem(DEVICE_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    localStorage.setItem(DEVICE_KEY, id);
+    return id;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * lib/leads/duplicateStore.ts
+ * Firestore side of duplicate detection and merging (see ./duplicates.ts).
+ * Server only — never import in client components.
+ *
+ * Leads stored before email_normalized existed still match on phone and
+ * name + state.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { duplicateGroupFor, findDuplicateMatches, keepRecordError, mergedFields, normalizeEmail, pickPrimary } from './duplicates';
+import type { DuplicateMatch } from './duplicates';
+
+type StoredLead = FsLead & { id: string };
+
+const COLLECTION = 'leads';
+
+/** Upper bound on same-state leads scanned for a name match. */
+const STATE_SCAN_LIMIT = 500;
+
+function docs(snap: FirebaseFirestore.QuerySnapshot): StoredLead[] {
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as StoredLead));
+}
+
+/**
+ * Verified leads that look like the same person as `lead`, oldest first.
+ * The same-state scan is best-effort: if it fails, phone and email matches
+ * are still returned.
+ */
+export async function findDuplicates(lead: Pick<FsLead, 'name' | 'phone' | 'email' | 'state'>, excludeId?: string): Promise<DuplicateMatch[]> {
+  const leads = adminDb.collection(COLLECTION);
+  const email = normalizeEmail(lead.email);
+
+  const [byPhone, byEmail, byState] = await Promise.all([
+    leads.where('phone', '==', lead.phone).get(),
+    email      ? leads.where('email_normalized', '==', email).get() : null,
+    lead.state
+      ? leads.where('state', '==', lead.state).orderBy('timestamp', 'desc').limit(STATE_SCAN_LIMIT).get()
+        .catch(err => {
+          console.error('[duplicates] State scan failed:', err instanceof Error ? err.message : err);
+          return null;
+        })
+      : null,
+  ]);
+
+  const candidates = [byPhone, byEmail, byState].flatMap(snap => (snap ? docs(snap) : []));
+  return findDuplicateMatches(lead, candidates, excludeId);
+}
+
+/**
+ * Puts `leadId` and its matches in one duplicate group. Returns the group
+ * ID, or null when there were no matches.
+ */
+export async function linkDuplicates(leadId: string, matches: DuplicateMatch[]): Promise<string | null> {
+  const group = duplicateGroupFor(matches);
+  if (!group) return null;
+
+  const batch = adminDb.batch();
+  const ref   = (id: string) => adminDb.collection(COLLECTION).doc(id);
+  batch.update(ref(leadId), {
+    duplicate_group:   group,
+    duplicate_reasons: [...new Set(matches.flatMap(m => m.reasons))],
+  });
+  for (const m of matches) {
+    if (m.duplicate_group !== group) batch.update(ref(m.id), { duplicate_group: group, duplicate_reasons: m.reasons });
+  }
+  await batch.commit();
+  return group;
+}
+
+/** Every lead in a duplicate group, merged records included, oldest first. */
+export async function loadDuplicateGroup(group: string): Promise<StoredLead[]> {
+  const snap = await adminDb.collection(COLLECTION).where('duplicate_group', '==', group).get();
+  return docs(snap).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export interface MergeResult {
+  primaryId: string;
+  merged:    string[];
+}
+
+/**
+ * Keeps one record of a group — `keepId`, or the best by pickPrimary — and
+ * folds the other open records into it. Throws when the group has nothing
+ * to merge or `keepId` can't be kept (see keepRecordError).
+ */
+export async function mergeDuplicateGroup(group: string, keepId?: string): Promise<MergeResult> {
+  const open = (await loadDuplicateGroup(group)).filter(l => !l.merged_into);
+  if (open.length < 2) throw new Error('Nothing to merge — this group has one open record.');
+
+  const keepError = keepId ? keepRecordError(open, keepId) : null;
+  if (keepError) throw new Error(keepError);
+  const primary = keepId ? open.find(l => l.id === keepId)! : pickPrimary(open);
+
+  const others = open.filter(l => l.id !== primary.id);
+  const now    = Date.now();
+  const batch  = adminDb.batch();
+  const ref    = (id: string) => adminDb.collection(COLLECTION).doc(id);
+
+  batch.update(ref(primary.id), { ...mergedFields(primary, others), merged_at: now });
+  for (const o of others) batch.update(ref(o.id), { merged_into: primary.id, merged_at: now });
+  await batch.commit();
+
+  return { primaryId: primary.id, merged: others.map(o => o.id) };
+}
@@ -0,0 +1,231 @@
+/**
+ * lib/leads/duplicates.ts
+ * Duplicate leads: the same person verifying more than once (e.g. the widget,
+ * then the quiz). Matches on normalized phone, normalized email, or a fuzzy
+ * name within the same state. Matched leads share a duplicate_group; the
+ * admin merge tool keeps the best record and folds the rest into it, and
+ * distribution refuses to deliver a known duplicate.
+ *
+ * Pure — no Firestore. Server code lives in lib/leads/duplicateStore.ts.
+ */
+
+import type { FsLead } from '@/lib/firebase/types';
+
+export type DuplicateReason = 'phone' | 'email' | 'name_state';
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  phone:      'Same phone',
+  email:      'Same email',
+  name_state: 'Similar name, same state',
+};
+
+/** Names at least this similar (0–1) match when the state matches too. */
+export const NAME_SIMILARITY_MIN = 0.85;
+
+// ── Normalization ─────────────────────────────────────────────────────────────
+
+/** Last 10 digits of a US phone number. */
+export function normalizePhone(raw: string | null | undefined): string {
+  const digits = String(raw ?? '').replace(/\D/g, '');
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+}
+
+/**
+ * Lowercased email without a "+tag"; Gmail addresses also drop dots.
+ * Null when there is no usable address.
+ */
+export function normalizeEmail(raw: string | null | undefined): string | null {
+  const email = String(raw ?? '').trim().toLowerCase();
+  const at    = email.lastIndexOf('@');
+  if (at <= 0 || at === email.length - 1) return null;
+
+  let local  = email.slice(0, at).split('+')[0];
+  let domain = email.slice(at + 1);
+  if (domain === 'gmail.com' || domain === 'googlemail.com') {
+    local  = local.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return local ? `${local}@${domain}` : null;
+}
+
+/** Lowercase letters and single spaces — accents, punctuation and extra spaces removed. */
+export function normalizeName(raw: string | null | undefined): string {
+  return String(raw ?? '')
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ── Fuzzy names ───────────────────────────────────────────────────────────────
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const len = Math.max(a.length, b.length);
+  return len === 0 ? 0 : 1 - levenshtein(a, b) / len;
+}
+
+/**
+ * 0–1 similarity of two full names, ignoring word order. Names with fewer
+ * than two words score 0 — a lone first name is too common to match on.
+ */
+export function nameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (na.split(' ').length < 2 || nb.split(' ').length < 2) return 0;
+  const sorted = (n: string) => n.split(' ').sort().join(' ');
+  return Math.max(similarity(na, nb), similarity(sorted(na), sorted(nb)));
+}
+
+// ── Matching ──────────────────────────────────────────────────────────────────
+
+type MatchFields = Pick<FsLead, 'name' | 'phone' | 'email' | 'state'>;
+
+/** Why `a` and `b` look like the same person; empty when they do not. */
+export function duplicateReasons(a: MatchFields, b: MatchFields): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+
+  const phone = normalizePhone(a.phone);
+  if (phone.length === 10 && phone === normalizePhone(b.phone)) reasons.push('phone');
+
+  const email = normalizeEmail(a.email);
+  if (email && email === normalizeEmail(b.email)) reasons.push('email');
+
+  if (a.state && a.state === b.state && nameSimilarity(a.name, b.name) >= NAME_SIMILARITY_MIN) {
+    reasons.push('name_state');
+  }
+  return reasons;
+}
+
+export interface DuplicateMatch {
+  id:               string;
+  reasons:          DuplicateReason[];
+  duplicate_group:  string | null;
+  timestamp:        number;
+}
+
+type Candidate = MatchFields & Pick<FsLead, 'timestamp' | 'duplicate_group' | 'merged_into' | 'verified'> & { id: string };
+
+/** Verified, unmerged candidates that match `lead`, oldest first. */
+export function findDuplicateMatches(lead: MatchFields, candidates: Candidate[], excludeId?: string): DuplicateMatch[] {
+  const unique = [...new Map(candidates.map(c => [c.id, c])).values()];
+  return unique
+    .filter(c => c.id !== excludeId && c.verified && !c.merged_into)
+    .map(c => ({
+      id:              c.id,
+      reasons:         duplicateReasons(lead, c),
+      duplicate_group: c.duplicate_group ?? null,
+      timestamp:       c.timestamp,
+    }))
+    .filter(m => m.reasons.length > 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** The group a new lead joins: the oldest match's existing group, else the oldest match's ID. */
+export function duplicateGroupFor(matches: DuplicateMatch[]): string | null {
+  if (matches.length === 0) return null;
+  return matches.find(m => m.duplicate_group)?.duplicate_group ?? matches[0].id;
+}
+
+// ── Merging ───────────────────────────────────────────────────────────────────
+
+type PrimaryFields = Pick<FsLead,
+  'name' | 'email' | 'state' | 'verified' | 'delivered' | 'score' | 'timestamp' | 'incident_type' | 'contact_preference'
+> & { id: string };
+
+/** Filled-in fields that make a record more useful to a firm. */
+export function leadCompleteness(lead: Omit<PrimaryFields, 'id'>): number {
+  return [
+    normalizeName(lead.name).split(' ').length >= 2,
+    Boolean(lead.email),
+    Boolean(lead.state),
+    Boolean(lead.incident_type),
+    Boolean(lead.contact_preference),
+  ].filter(Boolean).length;
+}
+
+/**
+ * The record to keep: an already-delivered lead (a firm holds it), then
+ * verified, then the higher score, the more complete record, and finally
+ * the earliest.
+ */
+export function pickPrimary<T extends PrimaryFields>(leads: T[]): T {
+  return [...leads].sort((a, b) =>
+    Number(b.delivered) - Number(a.delivered)
+    || Number(b.verified) - Number(a.verified)
+    || b.score - a.score
+    || leadCompleteness(b) - leadCompleteness(a)
+    || a.timestamp - b.timestamp,
+  )[0];
+}
+
+/**
+ * Why `keepId` can't be the record kept from `open`, or null when it can.
+ * A delivered record must be the one kept: merging it into another would
+ * let that one be delivered (sold) a second time.
+ */
+export function keepRecordError(open: PrimaryFields[], keepId: string): string | null {
+  const keep = open.find(l => l.id === keepId);
+  if (!keep) return 'The record to keep is not an open member of this group.';
+  if (!keep.delivered && open.some(l => l.delivered)) {
+    return 'This group has a delivered record — keep that one.';
+  }
+  return null;
+}
+
+/** Fields the kept record takes from the others when it has none of its own. */
+export const MERGE_FILL_FIELDS = [
+  'email', 'state', 'carrier', 'incident_type', 'incident_timeframe', 'preferred_language', 'contact_preference',
+] as const satisfies readonly (keyof FsLead)[];
+
+/**
+ * Updates for the kept record: its empty MERGE_FILL_FIELDS filled from the
+ * others (newest first), every touchpoint, and the IDs merged into it.
+ */
+export function mergedFields(primary: FsLead & { id: string }, others: (FsLead & { id: string })[]): Partial<FsLead> {
+  const patch: Partial<FsLead> = {};
+  const newest = [...others].sort((a, b) => b.timestamp - a.timestamp);
+
+  for (const field of MERGE_FILL_FIELDS) {
+    if (primary[field]) continue;
+    const donor = newest.find(o => o[field]);
+    if (donor) Object.assign(patch, { [field]: donor[field] });
+  }
+
+  const byTime = [primary, ...others].sort((a, b) => a.timestamp - b.timestamp);
+  patch.touchpoints = [...new Set(byTime.flatMap(l => l.touchpoints ?? [l.source]))];
+  patch.merged_from = [...new Set([...(primary.merged_from ?? []), ...others.map(o => o.id)])];
+  return patch;
+}
+
+// ── Delivery ──────────────────────────────────────────────────────────────────
+
+/** Why a lead may not be delivered, or null when it may. */
+export type DuplicateBlock = 'merged' | 'duplicate_delivered' | 'unresolved_duplicate';
+
+type GroupMember = Pick<FsLead, 'verified' | 'delivered' | 'merged_into'> & { id: string };
+
+/**
+ * Checks `lead` against the other members of its duplicate group. A merged
+ * record is never delivered; nor is a lead whose duplicate was already
+ * delivered, merged or not; an open group must be merged first.
+ */
+export function duplicateDeliveryBlock(lead: GroupMember, group: GroupMember[]): DuplicateBlock | null {
+  if (lead.merged_into) return 'merged';
+  const others = group.filter(g => g.id !== lead.id);
+  if (others.some(g => g.delivered)) return 'duplicate_delivered';
+  if (others.some(g => !g.merged_into && g.verified)) return 'unresolved_duplicate';
+  return null;
+}
@@ -0,0 +1,95 @@
+/**
+ * lib/leads/nurture.ts
+ * The nurture job: emails partial leads a reminder to finish verification.
+ * Server only — never import in client components.
+ *
+ * Reminders follow NURTURE_DELAYS_MS (lib/leads/partial.ts). Quiz leads get
+ * a resume link to their saved answers; widget leads a link to the quiz.
+ * Leads without an email can only be retargeted by hand from the admin tab.
+ */
+
+import nodemailer from 'nodemailer';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { signResumeToken } from '@/lib/quiz/draftStore';
+import { nurtureDue } from './partial';
+
+const GMAIL_USER = process.env.GMAIL_USER;
+const GMAIL_PASS = process.env.GMAIL_APP_PASSWORD;
+
+function createMailer() {
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: { user: GMAIL_USER, pass: GMAIL_PASS },
+  });
+}
+
+export interface NurtureResult {
+  scanned: number;   // partial leads checked
+  sent:    number;   // reminders sent
+  failed:  number;   // reminders that could not be sent (retried next run)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function reminderHtml(lead: FsLead, link: string): string {
+  // The name is whatever an unverified visitor typed
+  const firstName = escapeHtml(lead.name.split(' ')[0].slice(0, 40) || 'there');
+  return `
+    <div style="font-family:sans-serif;max-width:560px;margin:0 auto;color:#2C3E35">
+      <h2 style="color:#E8A838">You're one step away, ${firstName}.</h2>
+      <p>Your free case review is saved — it only needs a quick text-message check to confirm it's really you.</p>
+      <p style="text-align:center;margin:28px 0">
+        <a href="${link}" style="background:#4A7C59;color:#fff;padding:14px 28px;border-radius:10px;text-decoration:none;font-weight:700">
+          Finish My Case Review
+        </a>
+      </p>
+      <p style="font-size:13px;color:#6B7C74">Injury claims have filing deadlines, so it's worth finishing soon. Didn't start a review? You can ignore this email.</p>
+    </div>
+  `;
+}
+
+/**
+ * Sends every reminder due at `now`. `origin` is the site URL the links
+ * point to. Throws if Gmail is not configured.
+ */
+export async function sendDueReminders(origin: string, now = Date.now()): Promise<NurtureResult> {
+  if (!GMAIL_USER || !GMAIL_PASS) throw new Error('Gmail is not configured.');
+
+  const snap   = await adminDb.collection('leads').where('verified', '==', false).get();
+  const mailer = createMailer();
+  let sent   = 0;
+  let failed = 0;
+
+  for (const doc of snap.docs) {
+    const lead = doc.data() as FsLead;
+    if (!nurtureDue(lead, now)) continue;
+
+    const link = lead.resume_draft_id
+      ? `${origin}/quiz?resume=${encodeURIComponent(signResumeToken(lead.resume_draft_id))}`
+      : `${origin}/quiz`;
+
+    try {
+      await mailer.sendMail({
+        from:    `"Settlement Sam" <${GMAIL_USER}>`,
+        to:      lead.email!,
+        subject: 'Your case review is almost done',
+        html:    reminderHtml(lead, link),
+      });
+      await doc.ref.update({ nurture_count: (lead.nurture_count ?? 0) + 1, last_nurture_at: now });
+      sent++;
+    } catch (err) {
+      console.error(`[nurture] Reminder to lead ${doc.id} failed:`, err instanceof Error ? err.message : err);
+      failed++;
+    }
+  }
+
+  return { scanned: snap.size, sent, failed };
+}
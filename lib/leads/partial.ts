@@ -0,0 +1,83 @@
+/**
+ * lib/leads/partial.ts
+ * Partial leads: visitors who entered a name and phone but never finished
+ * SMS verification. Stored in `leads` with verified: false and retargeted
+ * with nurture reminders until they verify or the reminders run out.
+ *
+ * Pure — no Firestore. Server code lives in /api/leads/partial and
+ * /api/admin/retargeting.
+ */
+
+import type { FsLead } from '@/lib/firebase/types';
+
+// ── Capture ───────────────────────────────────────────────────────────────────
+
+/** Longest name kept on a partial lead — it goes into nurture emails. */
+export const MAX_PARTIAL_NAME_LENGTH = 80;
+
+/** A submitted name as stored on a partial lead: markup stripped, whitespace collapsed, capped. */
+export function cleanPartialName(raw: unknown): string {
+  return String(raw ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/[<>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_PARTIAL_NAME_LENGTH)
+    .trim();
+}
+
+type SubmitterFields = Pick<FsLead, 'ip_hash' | 'device_id'>;
+
+/**
+ * True when a capture may replace the stored partial for its phone: it comes
+ * from the same device or IP. Anyone else could otherwise swap in their own
+ * name and email, which verify-code then keeps on the verified lead.
+ */
+export function sameSubmitter(stored: SubmitterFields, capture: SubmitterFields): boolean {
+  return Boolean(
+    (stored.device_id && stored.device_id === capture.device_id) ||
+    (stored.ip_hash   && stored.ip_hash   === capture.ip_hash),
+  );
+}
+
+/** Reminder n is due this long after capture. Keep the last within DRAFT_TTL_MS. */
+export const NURTURE_DELAYS_MS = [
+  60 * 60 * 1_000,             // 1 hour
+  24 * 60 * 60 * 1_000,        // 1 day
+  3 * 24 * 60 * 60 * 1_000,    // 3 days
+];
+
+type NurtureFields = Pick<FsLead, 'verified' | 'email' | 'timestamp' | 'nurture_count'>;
+
+/** True when an unverified lead with an email has a reminder due at `now`. */
+export function nurtureDue(lead: NurtureFields, now = Date.now()): boolean {
+  const sent = lead.nurture_count ?? 0;
+  if (lead.verified || !lead.email || sent >= NURTURE_DELAYS_MS.length) return false;
+  return now - lead.timestamp >= NURTURE_DELAYS_MS[sent];
+}
+
+/** When the next reminder goes out, or null if none will. */
+export function nextNurtureAt(lead: NurtureFields): number | null {
+  const sent = lead.nurture_count ?? 0;
+  if (lead.verified || !lead.email || sent >= NURTURE_DELAYS_MS.length) return null;
+  return lead.timestamp + NURTURE_DELAYS_MS[sent];
+}
+
+// ── Retargeting summary ───────────────────────────────────────────────────────
+
+export interface RetargetingSummary {
+  partial:   number;   // unverified leads
+  reachable: number;   // …with an email to remind
+  nurtured:  number;   // …sent at least one reminder
+  recovered: number;   // verified after at least one reminder
+}
+
+export function retargetingSummary(leads: Pick<FsLead, 'verified' | 'email' | 'nurture_count'>[]): RetargetingSummary {
+  const partial = leads.filter(l => !l.verified);
+  return {
+    partial:   partial.length,
+    reachable: partial.filter(l => l.email).length,
+    nurtured:  partial.filter(l => (l.nurture_count ?? 0) > 0).length,
+    recovered: leads.filter(l => l.verified && (l.nurture_count ?? 0) > 0).length,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * lib/leads/quality.ts
+ * Fraud and quality signals checked at intake, on top of SMS verification.
+ * Each signal is a flag with a weight; the weights add up to a 0–100 risk
+ * score, and a lead at or above QUALITY_HOLD_RISK is held from distribution
+ * until an admin releases it.
+ *
+ * Pure — no Firestore. The velocity counts and disposable-email check are
+ * gathered by lib/leads/qualityStore.ts.
+ */
+
+import type { FsLead } from '@/lib/firebase/types';
+import { areaCodeState } from './areaCodes';
+
+export type QualityFlag =
+  | 'disposable_email'
+  | 'area_code_mismatch'
+  | 'ip_velocity'
+  | 'device_velocity'
+  | 'implausible_answers'
+  | 'fast_completion';
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, string> = {
+  disposable_email:    'Disposable email domain',
+  area_code_mismatch:  "Area code doesn't match state",
+  ip_velocity:         'Many leads from this IP',
+  device_velocity:     'Many leads from this device',
+  implausible_answers: 'Implausible answers',
+  fast_completion:     'Quiz finished too fast',
+};
+
+/**
+ * Risk points per flag. Area codes are weak on their own — people keep
+ * their number when they move.
+ */
+export const QUALITY_FLAG_WEIGHTS: Record<QualityFlag, number> = {
+  disposable_email:    40,
+  area_code_mismatch:  15,
+  ip_velocity:         35,
+  device_velocity:     45,
+  implausible_answers: 30,
+  fast_completion:     30,
+};
+
+/** Leads at or above this risk are held from distribution. */
+export const QUALITY_HOLD_RISK = 50;
+
+/** How far back submission velocity looks. */
+export const VELOCITY_WINDOW_MS = 24 * 60 * 60 * 1_000;
+
+/** Other phone numbers allowed from one IP or device within the window. */
+export const VELOCITY_MAX_OTHERS = 2;
+
+/** A fresh quiz finished faster than this was likely not read. */
+export const MIN_QUIZ_DURATION_MS = 45_000;
+
+// ── Signals ───────────────────────────────────────────────────────────────────
+
+/** True when the phone's area code belongs to a different state than the one chosen. */
+export function areaCodeMismatch(phone: string, state: string | null): boolean {
+  if (!state) return false;
+  const codeState = areaCodeState(phone);
+  return codeState != null && codeState !== state;
+}
+
+interface AnswerFields {
+  surgery:           boolean;
+  hospitalized:      boolean;
+  /** The quiz's receivedTreatment answer (TreatmentStatus); null for the widget. */
+  receivedTreatment: string | null;
+}
+
+/** Answer combinations a real accident victim would not give — surgery or a hospital stay with no treatment. */
+export function implausibleAnswers(answers: AnswerFields): boolean {
+  return answers.receivedTreatment === 'none' && (answers.surgery || answers.hospitalized);
+}
+
+// ── Assessment ────────────────────────────────────────────────────────────────
+
+export interface QualityInputs extends AnswerFields {
+  phone:            string;
+  state:            string | null;
+  source:           string;
+  disposableEmail:  boolean;
+  /** Distinct other phones submitted from this IP / device within VELOCITY_WINDOW_MS. */
+  ipOthers:         number;
+  deviceOthers:     number;
+  /** Time from the first quiz question to submission; null when resumed or prefilled. */
+  durationMs:       number | null;
+}
+
+export interface LeadQuality {
+  quality_flags: QualityFlag[];
+  quality_risk:  number;
+  quality_hold:  boolean;
+}
+
+export function assessQuality(inputs: QualityInputs): LeadQuality {
+  const flags: QualityFlag[] = [];
+  if (inputs.disposableEmail)                              flags.push('disposable_email');
+  if (areaCodeMismatch(inputs.phone, inputs.state))        flags.push('area_code_mismatch');
+  if (inputs.ipOthers     > VELOCITY_MAX_OTHERS)           flags.push('ip_velocity');
+  if (inputs.deviceOthers > VELOCITY_MAX_OTHERS)           flags.push('device_velocity');
+  if (implausibleAnswers(inputs))                          flags.push('implausible_answers');
+  if (inputs.source === 'quiz' && inputs.durationMs != null && inputs.durationMs < MIN_QUIZ_DURATION_MS) {
+    flags.push('fast_completion');
+  }
+
+  const risk = Math.min(100, flags.reduce((sum, f) => sum + QUALITY_FLAG_WEIGHTS[f], 0));
+  return { quality_flags: flags, quality_risk: risk, quality_hold: risk >= QUALITY_HOLD_RISK };
+}
+
+/** Distinct phones other than `phone` among recent intake records. */
+export function otherPhones(records: Pick<FsLead, 'phone' | 'timestamp'>[], phone: string, now: number): number {
+  const since = now - VELOCITY_WINDOW_MS;
+  return new Set(records.filter(r => r.timestamp >= since && r.phone !== phone).map(r => r.phone)).size;
+}
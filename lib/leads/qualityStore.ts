@@ -0,0 +1,79 @@
+/**
+ * lib/leads/qualityStore.ts
+ * Gathers the intake quality signals (see ./quality.ts) for a submission.
+ * Server only — never import in client components.
+ */
+
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead } from '@/lib/firebase/types';
+import { requestIp } from '@/lib/rateLimit/rateLimitStore';
+import { isDisposableEmail } from '@/lib/validate-email-server';
+import { assessQuality, otherPhones } from './quality';
+import type { LeadQuality } from './quality';
+import type { NewLead } from './submission';
+
+/** Leads scanned per IP or device for velocity. */
+const VELOCITY_SCAN_LIMIT = 50;
+
+/** Longest plausible quiz duration accepted from the client (a day). */
+const MAX_DURATION_MS = 24 * 60 * 60 * 1_000;
+
+export type IntakeFields = Pick<FsLead, 'ip_hash' | 'device_id' | 'quiz_duration_ms'>;
+
+/** The submitter's hashed IP, device ID and quiz duration, as stored on the lead. */
+export function intakeFields(req: NextRequest, body: Record<string, unknown>): IntakeFields {
+  const ip = requestIp(req);
+  const duration = Number(body.durationMs);
+  return {
+    ip_hash:          ip ? crypto.createHash('sha256').update(ip).digest('hex') : null,
+    device_id:        typeof body.deviceId === 'string' && body.deviceId ? body.deviceId.slice(0, 64) : null,
+    quiz_duration_ms: Number.isFinite(duration) && duration > 0 ? Math.min(Math.round(duration), MAX_DURATION_MS) : null,
+  };
+}
+
+/**
+ * Recent leads from the same IP or device. Best-effort: a failed lookup counts
+ * as none, so the checks that need no query still run.
+ */
+async function recentFrom(field: 'ip_hash' | 'device_id', value: string | null | undefined): Promise<FsLead[]> {
+  if (!value) return [];
+  try {
+    const snap = await adminDb.collection('leads')
+      .where(field, '==', value)
+      .orderBy('timestamp', 'desc')
+      .limit(VELOCITY_SCAN_LIMIT)
+      .get();
+    return snap.docs.map(d => d.data() as FsLead);
+  } catch (err) {
+    console.error(`[quality] Velocity lookup by ${field} failed:`, err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+/** Runs every intake check for a lead about to be stored. */
+export async function assessLeadQuality(
+  lead:              NewLead & IntakeFields,
+  receivedTreatment: unknown,
+  now = Date.now(),
+): Promise<LeadQuality> {
+  const [disposableEmail, byIp, byDevice] = await Promise.all([
+    lead.email ? isDisposableEmail(lead.email) : false,
+    recentFrom('ip_hash', lead.ip_hash),
+    recentFrom('device_id', lead.device_id),
+  ]);
+
+  return assessQuality({
+    phone:             lead.phone,
+    state:             lead.state,
+    source:            lead.source,
+    surgery:           lead.surgery,
+    hospitalized:      lead.hospitalized,
+    receivedTreatment: typeof receivedTreatment === 'string' ? receivedTreatment : null,
+    disposableEmail,
+    ipOthers:          otherPhones(byIp, lead.phone, now),
+    deviceOthers:      otherPhones(byDevice, lead.phone, now),
+    durationMs:        lead.quiz_duration_ms ?? null,
+  });
+}
@@ -0,0 +1,236 @@
+/**
+ * lib/leads/submission.ts
+ * Builds the Firestore lead document from a widget or quiz submission.
+ * Server only — loads the active valuation table and scoring rules.
+ *
+ * Used by /api/verify-code for verified leads and /api/leads/partial for
+ * leads captured before SMS verification, so both store the same shape.
+ */
+
+import type { FsLead } from '@/lib/firebase/types';
+import {
+  calculateScore,
+  scoreTier,
+  scoreContributions,
+  calculateQuizEstimate,
+  calculateQuizSpecialsBreakdown,
+  calculateQuizCollectible,
+  checkDisqualifier,
+} from '@/lib/quiz/scoring';
+import { calculateEstimate, calculateSpecialsEstimate } from '@/lib/estimator/logic';
+import type { EstimateRange } from '@/lib/estimator/types';
+import { parseInjuryTypes } from '@/lib/estimator/injuries';
+import { getActiveValuationTable } from '@/lib/estimator/valuationStore';
+import { getActiveScoringRules } from '@/lib/quiz/scoringRulesStore';
+import { contributionsRecord } from '@/lib/quiz/scoringRules';
+import { evaluateCoverage, isCoverageTier } from '@/lib/estimator/coverage';
+import type { CollectibleEstimate } from '@/lib/estimator/coverage';
+import type { QuizAnswers, FaultLevel } from '@/lib/quiz/types';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+import { isIncidentType, parseModuleAnswers, moduleLeadFields } from '@/lib/quiz/modules';
+import { isFaultLevel } from '@/lib/legal/negligence';
+import { evaluateStatute } from '@/lib/legal/statute';
+import { parseTouchpoints } from '@/lib/quiz/prefill';
+import { DEFAULT_LOCALE, isLocale } from '@/lib/i18n';
+import { normalizeEmail } from './duplicates';
+
+/** A new lead document; exclusivity is set on delivery. */
+export type NewLead = Omit<FsLead, 'id' | 'exclusive_until' | 'exclusive_firm'>;
+
+export type LeadSubmission =
+  | { ok: true;  lead: NewLead }
+  | { ok: false; message: string };
+
+/** Accepts the current faultLevel answer or the legacy atFault boolean. */
+function parseFaultLevel(faultLevel: unknown, atFault: unknown): FaultLevel | null {
+  if (isFaultLevel(faultLevel)) return faultLevel;
+  if (atFault != null) return atFault === true || atFault === 'true' ? 'fully' : 'none';
+  return null;
+}
+
+/**
+ * Scores, values and checks a submission (see /api/verify-code for the body
+ * fields) and returns the lead document for `phone`. Fails only when no
+ * valid injury type was sent. Email is stored as given — validate it first.
+ */
+export async function buildLead(
+  body:     Record<string, unknown>,
+  phone:    string,
+  verified: boolean,
+  now = Date.now(),
+): Promise<LeadSubmission> {
+  const {
+    name,
+    email,
+    injuryTypes: rawInjuryTypes,
+    injuryType,
+    surgery,
+    lostWages,
+    medicalBills,
+    futureCare,
+    atFaultCoverage: rawAtFaultCoverage,
+    umCoverage: rawUmCoverage,
+    estimateLow,
+    estimateHigh,
+    source = 'widget',
+    incidentType,
+    governmentDefendant,
+    incidentTimeframe,
+    faultLevel: rawFaultLevel,
+    atFault,
+    receivedTreatment,
+    hospitalized,
+    hasSurgery,
+    stillInTreatment,
+    missedWork,
+    insuranceContact,
+    hasAttorney,
+    state: leadState,
+  } = body;
+
+  const isQuiz     = String(source) === 'quiz';
+  const incident   = isQuiz && isIncidentType(incidentType) ? incidentType : null;
+  const moduleAnswers = parseModuleAnswers(body, incident);
+  const faultLevel = parseFaultLevel(rawFaultLevel, atFault);
+  const governmentDefendantBool = governmentDefendant === true || governmentDefendant === 'true';
+  const medicalBillsNum = Math.max(0, Math.round(Number(medicalBills ?? 0)) || 0);
+  const futureCareNum   = Math.max(0, Math.round(Number(futureCare   ?? 0)) || 0);
+  const atFaultCoverage = isCoverageTier(rawAtFaultCoverage) ? rawAtFaultCoverage : null;
+  const umCoverage      = isCoverageTier(rawUmCoverage)      ? rawUmCoverage      : null;
+  const injuryTypes     = parseInjuryTypes(rawInjuryTypes, injuryType);
+  if (injuryTypes.length === 0) return { ok: false, message: 'At least one injury type is required.' };
+  const [valuation, scoringRules] = await Promise.all([getActiveValuationTable(), getActiveScoringRules()]);
+
+  let score      = 0;
+  let tier       = 'COLD';
+  let contributions: Record<string, number> = {};
+  let finalLow   = Number(estimateLow  ?? 0);
+  let finalHigh  = Number(estimateHigh ?? 0);
+  let disqReason: string | null = null;
+  let specials: EstimateRange | null = null;
+  let coverage: CollectibleEstimate | null = null;
+
+  if (isQuiz) {
+    const qa: QuizAnswers = {
+      ...INITIAL_ANSWERS,
+      ...moduleAnswers,
+      incidentType:        incident,
+      injuryTypes,
+      state:               (leadState         as string)                           ?? null,
+      governmentDefendant: governmentDefendantBool,
+      incidentTimeframe:   (incidentTimeframe as QuizAnswers['incidentTimeframe']) ?? null,
+      faultLevel,
+      receivedTreatment:   (receivedTreatment as QuizAnswers['receivedTreatment']) ?? null,
+      hospitalized:        hospitalized       != null ? Boolean(hospitalized)      : null,
+      hasSurgery:          hasSurgery         != null ? Boolean(hasSurgery)        : null,
+      stillInTreatment:    (stillInTreatment  as QuizAnswers['stillInTreatment'])  ?? null,
+      medicalBills:        medicalBillsNum,
+      futureCare:          futureCareNum,
+      atFaultCoverage,
+      umCoverage,
+      missedWork:          (missedWork        as QuizAnswers['missedWork'])         ?? null,
+      lostWages:           Number(lostWages   ?? 0),
+      insuranceContact:    (insuranceContact  as QuizAnswers['insuranceContact'])  ?? null,
+      hasAttorney:         (hasAttorney       as QuizAnswers['hasAttorney'])        ?? null,
+    };
+
+    score         = calculateScore(qa, scoringRules);
+    tier          = scoreTier(score, scoringRules);
+    contributions = contributionsRecord(scoreContributions(qa, scoringRules));
+    disqReason = checkDisqualifier(qa);
+    const est = calculateQuizEstimate(qa, valuation);
+    finalLow  = est.low;
+    finalHigh = est.high;
+    specials  = calculateQuizSpecialsBreakdown(qa, valuation)?.total ?? null;
+    coverage  = calculateQuizCollectible(qa, valuation);
+  } else {
+    // Recomputed server-side so the stored range matches valuation_version.
+    const inputs = {
+      injuryTypes,
+      hasSurgery:   Boolean(surgery),
+      lostWages:    Number(lostWages ?? 0),
+      state:        (leadState as string | null) ?? null,
+      medicalBills: medicalBillsNum,
+      futureCare:   futureCareNum,
+    };
+    const est = calculateEstimate(inputs, valuation)!;
+    finalLow  = est.low;
+    finalHigh = est.high;
+    specials  = calculateSpecialsEstimate(inputs, valuation);
+    coverage = evaluateCoverage(
+      { low: finalLow, high: finalHigh },
+      { state: (leadState as string | null) ?? null, atFaultCoverage, umCoverage },
+    );
+  }
+
+  const hasSurgeryBool         = hasSurgery  != null ? Boolean(hasSurgery)  : Boolean(surgery);
+  const hospitalizedBool       = hospitalized != null ? Boolean(hospitalized) : false;
+  const stillTreatingBool      = stillInTreatment === 'yes';
+  const missedWorkBool         = missedWork === 'yes_missed' || missedWork === 'yes_cant_work';
+  const hasAttorneyBool        = hasAttorney === 'yes';
+  const insuranceContactedBool = insuranceContact === 'they_contacted' || insuranceContact === 'got_letter';
+  const atFaultBool            = faultLevel != null && faultLevel !== 'none';
+
+  const statute = evaluateStatute({
+    state:               leadState as string | null,
+    incidentType:        (incidentType      as QuizAnswers['incidentType'])      ?? null,
+    incidentTimeframe:   (incidentTimeframe as QuizAnswers['incidentTimeframe']) ?? null,
+    governmentDefendant: governmentDefendantBool,
+  }, now);
+
+  const lead: NewLead = {
+    name:                String(name  ?? '').trim(),
+    phone,
+    email:               email ? String(email).trim() : null,
+    email_normalized:    normalizeEmail(email ? String(email) : null),
+    carrier:             'gateway_sms',
+    state:               String(leadState ?? '') || null,
+    injury_type:         injuryTypes,
+    surgery:             hasSurgeryBool,
+    hospitalized:        hospitalizedBool,
+    still_treating:      stillTreatingBool,
+    missed_work:         missedWorkBool,
+    lost_wages_estimate: Number(lostWages ?? 0),
+    medical_bills:       medicalBillsNum,
+    future_care:         futureCareNum,
+    has_attorney:        hasAttorneyBool,
+    insurance_contacted: insuranceContactedBool,
+    at_fault:            atFaultBool,
+    fault_level:         faultLevel,
+    estimate_low:        finalLow,
+    estimate_high:       finalHigh,
+    valuation_version:   valuation.version,
+    specials_estimate_low:  specials?.low  ?? null,
+    specials_estimate_high: specials?.high ?? null,
+    at_fault_coverage:      atFaultCoverage,
+    um_coverage:            umCoverage,
+    coverage_limit:         coverage?.limit ?? null,
+    coverage_capped:        coverage?.capped ?? false,
+    collectible_low:        coverage?.collectible.low  ?? finalLow,
+    collectible_high:       coverage?.collectible.high ?? finalHigh,
+    score,
+    tier,
+    score_version:       scoringRules.version,
+    score_contributions: contributions,
+    verified,
+    source:              String(source ?? 'widget'),
+    touchpoints:         parseTouchpoints(body.touchpoints, isQuiz ? 'quiz' : 'widget'),
+    preferred_language:  isLocale(body.locale) ? body.locale : DEFAULT_LOCALE,
+    timestamp:           now,
+    delivered:           false,
+    replaced:            false,
+    disputed:            false,
+    client_id:           null,
+    incident_timeframe:  String(incidentTimeframe ?? '') || null,
+    government_defendant:   governmentDefendantBool,
+    incident_type:          incident,
+    ...moduleLeadFields({ ...INITIAL_ANSWERS, ...moduleAnswers, incidentType: incident }),
+    statute_warning:        statute?.warning       ?? false,
+    statute_deadline:       statute?.deadline      ?? null,
+    statute_days_remaining: statute?.daysRemaining ?? null,
+    statute_basis:          statute?.basis         ?? null,
+    disqualified:        disqReason != null,
+    disqualify_reason:   disqReason,
+  };
+  return { ok: true, lead };
+}
@@ -0,0 +1,135 @@
+/**
+ * lib/legal/negligence.ts
+ * State comparative-fault rules. Pure data + pure functions.
+ *
+ * Rules:
+ *   pure          — recovery reduced by the lead's share of fault, never barred
+ *   modified_50   — barred at 50% fault or more; otherwise reduced
+ *   modified_51   — barred at 51% fault or more; otherwise reduced
+ *   contributory  — any fault at all bars recovery
+ *
+ * Keys match the full state names in US_STATES (lib/quiz/questions.ts).
+ */
+
+import type { FaultLevel } from '@/lib/quiz/types';
+
+export type NegligenceRule = 'pure' | 'modified_50' | 'modified_51' | 'contributory';
+
+/**
+ * Representative fault share (percent) for each quiz answer.
+ * The quiz asks in plain words, not percentages, so each level maps to
+ * the middle of the range a lead picking it most likely means.
+ */
+export const FAULT_PERCENT: Record<FaultLevel, number> = {
+  none:    0,
+  partial: 30,
+  mostly:  70,
+  fully:   100,
+};
+
+/** Majority rule — used for any state not listed below. */
+export const DEFAULT_NEGLIGENCE_RULE: NegligenceRule = 'modified_51';
+
+export const STATE_NEGLIGENCE_RULES: Record<string, NegligenceRule> = {
+  // Contributory negligence
+  'Alabama':         'contributory',
+  'Maryland':        'contributory',
+  'North Carolina':  'contributory',
+  'Virginia':        'contributory',
+  'Washington D.C.': 'contributory',
+
+  // Pure comparative
+  'Alaska':          'pure',
+  'Arizona':         'pure',
+  'California':      'pure',
+  'Kentucky':        'pure',
+  'Louisiana':       'pure',
+  'Mississippi':     'pure',
+  'Missouri':        'pure',
+  'New Mexico':      'pure',
+  'New York':        'pure',
+  'Rhode Island':    'pure',
+  'Washington':      'pure',
+
+  // Modified comparative — 50% bar
+  'Arkansas':        'modified_50',
+  'Colorado':        'modified_50',
+  'Georgia':         'modified_50',
+  'Idaho':           'modified_50',
+  'Kansas':          'modified_50',
+  'Maine':           'modified_50',
+  'Nebraska':        'modified_50',
+  'North Dakota':    'modified_50',
+  'South Dakota':    'modified_50',   // "slight vs. gross" rule, approximated
+  'Tennessee':       'modified_50',
+  'Utah':            'modified_50',
+
+  // Modified comparative — 51% bar: every other state (DEFAULT_NEGLIGENCE_RULE)
+};
+
+const FAULT_LEVEL_LABELS: Record<FaultLevel, string> = {
+  none:    'No',
+  partial: 'Partly',
+  mostly:  'Mostly',
+  fully:   'Fully',
+};
+
+/** Human-readable rule names for admin and reports. */
+export const NEGLIGENCE_RULE_LABELS: Record<NegligenceRule, string> = {
+  pure:         'Pure comparative negligence',
+  modified_50:  'Modified comparative (50% bar)',
+  modified_51:  'Modified comparative (51% bar)',
+  contributory: 'Contributory negligence',
+};
+
+/** Guards against unanswered or unrecognised values (treated as no fault). */
+export function isFaultLevel(value: unknown): value is FaultLevel {
+  return typeof value === 'string' && Object.hasOwn(FAULT_PERCENT, value);
+}
+
+export function negligenceRuleFor(state: string | null | undefined): NegligenceRule {
+  if (!state) return DEFAULT_NEGLIGENCE_RULE;
+  return Object.hasOwn(STATE_NEGLIGENCE_RULES, state) ? STATE_NEGLIGENCE_RULES[state] : DEFAULT_NEGLIGENCE_RULE;
+}
+
+/** True when a lead with this fault percentage cannot recover under the rule. */
+export function isBarredByRule(faultPercent: number, rule: NegligenceRule): boolean {
+  switch (rule) {
+    case 'contributory': return faultPercent > 0;
+    case 'modified_50':  return faultPercent >= 50;
+    case 'modified_51':  return faultPercent >= 51;
+    case 'pure':         return faultPercent >= 100;
+  }
+}
+
+/** True when the lead's fault answer bars recovery in their state. */
+export function isRecoveryBarred(faultLevel: FaultLevel | null | undefined, state: string | null | undefined): boolean {
+  if (!isFaultLevel(faultLevel)) return false;
+  return isBarredByRule(FAULT_PERCENT[faultLevel], negligenceRuleFor(state));
+}
+
+/**
+ * Share of damages the lead can still recover, 0–1.
+ * 1 when not at fault (or fault unknown), 0 when barred,
+ * otherwise reduced by the lead's fault share.
+ */
+export function recoveryFactor(faultLevel: FaultLevel | null | undefined, state: string | null | undefined): number {
+  if (!isFaultLevel(faultLevel)) return 1;
+  if (isRecoveryBarred(faultLevel, state)) return 0;
+  return (100 - FAULT_PERCENT[faultLevel]) / 100;
+}
+
+/**
+ * Display label for a stored lead, e.g. "Partly (~30%) — Pure comparative negligence".
+ * Falls back to the legacy at_fault boolean for leads without a fault_level.
+ */
+export function faultLabel(
+  faultLevel: string | null | undefined,
+  state:      string | null | undefined,
+  atFault?:   boolean,
+): string {
+  if (!isFaultLevel(faultLevel)) return atFault ? 'Yes' : 'No';
+  if (faultLevel === 'none') return 'No';
+  const rule = NEGLIGENCE_RULE_LABELS[negligenceRuleFor(state)];
+  return `${FAULT_LEVEL_LABELS[faultLevel]} (~${FAULT_PERCENT[faultLevel]}%) — ${rule}`;
+}
@@ -0,0 +1,212 @@
+/**
+ * lib/legal/statute.ts
+ * Statute-of-limitations estimates per state and incident type.
+ * Pure data + pure functions. No React, no Firestore.
+ *
+ * Periods are the general filing deadlines for adult claimants. They ignore
+ * tolling (minors, discovery rules, defendant absence), so results are an
+ * estimate to flag urgency for the firm — never legal advice to the lead.
+ *
+ * Keys match the full state names in US_STATES (lib/quiz/questions.ts).
+ */
+
+import type { IncidentType, IncidentTimeframe } from '@/lib/quiz/types';
+import { DEFAULT_LOCALE, messages } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ── Limitation periods ────────────────────────────────────────────────────────
+
+export interface StateStatute {
+  /** Years to file a general personal-injury claim. */
+  general: number;
+  /** Years to file a medical-malpractice claim. */
+  medMal:  number;
+  /** Years for incident types that differ from the general period. */
+  overrides?: Partial<Record<IncidentType, number>>;
+  /** Days to serve notice of claim on a government defendant. */
+  governmentNoticeDays?: number;
+}
+
+/** Used for any state not listed, and when no state was given. */
+export const DEFAULT_STATUTE: StateStatute = { general: 2, medMal: 2 };
+
+/** Notice-of-claim deadline used when a state has no specific entry. */
+export const DEFAULT_GOVERNMENT_NOTICE_DAYS = 180;
+
+/** Leads with this many days or fewer left are flagged statute_warning. */
+export const STATUTE_WARNING_DAYS = 180;
+
+export const STATE_STATUTES: Record<string, StateStatute> = {
+  'Alabama':         { general: 2, medMal: 2   },
+  'Alaska':          { general: 2, medMal: 2   },
+  'Arizona':         { general: 2, medMal: 2   },
+  'Arkansas':        { general: 3, medMal: 2   },
+  'California':      { general: 2, medMal: 1,   governmentNoticeDays: 183 },
+  'Colorado':        { general: 2, medMal: 2,   overrides: { motor_vehicle: 3 } },
+  'Connecticut':     { general: 2, medMal: 2   },
+  'Delaware':        { general: 2, medMal: 2   },
+  'Florida':         { general: 2, medMal: 2,   governmentNoticeDays: 1095 },
+  'Georgia':         { general: 2, medMal: 2,   governmentNoticeDays: 183 },
+  'Hawaii':          { general: 2, medMal: 2   },
+  'Idaho':           { general: 2, medMal: 2   },
+  'Illinois':        { general: 2, medMal: 2,   governmentNoticeDays: 365 },
+  'Indiana':         { general: 2, medMal: 2   },
+  'Iowa':            { general: 2, medMal: 2   },
+  'Kansas':          { general: 2, medMal: 2   },
+  'Kentucky':        { general: 1, medMal: 1,   overrides: { motor_vehicle: 2 } },
+  'Louisiana':       { general: 2, medMal: 1   },
+  'Maine':           { general: 6, medMal: 3   },
+  'Maryland':        { general: 3, medMal: 3   },
+  'Massachusetts':   { general: 3, medMal: 3,   governmentNoticeDays: 730 },
+  'Michigan':        { general: 3, medMal: 2   },
+  'Minnesota':       { general: 6, medMal: 4   },
+  'Mississippi':     { general: 3, medMal: 2   },
+  'Missouri':        { general: 5, medMal: 2   },
+  'Montana':         { general: 3, medMal: 3   },
+  'Nebraska':        { general: 4, medMal: 2   },
+  'Nevada':          { general: 2, medMal: 1   },
+  'New Hampshire':   { general: 3, medMal: 2   },
+  'New Jersey':      { general: 2, medMal: 2,   governmentNoticeDays: 90 },
+  'New Mexico':      { general: 3, medMal: 3   },
+  'New York':        { general: 3, medMal: 2.5, governmentNoticeDays: 90 },
+  'North Carolina':  { general: 3, medMal: 3   },
+  'North Dakota':    { general: 6, medMal: 2   },
+  'Ohio':            { general: 2, medMal: 1   },
+  'Oklahoma':        { general: 2, medMal: 2   },
+  'Oregon':          { general: 2, medMal: 2   },
+  'Pennsylvania':    { general: 2, medMal: 2,   governmentNoticeDays: 183 },
+  'Rhode Island':    { general: 3, medMal: 3   },
+  'South Carolina':  { general: 3, medMal: 3   },
+  'South Dakota':    { general: 3, medMal: 2   },
+  'Tennessee':       { general: 1, medMal: 1   },
+  'Texas':           { general: 2, medMal: 2,   governmentNoticeDays: 183 },
+  'Utah':            { general: 4, medMal: 2   },
+  'Vermont':         { general: 3, medMal: 3   },
+  'Virginia':        { general: 2, medMal: 2   },
+  'Washington':      { general: 3, medMal: 3   },
+  'West Virginia':   { general: 2, medMal: 2   },
+  'Wisconsin':       { general: 3, medMal: 3   },
+  'Wyoming':         { general: 4, medMal: 2   },
+  'Washington D.C.': { general: 3, medMal: 3   },
+};
+
+// ── Elapsed time ──────────────────────────────────────────────────────────────
+
+/**
+ * Days since the incident, taken conservatively as the OLDEST date the
+ * timeframe answer allows. 'over_2_years' is open-ended, so only its floor
+ * is known — those leads are always flagged (see evaluateStatute).
+ */
+export const TIMEFRAME_ELAPSED_DAYS: Record<IncidentTimeframe, number> = {
+  under_6_months:   183,
+  '6_to_12_months': 365,
+  '1_to_2_years':   730,
+  over_2_years:     730,
+};
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+export type StatuteBasis = 'general' | 'incident_type' | 'med_mal' | 'government';
+
+export interface StatuteInputs {
+  state:                string | null | undefined;
+  incidentType:         IncidentType | null | undefined;
+  incidentTimeframe:    IncidentTimeframe | null | undefined;
+  governmentDefendant?: boolean | null;
+}
+
+export interface StatuteResult {
+  periodDays:    number;
+  basis:         StatuteBasis;
+  daysRemaining: number;     // negative once the deadline has likely passed
+  deadline:      number;     // Unix ms — estimated last day to file
+  warning:       boolean;    // deadline within STATUTE_WARNING_DAYS, passed, or uncertain
+}
+
+const DAY_MS = 24 * 60 * 60 * 1_000;
+
+/**
+ * The governing period in days for a state + incident type.
+ * A government defendant's notice-of-claim deadline wins when it is shorter.
+ */
+export function limitationPeriod(
+  state:                string | null | undefined,
+  incidentType:         IncidentType | null | undefined,
+  governmentDefendant = false,
+): { days: number; basis: StatuteBasis } {
+  const statute = state && Object.hasOwn(STATE_STATUTES, state) ? STATE_STATUTES[state] : DEFAULT_STATUTE;
+
+  let years = statute.general;
+  let basis: StatuteBasis = 'general';
+  if (incidentType === 'med_mal') {
+    years = statute.medMal;
+    basis = 'med_mal';
+  } else if (incidentType && statute.overrides && Object.hasOwn(statute.overrides, incidentType)) {
+    years = statute.overrides[incidentType]!;
+    basis = 'incident_type';
+  }
+
+  const days = Math.round(years * 365);
+  if (governmentDefendant) {
+    const noticeDays = statute.governmentNoticeDays ?? DEFAULT_GOVERNMENT_NOTICE_DAYS;
+    if (noticeDays < days) return { days: noticeDays, basis: 'government' };
+  }
+  return { days, basis };
+}
+
+/**
+ * Estimates the filing deadline from the quiz answers.
+ * Returns null until the incident timeframe is known, and for unrecognised
+ * timeframes (request bodies are not trusted to send a valid one).
+ */
+export function evaluateStatute(inputs: StatuteInputs, now = Date.now()): StatuteResult | null {
+  if (!inputs.incidentTimeframe || !Object.hasOwn(TIMEFRAME_ELAPSED_DAYS, inputs.incidentTimeframe)) return null;
+
+  const { days, basis } = limitationPeriod(
+    inputs.state, inputs.incidentType, Boolean(inputs.governmentDefendant),
+  );
+  const elapsed       = TIMEFRAME_ELAPSED_DAYS[inputs.incidentTimeframe];
+  const daysRemaining = days - elapsed;
+
+  return {
+    periodDays: days,
+    basis,
+    daysRemaining,
+    deadline:   now + daysRemaining * DAY_MS,
+    warning:    daysRemaining <= STATUTE_WARNING_DAYS || inputs.incidentTimeframe === 'over_2_years',
+  };
+}
+
+/**
+ * Lead-facing alert shown after the timeframe question, or null when the
+ * deadline is comfortably far away.
+ */
+export function statuteAlert(inputs: StatuteInputs, now = Date.now(), locale: Locale = DEFAULT_LOCALE): string | null {
+  const result = evaluateStatute(inputs, now);
+  if (!result?.warning) return null;
+
+  const t     = messages(locale).statute;
+  const where = inputs.state ? t.inState(inputs.state) : t.inMostStates;
+  return result.daysRemaining <= 0 ? t.passed(where) : t.limited(where);
+}
+
+// ── Display helpers ───────────────────────────────────────────────────────────
+
+const BASIS_LABELS: Record<StatuteBasis, string> = {
+  general:       'General personal injury',
+  incident_type: 'Incident-specific period',
+  med_mal:       'Medical malpractice',
+  government:    'Government notice of claim',
+};
+
+/** e.g. "Mar 4, 2027 (est. 212 days left)" or "Likely passed (est. 30 days ago)". */
+export function formatStatuteDeadline(deadline: number | null | undefined, daysRemaining: number | null | undefined): string {
+  if (deadline == null || daysRemaining == null) return 'Not available';
+  if (daysRemaining <= 0) return `Likely passed (est. ${Math.abs(daysRemaining)} days ago)`;
+  const date = new Date(deadline).toLocaleDateString('en-US', { dateStyle: 'medium' });
+  return `${date} (est. ${daysRemaining} days left)`;
+}
+
+export function statuteBasisLabel(basis: string | null | undefined): string {
+  return (basis && BASIS_LABELS[basis as StatuteBasis]) || 'Not available';
+}
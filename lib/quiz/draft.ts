@@ -0,0 +1,84 @@
+/**
+ * lib/quiz/draft.ts
+ * Pure helpers for saving and resuming an unfinished quiz. No React.
+ *
+ * A draft is the answers so far plus the questions visited. It is kept in
+ * localStorage on the visitor's device and, when they ask for a resume link,
+ * in Firestore (see lib/quiz/draftStore.ts). Drafts expire after DRAFT_TTL_MS
+ * wherever they are stored.
+ */
+
+import { QUIZ_QUESTIONS } from './questions';
+import type { QuestionId } from './questions';
+import { questionPath } from './flow';
+import type { QuizAnswers } from './types';
+import { INITIAL_ANSWERS } from './types';
+import type { Touchpoint } from './prefill';
+
+export const DRAFT_TTL_MS      = 7 * 24 * 60 * 60 * 1_000;   // 7 days
+export const DRAFT_STORAGE_KEY = 'ss_quiz_draft';
+
+export interface QuizDraft {
+  answers: QuizAnswers;
+  history: QuestionId[];   // questions visited, in order
+  savedAt: number;         // Unix ms
+  touchpoints?: Touchpoint[];   // funnels used before the quiz, e.g. ['widget'] (see lib/quiz/prefill.ts)
+}
+
+// ── Answered state ────────────────────────────────────────────────────────────
+
+/** True once a question's answer differs from its initial value. */
+export function isAnswered(id: QuestionId, answers: QuizAnswers): boolean {
+  const value = answers[id];
+  return Array.isArray(value) ? value.length > 0 : value !== INITIAL_ANSWERS[id];
+}
+
+/** True when nothing has been answered yet — not worth saving. */
+export function isDraftEmpty(answers: QuizAnswers): boolean {
+  return QUIZ_QUESTIONS.every(q => !isAnswered(q.id, answers));
+}
+
+/**
+ * The history to restore: the visitor's current path up to and including
+ * the first unanswered question. Optional questions left blank count as
+ * answered once the visitor moved past them (they appear in `visited`
+ * before the last entry).
+ */
+export function resumeHistory(answers: QuizAnswers, visited: QuestionId[] = []): QuestionId[] {
+  const passed = new Set(visited.slice(0, -1));
+  const path   = questionPath(answers);
+  const stop   = path.findIndex(id => !isAnswered(id, answers) && !passed.has(id));
+  return stop === -1 ? path : path.slice(0, stop + 1);
+}
+
+// ── Serialization ─────────────────────────────────────────────────────────────
+
+const QUESTION_IDS = new Set<string>(QUIZ_QUESTIONS.map(q => q.id));
+
+/**
+ * Validates a stored or submitted draft. Returns null when it is malformed
+ * or older than DRAFT_TTL_MS. Unknown answer keys and question IDs are
+ * dropped; missing answers take their initial values.
+ */
+export function parseDraft(raw: unknown, now = Date.now()): QuizDraft | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { answers, history, savedAt, touchpoints } = raw as Partial<Record<keyof QuizDraft, unknown>>;
+
+  if (typeof savedAt !== 'number' || now - savedAt > DRAFT_TTL_MS) return null;
+  if (!answers || typeof answers !== 'object' || !Array.isArray(history)) return null;
+
+  const merged = { ...INITIAL_ANSWERS };
+  for (const key of Object.keys(INITIAL_ANSWERS) as (keyof QuizAnswers)[]) {
+    const value = (answers as Record<string, unknown>)[key];
+    if (value !== undefined && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+
+  return {
+    answers: merged,
+    history: history.filter((id): id is QuestionId => typeof id === 'string' && QUESTION_IDS.has(id)),
+    savedAt,
+    touchpoints: Array.isArray(touchpoints) ? touchpoints.filter((t): t is Touchpoint => t === 'widget') : [],
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * lib/quiz/draftStore.ts
+ * Firestore-backed quiz drafts for cross-device resume links.
+ * Server only — never import in client components.
+ *
+ * Collection: quiz_drafts, one doc per resume link sent. The link carries a
+ * signed token naming the doc; both the token and the doc expire after
+ * DRAFT_TTL_MS.
+ */
+
+import jwt from 'jsonwebtoken';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsQuizDraft } from '@/lib/firebase/types';
+import { DRAFT_TTL_MS, parseDraft } from './draft';
+import type { QuizDraft } from './draft';
+
+const COLLECTION = 'quiz_drafts';
+const JWT_SECRET = process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+const PURPOSE    = 'quiz_resume';
+
+/** Stores a draft and returns its doc ID. */
+export async function saveDraft(draft: QuizDraft, email: string): Promise<string> {
+  const now = Date.now();
+  const doc: FsQuizDraft = {
+    answers:    { ...draft.answers },
+    history:    draft.history,
+    touchpoints: draft.touchpoints ?? [],
+    email,
+    created_at: now,
+    expires_at: now + DRAFT_TTL_MS,
+  };
+  const ref = await adminDb.collection(COLLECTION).add(doc);
+  return ref.id;
+}
+
+/** The stored draft, or null if it is missing, expired or malformed. */
+export async function loadDraft(draftId: string): Promise<QuizDraft | null> {
+  const snap = await adminDb.collection(COLLECTION).doc(draftId).get();
+  if (!snap.exists) return null;
+
+  const doc = snap.data() as FsQuizDraft;
+  if (doc.expires_at < Date.now()) return null;
+  return parseDraft({ answers: doc.answers, history: doc.history, touchpoints: doc.touchpoints, savedAt: doc.created_at });
+}
+
+// ── Resume tokens ─────────────────────────────────────────────────────────────
+
+export function signResumeToken(draftId: string): string {
+  return jwt.sign({ draftId, purpose: PURPOSE }, JWT_SECRET, { expiresIn: Math.floor(DRAFT_TTL_MS / 1_000) });
+}
+
+/** The draft ID a resume token was signed for, or null if it is invalid or expired. */
+export function verifyResumeToken(token: string): string | null {
+  try {
+    const p = jwt.verify(token, JWT_SECRET) as { draftId?: unknown; purpose?: unknown };
+    return p.purpose === PURPOSE && typeof p.draftId === 'string' ? p.draftId : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * lib/quiz/exitRoutes.ts
+ * Where visitors go when the quiz can't take their case: partner offers per
+ * exit reason (already has an attorney, or barred by fault), validation of
+ * admin edits, the exit events recorded with the answers so far, and the
+ * per-offer report.
+ *
+ * Pure — no Firestore, no React. Stored config and events live in
+ * lib/quiz/exitRoutesStore.ts.
+ */
+
+import type { DisqualReason, IncidentType, QuizAnswers } from './types';
+import { isIncidentType } from './modules';
+import { LOCALES, isLocale } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+
+// ── Reasons and offers ────────────────────────────────────────────────────────
+
+/** Why the visitor left the quiz: checkSoftExit, or a checkDisqualifier reason. */
+export type ExitReason = 'has_attorney' | DisqualReason;
+
+export const EXIT_REASONS: ExitReason[] = ['has_attorney', 'at_fault'];
+
+export const EXIT_REASON_LABELS: Record<ExitReason, string> = {
+  has_attorney: 'Already has an attorney',
+  at_fault:     'Barred by fault',
+};
+
+export type ExitOfferType = 'attorney_change' | 'workers_comp' | 'self_help';
+
+export const EXIT_OFFER_TYPES: ExitOfferType[] = ['attorney_change', 'workers_comp', 'self_help'];
+
+export const EXIT_OFFER_TYPE_LABELS: Record<ExitOfferType, string> = {
+  attorney_change: 'Attorney-referral change',
+  workers_comp:    "Workers' comp partner",
+  self_help:       'Self-help resource',
+};
+
+export interface ExitOfferText {
+  headline: string;
+  body:     string;
+  cta:      string;
+}
+
+export interface ExitOffer {
+  id:            string;
+  type:          ExitOfferType;
+  partner:       string;           // who the traffic goes to — admin only
+  url:           string;           // https:// or a path on this site
+  /** Show only for these incident types; empty = every incident. */
+  incidentTypes: IncidentType[];
+  enabled:       boolean;
+  /** English is required; other locales fall back to it. */
+  text:          { en: ExitOfferText } & Partial<Record<Locale, ExitOfferText>>;
+}
+
+export type ExitRoutes = Record<ExitReason, ExitOffer[]>;
+
+/** No offers until an admin configures a partner — the exit screens stay as they were. */
+export const DEFAULT_EXIT_ROUTES: ExitRoutes = {
+  has_attorney: [],
+  at_fault:     [],
+};
+
+/** Starting text and targeting for a new offer of each type; the admin adds the partner and link. */
+export const EXIT_OFFER_TEMPLATES: Record<ExitOfferType, Pick<ExitOffer, 'incidentTypes' | 'text'>> = {
+  attorney_change: {
+    incidentTypes: [],
+    text: {
+      en: { headline: 'Not happy with your attorney?', body: 'You can change lawyers at any point in your case. A second opinion is free, and your current fee is usually split, not doubled.', cta: 'Get a free second opinion →' },
+      es: { headline: '¿No está conforme con su abogado?', body: 'Puede cambiar de abogado en cualquier momento de su caso. Una segunda opinión es gratis y normalmente los honorarios se dividen, no se duplican.', cta: 'Obtener una segunda opinión gratis →' },
+    },
+  },
+  workers_comp: {
+    incidentTypes: ['workplace'],
+    text: {
+      en: { headline: "Hurt at work? Fault doesn't matter for workers' comp.", body: "Workers' compensation pays medical bills and lost wages no matter who caused the accident.", cta: "Check my workers' comp claim →" },
+      es: { headline: '¿Se lesionó en el trabajo? La culpa no importa para la compensación laboral.', body: 'La compensación laboral paga las facturas médicas y los salarios perdidos sin importar quién causó el accidente.', cta: 'Revisar mi reclamo de compensación laboral →' },
+    },
+  },
+  self_help: {
+    incidentTypes: [],
+    text: {
+      en: { headline: 'Handle your own insurance claim', body: 'Your own policy may still cover medical bills. This free guide walks you through filing with your insurer.', cta: 'Read the free guide →' },
+      es: { headline: 'Maneje su propio reclamo de seguro', body: 'Su propia póliza aún podría cubrir las facturas médicas. Esta guía gratuita le explica cómo presentar el reclamo con su aseguradora.', cta: 'Leer la guía gratuita →' },
+    },
+  },
+};
+
+/** A disabled offer from the type's template, with an ID not already in `offers`. */
+export function newExitOffer(type: ExitOfferType, offers: ExitOffer[]): ExitOffer {
+  const taken = new Set(offers.map(o => o.id));
+  let id: string = type;
+  for (let n = 2; taken.has(id); n++) id = `${type}_${n}`;
+  const template = EXIT_OFFER_TEMPLATES[type];
+  return {
+    id,
+    type,
+    partner:       '',
+    url:           '',
+    incidentTypes: [...template.incidentTypes],
+    enabled:       false,
+    text:          Object.fromEntries(Object.entries(template.text).map(([l, t]) => [l, { ...t }])) as ExitOffer['text'],
+  };
+}
+
+/** Enabled offers for `reason` that apply to the visitor's incident, in configured order. */
+export function exitOffersFor(routes: ExitRoutes, reason: ExitReason, answers: Partial<QuizAnswers>): ExitOffer[] {
+  return (routes[reason] ?? []).filter(o =>
+    o.enabled && (o.incidentTypes.length === 0 || (answers.incidentType != null && o.incidentTypes.includes(answers.incidentType))),
+  );
+}
+
+/** The offer's text in `locale`, falling back to English. */
+export function exitOfferText(offer: ExitOffer, locale: Locale): ExitOfferText {
+  return offer.text[locale] ?? offer.text.en;
+}
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+export const MAX_OFFERS_PER_REASON = 5;
+const MAX_TEXT = 400;
+
+const isText = (v: unknown, max = MAX_TEXT): v is string => typeof v === 'string' && v.trim().length > 0 && v.length <= max;
+const isExitReason = (v: unknown): v is ExitReason => EXIT_REASONS.includes(v as ExitReason);
+const isUrl = (v: unknown): v is string =>
+  typeof v === 'string' && v.length <= MAX_TEXT && (/^https:\/\/\S+$/.test(v) || /^\/(?!\/)\S*$/.test(v));
+
+function offerTextError(text: unknown, where: string): string | null {
+  if (!text || typeof text !== 'object') return `${where} needs a headline, body and button label.`;
+  const { headline, body, cta } = text as Partial<ExitOfferText>;
+  if (!isText(headline) || !isText(body) || !isText(cta)) return `${where} needs a headline, body and button label.`;
+  return null;
+}
+
+/**
+ * Returns a human-readable problem with submitted routes, or null when valid.
+ * Every reason needs a list (it may be empty); offer IDs are unique per
+ * reason; links are https:// or a path on this site.
+ */
+export function exitRoutesError(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Exit routes are required.';
+  for (const reason of EXIT_REASONS) {
+    const offers = (input as Record<string, unknown>)[reason];
+    if (!Array.isArray(offers)) return `Offers for "${EXIT_REASON_LABELS[reason]}" are required.`;
+    if (offers.length > MAX_OFFERS_PER_REASON) return `At most ${MAX_OFFERS_PER_REASON} offers per exit reason.`;
+
+    const ids = new Set<string>();
+    for (const raw of offers as Partial<ExitOffer>[]) {
+      if (!raw || typeof raw !== 'object') return 'Each offer must be an object.';
+      if (!isText(raw.id, 40) || !/^[a-z0-9_-]+$/.test(raw.id)) return 'Offer IDs must be lowercase letters, digits, - or _.';
+      if (ids.has(raw.id)) return `Offer ID "${raw.id}" is used twice for "${EXIT_REASON_LABELS[reason]}".`;
+      ids.add(raw.id);
+      if (!EXIT_OFFER_TYPES.includes(raw.type as ExitOfferType)) return `Offer "${raw.id}" has an unknown type.`;
+      if (!isText(raw.partner, 80)) return `Offer "${raw.id}" needs a partner name.`;
+      if (!isUrl(raw.url)) return `Offer "${raw.id}" needs an https:// link or a path starting with /.`;
+      if (!Array.isArray(raw.incidentTypes) || !raw.incidentTypes.every(isIncidentType)) {
+        return `Offer "${raw.id}" has an unknown incident type.`;
+      }
+      if (typeof raw.enabled !== 'boolean') return `Offer "${raw.id}" must be enabled or disabled.`;
+      if (!raw.text || typeof raw.text !== 'object') return `Offer "${raw.id}" needs English text.`;
+      for (const [locale, text] of Object.entries(raw.text)) {
+        if (!isLocale(locale)) return `Offer "${raw.id}" has text for an unknown language.`;
+        const err = offerTextError(text, `Offer "${raw.id}" (${locale})`);
+        if (err) return err;
+      }
+      if (!raw.text.en) return `Offer "${raw.id}" needs English text.`;
+    }
+  }
+  return null;
+}
+
+/** Copies only the known fields of validated routes (drops anything extra). */
+export function toExitRoutes(input: ExitRoutes): ExitRoutes {
+  const copyText = (t: ExitOfferText): ExitOfferText => ({ headline: t.headline.trim(), body: t.body.trim(), cta: t.cta.trim() });
+  const routes = {} as ExitRoutes;
+  for (const reason of EXIT_REASONS) {
+    routes[reason] = input[reason].map(o => {
+      const text = { en: copyText(o.text.en) } as ExitOffer['text'];
+      for (const locale of LOCALES) {
+        const t = o.text[locale];
+        if (t) text[locale] = copyText(t);
+      }
+      return {
+        id:            o.id,
+        type:          o.type,
+        partner:       o.partner.trim(),
+        url:           o.url,
+        incidentTypes: [...o.incidentTypes],
+        enabled:       o.enabled,
+        text,
+      };
+    });
+  }
+  return routes;
+}
+
+// ── Exit events ───────────────────────────────────────────────────────────────
+
+export type ExitAction = 'shown' | 'clicked';
+
+export interface ExitEvent {
+  sessionId: string;
+  reason:    ExitReason;
+  action:    ExitAction;
+  offerId:   string | null;        // set for clicks
+  offerIds:  string[];             // offers on screen
+  answers:   Record<string, unknown>;
+  locale:    Locale;
+  timestamp: number;               // Unix ms
+}
+
+const MAX_ID = 64;
+const MAX_ANSWERS_BYTES = 4_000;
+
+/**
+ * Validates an exit event posted by a browser. The answers so far are kept
+ * as sent, up to MAX_ANSWERS_BYTES of JSON; the timestamp is the server's.
+ */
+export function parseExitEvent(raw: unknown, now = Date.now()): ExitEvent | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { sessionId, reason, action, offerId, offerIds, answers, locale } = raw as Record<string, unknown>;
+
+  if (typeof sessionId !== 'string' || !sessionId || sessionId.length > MAX_ID) return null;
+  if (!isExitReason(reason)) return null;
+  if (action !== 'shown' && action !== 'clicked') return null;
+  if (action === 'clicked' && (typeof offerId !== 'string' || !offerId || offerId.length > MAX_ID)) return null;
+  if (!answers || typeof answers !== 'object' || Array.isArray(answers)) return null;
+  if (JSON.stringify(answers).length > MAX_ANSWERS_BYTES) return null;
+
+  const ids = Array.isArray(offerIds) ? offerIds.filter((id): id is string => typeof id === 'string' && id.length <= MAX_ID) : [];
+  return {
+    sessionId,
+    reason,
+    action,
+    offerId:   action === 'clicked' ? (offerId as string) : null,
+    offerIds:  ids.slice(0, MAX_OFFERS_PER_REASON),
+    answers:   answers as Record<string, unknown>,
+    locale:    isLocale(locale) ? locale : 'en',
+    timestamp: now,
+  };
+}
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+export interface ExitOfferReport {
+  offerId:    string;
+  shown:      number;   // sessions that saw the offer
+  clicks:     number;   // sessions that clicked it
+  clickRate:  number;   // clicks / shown, 0–1
+}
+
+export interface ExitReasonReport {
+  reason:   ExitReason;
+  sessions: number;     // sessions that hit this exit
+  clicked:  number;     // of those, sessions that clicked any offer
+  offers:   ExitOfferReport[];
+}
+
+/** Per-reason exits and per-offer click-through, counting each session once. */
+export function exitReport(events: Pick<ExitEvent, 'sessionId' | 'reason' | 'action' | 'offerId' | 'offerIds'>[]): ExitReasonReport[] {
+  return EXIT_REASONS.map(reason => {
+    const mine     = events.filter(e => e.reason === reason);
+    const sessions = new Set(mine.map(e => e.sessionId));
+    const clicked  = new Set(mine.filter(e => e.action === 'clicked').map(e => e.sessionId));
+
+    const shownBy  = new Map<string, Set<string>>();
+    const clickBy  = new Map<string, Set<string>>();
+    const add = (map: Map<string, Set<string>>, id: string, session: string) =>
+      map.set(id, (map.get(id) ?? new Set()).add(session));
+    for (const e of mine) {
+      if (e.action === 'shown') e.offerIds.forEach(id => add(shownBy, id, e.sessionId));
+      if (e.action === 'clicked' && e.offerId) add(clickBy, e.offerId, e.sessionId);
+    }
+
+    const offers = [...new Set([...shownBy.keys(), ...clickBy.keys()])].map(offerId => {
+      const shown  = shownBy.get(offerId)?.size ?? 0;
+      const clicks = clickBy.get(offerId)?.size ?? 0;
+      return { offerId, shown, clicks, clickRate: shown > 0 ? clicks / shown : 0 };
+    });
+
+    return { reason, sessions: sessions.size, clicked: clicked.size, offers };
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * lib/quiz/exitRoutesStore.ts
+ * Firestore-backed quiz exit routes and exit events.
+ * Server only — never import in client components.
+ *
+ * Collections:
+ *   exit_routes  — one doc, 'current', replaced on every admin save.
+ *                  With none saved, DEFAULT_EXIT_ROUTES (no offers) apply.
+ *   exit_events  — one doc per exit shown or offer clicked.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsExitEvent, FsExitRoutes } from '@/lib/firebase/types';
+import { DEFAULT_EXIT_ROUTES, EXIT_REASONS } from './exitRoutes';
+import type { ExitEvent, ExitRoutes } from './exitRoutes';
+
+const ROUTES       = 'exit_routes';
+const CURRENT      = 'current';
+const EVENTS       = 'exit_events';
+const CACHE_TTL_MS = 60 * 1_000;
+
+let cached: { routes: ExitRoutes; fetchedAt: number } | null = null;
+
+/** Reasons added after routes were saved get no offers until an admin adds some. */
+function toExitRoutes(doc: FsExitRoutes): ExitRoutes {
+  const routes = { ...DEFAULT_EXIT_ROUTES };
+  for (const reason of EXIT_REASONS) {
+    if (Array.isArray(doc.routes[reason])) routes[reason] = doc.routes[reason] as ExitRoutes[typeof reason];
+  }
+  return routes;
+}
+
+/**
+ * The routes exits should use. Cached for a minute per server instance;
+ * falls back to the built-in routes if Firestore is unavailable.
+ */
+export async function getActiveExitRoutes(): Promise<ExitRoutes> {
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.routes;
+
+  try {
+    const snap   = await adminDb.collection(ROUTES).doc(CURRENT).get();
+    const routes = snap.exists ? toExitRoutes(snap.data() as FsExitRoutes) : DEFAULT_EXIT_ROUTES;
+    cached = { routes, fetchedAt: Date.now() };
+    return routes;
+  } catch (err) {
+    console.error('[exit-routes] Failed to load routes:', err);
+    return cached?.routes ?? DEFAULT_EXIT_ROUTES;
+  }
+}
+
+/** Replaces the active routes with validated ones. */
+export async function saveExitRoutes(routes: ExitRoutes, updatedBy: string): Promise<FsExitRoutes> {
+  const doc: FsExitRoutes = { routes, updated_by: updatedBy, updated_at: Date.now() };
+  await adminDb.collection(ROUTES).doc(CURRENT).set(doc);
+  cached = { routes, fetchedAt: Date.now() };
+  return doc;
+}
+
+export async function recordExitEvent(event: ExitEvent): Promise<void> {
+  const doc: FsExitEvent = {
+    session_id: event.sessionId,
+    reason:     event.reason,
+    action:     event.action,
+    offer_id:   event.offerId,
+    offer_ids:  event.offerIds,
+    answers:    event.answers,
+    locale:     event.locale,
+    timestamp:  event.timestamp,
+  };
+  await adminDb.collection(EVENTS).add(doc);
+}
+
+/** Exit events since `since` (Unix ms), oldest first. */
+export async function listExitEvents(since: number): Promise<FsExitEvent[]> {
+  const snap = await adminDb.collection(EVENTS).where('timestamp', '>=', since).orderBy('timestamp').get();
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as FsExitEvent));
+}
@@ -0,0 +1,140 @@
+/**
+ * lib/quiz/flow.ts
+ * Pure branching logic for the quiz. No React. Fully unit-testable.
+ *
+ * A visitor's path starts at the first shown question and follows each
+ * question's `next` rule (or array order), skipping questions whose
+ * `showIf` fails. Jumps only move forward, so every path ends.
+ */
+
+import { QUIZ_QUESTIONS } from './questions';
+import type { QuestionId, QuizQuestion } from './questions';
+import type { QuizAnswers } from './types';
+import { INITIAL_ANSWERS } from './types';
+
+/** Answer fields filled by a question besides its own ID. */
+const COMPANION_FIELDS: Partial<Record<QuestionId, (keyof QuizAnswers)[]>> = {
+  medicalBills:    ['futureCare'],
+  missedWork:      ['lostWages'],
+  atFaultCoverage: ['umCoverage'],
+};
+
+// ── Lookup ────────────────────────────────────────────────────────────────────
+
+function indexOf(id: QuestionId, questions: QuizQuestion[]): number {
+  const idx = questions.findIndex(q => q.id === id);
+  if (idx === -1) throw new Error(`Unknown quiz question: ${id}`);
+  return idx;
+}
+
+export function questionById(id: QuestionId, questions: QuizQuestion[] = QUIZ_QUESTIONS): QuizQuestion {
+  return questions[indexOf(id, questions)];
+}
+
+export function isQuestionShown(q: QuizQuestion, answers: QuizAnswers): boolean {
+  return !q.showIf || q.showIf(answers);
+}
+
+// ── Navigation ────────────────────────────────────────────────────────────────
+
+/** First shown question at or after `start`, or null past the end. */
+function firstShownFrom(start: number, answers: QuizAnswers, questions: QuizQuestion[]): QuestionId | null {
+  for (let i = start; i < questions.length; i++) {
+    if (isQuestionShown(questions[i], answers)) return questions[i].id;
+  }
+  return null;
+}
+
+export function firstQuestionId(
+  answers:   QuizAnswers = INITIAL_ANSWERS,
+  questions: QuizQuestion[] = QUIZ_QUESTIONS,
+): QuestionId {
+  const id = firstShownFrom(0, answers, questions);
+  if (!id) throw new Error('Quiz has no questions to show.');
+  return id;
+}
+
+/**
+ * The question after `currentId` given the answers so far, or null when
+ * the quiz is complete. A `next` rule pointing backwards is ignored.
+ */
+export function nextQuestionId(
+  currentId: QuestionId,
+  answers:   QuizAnswers,
+  questions: QuizQuestion[] = QUIZ_QUESTIONS,
+): QuestionId | null {
+  const idx    = indexOf(currentId, questions);
+  const target = questions[idx].next?.(answers);
+  const start  = target ? Math.max(indexOf(target, questions), idx + 1) : idx + 1;
+  return firstShownFrom(start, answers, questions);
+}
+
+/**
+ * nextQuestionId, passing over the questions in `skip` — ones answered
+ * before the quiz started (see lib/quiz/prefill.ts). Skipped questions
+ * stay on the path, so pruneAnswers keeps their answers.
+ */
+export function nextUnskippedId(
+  currentId: QuestionId,
+  answers:   QuizAnswers,
+  skip:      readonly QuestionId[],
+  questions: QuizQuestion[] = QUIZ_QUESTIONS,
+): QuestionId | null {
+  let id = nextQuestionId(currentId, answers, questions);
+  while (id && skip.includes(id)) id = nextQuestionId(id, answers, questions);
+  return id;
+}
+
+/** Every question a visitor with these answers sees, in order. */
+export function questionPath(
+  answers:   QuizAnswers,
+  questions: QuizQuestion[] = QUIZ_QUESTIONS,
+): QuestionId[] {
+  const path: QuestionId[] = [];
+  for (let id: QuestionId | null = firstQuestionId(answers, questions); id; id = nextQuestionId(id, answers, questions)) {
+    path.push(id);
+  }
+  return path;
+}
+
+/**
+ * Progress along a branching path: `history` is the questions visited so
+ * far (the last is on screen); the total counts the questions still ahead
+ * given the current answers, so it can change as answers change. Questions
+ * in `skip` are not counted.
+ */
+export function quizProgress(
+  history:   QuestionId[],
+  answers:   QuizAnswers,
+  questions: QuizQuestion[] = QUIZ_QUESTIONS,
+  skip:      readonly QuestionId[] = [],
+): { step: number; total: number } {
+  let remaining = 0;
+  for (let id = nextUnskippedId(history[history.length - 1], answers, skip, questions); id; id = nextUnskippedId(id, answers, skip, questions)) {
+    remaining++;
+  }
+  return { step: history.length, total: history.length + remaining };
+}
+
+/**
+ * Resets answers to questions off the visitor's current path, so an answer
+ * given before they went back and took another branch is not submitted.
+ */
+export function pruneAnswers(
+  answers:   QuizAnswers,
+  questions: QuizQuestion[] = QUIZ_QUESTIONS,
+): QuizAnswers {
+  const onPath = new Set<keyof QuizAnswers>();
+  for (const id of questionPath(answers, questions)) {
+    onPath.add(id);
+    for (const field of COMPANION_FIELDS[id] ?? []) onPath.add(field);
+  }
+
+  const pruned = { ...answers };
+  for (const q of questions) {
+    for (const field of [q.id, ...(COMPANION_FIELDS[q.id] ?? [])]) {
+      if (!onPath.has(field)) (pruned as Record<string, unknown>)[field] = INITIAL_ANSWERS[field];
+    }
+  }
+  return pruned;
+}
@@ -0,0 +1,98 @@
+/**
+ * lib/quiz/modules/index.ts
+ * Incident-specific follow-up modules. Each module contributes questions,
+ * answers, lead fields, score factors and lead-report rows for one
+ * IncidentType; this file is the registry everything else goes through.
+ *
+ * To add a module: add its answer fields to QuizAnswers/INITIAL_ANSWERS and
+ * FsLead, any new score factors to ScoreFactorId, then register it below.
+ */
+
+import type { FsLead } from '@/lib/firebase/types';
+import type { QuizQuestion } from '../questions';
+import type { IncidentType, QuizAnswers, ScoreFactorId } from '../types';
+import { INITIAL_ANSWERS } from '../types';
+import type { IncidentModule, LeadDetailRow } from './shared';
+import { medMalModule } from './medMal';
+import { workplaceModule } from './workplace';
+import { motorVehicleModule } from './motorVehicle';
+
+export type { IncidentModule, LeadDetailRow } from './shared';
+
+export const INCIDENT_MODULES: IncidentModule[] = [motorVehicleModule, workplaceModule, medMalModule];
+
+export const INCIDENT_TYPE_LABELS: Record<IncidentType, string> = {
+  motor_vehicle: 'Car / Vehicle Accident',
+  slip_fall:     'Slip & Fall',
+  workplace:     'Workplace Injury',
+  med_mal:       'Medical Malpractice',
+  other:         'Other',
+};
+
+export function isIncidentType(value: unknown): value is IncidentType {
+  return typeof value === 'string' && Object.hasOwn(INCIDENT_TYPE_LABELS, value);
+}
+
+export function moduleFor(incidentType: unknown): IncidentModule | undefined {
+  return INCIDENT_MODULES.find(m => m.incidentType === incidentType);
+}
+
+// ── Quiz ──────────────────────────────────────────────────────────────────────
+
+/** Every module's questions, each shown only for its incident type. */
+export function moduleQuestions(): QuizQuestion[] {
+  return INCIDENT_MODULES.flatMap(m => m.questions.map(q => ({
+    ...q,
+    showIf: (a: QuizAnswers) => a.incidentType === m.incidentType && (!q.showIf || q.showIf(a)),
+  })));
+}
+
+export function moduleScoreFactors(answers: QuizAnswers): ScoreFactorId[] {
+  return moduleFor(answers.incidentType)?.scoreFactors(answers) ?? [];
+}
+
+// ── Server ────────────────────────────────────────────────────────────────────
+
+/**
+ * Reads the lead's incident module answers from a request body. Only the
+ * module for `incidentType` is read, and only values offered as options
+ * are accepted ('true'/'false' become booleans).
+ */
+export function parseModuleAnswers(body: Record<string, unknown>, incidentType: unknown): Partial<QuizAnswers> {
+  const answers: Record<string, unknown> = {};
+  for (const q of moduleFor(incidentType)?.questions ?? []) {
+    const option = q.options?.find(o => o.value === String(body[q.id]));
+    if (!option) continue;
+    answers[q.id] = option.value === 'true' ? true : option.value === 'false' ? false : option.value;
+  }
+  return answers as Partial<QuizAnswers>;
+}
+
+/**
+ * Firestore fields for every module: the lead's own module from its answers,
+ * all others null, so every lead document has the same shape.
+ */
+export function moduleLeadFields(answers: QuizAnswers): Partial<FsLead> {
+  return Object.assign({}, ...INCIDENT_MODULES.map(m =>
+    m.toLead(m.incidentType === answers.incidentType ? answers : INITIAL_ANSWERS),
+  ));
+}
+
+/** Module answers recovered from a stored lead (see leadScoreAnswers). */
+export function moduleAnswersFromLead(lead: Partial<FsLead>): Partial<QuizAnswers> {
+  return moduleFor(lead.incident_type)?.fromLead(lead) ?? {};
+}
+
+// ── Lead reports ──────────────────────────────────────────────────────────────
+
+/**
+ * The incident type and its module's answers for the lead email, Sheets row
+ * and PDF. Empty for widget leads and leads stored before incident types.
+ */
+export function incidentDetails(lead: FsLead): LeadDetailRow[] {
+  if (!isIncidentType(lead.incident_type)) return [];
+  return [
+    { label: 'Incident', value: INCIDENT_TYPE_LABELS[lead.incident_type] },
+    ...(moduleFor(lead.incident_type)?.leadDetails(lead) ?? []),
+  ];
+}
@@ -0,0 +1,103 @@
+/**
+ * lib/quiz/modules/medMal.ts
+ * Medical-malpractice follow-ups: the kind of error, who made it, when it
+ * was discovered (many states run the deadline from discovery), and whether
+ * another doctor has said the care fell short.
+ */
+
+import type { QuizAnswers } from '../types';
+import type { IncidentModule } from './shared';
+import { optionLabel } from './shared';
+
+const QUESTIONS: IncidentModule['questions'] = [
+
+  // Q1a — Kind of medical error
+  {
+    id:       'medMalType',
+    headline: 'What went wrong with your care?',
+    sub:      'Malpractice claims are judged differently depending on the error.',
+    type:     'options',
+    options: [
+      { value: 'surgical_error',   icon: '🔪', label: 'Surgical error',         sub: 'Wrong site, retained instrument, botched procedure' },
+      { value: 'misdiagnosis',     icon: '🔍', label: 'Misdiagnosis or delay',  sub: 'Condition missed or diagnosed too late' },
+      { value: 'medication_error', icon: '💊', label: 'Medication error',       sub: 'Wrong drug, dose or interaction' },
+      { value: 'birth_injury',     icon: '👶', label: 'Birth injury',           sub: 'Injury to mother or baby during delivery' },
+      { value: 'other',            icon: '⚖️', label: 'Something else',         sub: 'Another kind of substandard care' },
+    ],
+  },
+
+  // Q1b — Provider
+  {
+    id:       'medMalProvider',
+    headline: 'Who provided the care?',
+    sub:      'Hospitals, individual doctors and facilities are insured differently.',
+    type:     'options',
+    options: [
+      { value: 'hospital',     icon: '🏥', label: 'A hospital or clinic' },
+      { value: 'physician',    icon: '👩‍⚕️', label: 'A doctor or surgeon',   sub: 'Including dentists and specialists' },
+      { value: 'nursing_home', icon: '🛏️', label: 'A nursing home',       sub: 'Or assisted-living facility' },
+      { value: 'pharmacy',     icon: '💊', label: 'A pharmacy' },
+      { value: 'other',        icon: '⚖️', label: 'Someone else' },
+    ],
+  },
+
+  // Q1c — Discovery date
+  {
+    id:       'medMalDiscovered',
+    headline: 'When did you find out something went wrong?',
+    sub:      'In many states the filing clock starts when the error was discovered.',
+    type:     'options',
+    options: [
+      { value: 'under_6_months', icon: '📅', label: 'In the last 6 months' },
+      { value: '6_to_12_months', icon: '📅', label: '6 – 12 months ago' },
+      { value: '1_to_2_years',   icon: '📅', label: '1 – 2 years ago' },
+      { value: 'over_2_years',   icon: '⏳', label: 'More than 2 years ago' },
+    ],
+  },
+
+  // Q1d — Independent medical opinion
+  {
+    id:       'medMalSecondOpinion',
+    headline: 'Has another doctor said your care fell short?',
+    sub:      'Most states require a medical expert to back a malpractice claim.',
+    type:     'options',
+    options: [
+      {
+        value:    'true',
+        icon:     '🩺',
+        label:    'Yes',
+        sub:      'Another provider told me something went wrong',
+        reaction: "An independent medical opinion is exactly what these cases are built on.",
+      },
+      { value: 'false', icon: '🤔', label: 'Not yet', sub: "I haven't had a second opinion" },
+    ],
+  },
+];
+
+export const medMalModule: IncidentModule = {
+  incidentType: 'med_mal',
+  questions:    QUESTIONS,
+
+  scoreFactors: a => (a.medMalSecondOpinion ? ['med_mal_opinion'] : []),
+
+  toLead: a => ({
+    med_mal_type:           a.medMalType,
+    med_mal_provider:       a.medMalProvider,
+    med_mal_discovered:     a.medMalDiscovered,
+    med_mal_second_opinion: a.medMalSecondOpinion,
+  }),
+
+  fromLead: lead => ({
+    medMalType:          (lead.med_mal_type       ?? null) as QuizAnswers['medMalType'],
+    medMalProvider:      (lead.med_mal_provider   ?? null) as QuizAnswers['medMalProvider'],
+    medMalDiscovered:    (lead.med_mal_discovered ?? null) as QuizAnswers['medMalDiscovered'],
+    medMalSecondOpinion: lead.med_mal_second_opinion ?? null,
+  }),
+
+  leadDetails: lead => [
+    { label: 'Malpractice Type', value: optionLabel(QUESTIONS, 'medMalType',          lead.med_mal_type) },
+    { label: 'Provider',         value: optionLabel(QUESTIONS, 'medMalProvider',      lead.med_mal_provider) },
+    { label: 'Discovered',       value: optionLabel(QUESTIONS, 'medMalDiscovered',    lead.med_mal_discovered) },
+    { label: 'Second Opinion',   value: optionLabel(QUESTIONS, 'medMalSecondOpinion', lead.med_mal_second_opinion) },
+  ],
+};
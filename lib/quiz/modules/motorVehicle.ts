@@ -0,0 +1,65 @@
+/**
+ * lib/quiz/modules/motorVehicle.ts
+ * Vehicle follow-ups: rideshare and commercial vehicles carry far higher
+ * policy limits than personal cars, and a police report documents liability.
+ */
+
+import type { QuizAnswers } from '../types';
+import type { IncidentModule } from './shared';
+import { optionLabel } from './shared';
+
+const QUESTIONS: IncidentModule['questions'] = [
+
+  // Q1a — Vehicle type
+  {
+    id:       'vehicleType',
+    headline: 'What kind of vehicle hit you?',
+    sub:      'Rideshare and company vehicles usually carry much larger insurance policies.',
+    type:     'options',
+    options: [
+      { value: 'personal',   icon: '🚗', label: 'A personal car or truck' },
+      { value: 'rideshare',  icon: '📱', label: 'A rideshare',            sub: 'Uber, Lyft — as a passenger or the other driver' },
+      { value: 'commercial', icon: '🚛', label: 'A commercial vehicle',   sub: 'Semi, delivery van, bus, company car' },
+    ],
+  },
+
+  // Q1b — Police report
+  {
+    id:       'policeReport',
+    headline: 'Did the police write up a report?',
+    sub:      'A report is strong evidence of who caused the crash.',
+    type:     'options',
+    options: [
+      { value: 'yes',    icon: '🚓', label: 'Yes' },
+      {
+        value: 'no',
+        icon:  '📝',
+        label: 'No',
+        tip:   'No report is okay — photos, witnesses and medical records can still show what happened.',
+      },
+      { value: 'unsure', icon: '🤷', label: "I'm not sure" },
+    ],
+  },
+];
+
+export const motorVehicleModule: IncidentModule = {
+  incidentType: 'motor_vehicle',
+  questions:    QUESTIONS,
+
+  scoreFactors: a => [
+    ...(a.vehicleType === 'rideshare' || a.vehicleType === 'commercial' ? ['commercial_vehicle' as const] : []),
+    ...(a.policeReport === 'yes' ? ['police_report' as const] : []),
+  ],
+
+  toLead: a => ({ vehicle_type: a.vehicleType, police_report: a.policeReport }),
+
+  fromLead: lead => ({
+    vehicleType:  (lead.vehicle_type  ?? null) as QuizAnswers['vehicleType'],
+    policeReport: (lead.police_report ?? null) as QuizAnswers['policeReport'],
+  }),
+
+  leadDetails: lead => [
+    { label: 'Vehicle',       value: optionLabel(QUESTIONS, 'vehicleType',  lead.vehicle_type) },
+    { label: 'Police Report', value: optionLabel(QUESTIONS, 'policeReport', lead.police_report) },
+  ],
+};
@@ -0,0 +1,39 @@
+/**
+ * lib/quiz/modules/shared.ts
+ * The shape every incident module implements, plus small helpers they share.
+ */
+
+import type { FsLead } from '@/lib/firebase/types';
+import type { QuizQuestion, QuestionId } from '../questions';
+import type { IncidentType, QuizAnswers, ScoreFactorId } from '../types';
+
+/** One label/value line in the lead email, Sheets row and PDF. */
+export interface LeadDetailRow {
+  label: string;
+  value: string;
+}
+
+/**
+ * Follow-up questions for one incident type. The questions are asked right
+ * after the incident question and only when it matches — modules do not add
+ * that condition themselves (see moduleQuestions in ./index.ts).
+ */
+export interface IncidentModule {
+  incidentType: IncidentType;
+  questions:    QuizQuestion[];
+  /** Score factors the module's answers earn. */
+  scoreFactors: (answers: QuizAnswers) => ScoreFactorId[];
+  /** Firestore fields for the module's answers (null when unanswered). */
+  toLead:       (answers: QuizAnswers) => Partial<FsLead>;
+  /** The module's answers recovered from a stored lead (for rescoring). */
+  fromLead:     (lead: Partial<FsLead>) => Partial<QuizAnswers>;
+  /** Rows describing the module's answers for a lead of this incident type. */
+  leadDetails:  (lead: FsLead) => LeadDetailRow[];
+}
+
+/** The label of the option a stored answer was chosen with, or '—'. */
+export function optionLabel(questions: QuizQuestion[], id: QuestionId, value: unknown): string {
+  if (value == null) return '—';
+  const option = questions.find(q => q.id === id)?.options?.find(o => o.value === String(value));
+  return option?.label ?? String(value);
+}
@@ -0,0 +1,48 @@
+/**
+ * lib/quiz/modules/workplace.ts
+ * Workplace follow-up: workers' comp covers injuries caused by the employer
+ * or a co-worker, but a third party (contractor, equipment maker, driver)
+ * can be sued for full damages — that is the case a PI firm wants.
+ */
+
+import type { QuizAnswers } from '../types';
+import type { IncidentModule } from './shared';
+import { optionLabel } from './shared';
+
+const QUESTIONS: IncidentModule['questions'] = [
+
+  // Q1a — Workers' comp vs third party
+  {
+    id:       'workplaceClaim',
+    headline: 'Who caused your workplace injury?',
+    sub:      "Workers' comp covers your employer. Someone outside the company can owe you much more.",
+    type:     'options',
+    options: [
+      { value: 'workers_comp', icon: '🏭', label: 'My employer or a co-worker',  sub: 'Unsafe conditions, a co-worker mistake' },
+      {
+        value:    'third_party',
+        icon:     '🚚',
+        label:    'Someone outside my company',
+        sub:      'A contractor, equipment maker, driver or property owner',
+        reaction: "A third party can be held responsible beyond workers' comp — that can change your case value.",
+      },
+      { value: 'both',   icon: '🤝', label: 'Both',           sub: 'My employer and an outside party share blame' },
+      { value: 'unsure', icon: '🤷', label: "I'm not sure" },
+    ],
+  },
+];
+
+export const workplaceModule: IncidentModule = {
+  incidentType: 'workplace',
+  questions:    QUESTIONS,
+
+  scoreFactors: a => (a.workplaceClaim === 'third_party' || a.workplaceClaim === 'both' ? ['third_party_claim'] : []),
+
+  toLead: a => ({ workplace_claim: a.workplaceClaim }),
+
+  fromLead: lead => ({ workplaceClaim: (lead.workplace_claim ?? null) as QuizAnswers['workplaceClaim'] }),
+
+  leadDetails: lead => [
+    { label: 'Workplace Claim', value: optionLabel(QUESTIONS, 'workplaceClaim', lead.workplace_claim) },
+  ],
+};
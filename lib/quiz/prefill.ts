@@ -0,0 +1,100 @@
+/**
+ * lib/quiz/prefill.ts
+ * Carries the widget's answers into the quiz. Pure — no React.
+ *
+ * The widget's "full case review" CTA appends its EstimatorInputs to the
+ * quiz URL (prefillHref); the quiz reads them back (parsePrefill), starts
+ * with those answers filled in and skips the questions the widget already
+ * asked outright. Nothing here is trusted — the server rescores every lead.
+ */
+
+import type { EstimatorInputs } from '@/lib/estimator/types';
+import { DEFAULT_LOCALE } from '@/lib/i18n';
+import type { Locale } from '@/lib/i18n';
+import { parseInjuryTypes } from '@/lib/estimator/injuries';
+import { isCoverageTier } from '@/lib/estimator/coverage';
+import { isUsState } from './questions';
+import type { QuestionId } from './questions';
+import type { QuizAnswers } from './types';
+import { isAnswered } from './draft';
+
+/** A funnel a lead came through, in the order they used them. */
+export type Touchpoint = 'widget' | 'quiz';
+
+/** Answered outright in the widget, so the quiz does not ask again. */
+export const WIDGET_SKIPPED: QuestionId[] = ['hasSurgery'];
+
+/** Questions to skip for a visitor who came through `touchpoints` — only once answered. */
+export function skippedQuestions(touchpoints: readonly Touchpoint[], answers: QuizAnswers): QuestionId[] {
+  return touchpoints.includes('widget') ? WIDGET_SKIPPED.filter(id => isAnswered(id, answers)) : [];
+}
+
+const MAX_DOLLARS = 10_000_000;
+
+// ── Widget → URL ──────────────────────────────────────────────────────────────
+
+/** `href` with the widget's inputs (and a non-default language) appended as query parameters. */
+export function prefillHref(href: string, inputs: EstimatorInputs, locale: Locale = DEFAULT_LOCALE): string {
+  const params = new URLSearchParams({ from: 'widget' });
+  if (inputs.injuryTypes.length > 0) params.set('injuries', inputs.injuryTypes.join(','));
+  params.set('surgery', inputs.hasSurgery ? '1' : '0');
+  if (inputs.lostWages > 0)       params.set('wages', String(inputs.lostWages));
+  if (inputs.medicalBills)        params.set('bills', String(inputs.medicalBills));
+  if (inputs.futureCare)          params.set('care',  String(inputs.futureCare));
+  if (inputs.state)               params.set('state', inputs.state);
+  if (inputs.atFaultCoverage)     params.set('coverage', inputs.atFaultCoverage);
+  if (inputs.umCoverage)          params.set('um',    inputs.umCoverage);
+  if (locale !== DEFAULT_LOCALE)  params.set('lang',  locale);
+
+  const [base, hash] = href.split('#');
+  const sep = base.includes('?') ? '&' : '?';
+  return `${base}${sep}${params}${hash !== undefined ? `#${hash}` : ''}`;
+}
+
+// ── URL → quiz ────────────────────────────────────────────────────────────────
+
+function dollars(raw: string | null): number | undefined {
+  const n = Math.round(Number(raw));
+  return raw && Number.isFinite(n) && n > 0 ? Math.min(n, MAX_DOLLARS) : undefined;
+}
+
+/**
+ * The quiz answers carried over from the widget, or null when the URL did
+ * not come from the widget. Unknown or malformed values are dropped.
+ */
+export function parsePrefill(search: string | URLSearchParams): Partial<QuizAnswers> | null {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  if (params.get('from') !== 'widget') return null;
+
+  const prefill: Partial<QuizAnswers> = {};
+
+  const injuries = parseInjuryTypes(params.get('injuries')?.split(',') ?? []);
+  if (injuries.length > 0) prefill.injuryTypes = injuries;
+
+  const surgery = params.get('surgery');
+  if (surgery === '1' || surgery === '0') prefill.hasSurgery = surgery === '1';
+
+  const lostWages    = dollars(params.get('wages'));
+  const medicalBills = dollars(params.get('bills'));
+  const futureCare   = dollars(params.get('care'));
+  if (lostWages)    prefill.lostWages    = lostWages;
+  if (medicalBills) prefill.medicalBills = medicalBills;
+  if (futureCare)   prefill.futureCare   = futureCare;
+
+  const state = params.get('state');
+  if (isUsState(state)) prefill.state = state;
+
+  const coverage = params.get('coverage');
+  const um       = params.get('um');
+  if (isCoverageTier(coverage)) prefill.atFaultCoverage = coverage;
+  if (isCoverageTier(um))       prefill.umCoverage      = um;
+
+  return prefill;
+}
+
+/** Valid touchpoints from a submission, de-duplicated, ending with `source`. */
+export function parseTouchpoints(raw: unknown, source: Touchpoint): Touchpoint[] {
+  const list = Array.isArray(raw) ? raw : [];
+  const seen = list.filter((t): t is Touchpoint => (t === 'widget' || t === 'quiz') && t !== source);
+  return [...new Set(seen), source];
+}
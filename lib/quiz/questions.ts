@@ -1,14 +1,22 @@
 /**
  * lib/quiz/questions.ts
- * Declarative question definitions for the 11-question quiz.
+ * Declarative question definitions for the 15-question quiz. Incident-
+ * specific follow-ups live in lib/quiz/modules and are spliced in after Q1.
  *
  * Question types:
  *   'options'           — pill/card selection, auto-advances on click
+ *   'injury-select'     — multi-select injury cards, explicit Next (at least one)
  *   'state-select'      — US state dropdown, explicit Next button
  *   'wages-with-slider' — work status options + conditional wage slider, explicit Next
+ *   'medical-costs'     — optional medical bills + future care amounts, explicit Next
+ *   'coverage'          — at-fault party's limit + lead's UM/UIM limit dropdowns, explicit Next
+ *
+ * Branching (evaluated by lib/quiz/flow.ts):
+ *   showIf — question is skipped unless this returns true for the answers so far
+ *   next   — jump to a later question instead of the following one; return
+ *            null/undefined for the default order
  *
  * Option properties:
- *   isDisq     — selecting this triggers the disqualified screen immediately
  *   isSoftExit — selecting this triggers the attorney-exit screen
  *   warning    — yellow alert shown for 2.5s before auto-advancing
  *   tip        — blue info alert shown for 2.5s before auto-advancing
@@ -16,6 +24,10 @@
  */
 
 import type { QuizAnswers } from './types';
+import { moduleQuestions } from './modules';
+
+/** A question's ID is the answer field it fills. */
+export type QuestionId = keyof QuizAnswers;
 
 // ── US States ────────────────────────────────────────────────────────────────
 
@@ -31,6 +43,11 @@ export const US_STATES = [
   'West Virginia','Wisconsin','Wyoming','Washington D.C.',
 ];
 
+/** True for a full state name in US_STATES — checks untrusted input (query strings, bodies). */
+export function isUsState(value: unknown): value is string {
+  return typeof value === 'string' && US_STATES.includes(value);
+}
+
 // ── Option type ───────────────────────────────────────────────────────────────
 
 export interface QuizOption {
@@ -38,22 +55,29 @@ export interface QuizOption {
   label:       string;
   sub?:        string;
   icon?:       string;
-  isDisq?:     boolean;
   isSoftExit?: boolean;
   warning?:    string;
   tip?:        string;
   reaction?:   string;
 }
 
-export type QuizQuestionType = 'options' | 'state-select' | 'wages-with-slider';
+export type QuizQuestionType =
+  | 'options'
+  | 'injury-select'
+  | 'state-select'
+  | 'wages-with-slider'
+  | 'medical-costs'
+  | 'coverage';
 
 export interface QuizQuestion {
-  id:       keyof QuizAnswers;
+  id:       QuestionId;
   headline: string;
   sub?:     string;
   type:     QuizQuestionType;
   options?: QuizOption[];
   layout?:  'list' | 'grid';
+  showIf?:  (answers: QuizAnswers) => boolean;
+  next?:    (answers: QuizAnswers) => QuestionId | null | undefined;
 }
 
 // ── Questions ─────────────────────────────────────────────────────────────────
@@ -76,7 +100,25 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q2 — State
+  // Q1 follow-ups — incident modules, each shown only for its incident type
+  ...moduleQuestions(),
+
+  // Q2 — Injuries (values are InjuryType — never incident types)
+  {
+    id:       'injuryTypes',
+    headline: 'What injuries did you suffer?',
+    sub:      'Select all that apply — your most serious injury sets the starting value.',
+    type:     'injury-select',
+    layout:   'grid',
+    options: [
+      { value: 'soft_tissue', icon: '🩹', label: 'Soft Tissue',  sub: 'Sprains, strains, whiplash' },
+      { value: 'fracture',    icon: '🦴', label: 'Fracture',     sub: 'Broken or cracked bone' },
+      { value: 'tbi',         icon: '🧠', label: 'Head / TBI',   sub: 'Concussion, traumatic brain injury' },
+      { value: 'spinal',      icon: '⚡', label: 'Spinal',       sub: 'Herniated disc, spinal cord injury' },
+    ],
+  },
+
+  // Q3 — State
   {
     id:       'state',
     headline: 'What state are you in?',
@@ -84,7 +126,19 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     type:     'state-select',
   },
 
-  // Q3 — Timeframe
+  // Q4 — Government defendant (much shorter notice-of-claim deadlines)
+  {
+    id:       'governmentDefendant',
+    headline: 'Was a government agency or employee involved?',
+    sub:      'For example a city bus, police vehicle, public building or road.',
+    type:     'options',
+    options: [
+      { value: 'true',  icon: '🏛️', label: 'Yes', sub: 'A city, county, state or federal party' },
+      { value: 'false', icon: '👤', label: 'No',  sub: 'A private person or business' },
+    ],
+  },
+
+  // Q5 — Timeframe (statute alert computed per state — see lib/legal/statute.ts)
   {
     id:       'incidentTimeframe',
     headline: 'When did this happen?',
@@ -94,33 +148,37 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
       { value: 'under_6_months',  icon: '📅', label: 'In the last 6 months' },
       { value: '6_to_12_months',  icon: '📅', label: '6 – 12 months ago' },
       { value: '1_to_2_years',    icon: '📅', label: '1 – 2 years ago' },
-      {
-        value:   'over_2_years',
-        icon:    '⏳',
-        label:   'More than 2 years ago',
-        warning: 'Statutes of limitations may apply depending on your state. An attorney can still review your case — don\'t give up yet.',
-      },
+      { value: 'over_2_years',    icon: '⏳', label: 'More than 2 years ago' },
     ],
   },
 
-  // Q4 — At fault
+  // Q6 — Fault share (disqualifies only where the state's negligence rule bars recovery)
   {
-    id:       'atFault',
+    id:       'faultLevel',
     headline: 'Were you at fault for the incident?',
     sub:      'Be honest — it helps Sam give you a realistic picture.',
     type:     'options',
     options: [
-      { value: 'false', icon: '✅', label: 'No — the other party was at fault',  sub: 'They caused the accident' },
-      { value: 'true',  icon: '❌', label: 'Yes — I was at fault',               sub: 'The accident was my fault', isDisq: true },
+      { value: 'none',    icon: '✅', label: 'No — the other party was at fault', sub: 'They caused the accident' },
+      {
+        value: 'partial',
+        icon:  '⚖️',
+        label: 'Partly — we both share some blame',
+        sub:   'They were more at fault than I was',
+        tip:   "Shared fault doesn't end your case. In most states it only reduces what you can recover.",
+      },
+      { value: 'mostly',  icon: '⚠️', label: 'Mostly — I was more at fault',     sub: 'But the other party played a part' },
+      { value: 'fully',   icon: '❌', label: 'Yes — it was entirely my fault',   sub: 'The accident was my fault' },
     ],
   },
 
-  // Q5 — Treatment received
+  // Q7 — Treatment received ("none" skips the hospital, surgery and ongoing-treatment questions)
   {
     id:       'receivedTreatment',
     headline: 'Did you receive medical treatment?',
     sub:      'Documented treatment is the backbone of any injury claim.',
     type:     'options',
+    next:     a => (a.receivedTreatment === 'none' ? 'medicalBills' : null),
     options: [
       { value: 'er_doctor',    icon: '🏥', label: 'Yes — doctor or ER',   sub: 'Includes urgent care, specialist, chiropractor' },
       { value: 'self_treated', icon: '💊', label: 'Yes — self-treated',   sub: 'OTC meds, rest, no formal care' },
@@ -134,7 +192,7 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q6 — Hospitalized
+  // Q8 — Hospitalized
   {
     id:       'hospitalized',
     headline: 'Were you hospitalized?',
@@ -146,7 +204,7 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q7 — Surgery
+  // Q9 — Surgery
   {
     id:       'hasSurgery',
     headline: 'Did you have (or need) surgery?',
@@ -164,7 +222,7 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q8 — Still in treatment
+  // Q10 — Still in treatment
   {
     id:       'stillInTreatment',
     headline: 'Are you still receiving treatment?',
@@ -177,7 +235,15 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q9 — Missed work + wages (combined)
+  // Q11 — Medical costs (optional; feeds the specials-multiplier valuation)
+  {
+    id:       'medicalBills',
+    headline: 'Roughly how much are your medical costs?',
+    sub:      "Best guesses are fine — leave blank if you're not sure.",
+    type:     'medical-costs',
+  },
+
+  // Q12 — Missed work + wages (combined)
   {
     id:       'missedWork',
     headline: 'Did you miss work because of your injury?',
@@ -190,7 +256,7 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q10 — Insurance contact
+  // Q13 — Insurance contact
   {
     id:       'insuranceContact',
     headline: 'Has anyone been in touch about an insurance claim?',
@@ -215,7 +281,15 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
     ],
   },
 
-  // Q11 — Has attorney
+  // Q14 — Insurance limits (optional; caps the estimate at likely collectible coverage)
+  {
+    id:       'atFaultCoverage',
+    headline: 'Do you know the insurance limits involved?',
+    sub:      "A settlement can only be paid from available coverage. It's fine if you don't know.",
+    type:     'coverage',
+  },
+
+  // Q15 — Has attorney
   {
     id:       'hasAttorney',
     headline: 'Do you currently have an attorney?',
@@ -228,5 +302,3 @@ export const QUIZ_QUESTIONS: QuizQuestion[] = [
   },
 
 ];
-
-export const TOTAL_QUESTIONS = QUIZ_QUESTIONS.length;
@@ -2,23 +2,32 @@
  * lib/quiz/scoring.ts
  * Pure scoring logic for the quiz funnel. No React. Fully unit-testable.
  *
- * Score → Tier:
+ * Score → Tier (built-in thresholds; admins can publish new ones):
  *   HOT  ≥ 75
  *   WARM ≥ 50
  *   COLD  < 50
  */
 
-import type { QuizAnswers, DisqualReason } from './types';
-import { INJURY_BASE_VALUES, SURGERY_MULTIPLIER } from '../estimator/logic';
+import type { QuizAnswers, DisqualReason, ScoringRules, ScoreContribution, ScoreFactorId } from './types';
+import type { EstimateBreakdown, EstimatorInputs, InjuryType, ValuationTable } from '../estimator/types';
+import { calculateEstimateBreakdown, calculateSpecialsBreakdown, DEFAULT_VALUATION_TABLE } from '../estimator/logic';
+import { evaluateCoverage } from '../estimator/coverage';
+import type { CollectibleEstimate } from '../estimator/coverage';
+import { isRecoveryBarred, recoveryFactor, FAULT_PERCENT, isFaultLevel } from '../legal/negligence';
+import { moduleScoreFactors } from './modules';
+import { DEFAULT_LOCALE, messages } from '../i18n';
+import type { Locale } from '../i18n';
 
 // ── Disqualifier ──────────────────────────────────────────────────────────────
 
 /**
  * Returns the disqualification reason if this lead is unworkable, or null.
- * Only one hard disqualifier: user was at fault.
+ * Only one hard disqualifier: the lead's share of fault bars recovery under
+ * their state's negligence rule (see lib/legal/negligence.ts). Shared fault
+ * in a comparative state reduces the score and estimate instead.
  */
 export function checkDisqualifier(answers: Partial<QuizAnswers>): DisqualReason | null {
-  if (answers.atFault === true) return 'at_fault';
+  if (isRecoveryBarred(answers.faultLevel, answers.state)) return 'at_fault';
   return null;
 }
 
@@ -29,81 +38,211 @@ export function checkSoftExit(answers: Partial<QuizAnswers>): boolean {
   return answers.hasAttorney === 'yes';
 }
 
-// ── Score calculation ─────────────────────────────────────────────────────────
+// ── Scoring rules ─────────────────────────────────────────────────────────────
 
 /**
- * Computes a 0–150 point score from quiz answers.
- * Only call when no disqualifier is present.
- *
- * Weights:
+ * Built-in weights (version 0), used until rules are published:
  *   Surgery           +50
  *   Hospitalization   +30
  *   Lost wages >$10k  +25
  *   Still treating    +20
  *   Insurance contact +15
- *   ER/doctor visit   +10
  *   Can't work        +15
- *   Missed work       +10
+ *   Missed work       +10   (only when the lead can still work)
+ *   ER/doctor visit   +10
  */
-export function calculateScore(answers: QuizAnswers): number {
-  let score = 0;
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  version: 0,
+  weights: {
+    surgery:           50,
+    hospitalized:      30,
+    lost_wages:        25,
+    still_treating:    20,
+    insurance_contact: 15,
+    cant_work:         15,
+    missed_work:       10,
+    er_doctor:         10,
+    med_mal_opinion:    15,
+    third_party_claim:  20,
+    commercial_vehicle: 20,
+    police_report:      10,
+  },
+  lostWagesThreshold: 10_000,
+  hotThreshold:       75,
+  warmThreshold:      50,
+};
 
-  if (answers.hasSurgery)                                             score += 50;
-  if (answers.hospitalized)                                           score += 30;
-  if (answers.lostWages > 10_000)                                     score += 25;
-  if (answers.stillInTreatment === 'yes')                             score += 20;
+/** Results-screen wording for each factor. */
+export const SCORE_FACTOR_LABELS: Record<ScoreFactorId, string> = {
+  surgery:           'Surgery documented',
+  hospitalized:      'Hospitalization documented',
+  lost_wages:        'Significant lost wages',
+  still_treating:    'Ongoing treatment',
+  insurance_contact: 'Insurance already contacted you',
+  cant_work:         'Unable to work',
+  missed_work:       'Missed work documented',
+  er_doctor:         'ER / physician visit on record',
+  med_mal_opinion:    'Another doctor says care fell short',
+  third_party_claim:  'Third-party claim beyond workers\' comp',
+  commercial_vehicle: 'Rideshare or commercial vehicle involved',
+  police_report:      'Police report filed',
+};
+
+// ── Score calculation ─────────────────────────────────────────────────────────
+
+/** Which factors the answers satisfy, in results-screen order. */
+function matchedFactors(answers: QuizAnswers, rules: ScoringRules): ScoreFactorId[] {
+  const ids: ScoreFactorId[] = [];
+  if (answers.hasSurgery)                              ids.push('surgery');
+  if (answers.hospitalized)                            ids.push('hospitalized');
+  if (answers.lostWages > rules.lostWagesThreshold)    ids.push('lost_wages');
+  if (answers.stillInTreatment === 'yes')              ids.push('still_treating');
   if (answers.insuranceContact === 'they_contacted' ||
-      answers.insuranceContact === 'got_letter')                      score += 15;
-  if (answers.receivedTreatment === 'er_doctor')                      score += 10;
-  if (answers.missedWork === 'yes_cant_work')                         score += 15;
-  else if (answers.missedWork === 'yes_missed')                       score += 10;
+      answers.insuranceContact === 'got_letter')       ids.push('insurance_contact');
+  if (answers.missedWork === 'yes_cant_work')          ids.push('cant_work');
+  else if (answers.missedWork === 'yes_missed')        ids.push('missed_work');
+  if (answers.receivedTreatment === 'er_doctor')       ids.push('er_doctor');
+  ids.push(...moduleScoreFactors(answers));
+  return ids;
+}
 
-  return Math.round(score);
+/**
+ * Every factor the answers satisfy with the points it earns under `rules`.
+ * Zero-weight factors are kept so the stored record shows what matched.
+ */
+export function scoreContributions(
+  answers: QuizAnswers,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): ScoreContribution[] {
+  return matchedFactors(answers, rules).map(id => ({
+    id,
+    label:  SCORE_FACTOR_LABELS[id],
+    points: rules.weights[id],
+  }));
+}
+
+/**
+ * Computes the lead score from quiz answers (0–195 with the built-in weights).
+ * Only call when no disqualifier is present.
+ *
+ * The sum of contributions is scaled by the lead's recovery factor, so shared
+ * fault in a comparative-negligence state lowers the score proportionally.
+ */
+export function calculateScore(
+  answers: QuizAnswers,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): number {
+  const score = scoreContributions(answers, rules).reduce((sum, c) => sum + c.points, 0);
+  return Math.round(score * recoveryFactor(answers.faultLevel, answers.state));
 }
 
 // ── Tier assignment ───────────────────────────────────────────────────────────
 
-export function scoreTier(score: number): 'HOT' | 'WARM' | 'COLD' {
-  if (score >= 75) return 'HOT';
-  if (score >= 50) return 'WARM';
+export function scoreTier(
+  score: number,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+): 'HOT' | 'WARM' | 'COLD' {
+  if (score >= rules.hotThreshold)  return 'HOT';
+  if (score >= rules.warmThreshold) return 'WARM';
   return 'COLD';
 }
 
 // ── Estimate range ────────────────────────────────────────────────────────────
 
 /**
- * Derives an estimate range from quiz answers.
- * Injury type is inferred (no explicit injury question in the 11-step quiz):
- *   surgery → spinal (highest base)
- *   hospitalized (no surgery) → fracture
- *   else → soft_tissue
+ * Estimator inputs equivalent to a set of quiz answers. Until the injury
+ * question is answered the running estimate previews as soft tissue, the
+ * lowest base value.
  */
-export function calculateQuizEstimate(
-  answers: QuizAnswers,
-): { low: number; high: number } {
-  let baseKey: keyof typeof INJURY_BASE_VALUES;
-  if (answers.hasSurgery)      baseKey = 'spinal';
-  else if (answers.hospitalized) baseKey = 'fracture';
-  else                          baseKey = 'soft_tissue';
+function quizEstimatorInputs(answers: QuizAnswers): EstimatorInputs {
+  const injuryTypes: InjuryType[] = answers.injuryTypes?.length ? answers.injuryTypes : ['soft_tissue'];
+  return {
+    injuryTypes,
+    hasSurgery:   Boolean(answers.hasSurgery),
+    lostWages:    answers.lostWages    ?? 0,
+    state:        answers.state,
+    medicalBills: answers.medicalBills ?? 0,
+    futureCare:   answers.futureCare   ?? 0,
+  };
+}
 
-  const base       = INJURY_BASE_VALUES[baseKey];
-  const multiplier = answers.hasSurgery ? SURGERY_MULTIPLIER : 1;
-  const wages      = Math.max(0, Math.round(answers.lostWages ?? 0));
+/** Reduces a breakdown's total by the lead's share of fault under the state's rule. */
+function withComparativeFault(breakdown: EstimateBreakdown, answers: QuizAnswers): EstimateBreakdown {
+  const recovery = recoveryFactor(answers.faultLevel, answers.state);
+  if (recovery === 1) return breakdown;
 
+  const faultPct = isFaultLevel(answers.faultLevel) ? FAULT_PERCENT[answers.faultLevel] : 0;
   return {
-    low:  Math.round(base.low  * multiplier) + wages,
-    high: Math.round(base.high * multiplier) + wages,
+    ...breakdown,
+    multipliers: [
+      ...breakdown.multipliers,
+      { id: 'comparative_fault', label: `Your share of fault (~${faultPct}%)`, factor: recovery, appliesTo: 'total' },
+    ],
+    total: {
+      low:  Math.round(breakdown.total.low  * recovery),
+      high: Math.round(breakdown.total.high * recovery),
+    },
   };
 }
 
+/**
+ * Itemized estimate from quiz answers — the estimator breakdown for the
+ * lead's injuries and state, with the lead's share of fault
+ * under the state's rule applied to the whole range.
+ */
+export function calculateQuizBreakdown(
+  answers: QuizAnswers,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateBreakdown {
+  return withComparativeFault(calculateEstimateBreakdown(quizEstimatorInputs(answers), table)!, answers);
+}
+
+/**
+ * Specials-multiplier valuation from quiz answers, or null when the lead
+ * entered no medical costs. Stored beside the base-range estimate for comparison.
+ */
+export function calculateQuizSpecialsBreakdown(
+  answers: QuizAnswers,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): EstimateBreakdown | null {
+  const breakdown = calculateSpecialsBreakdown(quizEstimatorInputs(answers), table);
+  return breakdown ? withComparativeFault(breakdown, answers) : null;
+}
+
+/**
+ * Derives an estimate range from quiz answers (see calculateQuizBreakdown).
+ * The base range is adjusted for the lead's state (answers.state), and the
+ * whole range is reduced by the lead's share of fault under the state's rule.
+ */
+export function calculateQuizEstimate(
+  answers: QuizAnswers,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): { low: number; high: number } {
+  return calculateQuizBreakdown(answers, table).total;
+}
+
+/**
+ * The quiz estimate checked against likely collectible insurance.
+ * For vehicle incidents an unknown at-fault limit is assumed to be the
+ * state minimum; for other incidents it leaves the estimate uncapped.
+ */
+export function calculateQuizCollectible(
+  answers: QuizAnswers,
+  table: ValuationTable = DEFAULT_VALUATION_TABLE,
+): CollectibleEstimate {
+  return evaluateCoverage(calculateQuizEstimate(answers, table), {
+    state:           answers.state,
+    atFaultCoverage: answers.atFaultCoverage,
+    umCoverage:      answers.umCoverage,
+    assumeMinimum:   answers.incidentType === 'motor_vehicle',
+  });
+}
+
 // ── Disqualifier messages ─────────────────────────────────────────────────────
 
-export const DISQUALIFIER_MESSAGES: Record<DisqualReason, { headline: string; body: string }> = {
-  at_fault: {
-    headline: "Sam can't help with this one.",
-    body:     "Cases where you were at fault are very difficult to settle. If you believe there's any shared fault involved, consider talking to an attorney — some situations are more nuanced than they first appear.",
-  },
-};
+/** English; other locales: messages(locale).disqualifier (lib/i18n). */
+export const DISQUALIFIER_MESSAGES: Record<DisqualReason, { headline: string; body: string }> =
+  messages(DEFAULT_LOCALE).disqualifier;
 
 // ── Key factors for results screen ───────────────────────────────────────────
 
@@ -112,23 +251,13 @@ export interface KeyFactor {
   points: string;
 }
 
-export function getKeyFactors(answers: QuizAnswers): KeyFactor[] {
-  const factors: KeyFactor[] = [];
-  if (answers.hasSurgery)
-    factors.push({ label: 'Surgery documented', points: '+50 pts' });
-  if (answers.hospitalized)
-    factors.push({ label: 'Hospitalization documented', points: '+30 pts' });
-  if (answers.lostWages > 10_000)
-    factors.push({ label: 'Significant lost wages', points: '+25 pts' });
-  if (answers.stillInTreatment === 'yes')
-    factors.push({ label: 'Ongoing treatment', points: '+20 pts' });
-  if (answers.insuranceContact === 'they_contacted' || answers.insuranceContact === 'got_letter')
-    factors.push({ label: 'Insurance already contacted you', points: '+15 pts' });
-  if (answers.missedWork === 'yes_cant_work')
-    factors.push({ label: 'Unable to work', points: '+15 pts' });
-  else if (answers.missedWork === 'yes_missed')
-    factors.push({ label: 'Missed work documented', points: '+10 pts' });
-  if (answers.receivedTreatment === 'er_doctor')
-    factors.push({ label: 'ER / physician visit on record', points: '+10 pts' });
-  return factors;
+export function getKeyFactors(
+  answers: QuizAnswers,
+  rules: ScoringRules = DEFAULT_SCORING_RULES,
+  locale: Locale = DEFAULT_LOCALE,
+): KeyFactor[] {
+  const labels = messages(locale).scoreFactors;
+  return scoreContributions(answers, rules)
+    .filter(c => c.points > 0)
+    .map(c => ({ label: labels[c.id] ?? c.label, points: `+${c.points} pts` }));
 }
@@ -0,0 +1,122 @@
+/**
+ * lib/quiz/scoringRules.ts
+ * Pure helpers for versioned lead-scoring rules — validation of admin edits
+ * and rescoring a stored lead under any rule set.
+ *
+ * Firestore access lives in lib/quiz/scoringRulesStore.ts (server only).
+ */
+
+import type { QuizAnswers, ScoringRules, ScoreFactorId, ScoreContribution } from './types';
+import { INITIAL_ANSWERS } from './types';
+import type { FsLead } from '../firebase/types';
+import { DEFAULT_SCORING_RULES, calculateScore, scoreContributions, scoreTier } from './scoring';
+import { isFaultLevel } from '../legal/negligence';
+import { isIncidentType, moduleAnswersFromLead } from './modules';
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+export const MAX_FACTOR_WEIGHT = 200;
+
+/** The editable part of a rule set — version is assigned on publish. */
+export type ScoringRulesDraft = Omit<ScoringRules, 'version'>;
+
+export const SCORE_FACTOR_IDS = Object.keys(DEFAULT_SCORING_RULES.weights) as ScoreFactorId[];
+
+/**
+ * Returns a human-readable problem with submitted rules, or null when valid.
+ * Every factor needs a whole-number weight; WARM must sit below HOT.
+ */
+export function scoringRulesError(input: unknown): string | null {
+  if (!input || typeof input !== 'object') return 'Scoring rules are required.';
+  const { weights, lostWagesThreshold, hotThreshold, warmThreshold } = input as Partial<ScoringRulesDraft>;
+
+  if (!weights || typeof weights !== 'object') return 'Weights are required for every factor.';
+  for (const id of SCORE_FACTOR_IDS) {
+    const w = weights[id];
+    if (!Number.isInteger(w) || w < 0 || w > MAX_FACTOR_WEIGHT) {
+      return `Weight for ${id} must be a whole number from 0 to ${MAX_FACTOR_WEIGHT}.`;
+    }
+  }
+
+  if (!Number.isInteger(lostWagesThreshold) || (lostWagesThreshold as number) < 0) {
+    return 'Lost-wages threshold must be a whole-dollar amount.';
+  }
+  if (!Number.isInteger(hotThreshold) || !Number.isInteger(warmThreshold) ||
+      (warmThreshold as number) < 0 || (hotThreshold as number) <= (warmThreshold as number)) {
+    return 'Tier thresholds must be whole numbers with WARM below HOT.';
+  }
+  return null;
+}
+
+/** Copies only the known fields of validated rules (drops anything extra). */
+export function toScoringRulesDraft(input: ScoringRulesDraft): ScoringRulesDraft {
+  const weights = {} as Record<ScoreFactorId, number>;
+  for (const id of SCORE_FACTOR_IDS) weights[id] = input.weights[id];
+  return {
+    weights,
+    lostWagesThreshold: input.lostWagesThreshold,
+    hotThreshold:       input.hotThreshold,
+    warmThreshold:      input.warmThreshold,
+  };
+}
+
+// ── Stored contributions ──────────────────────────────────────────────────────
+
+/** Shape stored on the lead: factor ID → points earned. */
+export function contributionsRecord(contributions: ScoreContribution[]): Record<string, number> {
+  return Object.fromEntries(contributions.map(c => [c.id, c.points]));
+}
+
+/** Display label for a lead's score_version. */
+export function scoreVersionLabel(version: number | null | undefined): string {
+  if (version == null) return 'Not recorded (pre-versioning)';
+  return version === 0 ? 'v0 (built-in)' : `v${version}`;
+}
+
+// ── Rescoring stored leads ────────────────────────────────────────────────────
+
+export type LeadScoringFields = Pick<FsLead,
+  | 'surgery' | 'hospitalized' | 'lost_wages_estimate' | 'still_treating'
+  | 'insurance_contacted' | 'missed_work' | 'state' | 'fault_level' | 'score_contributions'>
+  & Partial<FsLead>;   // incident type and module answers, when stored
+
+/**
+ * Reconstructs the scoring-relevant quiz answers from a stored lead.
+ * The ER-visit and can't-work distinctions are only recoverable from
+ * score_contributions, so leads scored before versioning lose them.
+ * Incident-module answers come from the lead's module fields.
+ */
+export function leadScoreAnswers(lead: LeadScoringFields): QuizAnswers {
+  const matched = lead.score_contributions ?? {};
+  return {
+    ...INITIAL_ANSWERS,
+    ...moduleAnswersFromLead(lead),
+    incidentType:      isIncidentType(lead.incident_type) ? lead.incident_type : null,
+    state:             lead.state,
+    faultLevel:        isFaultLevel(lead.fault_level) ? lead.fault_level : null,
+    hasSurgery:        lead.surgery,
+    hospitalized:      lead.hospitalized,
+    lostWages:         lead.lost_wages_estimate ?? 0,
+    stillInTreatment:  lead.still_treating ? 'yes' : 'no',
+    insuranceContact:  lead.insurance_contacted ? 'they_contacted' : 'not_yet',
+    receivedTreatment: 'er_doctor' in matched ? 'er_doctor' : null,
+    missedWork:        'cant_work' in matched ? 'yes_cant_work' : lead.missed_work ? 'yes_missed' : 'no',
+  };
+}
+
+export interface LeadRescore {
+  score:         number;
+  tier:          'HOT' | 'WARM' | 'COLD';
+  contributions: Record<string, number>;
+}
+
+/** Score, tier and contributions a stored lead gets under `rules`. */
+export function rescoreLead(lead: LeadScoringFields, rules: ScoringRules): LeadRescore {
+  const answers = leadScoreAnswers(lead);
+  const score   = calculateScore(answers, rules);
+  return {
+    score,
+    tier:          scoreTier(score, rules),
+    contributions: contributionsRecord(scoreContributions(answers, rules)),
+  };
+}
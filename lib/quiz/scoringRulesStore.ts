@@ -0,0 +1,141 @@
+/**
+ * lib/quiz/scoringRulesStore.ts
+ * Firestore-backed lead-scoring rule versions and the rescoring job.
+ * Server only — never import in client components.
+ *
+ * Collection: scoring_rules, one immutable doc per published version.
+ * The active rules are the highest version; with none published, the
+ * built-in DEFAULT_SCORING_RULES (version 0) apply.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsLead, FsScoringRules } from '@/lib/firebase/types';
+import type { ScoringRules, ScoreFactorId } from './types';
+import { DEFAULT_SCORING_RULES } from './scoring';
+import { rescoreLead } from './scoringRules';
+import type { ScoringRulesDraft } from './scoringRules';
+
+const COLLECTION   = 'scoring_rules';
+const CACHE_TTL_MS = 60 * 1_000;
+const BATCH_LIMIT  = 400;   // Firestore allows 500 writes per batch
+
+let cached: { rules: ScoringRules; fetchedAt: number } | null = null;
+
+/**
+ * Factors added after a version was published take their built-in weight
+ * until an admin publishes a version that sets one.
+ */
+export function toScoringRules(doc: FsScoringRules): ScoringRules {
+  return {
+    version:            doc.version,
+    weights:            { ...DEFAULT_SCORING_RULES.weights, ...doc.weights } as Record<ScoreFactorId, number>,
+    lostWagesThreshold: doc.lost_wages_threshold,
+    hotThreshold:       doc.hot_threshold,
+    warmThreshold:      doc.warm_threshold,
+  };
+}
+
+/**
+ * The rules new leads should be scored with. Cached for a minute per server
+ * instance; falls back to the built-in rules if Firestore is unavailable
+ * so lead capture never fails on a rules lookup.
+ */
+export async function getActiveScoringRules(): Promise<ScoringRules> {
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached.rules;
+
+  try {
+    const snap  = await adminDb.collection(COLLECTION).orderBy('version', 'desc').limit(1).get();
+    const rules = snap.empty
+      ? DEFAULT_SCORING_RULES
+      : toScoringRules(snap.docs[0].data() as FsScoringRules);
+    cached = { rules, fetchedAt: Date.now() };
+    return rules;
+  } catch (err) {
+    console.error('[scoring] Failed to load active rules:', err);
+    return cached?.rules ?? DEFAULT_SCORING_RULES;
+  }
+}
+
+/** Every published version, newest first. */
+export async function listScoringRules(): Promise<FsScoringRules[]> {
+  const snap = await adminDb.collection(COLLECTION).orderBy('version', 'desc').get();
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as FsScoringRules));
+}
+
+/**
+ * Publishes validated rules as the next version and makes them active.
+ * The version number is allocated in a transaction so concurrent publishes
+ * cannot collide.
+ */
+export async function publishScoringRules(
+  draft:       ScoringRulesDraft,
+  note:        string,
+  publishedBy: string,
+): Promise<FsScoringRules> {
+  const published = await adminDb.runTransaction(async tx => {
+    const latest  = await tx.get(adminDb.collection(COLLECTION).orderBy('version', 'desc').limit(1));
+    const version = latest.empty ? 1 : (latest.docs[0].data() as FsScoringRules).version + 1;
+
+    const doc: FsScoringRules = {
+      version,
+      weights:              draft.weights,
+      lost_wages_threshold: draft.lostWagesThreshold,
+      hot_threshold:        draft.hotThreshold,
+      warm_threshold:       draft.warmThreshold,
+      note,
+      published_by: publishedBy,
+      published_at: Date.now(),
+    };
+    tx.create(adminDb.collection(COLLECTION).doc(String(version)), doc);
+    return { id: String(version), ...doc };
+  });
+
+  cached = { rules: toScoringRules(published), fetchedAt: Date.now() };
+  return published;
+}
+
+// ── Rescoring job ─────────────────────────────────────────────────────────────
+
+export interface RescoreResult {
+  version: number;   // rules applied
+  scanned: number;   // undelivered quiz leads checked
+  updated: number;   // leads whose score, tier or version changed
+}
+
+/**
+ * Recomputes score, tier and contributions for every undelivered quiz lead
+ * under `rules`. Delivered leads keep the score they were sold with; widget
+ * leads are not scored. Overwrites manual tier/score edits on affected leads.
+ */
+export async function rescoreUndeliveredLeads(rules: ScoringRules): Promise<RescoreResult> {
+  const snap = await adminDb.collection('leads')
+    .where('delivered', '==', false)
+    .where('source', '==', 'quiz')
+    .get();
+
+  let updated = 0;
+  let batch   = adminDb.batch();
+  let pending = 0;
+
+  for (const doc of snap.docs) {
+    const lead   = doc.data() as FsLead;
+    const result = rescoreLead(lead, rules);
+    if (result.score === lead.score && result.tier === lead.tier && lead.score_version === rules.version) continue;
+
+    batch.update(doc.ref, {
+      score:               result.score,
+      tier:                result.tier,
+      score_version:       rules.version,
+      score_contributions: result.contributions,
+    });
+    updated++;
+    if (++pending === BATCH_LIMIT) {
+      await batch.commit();
+      batch   = adminDb.batch();
+      pending = 0;
+    }
+  }
+  if (pending > 0) await batch.commit();
+
+  return { version: rules.version, scanned: snap.size, updated };
+}
@@ -1,8 +1,11 @@
 /**
  * lib/quiz/types.ts
- * All types for the 11-question quiz funnel.
+ * All types for the 15-question quiz funnel.
  */
 
+import type { CoverageTier } from '@/lib/estimator/coverage';
+import type { InjuryType } from '@/lib/estimator/types';
+
 /** Incident categories */
 export type IncidentType =
   | 'motor_vehicle'
@@ -11,6 +14,26 @@ export type IncidentType =
   | 'med_mal'
   | 'other';
 
+/** Kind of medical error (med_mal follow-up) */
+export type MedMalType =
+  | 'surgical_error'
+  | 'misdiagnosis'
+  | 'medication_error'
+  | 'birth_injury'
+  | 'other';
+
+/** Kind of provider responsible (med_mal follow-up) */
+export type MedMalProvider = 'hospital' | 'physician' | 'nursing_home' | 'pharmacy' | 'other';
+
+/** Whose fault a workplace injury was (workplace follow-up) */
+export type WorkplaceClaim = 'workers_comp' | 'third_party' | 'both' | 'unsure';
+
+/** Vehicle that caused the crash (motor_vehicle follow-up) */
+export type VehicleType = 'personal' | 'rideshare' | 'commercial';
+
+/** Whether police wrote up the crash (motor_vehicle follow-up) */
+export type PoliceReport = 'yes' | 'no' | 'unsure';
+
 /** When incident occurred (4 options) */
 export type IncidentTimeframe =
   | 'under_6_months'
@@ -18,6 +41,9 @@ export type IncidentTimeframe =
   | '1_to_2_years'
   | 'over_2_years';
 
+/** Lead's share of fault for the incident (drives comparative-negligence rules) */
+export type FaultLevel = 'none' | 'partial' | 'mostly' | 'fully';
+
 /** Medical treatment received */
 export type TreatmentStatus = 'er_doctor' | 'self_treated' | 'none';
 
@@ -33,49 +59,84 @@ export type InsuranceContactStatus = 'they_contacted' | 'got_letter' | 'not_yet'
 /** Attorney status */
 export type AttorneyStatus = 'no' | 'yes';
 
-/** All quiz answers collected across the 11 questions */
+/**
+ * All quiz answers collected across the 15 core questions plus branch
+ * follow-ups. Questions a visitor's path skips keep their initial value
+ * (see lib/quiz/flow.ts).
+ */
 export interface QuizAnswers {
   // Q1
-  incidentType:      IncidentType | null;
-  // Q2
-  state:             string | null;
+  incidentType:        IncidentType | null;
+  // Q1 follow-ups — incident modules (lib/quiz/modules), one set per incident type
+  medMalType:          MedMalType | null;
+  medMalProvider:      MedMalProvider | null;
+  medMalDiscovered:    IncidentTimeframe | null;
+  medMalSecondOpinion: boolean | null;
+  workplaceClaim:      WorkplaceClaim | null;
+  vehicleType:         VehicleType | null;
+  policeReport:        PoliceReport | null;
+  // Q2 (multi-select; valued with INJURY_BASE_VALUES)
+  injuryTypes:         InjuryType[];
   // Q3
-  incidentTimeframe: IncidentTimeframe | null;
+  state:               string | null;
   // Q4
-  atFault:           boolean | null;
+  governmentDefendant: boolean | null;
   // Q5
-  receivedTreatment: TreatmentStatus | null;
+  incidentTimeframe:   IncidentTimeframe | null;
   // Q6
-  hospitalized:      boolean | null;
+  faultLevel:          FaultLevel | null;
   // Q7
-  hasSurgery:        boolean | null;
+  receivedTreatment:   TreatmentStatus | null;
   // Q8
-  stillInTreatment:  TreatmentOngoing | null;
-  // Q9 (combined: work status + wages slider)
-  missedWork:        MissedWorkStatus | null;
-  lostWages:         number;
+  hospitalized:        boolean | null;
+  // Q9
+  hasSurgery:          boolean | null;
   // Q10
-  insuranceContact:  InsuranceContactStatus | null;
-  // Q11
-  hasAttorney:       AttorneyStatus | null;
+  stillInTreatment:    TreatmentOngoing | null;
+  // Q11 (optional dollar amounts; 0 = not provided)
+  medicalBills:        number;
+  futureCare:          number;
+  // Q12 (combined: work status + wages slider)
+  missedWork:          MissedWorkStatus | null;
+  lostWages:           number;
+  // Q13
+  insuranceContact:    InsuranceContactStatus | null;
+  // Q14 (combined: at-fault party's limit + lead's UM/UIM limit)
+  atFaultCoverage:     CoverageTier | null;
+  umCoverage:          CoverageTier | null;
+  // Q15
+  hasAttorney:         AttorneyStatus | null;
 }
 
 export const INITIAL_ANSWERS: QuizAnswers = {
-  incidentType:      null,
-  state:             null,
-  incidentTimeframe: null,
-  atFault:           null,
-  receivedTreatment: null,
-  hospitalized:      null,
-  hasSurgery:        null,
-  stillInTreatment:  null,
-  missedWork:        null,
-  lostWages:         0,
-  insuranceContact:  null,
-  hasAttorney:       null,
+  incidentType:        null,
+  medMalType:          null,
+  medMalProvider:      null,
+  medMalDiscovered:    null,
+  medMalSecondOpinion: null,
+  workplaceClaim:      null,
+  vehicleType:         null,
+  policeReport:        null,
+  injuryTypes:         [],
+  state:               null,
+  governmentDefendant: null,
+  incidentTimeframe:   null,
+  faultLevel:          null,
+  receivedTreatment:   null,
+  hospitalized:        null,
+  hasSurgery:          null,
+  stillInTreatment:    null,
+  medicalBills:        0,
+  futureCare:          0,
+  missedWork:          null,
+  lostWages:           0,
+  insuranceContact:    null,
+  atFaultCoverage:     null,
+  umCoverage:          null,
+  hasAttorney:         null,
 };
 
-/** Only one hard disqualifier: at fault */
+/** Only one hard disqualifier: at fault where the state's negligence rule bars recovery */
 export type DisqualReason = 'at_fault';
 
 /** The final scored result */
@@ -86,3 +147,38 @@ export interface QuizResult {
   estimateLow:  number;
   estimateHigh: number;
 }
+
+/** A lead attribute that earns score points (see lib/quiz/scoring.ts). */
+export type ScoreFactorId =
+  | 'surgery'
+  | 'hospitalized'
+  | 'lost_wages'
+  | 'still_treating'
+  | 'insurance_contact'
+  | 'cant_work'
+  | 'missed_work'
+  | 'er_doctor'
+  // incident modules (lib/quiz/modules)
+  | 'med_mal_opinion'
+  | 'third_party_claim'
+  | 'commercial_vehicle'
+  | 'police_report';
+
+/**
+ * Lead-scoring weights and tier thresholds. Published versions live in
+ * Firestore (see lib/quiz/scoringRulesStore.ts); version 0 is the built-in set.
+ */
+export interface ScoringRules {
+  version:            number;
+  weights:            Record<ScoreFactorId, number>;
+  lostWagesThreshold: number;   // lost_wages applies above this many dollars
+  hotThreshold:       number;   // score ≥ → HOT
+  warmThreshold:      number;   // score ≥ → WARM, else COLD
+}
+
+/** Points one factor added to a lead's score, before the fault reduction. */
+export interface ScoreContribution {
+  id:     ScoreFactorId;
+  label:  string;
+  points: number;
+}
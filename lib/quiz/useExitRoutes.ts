@@ -0,0 +1,25 @@
+'use client';
+/**
+ * lib/quiz/useExitRoutes.ts
+ * Fetches the quiz exit offers (lib/quiz/exitRoutes.ts). Null until the
+ * fetch settles; a failed fetch means no offers.
+ */
+
+import { useEffect, useState } from 'react';
+import { DEFAULT_EXIT_ROUTES } from './exitRoutes';
+import type { ExitRoutes } from './exitRoutes';
+
+export function useExitRoutes(apiBase = '/api'): ExitRoutes | null {
+  const [routes, setRoutes] = useState<ExitRoutes | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`${apiBase}/quiz/exits`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (!cancelled) setRoutes(data?.routes ?? DEFAULT_EXIT_ROUTES); })
+      .catch(() => { if (!cancelled) setRoutes(DEFAULT_EXIT_ROUTES); });
+    return () => { cancelled = true; };
+  }, [apiBase]);
+
+  return routes;
+}
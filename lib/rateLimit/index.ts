@@ -0,0 +1,188 @@
+/**
+ * lib/rateLimit/index.ts
+ * Sliding-window rate limiting for public endpoints, keyed by IP, device ID
+ * (lib/leads/device.ts), phone and recipient email. Each route has its own
+ * rules per key; a request is refused when any of its keys is over its rule.
+ *
+ * Fails closed: if the backend can't be reached the request is refused.
+ *
+ * Pure — no Firestore. Backends: createMemoryBackend() below, and the
+ * Firestore one in lib/rateLimit/rateLimitStore.ts.
+ */
+
+// ── Rules ─────────────────────────────────────────────────────────────────────
+
+export type RateLimitScope = 'ip' | 'device' | 'phone' | 'email';
+
+export interface RateLimitRule {
+  limit:    number;
+  windowMs: number;
+}
+
+export type RateLimitRoute =
+  | 'sms_send' | 'sms_verify' | 'lead_partial' | 'attorney_inquiry' | 'bookings' | 'quiz_draft'
+  | 'funnel_events' | 'quiz_exits';
+
+const MINUTE = 60 * 1_000;
+const HOUR   = 60 * MINUTE;
+const DAY    = 24 * HOUR;
+
+/**
+ * Per-route limits. SMS send also has the per-phone cooldown and hourly cap
+ * of lib/sms/otpPolicy.ts; the daily phone cap here stops a number being
+ * texted hour after hour.
+ */
+export const RATE_LIMITS: Record<RateLimitRoute, Partial<Record<RateLimitScope, RateLimitRule>>> = {
+  sms_send: {
+    ip:     { limit: 20, windowMs: HOUR },
+    device: { limit: 10, windowMs: HOUR },
+    phone:  { limit: 10, windowMs: DAY },
+  },
+  sms_verify: {
+    ip:     { limit: 30, windowMs: 10 * MINUTE },
+    device: { limit: 20, windowMs: 10 * MINUTE },
+    phone:  { limit: 15, windowMs: 10 * MINUTE },
+  },
+  lead_partial: {
+    ip:     { limit: 20, windowMs: HOUR },
+    device: { limit: 10, windowMs: HOUR },
+    phone:  { limit: 10, windowMs: DAY },
+  },
+  attorney_inquiry: {
+    ip:     { limit: 5, windowMs: HOUR },
+    device: { limit: 5, windowMs: HOUR },
+    phone:  { limit: 3, windowMs: DAY },
+  },
+  bookings: {
+    ip:     { limit: 5, windowMs: HOUR },
+    device: { limit: 5, windowMs: HOUR },
+    phone:  { limit: 3, windowMs: DAY },
+  },
+  quiz_draft: {
+    ip:     { limit: 10, windowMs: HOUR },
+    device: { limit: 5,  windowMs: HOUR },
+    email:  { limit: 3,  windowMs: DAY },
+  },
+  // Tracking beacons carry no device ID; a quiz session sends a few dozen
+  funnel_events: {
+    ip:     { limit: 300, windowMs: HOUR },
+  },
+  // Exit beacons carry the answers so far; a session shows one or two exits
+  quiz_exits: {
+    ip:     { limit: 30, windowMs: HOUR },
+  },
+};
+
+/** Retry-After sent when the backend is unavailable. */
+export const FAIL_CLOSED_RETRY_S = 60;
+
+// ── Client IP ─────────────────────────────────────────────────────────────────
+
+/**
+ * The client address from an X-Forwarded-For header. Each proxy appends the
+ * address it received from, so only the last `trustedHops` entries were
+ * written by our own proxies; anything to their left came from the client
+ * and can be forged. Returns the entry the outermost trusted proxy added,
+ * or null when the header is missing, too short, or no proxy is trusted.
+ */
+export function forwardedClientIp(header: string | null | undefined, trustedHops: number): string | null {
+  if (!header || trustedHops < 1) return null;
+  const hops = header.split(',').map(h => h.trim()).filter(Boolean);
+  return hops.length >= trustedHops ? hops[hops.length - trustedHops] : null;
+}
+
+// ── Sliding window ────────────────────────────────────────────────────────────
+
+export interface WindowDecision {
+  allowed:     boolean;
+  /** Requests left in the window after this one. */
+  remaining:   number;
+  /** 0 when allowed. */
+  retryAfterS: number;
+}
+
+/**
+ * Applies one request to a key's hit log: drops hits outside the window and,
+ * if under the limit, records `now`. Returns the decision and the new log.
+ */
+export function slidingWindow(hits: number[], rule: RateLimitRule, now: number): { decision: WindowDecision; hits: number[] } {
+  const live = hits.filter(t => t > now - rule.windowMs).sort((a, b) => a - b);
+
+  if (live.length >= rule.limit) {
+    const oldest = live[live.length - rule.limit];
+    return {
+      decision: { allowed: false, remaining: 0, retryAfterS: Math.max(1, Math.ceil((oldest + rule.windowMs - now) / 1_000)) },
+      hits:     live,
+    };
+  }
+  return {
+    decision: { allowed: true, remaining: rule.limit - live.length - 1, retryAfterS: 0 },
+    hits:     [...live, now],
+  };
+}
+
+// ── Backends ──────────────────────────────────────────────────────────────────
+
+export interface RateLimitBackend {
+  /** Applies slidingWindow() to the key's log atomically. May throw. */
+  take(key: string, rule: RateLimitRule, now: number): Promise<WindowDecision>;
+}
+
+/** Keys kept before the memory backend sweeps out idle ones. */
+const MEMORY_SWEEP_AT = 10_000;
+
+/** Per-process backend — for dev, tests and single-instance deploys. */
+export function createMemoryBackend(): RateLimitBackend {
+  const logs = new Map<string, { hits: number[]; windowMs: number }>();
+
+  return {
+    async take(key, rule, now) {
+      if (logs.size >= MEMORY_SWEEP_AT) {
+        for (const [k, log] of logs) {
+          if (!log.hits.some(t => t > now - log.windowMs)) logs.delete(k);
+        }
+      }
+      const next = slidingWindow(logs.get(key)?.hits ?? [], rule, now);
+      logs.set(key, { hits: next.hits, windowMs: rule.windowMs });
+      return next.decision;
+    },
+  };
+}
+
+// ── Checking a request ────────────────────────────────────────────────────────
+
+export type RateLimitKeys = Partial<Record<RateLimitScope, string | null>>;
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfterS: number }
+  /** The backend failed — refused rather than let through unlimited. */
+  | { allowed: false; scope: null; retryAfterS: number };
+
+const SCOPES: RateLimitScope[] = ['ip', 'device', 'phone', 'email'];
+
+/**
+ * Checks a request's keys against the route's rules in order (IP, device,
+ * phone, email), stopping at the first that is over. Keys without a value or rule
+ * are skipped.
+ */
+export async function checkRateLimits(
+  backend: RateLimitBackend,
+  route:   RateLimitRoute,
+  keys:    RateLimitKeys,
+  now = Date.now(),
+): Promise<RateLimitResult> {
+  try {
+    for (const scope of SCOPES) {
+      const rule = RATE_LIMITS[route][scope];
+      const key  = keys[scope];
+      if (!rule || !key) continue;
+      const decision = await backend.take(`${route}:${scope}:${key}`, rule, now);
+      if (!decision.allowed) return { allowed: false, scope, retryAfterS: decision.retryAfterS };
+    }
+    return { allowed: true };
+  } catch (err) {
+    console.error(`[rate-limit] ${route} backend error — refusing:`, err instanceof Error ? err.message : err);
+    return { allowed: false, scope: null, retryAfterS: FAIL_CLOSED_RETRY_S };
+  }
+}
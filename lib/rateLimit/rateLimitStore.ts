@@ -0,0 +1,90 @@
+/**
+ * lib/rateLimit/rateLimitStore.ts
+ * Firestore rate-limit backend and the route helper that applies it.
+ * Server only — never import in client components.
+ *
+ * Collection:
+ *   rate_limits  — one doc per key (SHA-256 of route:scope:value, so no raw
+ *                  IPs, phones or emails), holding the hits in its window.
+ *
+ * RATE_LIMIT_BACKEND=memory swaps in the per-process backend (dev, tests).
+ * TRUSTED_PROXY_HOPS is how many proxies in front of the app append to
+ * X-Forwarded-For (default 1; 0 ignores the header).
+ */
+
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsRateLimit } from '@/lib/firebase/types';
+import { checkRateLimits, createMemoryBackend, forwardedClientIp, slidingWindow } from './index';
+import type { RateLimitBackend, RateLimitKeys, RateLimitRoute } from './index';
+
+const LIMITS = 'rate_limits';
+
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+
+/**
+ * Client IP: the platform's address when it provides one, else the
+ * X-Forwarded-For entry our proxy added (see forwardedClientIp), or null.
+ * Never the header's first entry, which the client chooses.
+ */
+export function requestIp(req: NextRequest): string | null {
+  return req.ip || forwardedClientIp(req.headers.get('x-forwarded-for'), TRUSTED_PROXY_HOPS);
+}
+
+export const firestoreBackend: RateLimitBackend = {
+  take(key, rule, now) {
+    const ref = adminDb.collection(LIMITS).doc(crypto.createHash('sha256').update(key).digest('hex'));
+    return adminDb.runTransaction(async tx => {
+      const snap = await tx.get(ref);
+      const next = slidingWindow(snap.exists ? (snap.data() as FsRateLimit).hits : [], rule, now);
+      const doc: FsRateLimit = { hits: next.hits, expires_at: now + rule.windowMs };
+      tx.set(ref, doc);
+      return next.decision;
+    });
+  },
+};
+
+const memoryBackend = createMemoryBackend();
+
+export function rateLimitBackend(): RateLimitBackend {
+  return process.env.RATE_LIMIT_BACKEND === 'memory' ? memoryBackend : firestoreBackend;
+}
+
+/** Headers for a refused request. */
+export function retryAfterHeaders(seconds: number): Record<string, string> {
+  return { 'Retry-After': String(seconds) };
+}
+
+/**
+ * Applies the route's limits to a request. Returns the response to send when
+ * it's over a limit (429) or the backend is down (503), or null to go ahead.
+ * The IP comes from the request; device, phone and email from the caller.
+ */
+export async function limitRequest(
+  req:   NextRequest,
+  route: RateLimitRoute,
+  keys:  Omit<RateLimitKeys, 'ip'> = {},
+): Promise<NextResponse | null> {
+  const result = await checkRateLimits(rateLimitBackend(), route, { ip: requestIp(req), ...keys });
+  if (result.allowed) return null;
+
+  if (result.scope === null) {
+    return NextResponse.json(
+      { error: 'rate_limit_unavailable', message: 'Please try again in a minute.', retryAfter: result.retryAfterS },
+      { status: 503, headers: retryAfterHeaders(result.retryAfterS) },
+    );
+  }
+
+  console.warn(`[rate-limit] ${route} refused by ${result.scope} limit`);
+  const minutes = Math.ceil(result.retryAfterS / 60);
+  return NextResponse.json(
+    {
+      error:      'rate_limited',
+      message:    `Too many requests. Please try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+      retryAfter: result.retryAfterS,
+    },
+    { status: 429, headers: retryAfterHeaders(result.retryAfterS) },
+  );
+}
@@ -12,6 +12,8 @@
 const INTERNAL_FIELDS = new Set([
   'score',
   'tier',
+  'score_version',
+  'score_contributions',
   'salePrice',
   'estimatedValue',
   'clientId',
@@ -24,6 +26,9 @@ const INTERNAL_FIELDS = new Set([
   'exclusive_firm',
   'disqualify_reason',
   'statute_warning',
+  'statute_deadline',
+  'statute_days_remaining',
+  'statute_basis',
 ]);
 
 /**
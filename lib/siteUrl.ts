@@ -0,0 +1,9 @@
+/**
+ * lib/siteUrl.ts
+ * The public site URL for links in outbound email (NEXT_PUBLIC_APP_URL).
+ * Never built from the request, whose Host header the caller controls.
+ */
+
+export function siteUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL ?? 'http://localhost:3000').replace(/\/+$/, '');
+}
@@ -0,0 +1,107 @@
+/**
+ * lib/sms/carrierCodes.ts
+ * Learning a phone's carrier from the gateway blast: each gateway gets its own
+ * code, so the code the visitor types says which gateway delivered. The
+ * carrier is stored on the lead and cached for the phone's next send.
+ * A blast leaves one live code per gateway, so a guess is that many times
+ * likelier to land — still 1 in 100,000 per attempt at six digits and ten
+ * gateways.
+ *
+ * No Firestore — the cache lives in lib/sms/carrierStore.ts.
+ */
+
+import { CARRIERS } from './index';
+import { codeMatches, codeHashSecret } from './codeHash';
+import type { FsSmsSend, FsVerificationCode } from '@/lib/firebase/types';
+
+// ── Codes ─────────────────────────────────────────────────────────────────────
+
+/** A distinct code per gateway. */
+export function assignGatewayCodes(carriers: readonly string[], generate: () => string): Record<string, string> {
+  const codes: Record<string, string> = {};
+  const used  = new Set<string>();
+  for (const carrier of carriers) {
+    let code = generate();
+    while (used.has(code)) code = generate();
+    used.add(code);
+    codes[carrier] = code;
+  }
+  return codes;
+}
+
+/**
+ * The gateway whose code was entered, or null. Checks every gateway even
+ * after a match so the response time doesn't reveal the position.
+ */
+export function matchGatewayCode(
+  stored: Pick<FsVerificationCode, 'phone' | 'gateway_codes'>,
+  code: string,
+  secret = codeHashSecret(),
+): string | null {
+  let matched: string | null = null;
+  for (const entry of stored.gateway_codes ?? []) {
+    const ok = codeMatches({ phone: stored.phone, ...entry }, code, secret);
+    if (ok && matched === null) matched = entry.carrier;
+  }
+  return matched;
+}
+
+/**
+ * Gateways to text: the cached carrier alone for a phone's first code in the
+ * window, every gateway otherwise — a resend means the cached carrier may be
+ * stale (e.g. the number was ported).
+ */
+export function gatewaysFor(cached: string | null, isResend: boolean, blast: readonly string[]): string[] {
+  return cached && !isResend ? [cached] : [...blast];
+}
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+export interface CarrierRate {
+  carrier:      string;
+  label:        string;
+  /** Gateway sends attempted / accepted by the mail server. */
+  attempted:    number;
+  accepted:     number;
+  deliveryRate: number;
+  /** Codes that went out through this gateway, and how many were entered. */
+  codes:        number;
+  verified:     number;
+  verifyRate:   number;
+}
+
+/** Per-gateway delivery (sms_sends) and verification (verification_codes), most verified first. */
+export function carrierRates(
+  sends: Pick<FsSmsSend, 'carriers'>[],
+  codes: Pick<FsVerificationCode, 'gateway_codes' | 'carrier'>[],
+): CarrierRate[] {
+  const rates = new Map<string, CarrierRate>();
+  const rate  = (carrier: string) => {
+    let r = rates.get(carrier);
+    if (!r) {
+      r = { carrier, label: CARRIERS[carrier] ?? carrier, attempted: 0, accepted: 0, deliveryRate: 0, codes: 0, verified: 0, verifyRate: 0 };
+      rates.set(carrier, r);
+    }
+    return r;
+  };
+
+  for (const send of sends) {
+    for (const c of send.carriers ?? []) {
+      const r = rate(c.carrier);
+      r.attempted++;
+      if (c.accepted) r.accepted++;
+    }
+  }
+  for (const code of codes) {
+    for (const entry of code.gateway_codes ?? []) rate(entry.carrier).codes++;
+    if (code.carrier) rate(code.carrier).verified++;
+  }
+
+  return [...rates.values()]
+    .map(r => ({
+      ...r,
+      deliveryRate: r.attempted ? r.accepted / r.attempted : 0,
+      verifyRate:   r.codes ? r.verified / r.codes : 0,
+    }))
+    .sort((a, b) => b.verified - a.verified || b.codes - a.codes);
+}
@@ -0,0 +1,33 @@
+/**
+ * lib/sms/carrierStore.ts
+ * Phone → carrier cache, learned when a visitor enters a per-gateway code
+ * (lib/sms/carrierCodes.ts).
+ * Server only — never import in client components.
+ *
+ * Collection:
+ *   phone_carriers  — doc ID is the 10-digit phone.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsPhoneCarrier } from '@/lib/firebase/types';
+import { CARRIERS } from './index';
+
+const CARRIERS_COLLECTION = 'phone_carriers';
+
+/** The carrier that last delivered to this phone, or null. Never throws. */
+export async function cachedCarrier(phone: string): Promise<string | null> {
+  try {
+    const snap = await adminDb.collection(CARRIERS_COLLECTION).doc(phone).get();
+    const carrier = snap.exists ? (snap.data() as FsPhoneCarrier).carrier : null;
+    // A gateway dropped from CARRIERS since it was cached is ignored
+    return carrier && carrier in CARRIERS ? carrier : null;
+  } catch (err) {
+    console.error('[sms] Carrier lookup failed:', err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+export async function rememberCarrier(phone: string, carrier: string): Promise<void> {
+  const doc: FsPhoneCarrier = { carrier, verified_at: Date.now() };
+  await adminDb.collection(CARRIERS_COLLECTION).doc(phone).set(doc);
+}
@@ -0,0 +1,62 @@
+/**
+ * lib/sms/codeHash.ts
+ * Verification codes at rest: a salted HMAC-SHA256 of phone + code, keyed by
+ * OTP_HASH_SECRET (falls back to JWT_SECRET). Binding the phone means a hash
+ * copied onto another phone's code doc never matches.
+ *
+ * Server only — uses Node crypto. No '@/' imports, so
+ * scripts/hash-verification-codes.ts can load it under ts-node.
+ */
+
+import crypto from 'crypto';
+
+export interface CodeHash {
+  code_hash: string;   // hex HMAC-SHA256
+  code_salt: string;   // hex, random per code
+}
+
+/** What a stored verification_codes doc needs for a comparison. */
+export interface StoredCode {
+  phone:      string;
+  code_hash?: string;
+  code_salt?: string;
+  /** Legacy plaintext, from before codes were hashed. */
+  code?:      string;
+}
+
+export function codeHashSecret(): string {
+  return process.env.OTP_HASH_SECRET ?? process.env.JWT_SECRET ?? 'dev-secret-change-in-production';
+}
+
+function hmac(secret: string, phone: string, salt: string, code: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(`${phone}:${salt}:${code}`).digest();
+}
+
+export function hashCode(phone: string, code: string, secret = codeHashSecret()): CodeHash {
+  const salt = crypto.randomBytes(16).toString('hex');
+  return { code_hash: hmac(secret, phone, salt, code).toString('hex'), code_salt: salt };
+}
+
+/**
+ * True if `code` is the stored code. Compares in constant time: the stored
+ * hash against a fresh one, or for legacy plaintext docs, HMACs of both sides
+ * so neither the length nor the first wrong digit shows in the timing.
+ */
+export function codeMatches(stored: StoredCode, code: string, secret = codeHashSecret()): boolean {
+  if (stored.code_hash && stored.code_salt) {
+    const expected = hmac(secret, stored.phone, stored.code_salt, code);
+    const actual   = Buffer.from(stored.code_hash, 'hex');
+    // A tampered hash of the wrong length can't match; the length is no secret
+    if (actual.length !== expected.length) return false;
+    return crypto.timingSafeEqual(actual, expected);
+  }
+
+  if (typeof stored.code === 'string') {
+    const salt = crypto.randomBytes(16).toString('hex');
+    return crypto.timingSafeEqual(
+      hmac(secret, stored.phone, salt, stored.code),
+      hmac(secret, stored.phone, salt, code),
+    );
+  }
+  return false;
+}
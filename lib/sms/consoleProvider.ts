@@ -0,0 +1,30 @@
+/**
+ * lib/sms/consoleProvider.ts
+ * Local stand-in: logs each text instead of sending it, and appends it as a
+ * JSON line to SMS_OUTBOX_FILE when set, so dev and tests can read the code.
+ * Reports itself unconfigured in production so codes can't silently go nowhere.
+ */
+
+import { appendFile } from 'fs/promises';
+import { timedResult } from './provider';
+import type { SmsMessage, SmsProvider } from './provider';
+
+/** One outbox line (newline-terminated JSON). */
+export function outboxLine(message: SmsMessage, now = Date.now()): string {
+  return JSON.stringify({ to: message.to, text: message.text, carrier: message.carrier ?? null, timestamp: now }) + '\n';
+}
+
+export const consoleProvider: SmsProvider = {
+  name: 'console',
+
+  isConfigured: () => process.env.NODE_ENV !== 'production',
+
+  send: message => timedResult('console', async () => {
+    console.log(`[sms] (console) → ${message.to}: ${message.text}`);
+
+    const file = process.env.SMS_OUTBOX_FILE;
+    if (file) await appendFile(file, outboxLine(message));
+
+    return { ok: true, attempted: 1, accepted: 1, error: null, detail: file ?? null };
+  }),
+};
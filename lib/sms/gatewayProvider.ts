@@ -0,0 +1,59 @@
+/**
+ * lib/sms/gatewayProvider.ts
+ * Email-to-SMS: mails the text to the phone's carrier gateway over Gmail SMTP,
+ * or to every MULTI_BLAST_GATEWAYS address when the carrier is unknown.
+ * With `variants`, each listed gateway gets its own text instead.
+ */
+
+import nodemailer from 'nodemailer';
+import { MULTI_BLAST_GATEWAYS, gatewayAddress } from './index';
+import { timedResult } from './provider';
+import type { SmsProvider } from './provider';
+
+function createMailer() {
+  return nodemailer.createTransport({
+    host:   'smtp.gmail.com',
+    port:   465,
+    secure: true,
+    auth:   { user: process.env.GMAIL_USER, pass: process.env.GMAIL_APP_PASSWORD },
+  });
+}
+
+export const gatewayProvider: SmsProvider = {
+  name: 'gateway',
+
+  isConfigured: () => Boolean(process.env.GMAIL_USER && process.env.GMAIL_APP_PASSWORD),
+
+  send: message => timedResult('gateway', async () => {
+    const mailer  = createMailer();
+    const targets = message.variants
+      ?? (message.carrier ? [message.carrier] : MULTI_BLAST_GATEWAYS).map(carrier => ({ carrier, text: message.text }));
+
+    // Fail fast on bad credentials instead of collecting one auth error per gateway
+    await mailer.verify();
+
+    const results = await Promise.allSettled(
+      targets.map(target =>
+        mailer.sendMail({
+          from:    `"Settlement Sam" <${process.env.GMAIL_USER}>`,
+          to:      gatewayAddress(message.to, target.carrier),
+          subject: '',   // SMS gateways ignore the subject
+          text:    target.text,
+        }),
+      ),
+    );
+
+    const accepted  = results.filter(r => r.status === 'fulfilled').length;
+    const firstFail = results.find(r => r.status === 'rejected') as PromiseRejectedResult | undefined;
+    const reason    = firstFail?.reason;
+
+    return {
+      ok:        accepted > 0,
+      attempted: targets.length,
+      accepted,
+      error:     firstFail ? (reason instanceof Error ? reason.message : String(reason)) : null,
+      detail:    targets.length === 1 ? targets[0].carrier : null,
+      carriers:  targets.map((t, i) => ({ carrier: t.carrier, accepted: results[i].status === 'fulfilled' })),
+    };
+  }),
+};
@@ -0,0 +1,73 @@
+/**
+ * lib/sms/httpProvider.ts
+ * HTTP SMS API with a Twilio-style request: a form-encoded POST of To, From and
+ * Body with Basic auth. Works against Twilio's Messages endpoint as-is, and
+ * against any service that accepts the same shape.
+ *
+ * Env: SMS_API_URL (full endpoint), SMS_API_USER (account SID / key),
+ *      SMS_API_TOKEN, SMS_API_FROM (sending number, E.164).
+ */
+
+import { timedResult } from './provider';
+import type { SmsMessage, SmsProvider } from './provider';
+
+/** A send still pending after this long is abandoned and counted as failed. */
+export const HTTP_SMS_TIMEOUT_MS = 10_000;
+
+export interface HttpSmsConfig {
+  url:   string;
+  user:  string;
+  token: string;
+  from:  string;
+}
+
+function httpSmsConfig(): HttpSmsConfig | null {
+  const { SMS_API_URL: url, SMS_API_USER: user, SMS_API_TOKEN: token, SMS_API_FROM: from } = process.env;
+  return url && user && token && from ? { url, user, token, from } : null;
+}
+
+/** The fetch() arguments for one text. `to` is a 10-digit US number. */
+export function httpSmsRequest(message: SmsMessage, config: HttpSmsConfig): { url: string; init: RequestInit } {
+  return {
+    url:  config.url,
+    init: {
+      method:  'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${config.user}:${config.token}`).toString('base64')}`,
+        'Content-Type':  'application/x-www-form-urlencoded',
+      },
+      body:   new URLSearchParams({ To: `+1${message.to}`, From: config.from, Body: message.text }).toString(),
+      signal: AbortSignal.timeout(HTTP_SMS_TIMEOUT_MS),
+    },
+  };
+}
+
+export const httpProvider: SmsProvider = {
+  name: 'http',
+
+  isConfigured: () => httpSmsConfig() !== null,
+
+  send: message => timedResult('http', async () => {
+    const config = httpSmsConfig();
+    if (!config) throw new Error('SMS_API_URL, SMS_API_USER, SMS_API_TOKEN and SMS_API_FROM must all be set');
+
+    const { url, init } = httpSmsRequest(message, config);
+    const res  = await fetch(url, init).catch(err => {
+      // A DOMException, which isn't always an Error instance
+      const name = (err as { name?: string } | null)?.name;
+      if (name === 'TimeoutError' || name === 'AbortError') {
+        throw new Error(`No response within ${HTTP_SMS_TIMEOUT_MS / 1_000}s`);
+      }
+      throw err;
+    });
+    const data = await res.json().catch(() => ({})) as { sid?: string; message?: string };
+
+    return {
+      ok:        res.ok,
+      attempted: 1,
+      accepted:  res.ok ? 1 : 0,
+      error:     res.ok ? null : `${res.status}: ${data.message ?? res.statusText}`,
+      detail:    data.sid ?? null,
+    };
+  }),
+};
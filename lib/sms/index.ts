@@ -0,0 +1,94 @@
+/**
+ * lib/sms/index.ts
+ * SMS utility: carrier gateways, phone normalization and code generation.
+ *
+ * Sending goes through the configured SmsProvider (lib/sms/provider.ts) via
+ * sendSms() in lib/sms/sendStore.ts, so everything here stays pure.
+ */
+
+import crypto from 'crypto';
+import { OTP_POLICY } from './otpPolicy';
+
+// ── Carrier gateway map (gateway → display label) ─────────────────────────────
+
+export const CARRIERS: Record<string, string> = {
+  'tmomail.net':                 'T-Mobile',
+  'vtext.com':                   'Verizon',
+  'txt.att.net':                 'AT&T',
+  'sms.cricketwireless.net':     'Cricket',
+  'sms.myboostmobile.com':       'Boost Mobile',
+  'mymetropcs.com':              'Metro PCS',
+  'msg.fi.google.com':           'Google Fi',
+  'mailmymobile.net':            'Consumer Cellular',
+  'vsblmobile.com':              'Visible',
+  'tellomail.com':               'Tello',
+  'message.ting.com':            'Ting',
+  'text.republicwireless.com':   'Republic Wireless',
+  'messaging.sprintpcs.com':     'Sprint',
+  'email.uscc.net':              'US Cellular',
+  'mmst5.tracfone.com':          'TracFone',
+};
+
+/**
+ * Sentinel value for "I'm not sure / Other" carrier selection.
+ * Triggers a multi-gateway blast instead of a single carrier send.
+ */
+export const MULTI_BLAST_SENTINEL = 'MULTI_BLAST';
+
+/**
+ * Gateways blasted simultaneously when the carrier is unknown — which is every
+ * /api/sms/send request. First delivery wins; the gateway provider uses
+ * Promise.allSettled so one failure doesn't block others.
+ */
+export const MULTI_BLAST_GATEWAYS = [
+  'txt.att.net',
+  'vtext.com',
+  'tmomail.net',
+  'sms.cricketwireless.net',
+  'sms.myboostmobile.com',
+  'mymetropcs.com',
+  'msg.fi.google.com',
+  'mailmymobile.net',
+  'messaging.sprintpcs.com',
+  'email.uscc.net',
+];
+
+export const VALID_GATEWAYS = new Set([...Object.keys(CARRIERS), MULTI_BLAST_SENTINEL]);
+
+// ── Constants (see lib/sms/otpPolicy.ts) ──────────────────────────────────────
+
+export const CODE_TTL_MS       = OTP_POLICY.ttlMs;
+export const RATE_WINDOW_MS    = OTP_POLICY.rateWindowMs;
+export const MAX_SENDS_PER_HR  = OTP_POLICY.maxSendsPerHour;
+export const MAX_ATTEMPTS      = OTP_POLICY.maxAttempts;
+export const RESEND_COOLDOWN_S = OTP_POLICY.resendCooldownS;   // enforced server-side
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * Strip all non-digits. Remove leading US country code (1) if present.
+ * Returns 10-digit string or raw input if shorter/longer.
+ */
+export function normalizePhone(raw: string): string {
+  const digits = String(raw ?? '').replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('1')) return digits.slice(1);
+  return digits;
+}
+
+/**
+ * Cryptographically secure OTP_POLICY.length-digit code, zero-padded.
+ * Uses crypto.randomInt to avoid modulo bias of Math.random().
+ */
+export function generateCode(): string {
+  return String(crypto.randomInt(0, 10 ** OTP_POLICY.length)).padStart(OTP_POLICY.length, '0');
+}
+
+/** 32-byte hex session token (64 chars). */
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/** Build the email-to-SMS gateway address. */
+export function gatewayAddress(phone: string, carrier: string): string {
+  return `${phone}@${carrier}`;
+}
@@ -0,0 +1,71 @@
+/**
+ * lib/sms/otpPolicy.ts
+ * The one-time code policy shared by /api/sms/send, /api/sms/verify and the
+ * SMSVerification component (quiz and widget): code length, lifetime, wrong
+ * guesses allowed, resend cooldown and hourly send cap.
+ *
+ * Pure — no Firestore, no Node APIs; safe to import in client components.
+ */
+
+// ── Policy ────────────────────────────────────────────────────────────────────
+
+export const OTP_POLICY = {
+  length:          6,
+  ttlMs:           10 * 60 * 1_000,   // 10 minutes
+  maxAttempts:     5,                 // wrong guesses before the code is burned
+  resendCooldownS: 60,                // between sends to one phone
+  maxSendsPerHour: 3,                 // per phone, first send included
+  rateWindowMs:    60 * 60 * 1_000,   // 1 hour
+} as const;
+
+/** Resends the client offers after the first send. */
+export const OTP_MAX_RESENDS = OTP_POLICY.maxSendsPerHour - 1;
+
+// ── Codes ─────────────────────────────────────────────────────────────────────
+
+/** True for exactly OTP_POLICY.length digits. */
+export function isOtpCode(code: string): boolean {
+  return new RegExp(`^\\d{${OTP_POLICY.length}}$`).test(code);
+}
+
+/** Keeps the digits of user input, up to the code length. */
+export function otpDigits(input: string): string {
+  return input.replace(/\D/g, '').slice(0, OTP_POLICY.length);
+}
+
+/** Wrong guesses left after `attempts` guesses on one code. */
+export function attemptsRemaining(attempts: number): number {
+  return Math.max(0, OTP_POLICY.maxAttempts - attempts);
+}
+
+// ── Sending ───────────────────────────────────────────────────────────────────
+
+export type OtpSendBlock =
+  | { reason: 'cooldown';   retryAfterS: number }
+  | { reason: 'hourly_cap'; retryAfterS: number };
+
+/**
+ * Whether a phone may be sent a new code, given when its earlier codes were
+ * sent (Unix ms, any order). Returns null when a send is allowed.
+ */
+export function otpSendBlock(sentAt: number[], now = Date.now()): OtpSendBlock | null {
+  const recent = sentAt.filter(t => t > now - OTP_POLICY.rateWindowMs).sort((a, b) => a - b);
+  if (recent.length === 0) return null;
+
+  if (recent.length >= OTP_POLICY.maxSendsPerHour) {
+    const oldest = recent[recent.length - OTP_POLICY.maxSendsPerHour];
+    return { reason: 'hourly_cap', retryAfterS: Math.ceil((oldest + OTP_POLICY.rateWindowMs - now) / 1_000) };
+  }
+
+  const sinceLast = now - recent[recent.length - 1];
+  if (sinceLast < OTP_POLICY.resendCooldownS * 1_000) {
+    return { reason: 'cooldown', retryAfterS: Math.ceil((OTP_POLICY.resendCooldownS * 1_000 - sinceLast) / 1_000) };
+  }
+  return null;
+}
+
+/** Countdown text, e.g. 75 → "1:15". */
+export function formatCountdown(seconds: number): string {
+  const s = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
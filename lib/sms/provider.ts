@@ -0,0 +1,119 @@
+/**
+ * lib/sms/provider.ts
+ * The SmsProvider interface, provider selection and send diagnostics.
+ * Implementations live beside this file; sendSms() in lib/sms/sendStore.ts
+ * runs the selected one and records the result.
+ *
+ * SMS_PROVIDER picks the implementation:
+ *   gateway  — email-to-SMS carrier gateway blast over Gmail SMTP (default)
+ *   http     — HTTP SMS API with a Twilio-style request (SMS_API_* env vars)
+ *   console  — logs the text, and appends it to SMS_OUTBOX_FILE if set;
+ *              for local dev and tests. Never delivers anything.
+ */
+
+import type { FsSmsSend } from '@/lib/firebase/types';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export const SMS_PROVIDERS = ['gateway', 'http', 'console'] as const;
+export type SmsProviderName = typeof SMS_PROVIDERS[number];
+
+export interface SmsMessage {
+  /** 10-digit US number (normalizePhone). */
+  to:       string;
+  text:     string;
+  /** Carrier gateway domain when known; the gateway provider blasts every gateway without it. */
+  carrier?: string;
+  /**
+   * Gateway provider only: a different text per gateway, sent instead of
+   * `text` (lib/sms/carrierCodes.ts). Other providers send `text`.
+   */
+  variants?: { carrier: string; text: string }[];
+}
+
+export interface SmsSendResult {
+  provider:   SmsProviderName;
+  /** True if at least one attempt was accepted. */
+  ok:         boolean;
+  /** Gateway addresses or API requests tried. */
+  attempted:  number;
+  accepted:   number;
+  /** First failure reason, if any attempt failed. */
+  error:      string | null;
+  /** Provider reference — API message ID, outbox file. */
+  detail:     string | null;
+  durationMs: number;
+  /** Gateway provider only: each gateway tried and whether it took the message. */
+  carriers?:  { carrier: string; accepted: boolean }[];
+}
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  /** False when the provider's credentials are missing. */
+  isConfigured(): boolean;
+  /** Never throws — failures come back as ok: false. */
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+// ── Selection ─────────────────────────────────────────────────────────────────
+
+export function isSmsProviderName(value: unknown): value is SmsProviderName {
+  return typeof value === 'string' && (SMS_PROVIDERS as readonly string[]).includes(value);
+}
+
+/** SMS_PROVIDER, or 'gateway' when unset. An unknown value is logged and ignored. */
+export function smsProviderName(value: string | undefined = process.env.SMS_PROVIDER): SmsProviderName {
+  const name = value?.trim().toLowerCase();
+  if (!name) return 'gateway';
+  if (isSmsProviderName(name)) return name;
+  console.error(`[sms] Unknown SMS_PROVIDER "${value}" — using gateway`);
+  return 'gateway';
+}
+
+/** Runs a send and times it; for providers' own use. */
+export async function timedResult(
+  provider: SmsProviderName,
+  run: () => Promise<Omit<SmsSendResult, 'provider' | 'durationMs'>>,
+): Promise<SmsSendResult> {
+  const started = Date.now();
+  try {
+    return { provider, ...(await run()), durationMs: Date.now() - started };
+  } catch (err) {
+    return {
+      provider, ok: false, attempted: 1, accepted: 0,
+      error: err instanceof Error ? err.message : String(err), detail: null,
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+// ── Diagnostics ───────────────────────────────────────────────────────────────
+
+export interface SmsProviderSummary {
+  provider:   string;
+  sends:      number;
+  failed:     number;
+  /** Mean accepted / attempted across sends — below 1 means some gateways rejected. */
+  acceptRate: number;
+  avgMs:      number;
+  lastError:  string | null;
+}
+
+/** Per-provider totals for stored send results, busiest first. `sends` must be oldest first. */
+export function summarizeSmsSends(
+  sends: Pick<FsSmsSend, 'provider' | 'ok' | 'attempted' | 'accepted' | 'error' | 'duration_ms'>[],
+): SmsProviderSummary[] {
+  const byProvider = new Map<string, typeof sends>();
+  for (const s of sends) byProvider.set(s.provider, [...(byProvider.get(s.provider) ?? []), s]);
+
+  return [...byProvider.entries()]
+    .map(([provider, list]) => ({
+      provider,
+      sends:      list.length,
+      failed:     list.filter(s => !s.ok).length,
+      acceptRate: list.reduce((sum, s) => sum + (s.attempted ? s.accepted / s.attempted : 0), 0) / list.length,
+      avgMs:      Math.round(list.reduce((sum, s) => sum + s.duration_ms, 0) / list.length),
+      lastError:  [...list].reverse().find(s => s.error)?.error ?? null,
+    }))
+    .sort((a, b) => b.sends - a.sends);
+}
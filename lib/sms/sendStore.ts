@@ -0,0 +1,71 @@
+/**
+ * lib/sms/sendStore.ts
+ * Sends texts through the configured SmsProvider and records every result.
+ * Server only — never import in client components.
+ *
+ * Collection:
+ *   sms_sends  — one doc per send: provider, attempts accepted, first error.
+ */
+
+import { adminDb } from '@/lib/firebase/admin';
+import type { FsSmsSend } from '@/lib/firebase/types';
+import { consoleProvider } from './consoleProvider';
+import { gatewayProvider } from './gatewayProvider';
+import { httpProvider } from './httpProvider';
+import { smsProviderName } from './provider';
+import type { SmsMessage, SmsProvider, SmsProviderName, SmsSendResult } from './provider';
+
+const SENDS = 'sms_sends';
+
+const PROVIDERS: Record<SmsProviderName, SmsProvider> = {
+  gateway: gatewayProvider,
+  http:    httpProvider,
+  console: consoleProvider,
+};
+
+export type SmsPurpose = 'verification';
+
+/** The provider SMS_PROVIDER selects. */
+export function getSmsProvider(name: SmsProviderName = smsProviderName()): SmsProvider {
+  return PROVIDERS[name];
+}
+
+/**
+ * Sends one text and stores the result. Never throws — check `ok`.
+ * A failure to record is logged; it never fails the send.
+ */
+export async function sendSms(
+  message: SmsMessage,
+  purpose: SmsPurpose,
+  provider: SmsProvider = getSmsProvider(),
+): Promise<SmsSendResult> {
+  const result = await provider.send(message);
+  console.log(`[sms] ${result.provider}: ${result.accepted}/${result.attempted} accepted in ${result.durationMs}ms`);
+  if (result.error) console.error(`[sms] ${result.provider} error:`, result.error);
+
+  const doc: FsSmsSend = {
+    provider:    result.provider,
+    purpose,
+    phone:       message.to,
+    ok:          result.ok,
+    attempted:   result.attempted,
+    accepted:    result.accepted,
+    error:       result.error,
+    detail:      result.detail,
+    carriers:    result.carriers ?? null,
+    duration_ms: result.durationMs,
+    timestamp:   Date.now(),
+  };
+  try {
+    await adminDb.collection(SENDS).add(doc);
+  } catch (err) {
+    console.error('[sms] Failed to record send:', err instanceof Error ? err.message : err);
+  }
+  return result;
+}
+
+/** Send results since `since` (Unix ms), oldest first. */
+export async function listSmsSends(since: number): Promise<FsSmsSend[]> {
+  const snap = await adminDb.collection(SENDS).where('timestamp', '>=', since).orderBy('timestamp').get();
+  return snap.docs.map(d => ({ id: d.id, ...d.data() } as FsSmsSend));
+}
@@ -24,6 +24,62 @@ export async function hasValidMX(email: string): Promise<boolean> {
   }
 }
 
+// ── Disposable domains (flagged, not rejected) ────────────────────────────────
+// Level 1 rejects the best-known throwaway services outright. These are
+// flagged for review instead, and so is any domain whose mail is handled
+// by one of them.
+
+const DISPOSABLE_FLAG_DOMAINS = [
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  'temp-mail.org',
+  'temp-mail.io',
+  'tempmail.net',
+  'tempmailo.com',
+  'tempr.email',
+  'emailondeck.com',
+  'mohmal.com',
+  'mintemail.com',
+  'mytemp.email',
+  'burnermail.io',
+  'getnada.com',
+  'nada.email',
+  'inboxkitten.com',
+  'moakt.com',
+  'mailcatch.com',
+  'mailpoof.com',
+  'discard.email',
+  'dropmail.me',
+  'emailfake.com',
+  'fakemail.net',
+  'harakirimail.com',
+  'jetable.org',
+  'mailinator.com',
+  'guerrillamail.com',
+  'yopmail.com',
+  'maildrop.cc',
+];
+
+const isListed = (host: string) =>
+  DISPOSABLE_FLAG_DOMAINS.some(d => host === d || host.endsWith(`.${d}`));
+
+/**
+ * True when the email's domain, or any of its MX hosts, belongs to a
+ * disposable-email service. False when the domain does not resolve.
+ */
+export async function isDisposableEmail(email: string): Promise<boolean> {
+  const domain = email.trim().toLowerCase().split('@')[1];
+  if (!domain) return false;
+  if (isListed(domain)) return true;
+  try {
+    const records = await dns.resolveMx(domain);
+    return records.some(r => isListed(r.exchange.toLowerCase().replace(/\.$/, '')));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Combined server-side validation: format check + MX record check.
  * Returns null if valid, or a user-facing error string if invalid.
@@ -0,0 +1,90 @@
+#!/usr/bin/env ts-node
+/**
+ * scripts/hash-verification-codes.ts
+ *
+ * One-off migration for verification_codes saved before codes were hashed.
+ * Unexpired, unused plaintext codes get a salted HMAC (lib/sms/codeHash.ts)
+ * so they still verify; every plaintext `code` field is then deleted.
+ *
+ * Run with the same OTP_HASH_SECRET (or JWT_SECRET) as the server, or the
+ * migrated codes won't match.
+ *
+ * Usage:
+ *   npm run sms:hash-codes            # migrate
+ *   npm run sms:hash-codes -- --dry   # report only
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { hashCode } from '../lib/sms/codeHash';
+
+const BATCH_SIZE = 400;   // Firestore allows 500 writes per batch
+
+// Load .env and .env.local manually (ts-node doesn't auto-load them)
+function loadEnv() {
+  const files = ['.env', '.env.local'];
+  for (const file of files) {
+    const p = path.join(process.cwd(), file);
+    if (!fs.existsSync(p)) continue;
+    for (const line of fs.readFileSync(p, 'utf-8').split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) continue;
+      const eq = trimmed.indexOf('=');
+      if (eq < 0) continue;
+      const key = trimmed.slice(0, eq).trim();
+      const val = trimmed.slice(eq + 1).trim().replace(/^["']|["']$/g, '');
+      if (!process.env[key]) process.env[key] = val;
+    }
+  }
+}
+
+async function main() {
+  loadEnv();
+  const dryRun = process.argv.includes('--dry');
+
+  console.log(`\n⏳ Connecting to Firestore…${dryRun ? ' (dry run)' : ''}`);
+
+  const { initializeApp, getApps, cert } = await import('firebase-admin/app');
+  const { getFirestore, FieldValue } = await import('firebase-admin/firestore');
+
+  if (!getApps().length) {
+    initializeApp({
+      credential: cert({
+        projectId:   process.env.FIREBASE_PROJECT_ID,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+        privateKey:  (process.env.FIREBASE_PRIVATE_KEY ?? '').replace(/\\n/g, '\n'),
+      }),
+    });
+  }
+
+  const db   = getFirestore();
+  const snap = await db.collection('verification_codes').get();
+  const now  = Date.now();
+
+  const plaintext = snap.docs.filter(d => typeof d.data().code === 'string');
+  let hashed = 0;
+  let cleared = 0;
+
+  for (let i = 0; i < plaintext.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    for (const doc of plaintext.slice(i, i + BATCH_SIZE)) {
+      const data = doc.data();
+      const live = !data.used && Number(data.expires_at) > now;
+      if (live) {
+        batch.update(doc.ref, { ...hashCode(String(data.phone), String(data.code)), code: FieldValue.delete() });
+        hashed++;
+      } else {
+        batch.update(doc.ref, { code: FieldValue.delete() });
+        cleared++;
+      }
+    }
+    if (!dryRun) await batch.commit();
+  }
+
+  console.log(`\n${dryRun ? '🔎 Would update' : '✅ Updated'} ${plaintext.length} of ${snap.size} codes:`);
+  console.log(`   ${hashed} live codes hashed`);
+  console.log(`   ${cleared} expired or used codes cleared\n`);
+  process.exit(0);
+}
+
+main().catch(e => { console.error(e); process.exit(1); });
@@ -0,0 +1,69 @@
+/**
+ * tests/analytics/funnel.test.ts
+ * Unit tests for funnel event validation and the drop-off report.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import { parseFunnelEvent, funnelReport } from '@/lib/analytics/funnel';
+import type { FunnelEvent } from '@/lib/analytics/funnel';
+
+let clock = 0;
+const ev = (sessionId: string, type: FunnelEvent['type'], step: string, detail: string | null = null): FunnelEvent =>
+  ({ sessionId, source: 'quiz', type, step, value: null, detail, timestamp: ++clock });
+
+const row = (events: FunnelEvent[], step: string) => funnelReport(events, 'quiz').steps.find(s => s.step === step)!;
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+describe('parseFunnelEvent', () => {
+  it('accepts a known step and stamps the server time', () => {
+    const event = parseFunnelEvent({ sessionId: 's1', source: 'quiz', type: 'answer', step: 'state', value: 'Ohio' }, 42);
+    expect(event).toEqual({ sessionId: 's1', source: 'quiz', type: 'answer', step: 'state', value: 'Ohio', detail: null, timestamp: 42 });
+  });
+
+  it('rejects unknown steps, types and sources', () => {
+    expect(parseFunnelEvent({ sessionId: 's1', source: 'quiz',   type: 'answer', step: 'wages' })).toBeNull();
+    expect(parseFunnelEvent({ sessionId: 's1', source: 'quiz',   type: 'click',  step: 'state' })).toBeNull();
+    expect(parseFunnelEvent({ sessionId: 's1', source: 'banner', type: 'answer', step: 'state' })).toBeNull();
+    expect(parseFunnelEvent({ source: 'widget', type: 'step_view', step: 'wages' })).toBeNull();
+  });
+});
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+describe('funnelReport', () => {
+  it('drops a session at the last step it viewed', () => {
+    const events = [
+      ev('a', 'step_view', 'incidentType'), ev('a', 'answer', 'incidentType'), ev('a', 'step_view', 'injuryTypes'),
+      ev('b', 'step_view', 'incidentType'),
+    ];
+    expect(row(events, 'incidentType')).toMatchObject({ views: 2, answers: 1, dropOffs: 1, dropOffRate: 50 });
+    expect(row(events, 'injuryTypes')).toMatchObject({ views: 1, dropOffs: 1, dropOffRate: 100 });
+  });
+
+  it('does not count completed, disqualified or soft-exited sessions as drop-offs', () => {
+    const events = [
+      ev('a', 'step_view', 'preference'), ev('a', 'complete', 'preference'),
+      ev('b', 'step_view', 'faultLevel'), ev('b', 'disqualified', 'faultLevel', 'at_fault'),
+      ev('c', 'step_view', 'hasAttorney'), ev('c', 'soft_exit', 'hasAttorney'),
+    ];
+    const report = funnelReport(events, 'quiz');
+    expect(report).toMatchObject({ sessions: 3, completed: 1, completionRate: 33, disqualified: 1, softExits: 1 });
+    expect(report.steps.every(s => s.dropOffs === 0)).toBe(true);
+    expect(row(events, 'faultLevel').disqualified).toBe(1);
+  });
+
+  it('counts repeat views and alerts once per session', () => {
+    const events = [
+      ev('a', 'step_view', 'state'), ev('a', 'step_view', 'state'),
+      ev('a', 'alert', 'state', 'warning'), ev('a', 'alert', 'state', 'warning'), ev('a', 'alert', 'state', 'tip'),
+    ];
+    expect(row(events, 'state')).toMatchObject({ views: 1, alerts: { warning: 1, tip: 1 } });
+  });
+
+  it('reports only the requested source', () => {
+    const events = [{ ...ev('w', 'step_view', 'wages'), source: 'widget' as const }];
+    expect(funnelReport(events, 'quiz').sessions).toBe(0);
+    expect(funnelReport(events, 'widget').steps.find(s => s.step === 'wages')?.views).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * tests/api/estimate.test.ts
+ * Route tests for POST /api/estimate — widget and quiz bodies, and input
+ * validation. The valuation store is mocked to the built-in table, so no
+ * Firestore is needed.
+ */
+
+import { NextRequest } from 'next/server';
+import { DEFAULT_VALUATION_TABLE } from '@/lib/estimator/logic';
+
+jest.mock('@/lib/estimator/valuationStore', () => ({
+  getActiveValuationTable: async () => DEFAULT_VALUATION_TABLE,
+}));
+
+import { POST } from '@/app/api/estimate/route';
+
+async function estimate(body: Record<string, unknown>) {
+  const res = await POST(new NextRequest('http://localhost/api/estimate', {
+    method: 'POST',
+    body:   JSON.stringify(body),
+  }));
+  return { status: res.status, data: await res.json() };
+}
+
+describe('POST /api/estimate', () => {
+  it('values the widget\'s injuries', async () => {
+    const { status, data } = await estimate({ injuryTypes: ['fracture'] });
+    expect(status).toBe(200);
+    expect(data.breakdown.total).toEqual({ low: 20_000, high: 75_000 });
+  });
+
+  it('values the quiz\'s injuries instead of assuming soft tissue', async () => {
+    const tbi  = await estimate({ source: 'quiz', injuryTypes: ['tbi'] });
+    const soft = await estimate({ source: 'quiz', injuryTypes: ['soft_tissue'] });
+    expect(tbi.status).toBe(200);
+    expect(tbi.data.breakdown.total).toEqual({ low: 75_000, high: 500_000 });
+    expect(soft.data.breakdown.total).toEqual({ low: 8_000, high: 25_000 });
+  });
+
+  it('requires known injury types for both sources', async () => {
+    for (const source of [undefined, 'quiz']) {
+      expect((await estimate({ source })).status).toBe(400);
+      expect((await estimate({ source, injuryTypes: [] })).status).toBe(400);
+      expect((await estimate({ source, injuryTypes: ['constructor'] })).status).toBe(400);
+    }
+  });
+
+  it('rejects unknown quiz fault levels', async () => {
+    const { status, data } = await estimate({ source: 'quiz', injuryTypes: ['fracture'], faultLevel: 'toString' });
+    expect(status).toBe(400);
+    expect(data.message).toMatch(/fault level/);
+  });
+});
@@ -12,13 +12,30 @@ import {
   INJURY_BASE_VALUES,
   SURGERY_MULTIPLIER,
   LOST_WAGES_MAX,
+  stateAdjustedBase,
+  calculateEstimateBreakdown,
+  calculateSpecialsBreakdown,
+  calculateSpecialsEstimate,
+  medicalSpecials,
+  rankInjuries,
+  primaryInjury,
+  secondaryInjuryFactor,
+  SECONDARY_INJURY_FACTOR,
+  DEFAULT_VALUATION_TABLE,
+  SPECIALS_MULTIPLIERS,
+  SPECIALS_SURGERY_BONUS,
+  stateMultiplier,
 } from '@/lib/estimator/logic';
-import type { EstimatorInputs } from '@/lib/estimator/types';
+import { DEFAULT_STATE_MULTIPLIERS, DEFAULT_STATE_OVERRIDES } from '@/lib/estimator/stateAdjustments';
+import { injuryTypeList, isInjuryType, parseInjuryTypes, formatInjuryTypes } from '@/lib/estimator/injuries';
+import { evaluateCoverage, isCoverageTier, minimumBiLimit, DEFAULT_MINIMUM_BI_LIMIT } from '@/lib/estimator/coverage';
+import { valuationTableError, toValuationDraft, toValuationTable, estimateLead, valuationVersionLabel } from '@/lib/estimator/valuation';
+import type { EstimatorInputs, ValuationTable } from '@/lib/estimator/types';
 
 // ── Test fixtures ─────────────────────────────────────────────────────────────
 
 const base = (overrides: Partial<EstimatorInputs> = {}): EstimatorInputs => ({
-  injuryType: null,
+  injuryTypes: [],
   hasSurgery: false,
   lostWages:  0,
   ...overrides,
@@ -32,27 +49,27 @@ describe('calculateEstimate', () => {
   });
 
   it('returns floor/ceiling for soft_tissue with no surgery, no wages', () => {
-    const result = calculateEstimate(base({ injuryType: 'soft_tissue' }));
+    const result = calculateEstimate(base({ injuryTypes: ['soft_tissue'] }));
     expect(result).toEqual({ low: 8_000, high: 25_000 });
   });
 
   it('returns correct range for fracture', () => {
-    const result = calculateEstimate(base({ injuryType: 'fracture' }));
+    const result = calculateEstimate(base({ injuryTypes: ['fracture'] }));
     expect(result).toEqual({ low: 20_000, high: 75_000 });
   });
 
   it('returns correct range for spinal', () => {
-    const result = calculateEstimate(base({ injuryType: 'spinal' }));
+    const result = calculateEstimate(base({ injuryTypes: ['spinal'] }));
     expect(result).toEqual({ low: 50_000, high: 200_000 });
   });
 
   it('returns correct range for tbi', () => {
-    const result = calculateEstimate(base({ injuryType: 'tbi' }));
+    const result = calculateEstimate(base({ injuryTypes: ['tbi'] }));
     expect(result).toEqual({ low: 75_000, high: 500_000 });
   });
 
   it('applies 5× surgery multiplier to both ends', () => {
-    const result = calculateEstimate(base({ injuryType: 'soft_tissue', hasSurgery: true }));
+    const result = calculateEstimate(base({ injuryTypes: ['soft_tissue'], hasSurgery: true }));
     expect(result).toEqual({
       low:  8_000  * SURGERY_MULTIPLIER,   // 40,000
       high: 25_000 * SURGERY_MULTIPLIER,   // 125,000
@@ -61,7 +78,7 @@ describe('calculateEstimate', () => {
 
   it('adds lost wages to both ends after surgery multiplier', () => {
     const result = calculateEstimate(base({
-      injuryType: 'fracture',
+      injuryTypes: ['fracture'],
       hasSurgery: true,
       lostWages:  10_000,
     }));
@@ -72,7 +89,7 @@ describe('calculateEstimate', () => {
   });
 
   it('adds lost wages without surgery multiplier (no surgery)', () => {
-    const result = calculateEstimate(base({ injuryType: 'tbi', lostWages: 25_000 }));
+    const result = calculateEstimate(base({ injuryTypes: ['tbi'], lostWages: 25_000 }));
     expect(result).toEqual({
       low:  75_000  + 25_000,  // 100,000
       high: 500_000 + 25_000,  // 525,000
@@ -80,24 +97,413 @@ describe('calculateEstimate', () => {
   });
 
   it('treats negative lost wages as 0', () => {
-    const result = calculateEstimate(base({ injuryType: 'soft_tissue', lostWages: -500 }));
+    const result = calculateEstimate(base({ injuryTypes: ['soft_tissue'], lostWages: -500 }));
     expect(result).toEqual({ low: 8_000, high: 25_000 });
   });
 
   it('handles LOST_WAGES_MAX correctly (slider ceiling)', () => {
-    const result = calculateEstimate(base({ injuryType: 'soft_tissue', lostWages: LOST_WAGES_MAX }));
+    const result = calculateEstimate(base({ injuryTypes: ['soft_tissue'], lostWages: LOST_WAGES_MAX }));
     expect(result).toEqual({ low: 8_000 + 50_000, high: 25_000 + 50_000 });
   });
 
   it('rounds fractional results to integers', () => {
     // Force a fractional base by using a non-round multiplier — can't do that directly,
     // so test rounding by verifying result types are integers.
-    const result = calculateEstimate(base({ injuryType: 'spinal', hasSurgery: true }))!;
+    const result = calculateEstimate(base({ injuryTypes: ['spinal'], hasSurgery: true }))!;
     expect(Number.isInteger(result.low)).toBe(true);
     expect(Number.isInteger(result.high)).toBe(true);
   });
 });
 
+// ── State adjustments ─────────────────────────────────────────────────────────
+
+describe('state adjustments', () => {
+  it('uses national ranges when no state is given', () => {
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: null })))
+      .toEqual({ low: 20_000, high: 75_000 });
+  });
+
+  it('uses national ranges for a state without an entry', () => {
+    expect(stateMultiplier('Vermont')).toBe(1);
+    expect(stateMultiplier('constructor')).toBe(1);
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: 'Vermont' })))
+      .toEqual({ low: 20_000, high: 75_000 });
+  });
+
+  it('applies the state multiplier to general damages', () => {
+    const m = DEFAULT_STATE_MULTIPLIERS['New York'];
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: 'New York' })))
+      .toEqual({ low: Math.round(20_000 * m), high: Math.round(75_000 * m) });
+  });
+
+  it('uses a state override table instead of the multiplier', () => {
+    const override = DEFAULT_STATE_OVERRIDES['Texas'].soft_tissue!;
+    expect(stateAdjustedBase('soft_tissue', 'Texas')).toEqual(override);
+    expect(calculateEstimate(base({ injuryTypes: ['soft_tissue'], state: 'Texas' })))
+      .toEqual({ low: override.low, high: override.high });
+  });
+
+  it('California and Texas produce different ranges for the same case', () => {
+    const ca = calculateEstimate(base({ injuryTypes: ['spinal'], hasSurgery: true, state: 'California' }))!;
+    const tx = calculateEstimate(base({ injuryTypes: ['spinal'], hasSurgery: true, state: 'Texas' }))!;
+    expect(ca.high).toBeGreaterThan(tx.high);
+  });
+
+  it('applies surgery on top of the state-adjusted base', () => {
+    const m = DEFAULT_STATE_MULTIPLIERS['Florida'];
+    expect(calculateEstimate(base({ injuryTypes: ['tbi'], hasSurgery: true, state: 'Florida' })))
+      .toEqual({
+        low:  Math.round(75_000  * m * SURGERY_MULTIPLIER),
+        high: Math.round(500_000 * m * SURGERY_MULTIPLIER),
+      });
+  });
+
+  it('never adjusts lost wages', () => {
+    const withWages = calculateEstimate(base({ injuryTypes: ['fracture'], lostWages: 10_000, state: 'Idaho' }))!;
+    const noWages   = calculateEstimate(base({ injuryTypes: ['fracture'], state: 'Idaho' }))!;
+    expect(withWages.low  - noWages.low).toBe(10_000);
+    expect(withWages.high - noWages.high).toBe(10_000);
+  });
+});
+
+// ── calculateEstimateBreakdown ────────────────────────────────────────────────
+
+describe('calculateEstimateBreakdown', () => {
+  it('returns null when no injury type is selected', () => {
+    expect(calculateEstimateBreakdown(base())).toBeNull();
+  });
+
+  it('totals to the same range as calculateEstimate', () => {
+    const inputs = base({ injuryTypes: ['tbi'], hasSurgery: true, lostWages: 12_000, state: 'New York' });
+    expect(calculateEstimateBreakdown(inputs)!.total).toEqual(calculateEstimate(inputs));
+  });
+
+  it('itemizes base value, multipliers and lost wages', () => {
+    const b = calculateEstimateBreakdown(base({ injuryTypes: ['fracture'], hasSurgery: true, lostWages: 5_000, state: 'New York' }))!;
+    const m = DEFAULT_STATE_MULTIPLIERS['New York'];
+    expect(b.baseRange).toMatchObject({ low: 20_000, high: 75_000 });
+    expect(b.multipliers).toEqual([
+      { id: 'state',   label: 'New York adjustment', factor: m,                  appliesTo: 'general' },
+      { id: 'surgery', label: 'Surgery',             factor: SURGERY_MULTIPLIER, appliesTo: 'general' },
+    ]);
+    expect(b.generalDamages).toMatchObject({
+      low:  Math.round(20_000 * m * SURGERY_MULTIPLIER),
+      high: Math.round(75_000 * m * SURGERY_MULTIPLIER),
+    });
+    expect(b.economicDamages).toEqual([{ id: 'lost_wages', label: 'Lost wages', low: 5_000, high: 5_000 }]);
+  });
+
+  it('shows a state override as the base value, not a multiplier', () => {
+    const b = calculateEstimateBreakdown(base({ injuryTypes: ['soft_tissue'], state: 'Texas' }))!;
+    expect(b.baseRange).toMatchObject(DEFAULT_STATE_OVERRIDES['Texas'].soft_tissue!);
+    expect(b.baseRange.label).toContain('Texas');
+    expect(b.multipliers).toEqual([]);
+  });
+
+  it('has no economic line items without lost wages', () => {
+    expect(calculateEstimateBreakdown(base({ injuryTypes: ['spinal'] }))!.economicDamages).toEqual([]);
+  });
+});
+
+// ── Specials-multiplier method ────────────────────────────────────────────────
+
+describe('calculateSpecialsBreakdown', () => {
+  it('returns null without medical costs', () => {
+    expect(calculateSpecialsBreakdown(base({ injuryTypes: ['fracture'] }))).toBeNull();
+    expect(calculateSpecialsEstimate(base({ injuryTypes: ['fracture'], medicalBills: 0, futureCare: 0 }))).toBeNull();
+  });
+
+  it('returns null without an injury type', () => {
+    expect(calculateSpecialsBreakdown(base({ medicalBills: 10_000 }))).toBeNull();
+  });
+
+  it('sums bills and future care, ignoring negatives', () => {
+    expect(medicalSpecials(base({ medicalBills: 12_000, futureCare: 8_000 }))).toBe(20_000);
+    expect(medicalSpecials(base({ medicalBills: -50, futureCare: 1_000 }))).toBe(1_000);
+  });
+
+  it('multiplies specials by the severity range and adds lost wages', () => {
+    const { low, high } = SPECIALS_MULTIPLIERS.fracture;
+    expect(calculateSpecialsEstimate(base({ injuryTypes: ['fracture'], medicalBills: 10_000, lostWages: 4_000 })))
+      .toEqual({ low: 10_000 * low + 4_000, high: 10_000 * high + 4_000 });
+  });
+
+  it('raises the severity range for surgery', () => {
+    const b = calculateSpecialsBreakdown(base({ injuryTypes: ['spinal'], hasSurgery: true, futureCare: 40_000 }))!;
+    expect(b.method).toBe('specials_multiplier');
+    expect(b.multipliers[0]).toMatchObject({
+      id:         'severity',
+      factor:     SPECIALS_MULTIPLIERS.spinal.low  + SPECIALS_SURGERY_BONUS,
+      factorHigh: SPECIALS_MULTIPLIERS.spinal.high + SPECIALS_SURGERY_BONUS,
+    });
+  });
+
+  it('applies the state multiplier but not state override tables', () => {
+    const m = DEFAULT_STATE_MULTIPLIERS['Texas'];
+    const { low, high } = SPECIALS_MULTIPLIERS.soft_tissue;
+    expect(calculateSpecialsEstimate(base({ injuryTypes: ['soft_tissue'], medicalBills: 10_000, state: 'Texas' })))
+      .toEqual({ low: Math.round(10_000 * low * m), high: Math.round(10_000 * high * m) });
+  });
+
+  it('leaves the base-range method unchanged by medical costs', () => {
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], medicalBills: 90_000 })))
+      .toEqual({ low: 20_000, high: 75_000 });
+  });
+});
+
+// ── Multiple injuries ─────────────────────────────────────────────────────────
+
+describe('multiple injuries', () => {
+  it('ranks injuries most severe first and drops duplicates', () => {
+    expect(rankInjuries(['soft_tissue', 'tbi', 'fracture', 'tbi'])).toEqual(['tbi', 'fracture', 'soft_tissue']);
+    expect(primaryInjury(base({ injuryTypes: ['fracture', 'spinal'] }))).toBe('spinal');
+    expect(primaryInjury(base())).toBeNull();
+  });
+
+  it('diminishes each further injury by rank', () => {
+    expect(secondaryInjuryFactor(0)).toBe(1);
+    expect(secondaryInjuryFactor(1)).toBe(SECONDARY_INJURY_FACTOR);
+    expect(secondaryInjuryFactor(2)).toBe(SECONDARY_INJURY_FACTOR ** 2);
+  });
+
+  it('adds a half-value fracture to a TBI regardless of selection order', () => {
+    const expected = { low: 75_000 + 10_000, high: 500_000 + 37_500 };
+    expect(calculateEstimate(base({ injuryTypes: ['fracture', 'tbi'] }))).toEqual(expected);
+    expect(calculateEstimate(base({ injuryTypes: ['tbi', 'fracture'] }))).toEqual(expected);
+  });
+
+  it('lists secondary injuries in the breakdown and applies surgery to the combined base', () => {
+    const b = calculateEstimateBreakdown(base({ injuryTypes: ['soft_tissue', 'fracture', 'spinal'], hasSurgery: true }))!;
+    expect(b.baseRange.label).toContain(INJURY_BASE_VALUES.spinal.label);
+    expect(b.secondaryInjuries.map(i => i.id)).toEqual(['secondary_fracture', 'secondary_soft_tissue']);
+    expect(b.secondaryInjuries[1]).toMatchObject({ low: 2_000, high: 6_250 });
+    expect(b.generalDamages.low).toBe((50_000 + 10_000 + 2_000) * SURGERY_MULTIPLIER);
+  });
+
+  it('state-adjusts secondary injuries, honouring overrides', () => {
+    const b = calculateEstimateBreakdown(base({ injuryTypes: ['fracture', 'soft_tissue'], state: 'Texas' }))!;
+    expect(b.secondaryInjuries[0]).toMatchObject({ low: 2_500, high: 9_000 });   // Texas soft-tissue override × 0.5
+    expect(b.total.low).toBe(Math.round(20_000 * 0.85) + 2_500);
+  });
+
+  it('keeps one severity range for the specials method', () => {
+    const single = calculateSpecialsEstimate(base({ injuryTypes: ['tbi'], medicalBills: 10_000 }));
+    const multi  = calculateSpecialsEstimate(base({ injuryTypes: ['soft_tissue', 'tbi'], medicalBills: 10_000 }));
+    expect(multi).toEqual(single);
+  });
+
+  it('mentions every injury in the summary', () => {
+    const text = buildSummaryText(base({ injuryTypes: ['fracture', 'tbi'] }))!;
+    expect(text).toContain(`Based on a ${INJURY_BASE_VALUES.tbi.label} plus a ${INJURY_BASE_VALUES.fracture.label}`);
+  });
+});
+
+describe('stored injury lists', () => {
+  it('reads legacy single-string leads as a one-item list', () => {
+    expect(injuryTypeList('fracture')).toEqual(['fracture']);
+    expect(injuryTypeList(['tbi', 'fracture'])).toEqual(['tbi', 'fracture']);
+    expect(injuryTypeList(null)).toEqual([]);
+  });
+
+  it('parses a request list or a legacy single value, dropping unknowns', () => {
+    expect(parseInjuryTypes(['fracture', 'bogus', 'tbi'])).toEqual(['tbi', 'fracture']);
+    expect(parseInjuryTypes(undefined, 'spinal')).toEqual(['spinal']);
+    expect(parseInjuryTypes(undefined, 'other')).toEqual([]);
+  });
+
+  it('rejects inherited object keys as injuries', () => {
+    expect(isInjuryType('constructor')).toBe(false);
+    expect(isInjuryType('toString')).toBe(false);
+    expect(parseInjuryTypes(['constructor', 'toString', 'fracture'])).toEqual(['fracture']);
+  });
+
+  it('formats with the caller\'s labels, passing unknown values through', () => {
+    const labels = { tbi: 'TBI', fracture: 'Fracture' };
+    expect(formatInjuryTypes(['tbi', 'fracture'], labels)).toBe('TBI, Fracture');
+    expect(formatInjuryTypes('other', labels)).toBe('other');
+  });
+});
+
+// ── Versioned valuation tables ────────────────────────────────────────────────
+
+describe('valuation tables', () => {
+  const tuned: ValuationTable = {
+    ...DEFAULT_VALUATION_TABLE,
+    version:           3,
+    injuryBaseValues:  { ...DEFAULT_VALUATION_TABLE.injuryBaseValues, fracture: { low: 30_000, high: 90_000 } },
+    surgeryMultiplier: 4,
+  };
+
+  it('builds the built-in table from the code constants', () => {
+    expect(DEFAULT_VALUATION_TABLE.version).toBe(0);
+    expect(DEFAULT_VALUATION_TABLE.surgeryMultiplier).toBe(SURGERY_MULTIPLIER);
+    expect(DEFAULT_VALUATION_TABLE.injuryBaseValues.tbi).toEqual({ low: 75_000, high: 500_000 });
+    expect(DEFAULT_VALUATION_TABLE.stateOverrides).toBe(DEFAULT_STATE_OVERRIDES);
+    expect(DEFAULT_VALUATION_TABLE.stateMultipliers).toBe(DEFAULT_STATE_MULTIPLIERS);
+    expect(DEFAULT_VALUATION_TABLE.specialsMultipliers).toBe(SPECIALS_MULTIPLIERS);
+    expect(DEFAULT_VALUATION_TABLE.secondaryInjuryFactor).toBe(SECONDARY_INJURY_FACTOR);
+  });
+
+  it('takes state overrides from the table', () => {
+    const inputs  = base({ injuryTypes: ['soft_tissue'], state: 'Texas' });
+    const noTexas = { ...tuned, stateOverrides: {} };
+    const ohio    = { ...tuned, stateOverrides: { Ohio: { fracture: { low: 15_000, high: 50_000 } } } };
+
+    expect(calculateEstimate(inputs, noTexas)).toEqual({
+      low:  Math.round(8_000  * DEFAULT_STATE_MULTIPLIERS['Texas']),
+      high: Math.round(25_000 * DEFAULT_STATE_MULTIPLIERS['Texas']),
+    });
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: 'Ohio' }), ohio)).toEqual({ low: 15_000, high: 50_000 });
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: 'constructor' }), ohio)).toEqual({ low: 30_000, high: 90_000 });
+  });
+
+  it('takes specials, secondary-injury and state multipliers from the table', () => {
+    const table: ValuationTable = {
+      ...tuned,
+      secondaryInjuryFactor: 0.25,
+      stateMultipliers:      { Ohio: 2 },
+      specialsMultipliers:   { ...tuned.specialsMultipliers, fracture: { low: 2, high: 4 } },
+      specialsSurgeryBonus:  0,
+    };
+    expect(calculateEstimate(base({ injuryTypes: ['fracture', 'soft_tissue'] }), table))
+      .toEqual({ low: 30_000 + 2_000, high: 90_000 + 6_250 });
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: 'Ohio' }), table)).toEqual({ low: 60_000, high: 180_000 });
+    expect(calculateEstimate(base({ injuryTypes: ['fracture'], state: 'New York' }), table)).toEqual({ low: 30_000, high: 90_000 });
+    expect(calculateSpecialsEstimate(base({ injuryTypes: ['fracture'], hasSurgery: true, medicalBills: 10_000 }), table))
+      .toEqual({ low: 20_000, high: 40_000 });
+  });
+
+  it('fills fields older published versions lack from the built-in table', () => {
+    const table = toValuationTable({
+      version: 2, injury_base_values: tuned.injuryBaseValues, surgery_multiplier: 4,
+      note: 'old', published_by: 'admin', published_at: 0,
+    });
+    expect(table).toEqual({ ...DEFAULT_VALUATION_TABLE, version: 2, injuryBaseValues: tuned.injuryBaseValues, surgeryMultiplier: 4 });
+  });
+
+  it('estimates with a published table when given one', () => {
+    const inputs = base({ injuryTypes: ['fracture'], hasSurgery: true });
+    expect(calculateEstimate(inputs, tuned)).toEqual({ low: 120_000, high: 360_000 });
+    expect(calculateEstimate(inputs)).toEqual({ low: 100_000, high: 375_000 });
+  });
+
+  it('labels the breakdown with the table\'s numbers', () => {
+    const b = calculateEstimateBreakdown(base({ injuryTypes: ['fracture'], hasSurgery: true }), tuned)!;
+    expect(b.baseRange).toMatchObject({ low: 30_000, high: 90_000 });
+    expect(b.multipliers.find(m => m.id === 'surgery')?.factor).toBe(4);
+  });
+
+  it('accepts a complete table and rejects bad ones', () => {
+    expect(valuationTableError(DEFAULT_VALUATION_TABLE)).toBeNull();
+    expect(valuationTableError(null)).toMatch(/required/);
+    expect(valuationTableError({ ...DEFAULT_VALUATION_TABLE, surgeryMultiplier: 0.5 })).toMatch(/Surgery multiplier/);
+
+    const { tbi: _tbi, ...missingTbi } = DEFAULT_VALUATION_TABLE.injuryBaseValues;
+    expect(valuationTableError({ ...DEFAULT_VALUATION_TABLE, injuryBaseValues: missingTbi })).toMatch(/tbi/);
+
+    const inverted = { ...DEFAULT_VALUATION_TABLE.injuryBaseValues, spinal: { low: 300_000, high: 200_000 } };
+    expect(valuationTableError({ ...DEFAULT_VALUATION_TABLE, injuryBaseValues: inverted })).toMatch(/low above high/);
+  });
+
+  it('validates state overrides', () => {
+    const withOverrides = (stateOverrides: unknown) => valuationTableError({ ...DEFAULT_VALUATION_TABLE, stateOverrides });
+    expect(withOverrides({})).toBeNull();
+    expect(withOverrides(undefined)).toMatch(/State overrides are required/);
+    expect(withOverrides({ Narnia: { tbi: { low: 1, high: 2 } } })).toMatch(/Unknown state/);
+    expect(withOverrides({ Ohio: { toString: { low: 1, high: 2 } } })).toMatch(/Unknown injury type/);
+    expect(withOverrides({ Ohio: { tbi: { low: 9, high: 2 } } })).toMatch(/Ohio override for tbi has low above high/);
+  });
+
+  it('validates specials, secondary-injury and state multipliers', () => {
+    const withTable = (fields: Partial<ValuationTable>) => valuationTableError({ ...DEFAULT_VALUATION_TABLE, ...fields });
+    expect(withTable({ secondaryInjuryFactor: 1.5 })).toMatch(/Secondary injury factor/);
+    expect(withTable({ specialsSurgeryBonus: -1 })).toMatch(/Specials surgery bonus/);
+
+    const inverted = { ...DEFAULT_VALUATION_TABLE.specialsMultipliers, tbi: { low: 5, high: 2 } };
+    expect(withTable({ specialsMultipliers: inverted })).toMatch(/Specials multiplier for tbi has low above high/);
+
+    expect(withTable({ stateMultipliers: {} })).toBeNull();
+    expect(withTable({ stateMultipliers: { Narnia: 1.2 } })).toMatch(/Unknown state in multipliers/);
+    expect(withTable({ stateMultipliers: { Ohio: 0 } })).toMatch(/Ohio multiplier/);
+    expect(withTable({ stateMultipliers: { Ohio: 40 } })).toMatch(/Ohio multiplier/);
+  });
+
+  it('drops unknown fields from a draft', () => {
+    const draft = toValuationDraft({ ...DEFAULT_VALUATION_TABLE, extra: true } as never);
+    expect(Object.keys(draft).sort()).toEqual([
+      'injuryBaseValues', 'secondaryInjuryFactor', 'specialsMultipliers', 'specialsSurgeryBonus',
+      'stateMultipliers', 'stateOverrides', 'surgeryMultiplier',
+    ]);
+    expect(draft.stateOverrides).toEqual(DEFAULT_STATE_OVERRIDES);
+    expect(draft.stateOverrides).not.toBe(DEFAULT_STATE_OVERRIDES);
+  });
+
+  it('re-estimates stored leads, legacy injury strings and fault included', () => {
+    const lead = { injury_type: 'fracture', surgery: false, lost_wages_estimate: 5_000, state: null, fault_level: null };
+    expect(estimateLead(lead, tuned)).toEqual({ low: 35_000, high: 95_000 });
+
+    const partlyAtFault = { ...lead, injury_type: ['fracture'], state: 'Vermont', fault_level: 'partial' };
+    const full = estimateLead({ ...partlyAtFault, fault_level: null }, tuned)!;
+    expect(estimateLead(partlyAtFault, tuned)!.high).toBeLessThan(full.high);
+
+    expect(estimateLead({ ...lead, injury_type: 'other' }, tuned)).toBeNull();
+  });
+
+  it('labels recorded versions', () => {
+    expect(valuationVersionLabel(undefined)).toMatch(/Not recorded/);
+    expect(valuationVersionLabel(0)).toBe('v0 (built-in)');
+    expect(valuationVersionLabel(4)).toBe('v4');
+  });
+});
+
+// ── Policy-limit awareness ────────────────────────────────────────────────────
+
+describe('evaluateCoverage', () => {
+  const raw = { low: 250_000, high: 1_000_000 };
+
+  it('leaves the estimate uncapped when coverage is unknown', () => {
+    const result = evaluateCoverage(raw, { state: 'Texas' });
+    expect(result).toMatchObject({ collectible: raw, limit: null, capped: false, assumed: false });
+  });
+
+  it('assumes the state minimum when asked to', () => {
+    const result = evaluateCoverage(raw, { state: 'Texas', assumeMinimum: true });
+    expect(result.limit).toBe(minimumBiLimit('Texas'));
+    expect(result.collectible).toEqual({ low: 30_000, high: 30_000 });
+    expect(result).toMatchObject({ capped: true, assumed: true });
+  });
+
+  it('falls back to the default minimum for unlisted states', () => {
+    expect(minimumBiLimit('Ohio')).toBe(DEFAULT_MINIMUM_BI_LIMIT);
+    expect(minimumBiLimit(null)).toBe(DEFAULT_MINIMUM_BI_LIMIT);
+  });
+
+  it('adds the lead\'s UM/UIM limit to the at-fault limit', () => {
+    const result = evaluateCoverage(raw, { atFaultCoverage: '100k', umCoverage: '250k' });
+    expect(result.limit).toBe(350_000);
+    expect(result.collectible).toEqual({ low: 250_000, high: 350_000 });
+  });
+
+  it('does not cap when coverage exceeds the estimate', () => {
+    const result = evaluateCoverage({ low: 20_000, high: 75_000 }, { atFaultCoverage: '100k' });
+    expect(result).toMatchObject({ collectible: { low: 20_000, high: 75_000 }, capped: false });
+  });
+
+  it('treats $500k+ policies as uncapped', () => {
+    expect(evaluateCoverage(raw, { atFaultCoverage: '500k_plus' }).limit).toBeNull();
+  });
+
+  it('relies on UM/UIM alone when the at-fault party is uninsured', () => {
+    expect(evaluateCoverage(raw, { atFaultCoverage: 'none', umCoverage: '50k' }).limit).toBe(50_000);
+  });
+
+  it('rejects inherited object keys as tiers and states', () => {
+    expect(isCoverageTier('constructor')).toBe(false);
+    expect(isCoverageTier('toString')).toBe(false);
+    expect(minimumBiLimit('constructor')).toBe(DEFAULT_MINIMUM_BI_LIMIT);
+  });
+});
+
 // ── formatCurrency ────────────────────────────────────────────────────────────
 
 describe('formatCurrency', () => {
@@ -134,7 +540,7 @@ describe('buildSummaryText', () => {
   });
 
   it('builds summary for basic injury (no surgery, no wages)', () => {
-    const text = buildSummaryText(base({ injuryType: 'soft_tissue' }));
+    const text = buildSummaryText(base({ injuryTypes: ['soft_tissue'] }));
     expect(text).toContain('soft tissue');
     expect(text).toContain("here's what similar cases have settled for");
     expect(text).not.toContain('surgery');
@@ -142,39 +548,49 @@ describe('buildSummaryText', () => {
   });
 
   it('includes "with surgery" when hasSurgery is true', () => {
-    const text = buildSummaryText(base({ injuryType: 'fracture', hasSurgery: true }));
+    const text = buildSummaryText(base({ injuryTypes: ['fracture'], hasSurgery: true }));
     expect(text).toContain('with surgery');
   });
 
   it('includes formatted wages when lostWages > 0', () => {
-    const text = buildSummaryText(base({ injuryType: 'tbi', lostWages: 12_000 }));
+    const text = buildSummaryText(base({ injuryTypes: ['tbi'], lostWages: 12_000 }));
     expect(text).toContain('$12k in lost income');
   });
 
   it('shows $50k+ label when wages hit the slider max', () => {
-    const text = buildSummaryText(base({ injuryType: 'tbi', lostWages: LOST_WAGES_MAX }));
+    const text = buildSummaryText(base({ injuryTypes: ['tbi'], lostWages: LOST_WAGES_MAX }));
     expect(text).toContain('$50k+ in lost income');
   });
 
   it('includes all three components when all are set', () => {
-    const text = buildSummaryText(base({ injuryType: 'spinal', hasSurgery: true, lostWages: 20_000 }));
+    const text = buildSummaryText(base({ injuryTypes: ['spinal'], hasSurgery: true, lostWages: 20_000 }));
     expect(text).toContain('spinal cord injury');
     expect(text).toContain('with surgery');
     expect(text).toContain('$20k in lost income');
   });
+
+  it('mentions the state when one is used', () => {
+    const text = buildSummaryText(base({ injuryTypes: ['fracture'], state: 'Texas' }));
+    expect(text).toContain('in Texas');
+  });
+
+  it('omits the state when none is set', () => {
+    const text = buildSummaryText(base({ injuryTypes: ['fracture'] }));
+    expect(text).not.toContain(' in ');
+  });
 });
 
 // ── isReadyToEstimate ─────────────────────────────────────────────────────────
 
 describe('isReadyToEstimate', () => {
-  it('returns false when injuryType is null', () => {
+  it('returns false when no injury is selected', () => {
     expect(isReadyToEstimate(base())).toBe(false);
   });
 
   it('returns true for any injury type, even with defaults', () => {
     const types = ['soft_tissue', 'fracture', 'tbi', 'spinal'] as const;
     for (const t of types) {
-      expect(isReadyToEstimate(base({ injuryType: t }))).toBe(true);
+      expect(isReadyToEstimate(base({ injuryTypes: [t] }))).toBe(true);
     }
   });
 });
@@ -0,0 +1,145 @@
+/**
+ * tests/i18n/locale.test.ts
+ * Unit tests for locale detection, Spanish formatting and question translations.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import { detectLocale, isLocale, languageName, messages } from '@/lib/i18n';
+import { en } from '@/lib/i18n/en';
+import { es } from '@/lib/i18n/es';
+import { localizeQuestion } from '@/lib/i18n/questions';
+import { formatCurrency, formatLostWages, buildSummaryText, LOST_WAGES_MAX } from '@/lib/estimator/logic';
+import { getKeyFactors } from '@/lib/quiz/scoring';
+import { statuteAlert } from '@/lib/legal/statute';
+import { QUIZ_QUESTIONS } from '@/lib/quiz/questions';
+import type { QuizQuestion } from '@/lib/quiz/questions';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+import type { EstimatorInputs } from '@/lib/estimator/types';
+
+const inputs = (overrides: Partial<EstimatorInputs> = {}): EstimatorInputs => ({
+  injuryTypes: [], hasSurgery: false, lostWages: 0, state: null, ...overrides,
+});
+
+// ── detectLocale ──────────────────────────────────────────────────────────────
+
+describe('detectLocale', () => {
+  it('prefers an explicit choice', () => {
+    expect(detectLocale('es', ['en-US'])).toBe('es');
+    expect(detectLocale('en', ['es-MX'])).toBe('en');
+  });
+
+  it('falls back to the first supported browser language', () => {
+    expect(detectLocale(null, ['fr-FR', 'es-MX', 'en-US'])).toBe('es');
+    expect(detectLocale('de', ['EN-gb'])).toBe('en');
+  });
+
+  it('defaults to English', () => {
+    expect(detectLocale(undefined, ['fr-FR'])).toBe('en');
+    expect(detectLocale(undefined)).toBe('en');
+  });
+
+  it('only accepts supported locales', () => {
+    expect(isLocale('es')).toBe(true);
+    expect(isLocale('es-MX')).toBe(false);
+    expect(isLocale(42)).toBe(false);
+  });
+});
+
+describe('languageName', () => {
+  it('names the stored language, defaulting to English', () => {
+    expect(languageName('es')).toBe('Spanish');
+    expect(languageName('en')).toBe('English');
+    expect(languageName(undefined)).toBe('English');
+  });
+});
+
+// ── Messages ──────────────────────────────────────────────────────────────────
+
+describe('messages', () => {
+  it('has a Spanish string for every English key', () => {
+    const keys = (m: object) => Object.keys(m).sort();
+    expect(keys(es)).toEqual(keys(en));
+    for (const section of Object.keys(en) as (keyof typeof en)[]) {
+      if (section === 'scoreFactors' || section === 'breakdown') continue;   // partial by design
+      expect(keys(es[section])).toEqual(keys(en[section]));
+    }
+  });
+
+  it('localizes the SMS text', () => {
+    expect(messages('en').sms.codeText('123456')).toContain('Your Settlement Sam verification code: 123456');
+    expect(messages('es').sms.codeText('123456')).toContain('123456');
+    expect(messages('es').sms.codeText('123456')).toMatch(/código/);
+  });
+});
+
+// ── Formatting ────────────────────────────────────────────────────────────────
+
+describe('formatCurrency (Spanish)', () => {
+  it('uses Spanish thousand and million suffixes', () => {
+    expect(formatCurrency(500, 'es')).toBe('$500');
+    expect(formatCurrency(25_000, 'es')).toBe('$25 mil');
+    expect(formatCurrency(1_500_000, 'es')).toBe('$1.5 M');
+  });
+
+  it('leaves English unchanged', () => {
+    expect(formatCurrency(25_000, 'en')).toBe('$25k');
+    expect(formatCurrency(1_500_000, 'en')).toBe('$1.5M');
+  });
+
+  it('marks the top of the wage slider', () => {
+    expect(formatLostWages(LOST_WAGES_MAX)).toBe('$50k+');
+    expect(formatLostWages(LOST_WAGES_MAX, 'es')).toBe('$50 mil+');
+    expect(formatLostWages(10_000, 'es')).toBe('$10 mil');
+  });
+});
+
+describe('buildSummaryText (Spanish)', () => {
+  it('builds the sentence from Spanish phrases', () => {
+    const text = buildSummaryText(inputs({ injuryTypes: ['fracture'], hasSurgery: true, lostWages: 10_000, state: 'Texas' }), undefined, 'es')!;
+    expect(text).toMatch(/^Con base en un hueso roto/);
+    expect(text).toContain('con cirugía');
+    expect(text).toContain('$10 mil');
+    expect(text).toContain('en Texas');
+  });
+
+  it('returns null without injuries, as in English', () => {
+    expect(buildSummaryText(inputs(), undefined, 'es')).toBeNull();
+  });
+});
+
+describe('getKeyFactors (Spanish)', () => {
+  it('translates factor labels', () => {
+    const answers = { ...INITIAL_ANSWERS, hasSurgery: true };
+    expect(getKeyFactors(answers, undefined, 'es').map(f => f.label)).toContain('Cirugía documentada');
+    expect(getKeyFactors(answers).map(f => f.label)).not.toContain('Cirugía documentada');
+  });
+});
+
+describe('statuteAlert (Spanish)', () => {
+  it('warns in Spanish', () => {
+    const msg = statuteAlert({ state: 'Tennessee', incidentType: 'slip_fall', incidentTimeframe: '6_to_12_months' }, Date.now(), 'es');
+    expect(msg).toMatch(/en Tennessee/);
+  });
+});
+
+// ── Questions ─────────────────────────────────────────────────────────────────
+
+describe('localizeQuestion', () => {
+  it('returns English questions unchanged', () => {
+    for (const q of QUIZ_QUESTIONS) expect(localizeQuestion(q, 'en')).toBe(q);
+  });
+
+  it('translates every core question', () => {
+    for (const q of QUIZ_QUESTIONS) {
+      const localized = localizeQuestion(q, 'es');
+      expect(localized.headline).not.toBe(q.headline);
+      expect(localized.options?.map(o => o.value)).toEqual(q.options?.map(o => o.value));
+    }
+  });
+
+  it('falls back to English for untranslated text', () => {
+    const q = { ...QUIZ_QUESTIONS[0], options: [...(QUIZ_QUESTIONS[0].options ?? []), { value: 'new_option', label: 'New option' }] } as QuizQuestion;
+    const localized = localizeQuestion(q, 'es');
+    expect(localized.options?.find(o => o.value === 'new_option')?.label).toBe('New option');
+  });
+});
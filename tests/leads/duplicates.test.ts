@@ -0,0 +1,177 @@
+/**
+ * tests/leads/duplicates.test.ts
+ * Unit tests for duplicate-lead matching, merging and the delivery block.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  normalizePhone, normalizeEmail, normalizeName, nameSimilarity, duplicateReasons,
+  findDuplicateMatches, duplicateGroupFor, pickPrimary, keepRecordError, mergedFields, duplicateDeliveryBlock,
+} from '@/lib/leads/duplicates';
+import type { FsLead } from '@/lib/firebase/types';
+
+const t0 = 1_700_000_000_000;
+
+const lead = (id: string, overrides: Partial<FsLead> = {}) => ({
+  id,
+  name:      'Jane Doe',
+  phone:     '5551234567',
+  email:     'jane@example.com',
+  state:     'CA',
+  source:    'quiz',
+  verified:  true,
+  delivered: false,
+  score:     50,
+  timestamp: t0,
+  ...overrides,
+}) as FsLead & { id: string };
+
+// ── Normalization ─────────────────────────────────────────────────────────────
+
+describe('normalizers', () => {
+  it('reduces phone numbers to 10 digits', () => {
+    expect(normalizePhone('+1 (555) 123-4567')).toBe('5551234567');
+    expect(normalizePhone('555.123.4567')).toBe('5551234567');
+  });
+
+  it('lowercases email, drops +tags, and folds Gmail dots', () => {
+    expect(normalizeEmail(' Jane+quiz@Example.com ')).toBe('jane@example.com');
+    expect(normalizeEmail('j.a.n.e@googlemail.com')).toBe('jane@gmail.com');
+    expect(normalizeEmail('j.doe@example.com')).toBe('j.doe@example.com');
+  });
+
+  it('returns null for missing or malformed email', () => {
+    expect(normalizeEmail(null)).toBeNull();
+    expect(normalizeEmail('jane')).toBeNull();
+    expect(normalizeEmail('@example.com')).toBeNull();
+  });
+
+  it('strips accents and punctuation from names', () => {
+    expect(normalizeName('  José   O\'Brien-Núñez ')).toBe('jose o brien nunez');
+  });
+});
+
+// ── Fuzzy names ───────────────────────────────────────────────────────────────
+
+describe('nameSimilarity', () => {
+  it('tolerates typos and word order', () => {
+    expect(nameSimilarity('Jonathan Smith', 'Jonathon Smith')).toBeGreaterThanOrEqual(0.85);
+    expect(nameSimilarity('Smith Jonathan', 'jonathan smith')).toBe(1);
+  });
+
+  it('scores different people low', () => {
+    expect(nameSimilarity('Jane Doe', 'Mark Johnson')).toBeLessThan(0.5);
+  });
+
+  it('never matches a lone first name', () => {
+    expect(nameSimilarity('Jane', 'Jane')).toBe(0);
+  });
+});
+
+// ── Matching ──────────────────────────────────────────────────────────────────
+
+describe('duplicateReasons', () => {
+  it('matches on phone, email, and name + state', () => {
+    const a = lead('a');
+    const b = lead('b', { phone: '+1 555-123-4567', email: 'Jane+x@example.com', name: 'Jane  Doe' });
+    expect(duplicateReasons(a, b)).toEqual(['phone', 'email', 'name_state']);
+  });
+
+  it('needs the same state for a name match', () => {
+    const a = lead('a', { phone: '5550000000', email: null });
+    const b = lead('b', { state: 'NV', email: null });
+    expect(duplicateReasons(a, b)).toEqual([]);
+  });
+});
+
+describe('findDuplicateMatches', () => {
+  it('keeps verified, unmerged matches once each, oldest first', () => {
+    const candidates = [
+      lead('new',  { timestamp: t0 + 2 }),
+      lead('old',  { timestamp: t0 }),
+      lead('old',  { timestamp: t0 }),
+      lead('part', { verified: false }),
+      lead('gone', { merged_into: 'old' }),
+      lead('self', { timestamp: t0 + 5 }),
+      lead('other', { name: 'Mark Johnson', phone: '5559999999', email: 'mark@example.com' }),
+    ];
+    expect(findDuplicateMatches(lead('self'), candidates, 'self').map(m => m.id)).toEqual(['old', 'new']);
+  });
+
+  it('joins the oldest existing group, else starts one on the oldest match', () => {
+    const m = (id: string, group: string | null, timestamp: number) =>
+      ({ id, reasons: ['phone' as const], duplicate_group: group, timestamp });
+    expect(duplicateGroupFor([])).toBeNull();
+    expect(duplicateGroupFor([m('a', null, 1), m('b', null, 2)])).toBe('a');
+    expect(duplicateGroupFor([m('a', null, 1), m('b', 'g1', 2)])).toBe('g1');
+  });
+});
+
+// ── Merging ───────────────────────────────────────────────────────────────────
+
+describe('pickPrimary', () => {
+  it('prefers delivered, then score, then the more complete record', () => {
+    expect(pickPrimary([lead('a', { score: 90 }), lead('b', { delivered: true })]).id).toBe('b');
+    expect(pickPrimary([lead('a', { score: 40 }), lead('b', { score: 70 })]).id).toBe('b');
+    expect(pickPrimary([lead('a', { name: 'Jane' }), lead('b', { timestamp: t0 + 1 })]).id).toBe('b');
+  });
+
+  it('falls back to the earliest record', () => {
+    expect(pickPrimary([lead('b', { timestamp: t0 + 1 }), lead('a')]).id).toBe('a');
+  });
+});
+
+describe('keepRecordError', () => {
+  const open = [lead('a'), lead('b', { delivered: true }), lead('c')];
+
+  it('allows keeping the delivered record', () => {
+    expect(keepRecordError(open, 'b')).toBeNull();
+    expect(keepRecordError([lead('a'), lead('c')], 'c')).toBeNull();
+  });
+
+  it('refuses an override that would merge away the delivered record', () => {
+    expect(keepRecordError(open, 'a')).toMatch(/delivered record/);
+  });
+
+  it('refuses a record outside the open group', () => {
+    expect(keepRecordError(open, 'z')).toMatch(/not an open member/);
+  });
+});
+
+describe('mergedFields', () => {
+  it('fills empty fields from the newest other record and unions touchpoints', () => {
+    const primary = lead('p', { email: null, carrier: '', touchpoints: ['widget', 'quiz'] });
+    const older   = lead('o1', { email: 'old@example.com', source: 'widget', timestamp: t0 - 2 });
+    const newer   = lead('o2', { email: 'new@example.com', carrier: 'Verizon', source: 'attorney', timestamp: t0 - 1 });
+
+    const patch = mergedFields(primary, [older, newer]);
+    expect(patch.email).toBe('new@example.com');
+    expect(patch.carrier).toBe('Verizon');
+    expect(patch.state).toBeUndefined();
+    expect(patch.touchpoints).toEqual(['widget', 'attorney', 'quiz']);
+    expect(patch.merged_from).toEqual(['o1', 'o2']);
+  });
+});
+
+// ── Delivery ──────────────────────────────────────────────────────────────────
+
+describe('duplicateDeliveryBlock', () => {
+  it('delivers a lead with no open duplicates', () => {
+    expect(duplicateDeliveryBlock(lead('a'), [])).toBeNull();
+    expect(duplicateDeliveryBlock(lead('a'), [lead('a'), lead('b', { merged_into: 'a' })])).toBeNull();
+  });
+
+  it('refuses merged records and leads whose duplicate was delivered', () => {
+    expect(duplicateDeliveryBlock(lead('b', { merged_into: 'a' }), [])).toBe('merged');
+    expect(duplicateDeliveryBlock(lead('a'), [lead('a'), lead('b', { delivered: true })])).toBe('duplicate_delivered');
+  });
+
+  it('refuses a lead whose delivered duplicate was merged into it', () => {
+    const delivered = lead('b', { delivered: true, merged_into: 'a' });
+    expect(duplicateDeliveryBlock(lead('a'), [lead('a'), delivered])).toBe('duplicate_delivered');
+  });
+
+  it('holds an open group until it is merged', () => {
+    expect(duplicateDeliveryBlock(lead('a'), [lead('a'), lead('b')])).toBe('unresolved_duplicate');
+  });
+});
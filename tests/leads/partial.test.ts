@@ -0,0 +1,101 @@
+/**
+ * tests/leads/partial.test.ts
+ * Unit tests for partial-lead capture rules, nurture timing and the
+ * retargeting summary.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  MAX_PARTIAL_NAME_LENGTH,
+  NURTURE_DELAYS_MS,
+  cleanPartialName,
+  nurtureDue,
+  nextNurtureAt,
+  retargetingSummary,
+  sameSubmitter,
+} from '@/lib/leads/partial';
+
+const captured = 1_700_000_000_000;
+const HOUR     = 60 * 60 * 1_000;
+
+const partial = (overrides: { verified?: boolean; email?: string | null; nurture_count?: number } = {}) => ({
+  verified:      false,
+  email:         'jane@example.com',
+  timestamp:     captured,
+  nurture_count: 0,
+  ...overrides,
+});
+
+// ── Capture ───────────────────────────────────────────────────────────────────
+
+describe('cleanPartialName', () => {
+  it('strips markup and collapses whitespace', () => {
+    expect(cleanPartialName('  Jane   <b>Doe</b> ')).toBe('Jane Doe');
+    expect(cleanPartialName('<a href="https://evil.example">Click</a> here')).toBe('Click here');
+    expect(cleanPartialName('Jane <script')).toBe('Jane script');
+  });
+
+  it('caps the length', () => {
+    expect(cleanPartialName('x'.repeat(500))).toHaveLength(MAX_PARTIAL_NAME_LENGTH);
+    expect(cleanPartialName(undefined)).toBe('');
+  });
+});
+
+describe('sameSubmitter', () => {
+  const stored = { ip_hash: 'ip-a', device_id: 'dev-a' };
+
+  it('lets the same device or IP update a partial', () => {
+    expect(sameSubmitter(stored, { ip_hash: 'ip-b', device_id: 'dev-a' })).toBe(true);
+    expect(sameSubmitter(stored, { ip_hash: 'ip-a', device_id: null })).toBe(true);
+  });
+
+  it('refuses anyone else, including when nothing was recorded', () => {
+    expect(sameSubmitter(stored, { ip_hash: 'ip-b', device_id: 'dev-b' })).toBe(false);
+    expect(sameSubmitter({ ip_hash: null, device_id: null }, { ip_hash: null, device_id: null })).toBe(false);
+  });
+});
+
+// ── Nurture timing ────────────────────────────────────────────────────────────
+
+describe('nurtureDue', () => {
+  it('sends the first reminder an hour after capture', () => {
+    expect(nurtureDue(partial(), captured + HOUR - 1)).toBe(false);
+    expect(nurtureDue(partial(), captured + HOUR)).toBe(true);
+  });
+
+  it('waits for the next delay after each reminder', () => {
+    expect(nurtureDue(partial({ nurture_count: 1 }), captured + 2 * HOUR)).toBe(false);
+    expect(nurtureDue(partial({ nurture_count: 1 }), captured + 24 * HOUR)).toBe(true);
+  });
+
+  it('stops once every reminder is sent', () => {
+    const done = partial({ nurture_count: NURTURE_DELAYS_MS.length });
+    expect(nurtureDue(done, captured + 30 * 24 * HOUR)).toBe(false);
+    expect(nextNurtureAt(done)).toBeNull();
+  });
+
+  it('never reminds verified leads or leads without an email', () => {
+    expect(nurtureDue(partial({ verified: true }), captured + 24 * HOUR)).toBe(false);
+    expect(nurtureDue(partial({ email: null }), captured + 24 * HOUR)).toBe(false);
+  });
+});
+
+describe('nextNurtureAt', () => {
+  it('schedules from the capture time', () => {
+    expect(nextNurtureAt(partial({ nurture_count: 2 }))).toBe(captured + NURTURE_DELAYS_MS[2]);
+  });
+});
+
+// ── Summary ───────────────────────────────────────────────────────────────────
+
+describe('retargetingSummary', () => {
+  it('counts the queue and leads recovered after a reminder', () => {
+    expect(retargetingSummary([
+      partial(),
+      partial({ email: null }),
+      partial({ nurture_count: 2 }),
+      partial({ verified: true, nurture_count: 1 }),
+      partial({ verified: true }),
+    ])).toEqual({ partial: 3, reachable: 2, nurtured: 1, recovered: 1 });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * tests/leads/quality.test.ts
+ * Unit tests for the intake fraud and quality signals and the area-code table.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  assessQuality, areaCodeMismatch, implausibleAnswers, otherPhones,
+  MIN_QUIZ_DURATION_MS, QUALITY_HOLD_RISK, VELOCITY_MAX_OTHERS, VELOCITY_WINDOW_MS,
+} from '@/lib/leads/quality';
+import type { QualityInputs } from '@/lib/leads/quality';
+import { STATE_AREA_CODES, areaCodeState } from '@/lib/leads/areaCodes';
+import { US_STATES } from '@/lib/quiz/questions';
+
+const now = 1_700_000_000_000;
+
+const inputs = (overrides: Partial<QualityInputs> = {}): QualityInputs => ({
+  phone:             '3105551234',
+  state:             'California',
+  source:            'quiz',
+  surgery:           false,
+  hospitalized:      false,
+  receivedTreatment: 'er_doctor',
+  disposableEmail:   false,
+  ipOthers:          0,
+  deviceOthers:      0,
+  durationMs:        3 * 60 * 1_000,
+  ...overrides,
+});
+
+// ── Area codes ────────────────────────────────────────────────────────────────
+
+describe('area codes', () => {
+  it('covers every quiz state', () => {
+    expect(Object.keys(STATE_AREA_CODES).sort()).toEqual([...US_STATES].sort());
+  });
+
+  it('assigns each area code to one state', () => {
+    const codes = Object.values(STATE_AREA_CODES).flat();
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it('looks up the state for a phone number', () => {
+    expect(areaCodeState('2125550000')).toBe('New York');
+    expect(areaCodeState('8005550000')).toBeNull();
+  });
+
+  it('flags a mismatch only when both the state and the area code are known', () => {
+    expect(areaCodeMismatch('2125550000', 'California')).toBe(true);
+    expect(areaCodeMismatch('3105550000', 'California')).toBe(false);
+    expect(areaCodeMismatch('8005550000', 'California')).toBe(false);
+    expect(areaCodeMismatch('2125550000', null)).toBe(false);
+  });
+});
+
+// ── Signals ───────────────────────────────────────────────────────────────────
+
+describe('implausibleAnswers', () => {
+  it('flags surgery or a hospital stay with no treatment', () => {
+    expect(implausibleAnswers({ surgery: true,  hospitalized: false, receivedTreatment: 'none' })).toBe(true);
+    expect(implausibleAnswers({ surgery: false, hospitalized: true,  receivedTreatment: 'none' })).toBe(true);
+  });
+
+  it('accepts consistent answers and the widget, which has no treatment question', () => {
+    expect(implausibleAnswers({ surgery: true,  hospitalized: true,  receivedTreatment: 'er_doctor' })).toBe(false);
+    expect(implausibleAnswers({ surgery: false, hospitalized: false, receivedTreatment: 'none' })).toBe(false);
+    expect(implausibleAnswers({ surgery: true,  hospitalized: false, receivedTreatment: null })).toBe(false);
+  });
+});
+
+describe('otherPhones', () => {
+  it('counts distinct other phones inside the window', () => {
+    const records = [
+      { phone: '3105551234', timestamp: now - 1_000 },
+      { phone: '3105550001', timestamp: now - 1_000 },
+      { phone: '3105550001', timestamp: now - 2_000 },
+      { phone: '3105550002', timestamp: now - VELOCITY_WINDOW_MS - 1 },
+    ];
+    expect(otherPhones(records, '3105551234', now)).toBe(1);
+  });
+});
+
+// ── Assessment ────────────────────────────────────────────────────────────────
+
+describe('assessQuality', () => {
+  it('passes a clean lead', () => {
+    expect(assessQuality(inputs())).toEqual({ quality_flags: [], quality_risk: 0, quality_hold: false });
+  });
+
+  it('flags each signal', () => {
+    const q = assessQuality(inputs({
+      disposableEmail:   true,
+      phone:             '2125551234',
+      ipOthers:          VELOCITY_MAX_OTHERS + 1,
+      deviceOthers:      VELOCITY_MAX_OTHERS + 1,
+      surgery:           true,
+      receivedTreatment: 'none',
+      durationMs:        MIN_QUIZ_DURATION_MS - 1,
+    }));
+    expect(q.quality_flags).toEqual([
+      'disposable_email', 'area_code_mismatch', 'ip_velocity', 'device_velocity', 'implausible_answers', 'fast_completion',
+    ]);
+    expect(q.quality_risk).toBe(100);
+    expect(q.quality_hold).toBe(true);
+  });
+
+  it('allows a few leads per IP or device, such as a shared household', () => {
+    expect(assessQuality(inputs({ ipOthers: VELOCITY_MAX_OTHERS, deviceOthers: VELOCITY_MAX_OTHERS })).quality_flags).toEqual([]);
+  });
+
+  it('times only fresh quizzes', () => {
+    expect(assessQuality(inputs({ durationMs: null })).quality_flags).toEqual([]);
+    expect(assessQuality(inputs({ source: 'widget', durationMs: 1_000 })).quality_flags).toEqual([]);
+  });
+
+  it('holds only once the risk reaches the threshold', () => {
+    const weak = assessQuality(inputs({ phone: '2125551234' }));
+    expect(weak.quality_flags).toEqual(['area_code_mismatch']);
+    expect(weak.quality_risk).toBeLessThan(QUALITY_HOLD_RISK);
+    expect(weak.quality_hold).toBe(false);
+
+    const strong = assessQuality(inputs({ deviceOthers: VELOCITY_MAX_OTHERS + 1, phone: '2125551234' }));
+    expect(strong.quality_risk).toBeGreaterThanOrEqual(QUALITY_HOLD_RISK);
+    expect(strong.quality_hold).toBe(true);
+  });
+});
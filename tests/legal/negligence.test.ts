@@ -0,0 +1,111 @@
+/**
+ * tests/legal/negligence.test.ts
+ * Unit tests for state comparative-fault rules.
+ * Pure data + pure functions — no network, no Firestore.
+ */
+
+import {
+  FAULT_PERCENT,
+  DEFAULT_NEGLIGENCE_RULE,
+  negligenceRuleFor,
+  isFaultLevel,
+  isBarredByRule,
+  isRecoveryBarred,
+  recoveryFactor,
+  faultLabel,
+} from '@/lib/legal/negligence';
+
+describe('negligenceRuleFor', () => {
+  it('returns the rule for listed states', () => {
+    expect(negligenceRuleFor('California')).toBe('pure');
+    expect(negligenceRuleFor('Virginia')).toBe('contributory');
+    expect(negligenceRuleFor('Georgia')).toBe('modified_50');
+  });
+
+  it('falls back to the 51% bar for unlisted or missing states', () => {
+    expect(DEFAULT_NEGLIGENCE_RULE).toBe('modified_51');
+    expect(negligenceRuleFor('Texas')).toBe('modified_51');
+    expect(negligenceRuleFor(null)).toBe('modified_51');
+  });
+});
+
+describe('isBarredByRule', () => {
+  it('contributory bars any fault', () => {
+    expect(isBarredByRule(0, 'contributory')).toBe(false);
+    expect(isBarredByRule(1, 'contributory')).toBe(true);
+  });
+
+  it('distinguishes the 50% and 51% bars at exactly 50%', () => {
+    expect(isBarredByRule(50, 'modified_50')).toBe(true);
+    expect(isBarredByRule(50, 'modified_51')).toBe(false);
+    expect(isBarredByRule(51, 'modified_51')).toBe(true);
+  });
+
+  it('pure comparative only bars 100% fault', () => {
+    expect(isBarredByRule(99, 'pure')).toBe(false);
+    expect(isBarredByRule(100, 'pure')).toBe(true);
+  });
+});
+
+describe('isRecoveryBarred', () => {
+  it('never bars a lead with no fault', () => {
+    expect(isRecoveryBarred('none', 'Virginia')).toBe(false);
+    expect(isRecoveryBarred(null, 'Virginia')).toBe(false);
+  });
+
+  it('bars partial fault only in contributory states', () => {
+    expect(isRecoveryBarred('partial', 'North Carolina')).toBe(true);
+    expect(isRecoveryBarred('partial', 'Texas')).toBe(false);
+    expect(isRecoveryBarred('partial', 'California')).toBe(false);
+  });
+
+  it('bars mostly-at-fault in modified states but not pure ones', () => {
+    expect(isRecoveryBarred('mostly', 'Texas')).toBe(true);
+    expect(isRecoveryBarred('mostly', 'Colorado')).toBe(true);
+    expect(isRecoveryBarred('mostly', 'New York')).toBe(false);
+  });
+
+  it('bars fully-at-fault everywhere', () => {
+    expect(isRecoveryBarred('fully', 'California')).toBe(true);
+    expect(isRecoveryBarred('fully', 'Texas')).toBe(true);
+  });
+});
+
+describe('recoveryFactor', () => {
+  it('is 1 with no fault or no answer', () => {
+    expect(recoveryFactor('none', 'Texas')).toBe(1);
+    expect(recoveryFactor(null, 'Texas')).toBe(1);
+  });
+
+  it('reduces by the fault share when not barred', () => {
+    expect(recoveryFactor('partial', 'Texas')).toBeCloseTo(1 - FAULT_PERCENT.partial / 100);
+    expect(recoveryFactor('mostly', 'California')).toBeCloseTo(1 - FAULT_PERCENT.mostly / 100);
+  });
+
+  it('is 0 when barred', () => {
+    expect(recoveryFactor('partial', 'Maryland')).toBe(0);
+  });
+});
+
+describe('isFaultLevel', () => {
+  it('accepts the fault levels', () => {
+    for (const level of Object.keys(FAULT_PERCENT)) expect(isFaultLevel(level)).toBe(true);
+  });
+
+  it('rejects inherited object keys', () => {
+    expect(isFaultLevel('constructor')).toBe(false);
+    expect(isFaultLevel('toString')).toBe(false);
+    expect(negligenceRuleFor('constructor')).toBe(DEFAULT_NEGLIGENCE_RULE);
+  });
+});
+
+describe('faultLabel', () => {
+  it('describes the fault share and the state rule', () => {
+    expect(faultLabel('partial', 'California')).toBe('Partly (~30%) — Pure comparative negligence');
+  });
+
+  it('falls back to the legacy at_fault boolean', () => {
+    expect(faultLabel(undefined, 'Texas', true)).toBe('Yes');
+    expect(faultLabel(null, 'Texas', false)).toBe('No');
+  });
+});
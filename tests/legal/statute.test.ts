@@ -0,0 +1,144 @@
+/**
+ * tests/legal/statute.test.ts
+ * Unit tests for statute-of-limitations estimates.
+ * Pure data + pure functions — no network, no Firestore.
+ */
+
+import {
+  STATE_STATUTES,
+  STATUTE_WARNING_DAYS,
+  DEFAULT_GOVERNMENT_NOTICE_DAYS,
+  TIMEFRAME_ELAPSED_DAYS,
+  limitationPeriod,
+  evaluateStatute,
+  statuteAlert,
+  formatStatuteDeadline,
+} from '@/lib/legal/statute';
+import { US_STATES } from '@/lib/quiz/questions';
+
+const NOW    = Date.UTC(2026, 0, 1);
+const DAY_MS = 24 * 60 * 60 * 1_000;
+
+describe('STATE_STATUTES', () => {
+  it('has an entry for every state in the quiz dropdown', () => {
+    for (const state of US_STATES) {
+      expect(STATE_STATUTES[state]).toBeDefined();
+    }
+  });
+});
+
+describe('limitationPeriod', () => {
+  it('uses the general period by default', () => {
+    expect(limitationPeriod('Texas', 'slip_fall')).toEqual({ days: 730, basis: 'general' });
+    expect(limitationPeriod('Maine', 'motor_vehicle')).toEqual({ days: 6 * 365, basis: 'general' });
+  });
+
+  it('falls back to two years for a missing state', () => {
+    expect(limitationPeriod(null, 'other')).toEqual({ days: 730, basis: 'general' });
+  });
+
+  it('applies the med-mal period', () => {
+    expect(limitationPeriod('California', 'med_mal')).toEqual({ days: 365, basis: 'med_mal' });
+    expect(limitationPeriod('New York', 'med_mal').days).toBe(Math.round(2.5 * 365));
+  });
+
+  it('applies per-incident-type overrides', () => {
+    expect(limitationPeriod('Kentucky', 'motor_vehicle')).toEqual({ days: 730, basis: 'incident_type' });
+    expect(limitationPeriod('Kentucky', 'slip_fall')).toEqual({ days: 365, basis: 'general' });
+  });
+
+  it('uses the government notice deadline when it is shorter', () => {
+    expect(limitationPeriod('New York', 'motor_vehicle', true)).toEqual({ days: 90, basis: 'government' });
+    expect(limitationPeriod('Ohio', 'slip_fall', true))
+      .toEqual({ days: DEFAULT_GOVERNMENT_NOTICE_DAYS, basis: 'government' });
+  });
+
+  it('keeps the ordinary period when the government notice window is longer', () => {
+    expect(limitationPeriod('Florida', 'slip_fall', true)).toEqual({ days: 730, basis: 'general' });
+  });
+});
+
+describe('evaluateStatute', () => {
+  it('returns null without a timeframe', () => {
+    expect(evaluateStatute({ state: 'Texas', incidentType: 'slip_fall', incidentTimeframe: null })).toBeNull();
+  });
+
+  it('returns null for an unknown timeframe', () => {
+    for (const timeframe of ['last_week', 'constructor', 'toString']) {
+      expect(evaluateStatute(
+        { state: 'Texas', incidentType: 'slip_fall', incidentTimeframe: timeframe as never },
+        NOW,
+      )).toBeNull();
+    }
+  });
+
+  it('uses the default statute for inherited object keys as states or incident types', () => {
+    const result = evaluateStatute(
+      { state: 'constructor', incidentType: 'toString' as never, incidentTimeframe: 'under_6_months' },
+      NOW,
+    )!;
+    expect(result.periodDays).toBe(limitationPeriod(null, null).days);
+    expect(Number.isFinite(result.deadline)).toBe(true);
+    expect(limitationPeriod('Colorado', 'constructor' as never).basis).toBe('general');
+  });
+
+  it('computes days remaining from the oldest date in the timeframe', () => {
+    const result = evaluateStatute(
+      { state: 'New York', incidentType: 'motor_vehicle', incidentTimeframe: '6_to_12_months' },
+      NOW,
+    )!;
+    expect(result.daysRemaining).toBe(3 * 365 - TIMEFRAME_ELAPSED_DAYS['6_to_12_months']);
+    expect(result.deadline).toBe(NOW + result.daysRemaining * DAY_MS);
+    expect(result.warning).toBe(false);
+  });
+
+  it('warns when the deadline is within the warning window', () => {
+    const result = evaluateStatute(
+      { state: 'Texas', incidentType: 'motor_vehicle', incidentTimeframe: '1_to_2_years' },
+      NOW,
+    )!;
+    expect(result.daysRemaining).toBeLessThanOrEqual(STATUTE_WARNING_DAYS);
+    expect(result.warning).toBe(true);
+  });
+
+  it('always warns for incidents over two years ago', () => {
+    const result = evaluateStatute(
+      { state: 'Maine', incidentType: 'slip_fall', incidentTimeframe: 'over_2_years' },
+      NOW,
+    )!;
+    expect(result.daysRemaining).toBeGreaterThan(STATUTE_WARNING_DAYS);
+    expect(result.warning).toBe(true);
+  });
+
+  it('reports a passed deadline as negative days for government defendants', () => {
+    const result = evaluateStatute(
+      { state: 'New York', incidentType: 'motor_vehicle', incidentTimeframe: 'under_6_months', governmentDefendant: true },
+      NOW,
+    )!;
+    expect(result.basis).toBe('government');
+    expect(result.daysRemaining).toBeLessThan(0);
+    expect(result.warning).toBe(true);
+  });
+});
+
+describe('statuteAlert', () => {
+  it('returns null when there is plenty of time', () => {
+    expect(statuteAlert({ state: 'Maine', incidentType: 'slip_fall', incidentTimeframe: 'under_6_months' })).toBeNull();
+  });
+
+  it('names the state in the alert', () => {
+    const msg = statuteAlert({ state: 'Tennessee', incidentType: 'slip_fall', incidentTimeframe: '6_to_12_months' });
+    expect(msg).toContain('in Tennessee');
+  });
+});
+
+describe('formatStatuteDeadline', () => {
+  it('handles leads without a deadline', () => {
+    expect(formatStatuteDeadline(null, null)).toBe('Not available');
+  });
+
+  it('shows days left or days passed', () => {
+    expect(formatStatuteDeadline(NOW, 30)).toContain('30 days left');
+    expect(formatStatuteDeadline(NOW, -12)).toBe('Likely passed (est. 12 days ago)');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * tests/quiz/draft.test.ts
+ * Unit tests for saving and resuming an unfinished quiz.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import { DRAFT_TTL_MS, isDraftEmpty, parseDraft, resumeHistory } from '@/lib/quiz/draft';
+import type { QuizAnswers } from '@/lib/quiz/types';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+
+const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({ ...INITIAL_ANSWERS, ...overrides });
+
+// ── Resume point ──────────────────────────────────────────────────────────────
+
+describe('resumeHistory', () => {
+  it('stops at the first unanswered question', () => {
+    const history = resumeHistory(answers({ incidentType: 'slip_fall', injuryTypes: ['fracture'], state: 'Ohio' }));
+    expect(history).toEqual(['incidentType', 'injuryTypes', 'state', 'governmentDefendant']);
+  });
+
+  it('follows the branch the saved answers take', () => {
+    const history = resumeHistory(answers({ incidentType: 'motor_vehicle', vehicleType: 'commercial' }));
+    expect(history).toEqual(['incidentType', 'vehicleType', 'policeReport']);
+  });
+
+  it('treats optional questions already passed as answered', () => {
+    const saved = answers({ incidentType: 'slip_fall', injuryTypes: ['fracture'] });
+    const visited = ['incidentType', 'injuryTypes', 'state', 'governmentDefendant'] as const;
+    expect(resumeHistory(saved, [...visited])).toEqual([...visited]);
+  });
+
+  it('starts at the first question for an empty draft', () => {
+    expect(resumeHistory(answers())).toEqual(['incidentType']);
+  });
+});
+
+describe('isDraftEmpty', () => {
+  it('is true until something is answered', () => {
+    expect(isDraftEmpty(answers())).toBe(true);
+    expect(isDraftEmpty(answers({ injuryTypes: ['soft_tissue'] }))).toBe(false);
+  });
+});
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+describe('parseDraft', () => {
+  const now = 1_700_000_000_000;
+
+  it('fills missing answers and drops unknown keys and question IDs', () => {
+    const draft = parseDraft({
+      answers: { incidentType: 'workplace', bogus: 1 },
+      history: ['incidentType', 'notAQuestion'],
+      savedAt: now,
+    }, now);
+    expect(draft?.answers).toEqual(answers({ incidentType: 'workplace' }));
+    expect(draft?.history).toEqual(['incidentType']);
+  });
+
+  it('expires drafts older than the TTL', () => {
+    const draft = { answers: { incidentType: 'workplace' }, history: [], savedAt: now - DRAFT_TTL_MS - 1 };
+    expect(parseDraft(draft, now)).toBeNull();
+  });
+
+  it('rejects malformed input', () => {
+    expect(parseDraft(null, now)).toBeNull();
+    expect(parseDraft({ answers: {}, history: 'x', savedAt: now }, now)).toBeNull();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * tests/quiz/exitRoutes.test.ts
+ * Unit tests for quiz exit offers: targeting, validation of admin edits,
+ * exit events and the per-offer report.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  DEFAULT_EXIT_ROUTES, exitOfferText, exitOffersFor, exitReport, exitRoutesError,
+  newExitOffer, parseExitEvent, toExitRoutes,
+} from '@/lib/quiz/exitRoutes';
+import type { ExitOffer, ExitRoutes } from '@/lib/quiz/exitRoutes';
+
+const offer = (overrides: Partial<ExitOffer> = {}): ExitOffer => ({
+  ...newExitOffer('self_help', []),
+  partner: 'Guide Co',
+  url:     'https://partner.example.com/guide',
+  enabled: true,
+  ...overrides,
+});
+
+const routes = (overrides: Partial<ExitRoutes> = {}): ExitRoutes => ({ ...DEFAULT_EXIT_ROUTES, ...overrides });
+
+// ── Offers ────────────────────────────────────────────────────────────────────
+
+describe('exitOffersFor', () => {
+  it('has no offers until an admin adds some', () => {
+    expect(exitOffersFor(DEFAULT_EXIT_ROUTES, 'at_fault', {})).toEqual([]);
+  });
+
+  it('shows enabled offers for the reason and the visitor’s incident', () => {
+    const wc    = offer({ ...newExitOffer('workers_comp', []), partner: 'WC', url: '/wc', enabled: true });
+    const guide = offer();
+    const off   = offer({ id: 'off', enabled: false });
+    const r     = routes({ at_fault: [wc, guide, off] });
+
+    expect(exitOffersFor(r, 'at_fault', { incidentType: 'workplace' }).map(o => o.id)).toEqual(['workers_comp', 'self_help']);
+    expect(exitOffersFor(r, 'at_fault', { incidentType: 'motor_vehicle' }).map(o => o.id)).toEqual(['self_help']);
+    expect(exitOffersFor(r, 'has_attorney', { incidentType: 'workplace' })).toEqual([]);
+  });
+
+  it('falls back to English text', () => {
+    const o = offer({ text: { en: { headline: 'H', body: 'B', cta: 'C' } } });
+    expect(exitOfferText(o, 'es').headline).toBe('H');
+    expect(exitOfferText(offer(), 'es').headline).toBe('Maneje su propio reclamo de seguro');
+  });
+
+  it('gives new offers an unused ID', () => {
+    const first = newExitOffer('self_help', []);
+    expect(first.enabled).toBe(false);
+    expect(newExitOffer('self_help', [first]).id).toBe('self_help_2');
+  });
+});
+
+// ── Validation ────────────────────────────────────────────────────────────────
+
+describe('exitRoutesError', () => {
+  it('accepts valid routes', () => {
+    expect(exitRoutesError(routes({ at_fault: [offer()], has_attorney: [offer({ url: '/second-opinion' })] }))).toBeNull();
+  });
+
+  it('requires a list for every reason', () => {
+    expect(exitRoutesError({ at_fault: [] })).toMatch(/Already has an attorney/);
+  });
+
+  it('rejects unsafe links, missing partners and duplicate IDs', () => {
+    expect(exitRoutesError(routes({ at_fault: [offer({ url: 'http://partner.example.com' })] }))).toMatch(/https/);
+    expect(exitRoutesError(routes({ at_fault: [offer({ url: '//evil.example.com' })] }))).toMatch(/https/);
+    expect(exitRoutesError(routes({ at_fault: [offer({ url: 'javascript:alert(1)' })] }))).toMatch(/https/);
+    expect(exitRoutesError(routes({ at_fault: [offer({ partner: ' ' })] }))).toMatch(/partner/);
+    expect(exitRoutesError(routes({ at_fault: [offer(), offer()] }))).toMatch(/used twice/);
+  });
+
+  it('requires complete English text', () => {
+    const o = offer({ text: { en: { headline: 'H', body: '', cta: 'C' } } });
+    expect(exitRoutesError(routes({ at_fault: [o] }))).toMatch(/\(en\)/);
+  });
+
+  it('drops unknown fields when copying', () => {
+    const extra = { ...offer(), secret: 'x' } as ExitOffer;
+    const copy  = toExitRoutes(routes({ at_fault: [extra] }));
+    expect(Object.keys(copy.at_fault[0])).not.toContain('secret');
+  });
+});
+
+// ── Events and report ─────────────────────────────────────────────────────────
+
+describe('parseExitEvent', () => {
+  const base = { sessionId: 's1', reason: 'at_fault', action: 'shown', offerIds: ['self_help'], answers: { state: 'Alabama' }, locale: 'es' };
+
+  it('keeps the answers so far and uses the server time', () => {
+    expect(parseExitEvent(base, 123)).toEqual({
+      sessionId: 's1', reason: 'at_fault', action: 'shown', offerId: null,
+      offerIds: ['self_help'], answers: { state: 'Alabama' }, locale: 'es', timestamp: 123,
+    });
+  });
+
+  it('requires an offer for clicks, a known reason, and answers', () => {
+    expect(parseExitEvent({ ...base, action: 'clicked' })).toBeNull();
+    expect(parseExitEvent({ ...base, action: 'clicked', offerId: 'self_help' })?.offerId).toBe('self_help');
+    expect(parseExitEvent({ ...base, reason: 'bored' })).toBeNull();
+    expect(parseExitEvent({ ...base, answers: undefined })).toBeNull();
+  });
+});
+
+describe('exitReport', () => {
+  it('counts sessions once per offer and computes click-through', () => {
+    const e = (sessionId: string, action: 'shown' | 'clicked', offerId: string | null = null) =>
+      ({ sessionId, reason: 'at_fault' as const, action, offerId, offerIds: ['wc', 'guide'] });
+    const report = exitReport([
+      e('a', 'shown'), e('a', 'shown'), e('a', 'clicked', 'wc'),
+      e('b', 'shown'),
+      e('c', 'shown'), e('c', 'clicked', 'wc'), e('c', 'clicked', 'guide'),
+    ]);
+
+    const atFault = report.find(r => r.reason === 'at_fault')!;
+    expect(atFault.sessions).toBe(3);
+    expect(atFault.clicked).toBe(2);
+    expect(atFault.offers).toEqual([
+      { offerId: 'wc',    shown: 3, clicks: 2, clickRate: 2 / 3 },
+      { offerId: 'guide', shown: 3, clicks: 1, clickRate: 1 / 3 },
+    ]);
+    expect(report.find(r => r.reason === 'has_attorney')).toEqual({ reason: 'has_attorney', sessions: 0, clicked: 0, offers: [] });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * tests/quiz/flow.test.ts
+ * Unit tests for the quiz's branching question path.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  firstQuestionId,
+  nextQuestionId,
+  nextUnskippedId,
+  questionPath,
+  quizProgress,
+  pruneAnswers,
+} from '@/lib/quiz/flow';
+import type { QuizQuestion } from '@/lib/quiz/questions';
+import type { QuizAnswers } from '@/lib/quiz/types';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+
+const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({ ...INITIAL_ANSWERS, ...overrides });
+
+// ── Path ──────────────────────────────────────────────────────────────────────
+
+describe('questionPath', () => {
+  it('asks the 15 core questions by default', () => {
+    const path = questionPath(answers({ incidentType: 'slip_fall', receivedTreatment: 'er_doctor' }));
+    expect(path).toHaveLength(15);
+    expect(path[0]).toBe('incidentType');
+    expect(path[path.length - 1]).toBe('hasAttorney');
+  });
+
+  it('skips hospitalization, surgery and ongoing treatment after "no treatment"', () => {
+    const path = questionPath(answers({ receivedTreatment: 'none' }));
+    expect(path).not.toContain('hospitalized');
+    expect(path).not.toContain('hasSurgery');
+    expect(path).not.toContain('stillInTreatment');
+    expect(path[path.indexOf('receivedTreatment') + 1]).toBe('medicalBills');
+  });
+
+  it('adds the malpractice follow-ups only for med_mal', () => {
+    const medMal = questionPath(answers({ incidentType: 'med_mal' }));
+    expect(medMal.slice(0, 6)).toEqual([
+      'incidentType', 'medMalType', 'medMalProvider', 'medMalDiscovered', 'medMalSecondOpinion', 'injuryTypes',
+    ]);
+    expect(questionPath(answers({ incidentType: 'slip_fall' }))).not.toContain('medMalType');
+  });
+});
+
+describe('nextQuestionId', () => {
+  it('returns null after the last question', () => {
+    expect(nextQuestionId('hasAttorney', answers())).toBeNull();
+  });
+
+  it('follows the default order when a next rule returns nothing', () => {
+    expect(nextQuestionId('receivedTreatment', answers({ receivedTreatment: 'er_doctor' }))).toBe('hospitalized');
+  });
+
+  it('ignores a next rule that points backwards', () => {
+    const questions: QuizQuestion[] = [
+      { id: 'incidentType', headline: 'A', type: 'options' },
+      { id: 'state',        headline: 'B', type: 'options', next: () => 'incidentType' },
+      { id: 'hasAttorney',  headline: 'C', type: 'options' },
+    ];
+    expect(nextQuestionId('state', answers(), questions)).toBe('hasAttorney');
+    expect(questionPath(answers(), questions)).toEqual(['incidentType', 'state', 'hasAttorney']);
+  });
+
+  it('starts at the first question that is shown', () => {
+    const questions: QuizQuestion[] = [
+      { id: 'medMalType', headline: 'A', type: 'options', showIf: a => a.incidentType === 'med_mal' },
+      { id: 'state',      headline: 'B', type: 'options' },
+    ];
+    expect(firstQuestionId(answers(), questions)).toBe('state');
+  });
+});
+
+describe('nextUnskippedId', () => {
+  it('passes over skipped questions but keeps them on the path', () => {
+    const a = answers({ receivedTreatment: 'er_doctor', hasSurgery: true });
+    expect(nextUnskippedId('hospitalized', a, ['hasSurgery'])).toBe('stillInTreatment');
+    expect(pruneAnswers(a).hasSurgery).toBe(true);
+  });
+});
+
+// ── Progress ──────────────────────────────────────────────────────────────────
+
+describe('quizProgress', () => {
+  const history = ['incidentType', 'injuryTypes', 'state', 'governmentDefendant', 'incidentTimeframe', 'faultLevel', 'receivedTreatment'] as const;
+
+  it('counts the visited questions plus those still ahead', () => {
+    expect(quizProgress([...history], answers({ receivedTreatment: 'er_doctor' }))).toEqual({ step: 7, total: 15 });
+  });
+
+  it('shrinks the total when an answer skips questions', () => {
+    expect(quizProgress([...history], answers({ receivedTreatment: 'none' }))).toEqual({ step: 7, total: 12 });
+  });
+
+  it('does not count skipped questions', () => {
+    expect(quizProgress([...history], answers({ receivedTreatment: 'er_doctor' }), undefined, ['hasSurgery'])).toEqual({ step: 7, total: 14 });
+  });
+});
+
+// ── Pruning ───────────────────────────────────────────────────────────────────
+
+describe('pruneAnswers', () => {
+  it('clears answers to questions the current path skips', () => {
+    const pruned = pruneAnswers(answers({
+      incidentType:      'slip_fall',
+      medMalType:        'misdiagnosis',
+      receivedTreatment: 'none',
+      hasSurgery:        true,
+      hospitalized:      true,
+    }));
+    expect(pruned).toMatchObject({ medMalType: null, hasSurgery: null, hospitalized: null, receivedTreatment: 'none' });
+  });
+
+  it('keeps companion fields of questions on the path', () => {
+    const pruned = pruneAnswers(answers({ missedWork: 'yes_missed', lostWages: 5_000, futureCare: 2_000 }));
+    expect(pruned).toMatchObject({ lostWages: 5_000, futureCare: 2_000 });
+  });
+});
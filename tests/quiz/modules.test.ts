@@ -0,0 +1,116 @@
+/**
+ * tests/quiz/modules.test.ts
+ * Unit tests for the incident-specific follow-up modules.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  isIncidentType,
+  parseModuleAnswers,
+  moduleLeadFields,
+  incidentDetails,
+} from '@/lib/quiz/modules';
+import { questionPath } from '@/lib/quiz/flow';
+import { calculateScore, scoreContributions, DEFAULT_SCORING_RULES } from '@/lib/quiz/scoring';
+import { rescoreLead } from '@/lib/quiz/scoringRules';
+import type { LeadScoringFields } from '@/lib/quiz/scoringRules';
+import type { FsLead } from '@/lib/firebase/types';
+import type { QuizAnswers } from '@/lib/quiz/types';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+
+const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({ ...INITIAL_ANSWERS, ...overrides });
+
+// ── Questions ─────────────────────────────────────────────────────────────────
+
+describe('module questions', () => {
+  it('asks each incident type only its own follow-ups', () => {
+    const vehicle   = questionPath(answers({ incidentType: 'motor_vehicle' }));
+    const workplace = questionPath(answers({ incidentType: 'workplace' }));
+    expect(vehicle.slice(1, 3)).toEqual(['vehicleType', 'policeReport']);
+    expect(vehicle).not.toContain('workplaceClaim');
+    expect(workplace[1]).toBe('workplaceClaim');
+    expect(workplace).not.toContain('vehicleType');
+  });
+
+  it('asks no follow-ups for incident types without a module', () => {
+    expect(questionPath(answers({ incidentType: 'slip_fall' }))[1]).toBe('injuryTypes');
+  });
+});
+
+describe('isIncidentType', () => {
+  it('accepts the incident types and rejects inherited object keys', () => {
+    expect(isIncidentType('med_mal')).toBe(true);
+    expect(isIncidentType('constructor')).toBe(false);
+    expect(isIncidentType('toString')).toBe(false);
+  });
+});
+
+// ── Scoring ───────────────────────────────────────────────────────────────────
+
+describe('module scoring', () => {
+  it('scores a commercial vehicle with a police report', () => {
+    const ids = scoreContributions(answers({ incidentType: 'motor_vehicle', vehicleType: 'commercial', policeReport: 'yes' }))
+      .map(c => c.id);
+    expect(ids).toEqual(['commercial_vehicle', 'police_report']);
+  });
+
+  it('scores a third-party workplace claim but not workers\' comp alone', () => {
+    expect(calculateScore(answers({ incidentType: 'workplace', workplaceClaim: 'third_party' }))).toBe(20);
+    expect(calculateScore(answers({ incidentType: 'workplace', workplaceClaim: 'workers_comp' }))).toBe(0);
+  });
+
+  it('ignores answers from another incident type\'s module', () => {
+    expect(calculateScore(answers({ incidentType: 'slip_fall', vehicleType: 'commercial', policeReport: 'yes' }))).toBe(0);
+  });
+
+  it('recovers module answers when rescoring a stored lead', () => {
+    const lead: LeadScoringFields = {
+      surgery: false, hospitalized: false, lost_wages_estimate: 0, still_treating: false,
+      insurance_contacted: false, missed_work: false, state: 'Ohio', fault_level: 'none',
+      incident_type: 'med_mal', med_mal_second_opinion: true,
+    };
+    const rules = { ...DEFAULT_SCORING_RULES, weights: { ...DEFAULT_SCORING_RULES.weights, med_mal_opinion: 40 } };
+    expect(rescoreLead(lead, rules).score).toBe(40);
+  });
+});
+
+// ── Server parsing and storage ────────────────────────────────────────────────
+
+describe('parseModuleAnswers', () => {
+  it('reads only the lead\'s own module and only offered values', () => {
+    const body = { vehicleType: 'rideshare', policeReport: 'maybe', workplaceClaim: 'third_party' };
+    expect(parseModuleAnswers(body, 'motor_vehicle')).toEqual({ vehicleType: 'rideshare' });
+  });
+
+  it('parses yes/no options to booleans', () => {
+    expect(parseModuleAnswers({ medMalSecondOpinion: 'false' }, 'med_mal')).toEqual({ medMalSecondOpinion: false });
+    expect(parseModuleAnswers({ medMalSecondOpinion: true }, 'med_mal')).toEqual({ medMalSecondOpinion: true });
+  });
+
+  it('returns nothing without a module', () => {
+    expect(parseModuleAnswers({ vehicleType: 'rideshare' }, null)).toEqual({});
+  });
+});
+
+describe('moduleLeadFields', () => {
+  it('stores the lead\'s module answers and nulls every other module field', () => {
+    const fields = moduleLeadFields(answers({ incidentType: 'workplace', workplaceClaim: 'both', vehicleType: 'commercial' }));
+    expect(fields).toMatchObject({ workplace_claim: 'both', vehicle_type: null, police_report: null, med_mal_type: null });
+  });
+});
+
+describe('incidentDetails', () => {
+  const lead = (overrides: Partial<FsLead>) => overrides as FsLead;
+
+  it('labels the incident and its module answers', () => {
+    expect(incidentDetails(lead({ incident_type: 'motor_vehicle', vehicle_type: 'rideshare', police_report: null }))).toEqual([
+      { label: 'Incident',      value: 'Car / Vehicle Accident' },
+      { label: 'Vehicle',       value: 'A rideshare' },
+      { label: 'Police Report', value: '—' },
+    ]);
+  });
+
+  it('is empty for leads without an incident type', () => {
+    expect(incidentDetails(lead({ incident_type: null }))).toEqual([]);
+  });
+});
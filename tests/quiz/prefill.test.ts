@@ -0,0 +1,83 @@
+/**
+ * tests/quiz/prefill.test.ts
+ * Unit tests for carrying widget answers into the quiz.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import { prefillHref, parsePrefill, parseTouchpoints, skippedQuestions } from '@/lib/quiz/prefill';
+import type { EstimatorInputs } from '@/lib/estimator/types';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+import { isUsState } from '@/lib/quiz/questions';
+
+const inputs: EstimatorInputs = {
+  injuryTypes:     ['fracture', 'tbi'],
+  hasSurgery:      true,
+  lostWages:       12_000,
+  state:           'New York',
+  medicalBills:    8_500,
+  futureCare:      0,
+  atFaultCoverage: 'state_minimum',
+  umCoverage:      null,
+};
+
+// ── Round trip ────────────────────────────────────────────────────────────────
+
+describe('prefillHref / parsePrefill', () => {
+  it('carries the widget inputs into quiz answers', () => {
+    const href = prefillHref('/quiz', inputs);
+    expect(href.startsWith('/quiz?from=widget&')).toBe(true);
+    expect(parsePrefill(href.split('?')[1])).toEqual({
+      injuryTypes:     ['tbi', 'fracture'],
+      hasSurgery:      true,
+      lostWages:       12_000,
+      medicalBills:    8_500,
+      state:           'New York',
+      atFaultCoverage: 'state_minimum',
+    });
+  });
+
+  it('keeps an existing query string and hash', () => {
+    const href = prefillHref('https://example.com/quiz?utm=ad#top', { ...inputs, hasSurgery: false });
+    expect(href).toMatch(/^https:\/\/example\.com\/quiz\?utm=ad&from=widget&.*#top$/);
+    expect(parsePrefill(new URL(href).search)?.hasSurgery).toBe(false);
+  });
+
+  it('passes a non-English language on to the quiz', () => {
+    expect(new URL(prefillHref('https://example.com/quiz', inputs, 'es')).searchParams.get('lang')).toBe('es');
+    expect(new URL(prefillHref('https://example.com/quiz', inputs, 'en')).searchParams.has('lang')).toBe(false);
+  });
+
+  it('ignores URLs that did not come from the widget', () => {
+    expect(parsePrefill('?injuries=fracture&surgery=1')).toBeNull();
+  });
+
+  it('drops unknown and malformed values', () => {
+    expect(parsePrefill('?from=widget&injuries=burn,spinal&surgery=yes&wages=-5&bills=abc&state=Atlantis&coverage=huge'))
+      .toEqual({ injuryTypes: ['spinal'] });
+  });
+
+  it('accepts only full US state names, as the widget\'s ?state= does', () => {
+    expect(isUsState('Texas')).toBe(true);
+    expect(isUsState('Atlantis')).toBe(false);
+    expect(isUsState('constructor')).toBe(false);
+    expect(isUsState(['Texas'])).toBe(false);
+    expect(parsePrefill('?from=widget&injuries=tbi&state=constructor')).toEqual({ injuryTypes: ['tbi'] });
+  });
+});
+
+// ── Skips and touchpoints ─────────────────────────────────────────────────────
+
+describe('skippedQuestions', () => {
+  it('skips surgery for widget visitors once it is answered', () => {
+    expect(skippedQuestions(['widget'], { ...INITIAL_ANSWERS, hasSurgery: false })).toEqual(['hasSurgery']);
+    expect(skippedQuestions(['widget'], INITIAL_ANSWERS)).toEqual([]);
+    expect(skippedQuestions([], { ...INITIAL_ANSWERS, hasSurgery: true })).toEqual([]);
+  });
+});
+
+describe('parseTouchpoints', () => {
+  it('ends with the submitting funnel and drops duplicates and junk', () => {
+    expect(parseTouchpoints(['widget', 'widget', 'quiz', 'banner'], 'quiz')).toEqual(['widget', 'quiz']);
+    expect(parseTouchpoints(undefined, 'widget')).toEqual(['widget']);
+  });
+});
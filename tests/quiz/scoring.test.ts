@@ -9,9 +9,23 @@ import {
   scoreTier,
   checkDisqualifier,
   calculateQuizEstimate,
+  calculateQuizBreakdown,
+  calculateQuizSpecialsBreakdown,
+  calculateQuizCollectible,
+  scoreContributions,
+  DEFAULT_SCORING_RULES,
   DISQUALIFIER_MESSAGES,
 } from '@/lib/quiz/scoring';
+import {
+  scoringRulesError,
+  toScoringRulesDraft,
+  rescoreLead,
+  scoreVersionLabel,
+} from '@/lib/quiz/scoringRules';
+import type { LeadScoringFields } from '@/lib/quiz/scoringRules';
 import type { QuizAnswers } from '@/lib/quiz/types';
+import { INITIAL_ANSWERS } from '@/lib/quiz/types';
+import { DEFAULT_STATE_MULTIPLIERS } from '@/lib/estimator/stateAdjustments';
 
 // ── Fixtures ──────────────────────────────────────────────────────────────────
 
@@ -208,6 +222,230 @@ describe('calculateQuizEstimate', () => {
   });
 });
 
+describe('calculateQuizEstimate — injury question', () => {
+  const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({ ...INITIAL_ANSWERS, ...overrides });
+
+  it('values a TBI without surgery as a TBI, not soft tissue', () => {
+    expect(calculateQuizEstimate(answers({ injuryTypes: ['tbi'] }))).toEqual({ low: 75_000, high: 500_000 });
+  });
+
+  it('does not infer the injury from surgery or hospitalization', () => {
+    const soft = calculateQuizEstimate(answers({ injuryTypes: ['soft_tissue'], hospitalized: true }));
+    expect(soft).toEqual({ low: 8_000, high: 25_000 });
+  });
+
+  it('adds secondary injuries like the widget does', () => {
+    const breakdown = calculateQuizBreakdown(answers({ injuryTypes: ['soft_tissue', 'fracture'] }));
+    expect(breakdown.baseRange.label).toMatch(/fracture/);
+    expect(breakdown.secondaryInjuries).toHaveLength(1);
+  });
+
+  it('previews as soft tissue before the injury question is answered', () => {
+    expect(calculateQuizEstimate(answers())).toEqual({ low: 8_000, high: 25_000 });
+  });
+});
+
+describe('calculateQuizEstimate — state adjustments', () => {
+  const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({
+    ...INITIAL_ANSWERS,
+    injuryTypes:  ['fracture'],
+    hospitalized: true,
+    ...overrides,
+  });
+
+  it('uses national ranges when no state is answered', () => {
+    expect(calculateQuizEstimate(answers())).toEqual({ low: 20_000, high: 75_000 });
+  });
+
+  it('applies the state multiplier', () => {
+    const m = DEFAULT_STATE_MULTIPLIERS['Illinois'];
+    expect(calculateQuizEstimate(answers({ state: 'Illinois' })))
+      .toEqual({ low: Math.round(20_000 * m), high: Math.round(75_000 * m) });
+  });
+
+  it('values the same answers differently in California and Texas', () => {
+    const ca = calculateQuizEstimate(answers({ state: 'California' }));
+    const tx = calculateQuizEstimate(answers({ state: 'Texas' }));
+    expect(ca.high).toBeGreaterThan(tx.high);
+  });
+});
+
+describe('comparative fault', () => {
+  const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({
+    ...INITIAL_ANSWERS,
+    hasSurgery:   true,
+    hospitalized: true,
+    ...overrides,
+  });
+
+  it('disqualifies only where the state rule bars recovery', () => {
+    expect(checkDisqualifier(answers({ faultLevel: 'partial', state: 'Virginia' }))).toBe('at_fault');
+    expect(checkDisqualifier(answers({ faultLevel: 'partial', state: 'Texas' }))).toBeNull();
+    expect(checkDisqualifier(answers({ faultLevel: 'mostly',  state: 'California' }))).toBeNull();
+    expect(checkDisqualifier(answers({ faultLevel: 'mostly',  state: 'Texas' }))).toBe('at_fault');
+  });
+
+  it('reduces the estimate by the fault share', () => {
+    const clean  = calculateQuizEstimate(answers({ faultLevel: 'none',    state: 'Ohio' }));
+    const shared = calculateQuizEstimate(answers({ faultLevel: 'partial', state: 'Ohio' }));
+    expect(shared.low).toBe(Math.round(clean.low * 0.7));
+    expect(shared.high).toBe(Math.round(clean.high * 0.7));
+  });
+
+  it('reduces the score by the fault share', () => {
+    const clean  = calculateScore(answers({ faultLevel: 'none',   state: 'New York' }));
+    const shared = calculateScore(answers({ faultLevel: 'mostly', state: 'New York' }));
+    expect(shared).toBe(Math.round(clean * 0.3));
+  });
+});
+
+describe('calculateQuizBreakdown', () => {
+  const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({
+    ...INITIAL_ANSWERS,
+    hasSurgery: true,
+    lostWages:  8_000,
+    ...overrides,
+  });
+
+  it('totals to the quiz estimate', () => {
+    const a = answers({ state: 'Florida', faultLevel: 'partial' });
+    expect(calculateQuizBreakdown(a).total).toEqual(calculateQuizEstimate(a));
+  });
+
+  it('lists comparative fault as a multiplier on the whole range', () => {
+    const { multipliers } = calculateQuizBreakdown(answers({ state: 'Vermont', faultLevel: 'partial' }));
+    expect(multipliers.map(m => m.id)).toEqual(['surgery', 'comparative_fault']);
+    expect(multipliers[1]).toMatchObject({ factor: 0.7, appliesTo: 'total' });
+  });
+
+  it('omits the fault multiplier when the lead is not at fault', () => {
+    const { multipliers } = calculateQuizBreakdown(answers({ faultLevel: 'none' }));
+    expect(multipliers.some(m => m.id === 'comparative_fault')).toBe(false);
+  });
+});
+
+describe('calculateQuizSpecialsBreakdown', () => {
+  it('returns null when no medical costs were entered', () => {
+    expect(calculateQuizSpecialsBreakdown(INITIAL_ANSWERS)).toBeNull();
+  });
+
+  it('values medical costs and applies comparative fault', () => {
+    const clean  = calculateQuizSpecialsBreakdown({ ...INITIAL_ANSWERS, medicalBills: 20_000, futureCare: 5_000 })!;
+    const shared = calculateQuizSpecialsBreakdown({ ...INITIAL_ANSWERS, medicalBills: 20_000, futureCare: 5_000, faultLevel: 'partial' })!;
+    expect(clean.baseRange.low).toBe(25_000);
+    expect(shared.total.high).toBe(Math.round(clean.total.high * 0.7));
+  });
+});
+
+describe('calculateQuizCollectible', () => {
+  const answers = (overrides: Partial<QuizAnswers> = {}): QuizAnswers => ({
+    ...INITIAL_ANSWERS,
+    hasSurgery: true,
+    state:      'Ohio',
+    ...overrides,
+  });
+
+  it('assumes state-minimum coverage for vehicle incidents', () => {
+    const result = calculateQuizCollectible(answers({ incidentType: 'motor_vehicle' }));
+    expect(result).toMatchObject({ assumed: true, capped: true, limit: 25_000 });
+  });
+
+  it('does not assume a limit for other incidents', () => {
+    const result = calculateQuizCollectible(answers({ incidentType: 'slip_fall' }));
+    expect(result).toMatchObject({ assumed: false, capped: false, limit: null });
+  });
+
+  it('uses the limits the lead reported', () => {
+    const result = calculateQuizCollectible(answers({ incidentType: 'motor_vehicle', atFaultCoverage: '100k', umCoverage: '50k' }));
+    expect(result.limit).toBe(150_000);
+  });
+});
+
+// ── Versioned scoring rules ───────────────────────────────────────────────────
+
+describe('scoring rules', () => {
+  const answers: QuizAnswers = {
+    ...INITIAL_ANSWERS,
+    hasSurgery:        true,
+    missedWork:        'yes_cant_work',
+    receivedTreatment: 'er_doctor',
+  };
+  const custom = {
+    ...DEFAULT_SCORING_RULES,
+    version: 3,
+    weights: { ...DEFAULT_SCORING_RULES.weights, surgery: 80 },
+    hotThreshold:  100,
+    warmThreshold: 60,
+  };
+  const draft = () => ({
+    weights:            { ...DEFAULT_SCORING_RULES.weights },
+    lostWagesThreshold: 10_000,
+    hotThreshold:       75,
+    warmThreshold:      50,
+  });
+
+  it('lists the points each matched factor contributed', () => {
+    expect(scoreContributions(answers)).toEqual([
+      { id: 'surgery',   label: expect.any(String), points: 50 },
+      { id: 'cant_work', label: expect.any(String), points: 15 },
+      { id: 'er_doctor', label: expect.any(String), points: 10 },
+    ]);
+  });
+
+  it('scores and tiers with custom weights and thresholds', () => {
+    expect(calculateScore(answers)).toBe(75);
+    expect(calculateScore(answers, custom)).toBe(105);
+    expect(scoreTier(75)).toBe('HOT');
+    expect(scoreTier(75, custom)).toBe('WARM');
+    expect(scoreTier(59, custom)).toBe('COLD');
+  });
+
+  it('accepts the built-in rules as a valid draft', () => {
+    expect(scoringRulesError(draft())).toBeNull();
+  });
+
+  it('rejects missing weights, fractional weights and inverted thresholds', () => {
+    const { surgery: _omit, ...partial } = DEFAULT_SCORING_RULES.weights;
+    expect(scoringRulesError({ ...draft(), weights: partial })).toMatch(/surgery/);
+    expect(scoringRulesError({ ...draft(), weights: { ...draft().weights, hospitalized: 12.5 } })).toMatch(/hospitalized/);
+    expect(scoringRulesError({ ...draft(), hotThreshold: 50, warmThreshold: 50 })).toMatch(/WARM below HOT/);
+    expect(scoringRulesError(null)).not.toBeNull();
+  });
+
+  it('drops unknown fields from a draft', () => {
+    const input = { ...draft(), version: 9, weights: { ...draft().weights, bogus: 5 } };
+    const clean = toScoringRulesDraft(input as ReturnType<typeof draft>);
+    expect(clean).not.toHaveProperty('version');
+    expect(clean.weights).not.toHaveProperty('bogus');
+  });
+
+  it('rescores a stored lead from its recorded contributions', () => {
+    const lead: LeadScoringFields = {
+      surgery: true, hospitalized: false, lost_wages_estimate: 0, still_treating: false,
+      insurance_contacted: false, missed_work: true, state: 'Ohio', fault_level: 'none',
+      score_contributions: { surgery: 50, cant_work: 15, er_doctor: 10 },
+    };
+    expect(rescoreLead(lead, DEFAULT_SCORING_RULES)).toEqual({
+      score: 75, tier: 'HOT', contributions: { surgery: 50, cant_work: 15, er_doctor: 10 },
+    });
+    expect(rescoreLead(lead, custom)).toMatchObject({ score: 105, tier: 'HOT' });
+  });
+
+  it('treats a legacy lead without contributions as plain missed work', () => {
+    const lead: LeadScoringFields = {
+      surgery: false, hospitalized: true, lost_wages_estimate: 0, still_treating: false,
+      insurance_contacted: false, missed_work: true, state: 'Ohio', fault_level: 'none',
+    };
+    expect(rescoreLead(lead, DEFAULT_SCORING_RULES).contributions).toEqual({ hospitalized: 30, missed_work: 10 });
+  });
+
+  it('labels built-in, published and unrecorded versions', () => {
+    expect(scoreVersionLabel(0)).toBe('v0 (built-in)');
+    expect(scoreVersionLabel(4)).toBe('v4');
+    expect(scoreVersionLabel(undefined)).toMatch(/Not recorded/);
+  });
+});
+
 // ── DISQUALIFIER_MESSAGES ─────────────────────────────────────────────────────
 
 describe('DISQUALIFIER_MESSAGES', () => {
@@ -0,0 +1,139 @@
+/**
+ * tests/rateLimit/rateLimit.test.ts
+ * Unit tests for the sliding-window limiter, the in-memory backend,
+ * per-route key checks (including failing closed when the backend errors)
+ * and reading the client IP from X-Forwarded-For.
+ * Runs in Node environment with no network calls.
+ */
+
+import {
+  FAIL_CLOSED_RETRY_S,
+  RATE_LIMITS,
+  checkRateLimits,
+  createMemoryBackend,
+  forwardedClientIp,
+  slidingWindow,
+} from '@/lib/rateLimit';
+import type { RateLimitBackend } from '@/lib/rateLimit';
+
+const RULE = { limit: 3, windowMs: 60_000 };
+const NOW  = 1_700_000_000_000;
+
+describe('forwardedClientIp', () => {
+  it('takes the entry the trusted proxy appended, not the client\'s', () => {
+    expect(forwardedClientIp('6.6.6.6, 203.0.113.7', 1)).toBe('203.0.113.7');
+    expect(forwardedClientIp('203.0.113.7', 1)).toBe('203.0.113.7');
+    expect(forwardedClientIp('6.6.6.6, 203.0.113.7, 10.0.0.2', 2)).toBe('203.0.113.7');
+  });
+
+  it('returns null without a usable header or trusted proxy', () => {
+    expect(forwardedClientIp(null, 1)).toBeNull();
+    expect(forwardedClientIp('203.0.113.7', 2)).toBeNull();
+    expect(forwardedClientIp('203.0.113.7', 0)).toBeNull();
+  });
+});
+
+describe('slidingWindow', () => {
+  it('records hits until the limit', () => {
+    const first = slidingWindow([], RULE, NOW);
+    expect(first.decision).toEqual({ allowed: true, remaining: 2, retryAfterS: 0 });
+    expect(first.hits).toEqual([NOW]);
+
+    const third = slidingWindow([NOW - 2_000, NOW - 1_000], RULE, NOW);
+    expect(third.decision).toEqual({ allowed: true, remaining: 0, retryAfterS: 0 });
+  });
+
+  it('refuses at the limit until the oldest hit leaves the window', () => {
+    const hits = [NOW - 50_000, NOW - 20_000, NOW - 10_000];
+    const next = slidingWindow(hits, RULE, NOW);
+    expect(next.decision).toEqual({ allowed: false, remaining: 0, retryAfterS: 10 });
+    expect(next.hits).toEqual(hits);
+  });
+
+  it('drops hits outside the window', () => {
+    const next = slidingWindow([NOW - 90_000, NOW - 60_000, NOW - 5_000], RULE, NOW);
+    expect(next.decision.allowed).toBe(true);
+    expect(next.hits).toEqual([NOW - 5_000, NOW]);
+  });
+});
+
+describe('createMemoryBackend', () => {
+  it('keeps a separate window per key', async () => {
+    const backend = createMemoryBackend();
+    for (let i = 0; i < RULE.limit; i++) {
+      expect((await backend.take('a', RULE, NOW + i)).allowed).toBe(true);
+    }
+    expect((await backend.take('a', RULE, NOW + 10)).allowed).toBe(false);
+    expect((await backend.take('b', RULE, NOW + 10)).allowed).toBe(true);
+    expect((await backend.take('a', RULE, NOW + RULE.windowMs)).allowed).toBe(true);
+  });
+});
+
+describe('checkRateLimits', () => {
+  it('refuses on the first key over its limit', async () => {
+    const backend = createMemoryBackend();
+    const { limit } = RATE_LIMITS.bookings.phone!;
+    for (let i = 0; i < limit; i++) {
+      await checkRateLimits(backend, 'bookings', { ip: `10.0.0.${i}`, phone: '5558675309' }, NOW);
+    }
+
+    const result = await checkRateLimits(backend, 'bookings', { ip: '10.0.0.99', phone: '5558675309' }, NOW);
+    expect(result).toMatchObject({ allowed: false, scope: 'phone' });
+  });
+
+  it('keys routes separately and skips missing keys', async () => {
+    const taken: string[] = [];
+    const backend: RateLimitBackend = {
+      async take(key) { taken.push(key); return { allowed: true, remaining: 1, retryAfterS: 0 }; },
+    };
+
+    expect(await checkRateLimits(backend, 'sms_send', { ip: '1.2.3.4', device: null, phone: '5558675309' }, NOW))
+      .toEqual({ allowed: true });
+    expect(taken).toEqual(['sms_send:ip:1.2.3.4', 'sms_send:phone:5558675309']);
+  });
+
+  it('limits resume-link emails per recipient across IPs', async () => {
+    const backend = createMemoryBackend();
+    const { limit } = RATE_LIMITS.quiz_draft.email!;
+    for (let i = 0; i < limit; i++) {
+      await checkRateLimits(backend, 'quiz_draft', { ip: `10.0.0.${i}`, email: 'victim@example.com' }, NOW);
+    }
+
+    expect(await checkRateLimits(backend, 'quiz_draft', { ip: '10.0.0.99', email: 'victim@example.com' }, NOW))
+      .toMatchObject({ allowed: false, scope: 'email' });
+    expect(await checkRateLimits(backend, 'quiz_draft', { ip: '10.0.0.99', email: 'other@example.com' }, NOW))
+      .toEqual({ allowed: true });
+  });
+
+  it('limits funnel events per IP only', async () => {
+    const taken: string[] = [];
+    const backend: RateLimitBackend = {
+      async take(key) { taken.push(key); return { allowed: true, remaining: 1, retryAfterS: 0 }; },
+    };
+
+    await checkRateLimits(backend, 'funnel_events', { ip: '1.2.3.4', device: 'dev' }, NOW);
+    expect(taken).toEqual(['funnel_events:ip:1.2.3.4']);
+  });
+
+  it('stops checking after a refusal', async () => {
+    const taken: string[] = [];
+    const backend: RateLimitBackend = {
+      async take(key) { taken.push(key); return { allowed: false, remaining: 0, retryAfterS: 42 }; },
+    };
+
+    expect(await checkRateLimits(backend, 'sms_verify', { ip: '1.2.3.4', device: 'dev', phone: '5558675309' }, NOW))
+      .toEqual({ allowed: false, scope: 'ip', retryAfterS: 42 });
+    expect(taken).toHaveLength(1);
+  });
+
+  it('fails closed when the backend throws', async () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const backend: RateLimitBackend = {
+      async take() { throw new Error('unavailable'); },
+    };
+
+    expect(await checkRateLimits(backend, 'attorney_inquiry', { ip: '1.2.3.4' }, NOW))
+      .toEqual({ allowed: false, scope: null, retryAfterS: FAIL_CLOSED_RETRY_S });
+    spy.mockRestore();
+  });
+});
@@ -44,23 +44,23 @@ describe('normalizePhone', () => {
 });
 
 describe('generateCode', () => {
-  it('always produces a 4-character string', () => {
+  it('always produces a 6-character string', () => {
     for (let i = 0; i < 100; i++) {
       const code = generateCode();
-      expect(code).toHaveLength(4);
+      expect(code).toHaveLength(6);
     }
   });
 
   it('only contains digit characters', () => {
     for (let i = 0; i < 100; i++) {
-      expect(generateCode()).toMatch(/^\d{4}$/);
+      expect(generateCode()).toMatch(/^\d{6}$/);
     }
   });
 
-  it('zero-pads codes below 1000', () => {
+  it('zero-pads codes below 100000', () => {
     // We can't force the RNG, but we can verify the format holds
     const code = generateCode();
-    expect(code).toMatch(/^\d{4}$/);
+    expect(code).toMatch(/^\d{6}$/);
   });
 });
 
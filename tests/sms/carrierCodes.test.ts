@@ -0,0 +1,80 @@
+/**
+ * tests/sms/carrierCodes.test.ts
+ * Unit tests for learning the delivering carrier from per-gateway codes,
+ * the cached-carrier send plan, and per-carrier delivery / verification rates.
+ * Runs in Node environment with no network calls.
+ */
+
+import crypto from 'crypto';
+import { assignGatewayCodes, carrierRates, gatewaysFor, matchGatewayCode } from '@/lib/sms/carrierCodes';
+import { hashCode } from '@/lib/sms/codeHash';
+
+const SECRET   = 'test-secret';
+const PHONE    = '5558675309';
+const GATEWAYS = ['txt.att.net', 'vtext.com', 'tmomail.net'];
+
+const gatewayDoc = (codes: Record<string, string>) => ({
+  phone:         PHONE,
+  gateway_codes: Object.entries(codes).map(([carrier, code]) => ({ carrier, ...hashCode(PHONE, code, SECRET) })),
+});
+
+describe('assignGatewayCodes', () => {
+  it('gives every gateway a different code', () => {
+    const seq   = ['111111', '111111', '222222', '111111', '333333'];
+    const codes = assignGatewayCodes(GATEWAYS, () => seq.shift()!);
+    expect(codes).toEqual({ 'txt.att.net': '111111', 'vtext.com': '222222', 'tmomail.net': '333333' });
+  });
+});
+
+describe('matchGatewayCode', () => {
+  const doc = gatewayDoc({ 'txt.att.net': '111111', 'vtext.com': '222222', 'tmomail.net': '333333' });
+
+  it('names the gateway whose code was entered', () => {
+    expect(matchGatewayCode(doc, '222222', SECRET)).toBe('vtext.com');
+    expect(matchGatewayCode(doc, '333333', SECRET)).toBe('tmomail.net');
+  });
+
+  it('returns null for a wrong code or a code for another phone', () => {
+    expect(matchGatewayCode(doc, '444444', SECRET)).toBeNull();
+    expect(matchGatewayCode({ ...doc, phone: '5550001111' }, '111111', SECRET)).toBeNull();
+    expect(matchGatewayCode({ phone: PHONE }, '111111', SECRET)).toBeNull();
+  });
+
+  it('checks every gateway even after a match', () => {
+    const spy = jest.spyOn(crypto, 'timingSafeEqual');
+    matchGatewayCode(doc, '111111', SECRET);
+    expect(spy).toHaveBeenCalledTimes(GATEWAYS.length);
+    spy.mockRestore();
+  });
+});
+
+describe('gatewaysFor', () => {
+  it('texts only the cached carrier on a first send', () => {
+    expect(gatewaysFor('vtext.com', false, GATEWAYS)).toEqual(['vtext.com']);
+  });
+
+  it('blasts every gateway on a resend or with no cached carrier', () => {
+    expect(gatewaysFor('vtext.com', true, GATEWAYS)).toEqual(GATEWAYS);
+    expect(gatewaysFor(null, false, GATEWAYS)).toEqual(GATEWAYS);
+  });
+});
+
+describe('carrierRates', () => {
+  it('combines gateway acceptance with verifications per carrier', () => {
+    const sends = [
+      { carriers: [{ carrier: 'vtext.com', accepted: true }, { carrier: 'txt.att.net', accepted: false }] },
+      { carriers: [{ carrier: 'vtext.com', accepted: true }] },
+      { carriers: null },
+    ];
+    const codes = [
+      { gateway_codes: [{ carrier: 'vtext.com', code_hash: '', code_salt: '' }, { carrier: 'txt.att.net', code_hash: '', code_salt: '' }], carrier: 'vtext.com' },
+      { gateway_codes: [{ carrier: 'vtext.com', code_hash: '', code_salt: '' }], carrier: null },
+      {},
+    ];
+
+    expect(carrierRates(sends, codes)).toEqual([
+      { carrier: 'vtext.com',   label: 'Verizon', attempted: 2, accepted: 2, deliveryRate: 1, codes: 2, verified: 1, verifyRate: 0.5 },
+      { carrier: 'txt.att.net', label: 'AT&T',    attempted: 1, accepted: 0, deliveryRate: 0, codes: 1, verified: 0, verifyRate: 0 },
+    ]);
+  });
+});
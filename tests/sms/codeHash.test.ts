@@ -0,0 +1,83 @@
+/**
+ * tests/sms/codeHash.test.ts
+ * Unit tests for verification codes at rest: salted HMACs, tampered docs,
+ * legacy plaintext docs, and constant-time comparison.
+ * Runs in Node environment with no network calls.
+ */
+
+import crypto from 'crypto';
+import { codeMatches, hashCode } from '@/lib/sms/codeHash';
+
+const SECRET = 'test-secret';
+const PHONE  = '5558675309';
+
+const stored = (code = '123456') => ({ phone: PHONE, ...hashCode(PHONE, code, SECRET) });
+
+describe('hashCode', () => {
+  it('never stores the code itself', () => {
+    const doc = stored('123456');
+    expect(JSON.stringify(doc)).not.toContain('123456');
+    expect(doc.code_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('salts every hash', () => {
+    expect(stored('123456').code_hash).not.toBe(stored('123456').code_hash);
+  });
+});
+
+describe('codeMatches', () => {
+  it('accepts the right code only', () => {
+    const doc = stored('123456');
+    expect(codeMatches(doc, '123456', SECRET)).toBe(true);
+    expect(codeMatches(doc, '123457', SECRET)).toBe(false);
+    expect(codeMatches(doc, '', SECRET)).toBe(false);
+  });
+
+  it('rejects tampered docs', () => {
+    const doc  = stored('123456');
+    const flip = (hex: string) => (hex[0] === 'a' ? 'b' : 'a') + hex.slice(1);
+
+    expect(codeMatches({ ...doc, code_hash: flip(doc.code_hash) }, '123456', SECRET)).toBe(false);
+    expect(codeMatches({ ...doc, code_salt: flip(doc.code_salt) }, '123456', SECRET)).toBe(false);
+    expect(codeMatches({ ...doc, code_hash: doc.code_hash.slice(0, 10) }, '123456', SECRET)).toBe(false);
+    expect(codeMatches({ ...doc, code_hash: 'not hex' }, '123456', SECRET)).toBe(false);
+    expect(codeMatches({ phone: PHONE }, '123456', SECRET)).toBe(false);
+  });
+
+  it('rejects a hash copied onto another phone', () => {
+    const mine = { ...stored('123456'), phone: '5550001111' };
+    expect(codeMatches(mine, '123456', SECRET)).toBe(false);
+  });
+
+  it('rejects hashes made with another secret', () => {
+    expect(codeMatches(stored('123456'), '123456', 'other-secret')).toBe(false);
+  });
+
+  it('still verifies legacy plaintext docs until they are migrated', () => {
+    expect(codeMatches({ phone: PHONE, code: '123456' }, '123456', SECRET)).toBe(true);
+    expect(codeMatches({ phone: PHONE, code: '123456' }, '12345', SECRET)).toBe(false);
+  });
+});
+
+describe('constant-time comparison', () => {
+  let spy: jest.SpyInstance;
+  beforeEach(() => { spy = jest.spyOn(crypto, 'timingSafeEqual'); });
+  afterEach(() => spy.mockRestore());
+
+  it('compares full-length digests whichever digit is wrong', () => {
+    const doc = stored('123456');
+    for (const guess of ['023456', '123450', '999999', '123456']) codeMatches(doc, guess, SECRET);
+
+    expect(spy).toHaveBeenCalledTimes(4);
+    for (const [a, b] of spy.mock.calls) {
+      expect((a as Buffer).length).toBe(32);
+      expect((b as Buffer).length).toBe(32);
+    }
+  });
+
+  it('hides a legacy code’s length behind fixed-length digests', () => {
+    codeMatches({ phone: PHONE, code: '1234' }, '123456', SECRET);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect((spy.mock.calls[0][0] as Buffer).length).toBe(32);
+  });
+});
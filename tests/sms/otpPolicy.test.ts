@@ -0,0 +1,81 @@
+/**
+ * tests/sms/otpPolicy.test.ts
+ * Unit tests for the shared OTP policy: code format, wrong guesses allowed,
+ * and the server-side resend cooldown and hourly cap.
+ * Runs in Node environment (no browser APIs needed).
+ */
+
+import {
+  OTP_MAX_RESENDS, OTP_POLICY, attemptsRemaining, formatCountdown, isOtpCode, otpDigits, otpSendBlock,
+} from '@/lib/sms/otpPolicy';
+import { CODE_TTL_MS, MAX_ATTEMPTS, RESEND_COOLDOWN_S, generateCode } from '@/lib/sms';
+import { messages } from '@/lib/i18n';
+
+const NOW    = 1_700_000_000_000;
+const SECOND = 1_000;
+const MINUTE = 60 * SECOND;
+
+describe('codes', () => {
+  it('generates codes the verifier accepts', () => {
+    for (let i = 0; i < 50; i++) expect(isOtpCode(generateCode())).toBe(true);
+  });
+
+  it('rejects other lengths and non-digits', () => {
+    expect(isOtpCode('1234')).toBe(false);
+    expect(isOtpCode('1234567')).toBe(false);
+    expect(isOtpCode('12a456')).toBe(false);
+  });
+
+  it('trims input to the code length', () => {
+    expect(otpDigits('12-34 5678')).toBe('123456');
+  });
+
+  it('counts down wrong guesses', () => {
+    expect(attemptsRemaining(1)).toBe(OTP_POLICY.maxAttempts - 1);
+    expect(attemptsRemaining(OTP_POLICY.maxAttempts + 2)).toBe(0);
+  });
+
+  it('keeps the legacy constants and the copy in step with the policy', () => {
+    expect(CODE_TTL_MS).toBe(OTP_POLICY.ttlMs);
+    expect(MAX_ATTEMPTS).toBe(OTP_POLICY.maxAttempts);
+    expect(RESEND_COOLDOWN_S).toBe(OTP_POLICY.resendCooldownS);
+    expect(messages('en').sms.enterCode).toContain(`${OTP_POLICY.length}-digit`);
+    expect(messages('es').sms.willText).toContain(`${OTP_POLICY.length} dígitos`);
+  });
+});
+
+describe('otpSendBlock', () => {
+  it('allows a first send', () => {
+    expect(otpSendBlock([], NOW)).toBeNull();
+  });
+
+  it('enforces the resend cooldown', () => {
+    expect(otpSendBlock([NOW - 20 * SECOND], NOW)).toEqual({ reason: 'cooldown', retryAfterS: OTP_POLICY.resendCooldownS - 20 });
+    expect(otpSendBlock([NOW - OTP_POLICY.resendCooldownS * SECOND], NOW)).toBeNull();
+  });
+
+  it('caps sends per hour until the oldest leaves the window', () => {
+    const sent = [NOW - 50 * MINUTE, NOW - 30 * MINUTE, NOW - 10 * MINUTE];
+    expect(otpSendBlock(sent, NOW)).toEqual({ reason: 'hourly_cap', retryAfterS: 10 * 60 });
+    expect(otpSendBlock([NOW - 2 * 60 * MINUTE, ...sent.slice(1)], NOW)).toBeNull();
+  });
+
+  it('leaves room for the client’s resends', () => {
+    const sent: number[] = [];
+    let t = NOW;
+    for (let i = 0; i <= OTP_MAX_RESENDS; i++) {
+      expect(otpSendBlock(sent, t)).toBeNull();
+      sent.push(t);
+      t += OTP_POLICY.resendCooldownS * SECOND;
+    }
+    expect(otpSendBlock(sent, t)?.reason).toBe('hourly_cap');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatCountdown(60)).toBe('1:00');
+    expect(formatCountdown(9)).toBe('0:09');
+    expect(formatCountdown(-3)).toBe('0:00');
+  });
+});
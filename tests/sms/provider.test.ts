@@ -0,0 +1,112 @@
+/**
+ * tests/sms/provider.test.ts
+ * Unit tests for SMS provider selection, the HTTP request shape, the console
+ * stand-in and per-provider send summaries.
+ * Runs in Node environment with no network calls.
+ */
+
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { smsProviderName, summarizeSmsSends } from '@/lib/sms/provider';
+import { httpProvider, httpSmsRequest } from '@/lib/sms/httpProvider';
+import { consoleProvider, outboxLine } from '@/lib/sms/consoleProvider';
+
+const message = { to: '5558675309', text: 'Your code: 123456' };
+
+describe('smsProviderName', () => {
+  it('defaults to the gateway blast', () => {
+    expect(smsProviderName(undefined)).toBe('gateway');
+    expect(smsProviderName('')).toBe('gateway');
+  });
+
+  it('accepts known providers in any case', () => {
+    expect(smsProviderName('http')).toBe('http');
+    expect(smsProviderName(' Console ')).toBe('console');
+  });
+
+  it('falls back to the gateway for unknown values', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(smsProviderName('carrier-pigeon')).toBe('gateway');
+    expect(spy).toHaveBeenCalled();
+    spy.mockRestore();
+  });
+});
+
+describe('httpSmsRequest', () => {
+  it('builds a Twilio-style form POST with Basic auth', () => {
+    const { url, init } = httpSmsRequest(message, {
+      url: 'https://sms.example.com/Messages.json', user: 'AC123', token: 'secret', from: '+15550001111',
+    });
+    const headers = init.headers as Record<string, string>;
+    const body    = new URLSearchParams(String(init.body));
+
+    expect(url).toBe('https://sms.example.com/Messages.json');
+    expect(init.method).toBe('POST');
+    expect(headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(Buffer.from(headers.Authorization.replace('Basic ', ''), 'base64').toString()).toBe('AC123:secret');
+    expect(body.get('To')).toBe('+15558675309');
+    expect(body.get('From')).toBe('+15550001111');
+    expect(body.get('Body')).toBe('Your code: 123456');
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+});
+
+describe('httpProvider', () => {
+  const env = process.env;
+  afterEach(() => { process.env = env; jest.restoreAllMocks(); });
+
+  it('counts a send that times out as failed', async () => {
+    process.env = { ...env, SMS_API_URL: 'https://sms.example.com', SMS_API_USER: 'AC123', SMS_API_TOKEN: 'secret', SMS_API_FROM: '+15550001111' };
+    jest.spyOn(global, 'fetch').mockRejectedValue(new DOMException('The operation timed out.', 'TimeoutError'));
+
+    const result = await httpProvider.send(message);
+    expect(result).toMatchObject({ provider: 'http', ok: false, accepted: 0 });
+    expect(result.error).toMatch(/No response within/);
+  });
+});
+
+describe('consoleProvider', () => {
+  const env = process.env;
+  afterEach(() => { process.env = env; });
+
+  it('writes outbox lines as JSON', () => {
+    expect(JSON.parse(outboxLine(message, 42))).toEqual({ ...message, carrier: null, timestamp: 42 });
+  });
+
+  it('appends each text to SMS_OUTBOX_FILE', async () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'sms-')), 'outbox.jsonl');
+    process.env = { ...env, SMS_OUTBOX_FILE: file };
+    const spy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await consoleProvider.send(message);
+    await consoleProvider.send({ ...message, text: 'second' });
+    spy.mockRestore();
+
+    expect(result).toMatchObject({ provider: 'console', ok: true, attempted: 1, accepted: 1, detail: file });
+    const lines = readFileSync(file, 'utf8').trim().split('\n').map(l => JSON.parse(l));
+    expect(lines.map(l => l.text)).toEqual(['Your code: 123456', 'second']);
+  });
+
+  it('refuses to stand in for a real provider in production', () => {
+    process.env = { ...env, NODE_ENV: 'production' };
+    expect(consoleProvider.isConfigured()).toBe(false);
+  });
+});
+
+describe('summarizeSmsSends', () => {
+  it('totals results per provider, busiest first', () => {
+    const send = (provider: string, ok: boolean, accepted: number, error: string | null = null) =>
+      ({ provider, ok, attempted: provider === 'gateway' ? 10 : 1, accepted, error, duration_ms: 100 });
+
+    expect(summarizeSmsSends([
+      send('http', true, 1),
+      send('gateway', true, 8, 'old bounce'),
+      send('gateway', false, 0, 'Invalid login'),
+      send('gateway', true, 10),
+    ])).toEqual([
+      { provider: 'gateway', sends: 3, failed: 1, acceptRate: 0.6, avgMs: 100, lastError: 'Invalid login' },
+      { provider: 'http',    sends: 1, failed: 0, acceptRate: 1,   avgMs: 100, lastError: null },
+    ]);
+  });
+});